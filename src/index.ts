@@ -1,20 +1,38 @@
 #!/usr/bin/env node
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import express from "express";
+import { randomUUID } from "crypto";
 import cors from "cors";
 import dotenv from "dotenv";
 import path from 'path'; // Ensure path is imported
 import { fileURLToPath } from 'url'; // Needed for ES Module path resolution
 import logger from "./logger.js";
 import { initializeToolEmbeddings } from './services/routing/embeddingStore.js';
-import { loadLlmConfigMapping } from './utils/configLoader.js'; // Import the new loader
+import { loadLlmConfigMapping, loadLlmPriceTable, loadLlmBudget } from './utils/configLoader.js'; // Import the new loader
 import { OpenRouterConfig } from './types/workflow.js'; // Import OpenRouterConfig type
 import { ToolRegistry } from './services/routing/toolRegistry.js'; // Import ToolRegistry to initialize it properly
 import { sseNotifier } from './services/sse-notifier/index.js'; // Import the SSE notifier singleton
+import { jobManager } from './services/job-manager/index.js';
+import { createJobStoreFromEnv } from './services/job-manager/jobStore.js';
+import { createJobRetentionOptionsFromEnv } from './services/job-manager/retention.js';
+import { jobScheduler, createSchedulerOptionsFromEnv } from './services/job-manager/scheduler.js';
+import { clearSessionHistory } from './services/state/sessionState.js';
+import { mcpNotifier } from './services/mcp-notifier/index.js';
+import { InMemoryEventStore } from './services/http-transport/eventStore.js';
+import { registerSseRoutes } from './services/http-transport/sseRoutes.js';
+import { createLlmProviderSettingsFromEnv, DEFAULT_LLM_PROVIDER } from './services/llm-providers/index.js';
+import { llmResilience, createLlmResilienceOptionsFromEnv } from './services/llm-providers/resilience.js';
+import { llmCache, createLlmCacheOptionsFromEnv } from './services/llm-cache/index.js';
+import { llmTranscripts, createLlmTranscriptOptionsFromEnv } from './services/llm-transcripts/index.js';
+import { usageTracker } from './services/usage-tracker/index.js';
+import { createDailyUsageStoreFromEnv } from './services/usage-tracker/dailyUsageStore.js';
+import { loadWorkflowDefinitions, configureWorkflowExecution, createWorkflowExecutionOptionsFromEnv } from './services/workflows/workflowExecutor.js';
 
 // Import createServer *after* tool imports to ensure proper initialization order
-import { createServer } from "./server.js";
+import { createServer, stdioSessionId } from "./server.js";
 
 // --- Load .env file explicitly ---
 // Get the directory name of the current module (build/index.js)
@@ -32,65 +50,129 @@ if (dotenvResult.error) {
 }
 // --- End .env loading ---
 
-// Define an interface for transports that handle POST messages
-interface TransportWithMessageHandling {
-  handlePostMessage(req: express.Request, res: express.Response): Promise<void>;
-  // Add other common transport properties/methods if needed, e.g., from SSEServerTransport
-}
-
-// Type guard to check if an object conforms to TransportWithMessageHandling
-const isMessageHandlingTransport = (t: unknown): t is TransportWithMessageHandling =>
-  t !== null && typeof t === 'object' && 'handlePostMessage' in t && typeof (t as TransportWithMessageHandling).handlePostMessage === 'function';
-
 // Determine transport based on command line arguments
 const args = process.argv.slice(2);
 const useSSE = args.includes('--sse');
+const useHTTP = args.includes('--http');
+
+// Active Streamable HTTP transports keyed by the session ID sent in the Mcp-Session-Id header.
+const httpTransports = new Map<string, StreamableHTTPServerTransport>();
+
+/**
+ * Creates the transport and MCP server for a new Streamable HTTP session.
+ * The session is registered once the client's initialize request has been handled,
+ * and its job progress is sent as MCP log notifications on the session's stream.
+ * Each session has its own event store, so a client that reconnects with
+ * Last-Event-ID gets the notifications it missed.
+ * @param createMcpServer Factory for the session's MCP server.
+ * @returns The new transport, already connected to its MCP server.
+ */
+async function createHttpSession(createMcpServer: () => McpServer): Promise<StreamableHTTPServerTransport> {
+  const mcpServer = createMcpServer();
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new InMemoryEventStore(),
+    onsessioninitialized: (sessionId: string) => {
+      httpTransports.set(sessionId, transport);
+      mcpNotifier.registerSession(sessionId, mcpServer, { jobProgressLogs: true });
+      logger.info({ sessionId, activeSessions: httpTransports.size }, 'Opened Streamable HTTP session.');
+    },
+  });
+
+  mcpServer.server.onclose = () => {
+    const sessionId = transport.sessionId;
+    if (!sessionId) return;
+    httpTransports.delete(sessionId);
+    mcpNotifier.unregisterSession(sessionId);
+    clearSessionHistory(sessionId);
+    sseNotifier.clearSession(sessionId);
+    logger.info({ sessionId, activeSessions: httpTransports.size }, 'Closed Streamable HTTP session.');
+  };
+
+  await mcpServer.connect(transport);
+  return transport;
+}
+
+/**
+ * Writes a JSON-RPC error response for requests rejected before reaching a transport.
+ * @param res The Express response.
+ * @param status The HTTP status code.
+ * @param message The error message.
+ */
+function sendJsonRpcError(res: express.Response, status: number, message: string): void {
+  res.status(status).json({ jsonrpc: '2.0', error: { code: -32000, message }, id: null });
+}
 
 // Define main function *before* it's called
-async function main(mcpServer: import("@modelcontextprotocol/sdk/server/mcp.js").McpServer) {
+async function main(createMcpServer: () => McpServer) {
   try {
-    if (useSSE) {
-      // Set up Express server for SSE
+    if (useHTTP) {
+      // Set up Express server for the Streamable HTTP transport
       const app = express();
-      app.use(cors());
+      app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
       app.use(express.json());
       const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
 
-      app.get('/sse', (req: express.Request, res: express.Response) => {
-        const transport = new SSEServerTransport('/messages', res);
-        mcpServer.connect(transport).catch((error: Error) => { // Use mcpServer
-          logger.error({ err: error }, 'Failed to connect transport');
-        });
+      // POST carries client messages; a request without a session must be an initialize request
+      app.post('/mcp', async (req: express.Request, res: express.Response) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        try {
+          let transport = sessionId ? httpTransports.get(sessionId) : undefined;
+          if (!transport) {
+            if (sessionId) {
+              return sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+            }
+            if (!isInitializeRequest(req.body)) {
+              return sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+            }
+            transport = await createHttpSession(createMcpServer);
+          }
+          await transport.handleRequest(req, res, req.body);
+        } catch (error) {
+          logger.error({ err: error, sessionId }, 'Error handling Streamable HTTP POST request');
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, 'Internal server error');
+          }
+        }
       });
 
-      app.post('/messages', async (req: express.Request, res: express.Response) => {
-         if (!req.body) {
-           return res.status(400).json({ error: 'Invalid request body' });
-         }
-         try {
-           const sessionId = req.query.sessionId as string;
-           // Find the active transport for this session from the passed server instance
-           const transport = mcpServer.server.transport; // Use mcpServer
-           if (!transport || !sessionId) {
-             return res.status(400).json({ error: 'No active SSE connection' });
-           }
-           if (isMessageHandlingTransport(transport)) {
-              await transport.handlePostMessage(req, res);
-           } else {
-              logger.error('Active transport does not support handlePostMessage or is not defined.');
-              if (!res.headersSent) {
-                   res.status(500).json({ error: 'Internal server error: Cannot handle POST message.' });
-              }
-              return;
-           }
-         } catch (error) {
-           logger.error({ err: error }, 'Error handling POST message');
-           if (!res.headersSent) {
-              res.status(500).json({ error: 'Internal server error while handling POST message.' });
-           }
-         }
+      // GET opens (or resumes, with Last-Event-ID) the session's notification stream; DELETE ends the session
+      const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+        const sessionId = req.headers['mcp-session-id'] as string | undefined;
+        if (!sessionId) {
+          return sendJsonRpcError(res, 400, 'Bad Request: Missing Mcp-Session-Id header');
+        }
+        const transport = httpTransports.get(sessionId);
+        if (!transport) {
+          return sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+        }
+        try {
+          await transport.handleRequest(req, res);
+        } catch (error) {
+          logger.error({ err: error, sessionId, method: req.method }, 'Error handling Streamable HTTP request');
+          if (!res.headersSent) {
+            sendJsonRpcError(res, 500, 'Internal server error');
+          }
+        }
+      };
+      app.get('/mcp', handleSessionRequest);
+      app.delete('/mcp', handleSessionRequest);
+
+      app.listen(port, () => {
+        logger.info(`Vibe Coder MCP server running on http://localhost:${port}`);
+        logger.info('Connect using Streamable HTTP at /mcp');
       });
 
+    } else if (useSSE) {
+      // Set up Express server for SSE
+      const app = express();
+      app.use(cors());
+      app.use(express.json());
+      const port = process.env.PORT ? parseInt(process.env.PORT) : 3000;
+
+      // Each /sse connection gets its own transport and McpServer; /messages routes to it by session ID
+      registerSseRoutes(app, createMcpServer);
+
       app.listen(port, () => {
         logger.info(`Vibe Coder MCP server running on http://localhost:${port}`);
          logger.info('Connect using SSE at /sse and post messages to /messages');
@@ -104,15 +186,19 @@ async function main(mcpServer: import("@modelcontextprotocol/sdk/server/mcp.js")
            res.status(400).send('Session ID is required.');
            return;
          }
-         logger.info({ sessionId }, `Received request to establish SSE connection for job progress.`);
-         sseNotifier.registerConnection(sessionId, res);
+         // Browsers' EventSource sends Last-Event-ID automatically when it reconnects
+         const lastEventId = req.header('Last-Event-ID');
+         logger.info({ sessionId, lastEventId }, `Received request to establish SSE connection for job progress.`);
+         sseNotifier.registerConnection(sessionId, res, lastEventId);
        });
        // --- End new SSE endpoint ---
 
      } else {
       // Use stdio transport
       const transport = new StdioServerTransport();
-      await mcpServer.connect(transport); // Use mcpServer
+      const mcpServer = createMcpServer();
+      await mcpServer.connect(transport);
+      mcpNotifier.registerSession(stdioSessionId, mcpServer);
       logger.info('Vibe Coder MCP server running on stdio');
     }
   } catch (error) {
@@ -194,7 +280,9 @@ async function initializeApp() {
       apiKey: process.env.OPENROUTER_API_KEY || "",
       geminiModel: process.env.GEMINI_MODEL || "google/gemini-2.0-flash-001",
       perplexityModel: process.env.PERPLEXITY_MODEL || "perplexity/sonar-deep-research",
-      llm_mapping: JSON.parse(JSON.stringify(llmMapping)) // Create a deep copy using JSON serialization
+      llm_mapping: JSON.parse(JSON.stringify(llmMapping)), // Create a deep copy using JSON serialization
+      defaultProvider: process.env.LLM_PROVIDER || DEFAULT_LLM_PROVIDER,
+      providers: createLlmProviderSettingsFromEnv()
   };
   
   // Log the loaded configuration details
@@ -204,6 +292,7 @@ async function initializeApp() {
       mappingLoaded: mappingKeys.length > 0, // Indicate if mappings were actually loaded
       numberOfMappings: mappingKeys.length,
       mappingKeys: mappingKeys, // Log the keys found
+      defaultProvider: openRouterConfig.defaultProvider,
       // Avoid logging the full mapping values unless debug level is set
       // mappingValues: llmMapping // Potentially too verbose for info level
   });
@@ -213,10 +302,33 @@ async function initializeApp() {
   logger.info('Initializing ToolRegistry with full configuration including model mappings');
   ToolRegistry.getInstance(openRouterConfig);
 
+  // Restore jobs from the persistent job store so job IDs survive restarts
+  jobManager.initializeStore(createJobStoreFromEnv());
+  // Evict old finished jobs so the job map doesn't grow without limit
+  jobManager.configureRetention(createJobRetentionOptionsFromEnv());
+  // Apply concurrency limits before any tool can queue background work
+  jobScheduler.configure(createSchedulerOptionsFromEnv());
+  // Retry transient LLM errors and fail fast on models that keep failing
+  llmResilience.configure(createLlmResilienceOptionsFromEnv());
+  // Opt-in cache of LLM answers, so re-runs on the same input don't pay twice
+  llmCache.configure(createLlmCacheOptionsFromEnv());
+  // Record LLM transcripts, or replay them for offline regression tests
+  llmTranscripts.configure(createLlmTranscriptOptionsFromEnv());
+  // Prices for the cost estimates in job results and usage reports
+  usageTracker.configurePrices(loadLlmPriceTable('llm_config.json'));
+  // Restore the day's LLM usage so daily budgets hold across restarts
+  usageTracker.initializeStore(createDailyUsageStoreFromEnv());
+  // Spending limits, so runaway jobs fail instead of running up charges
+  usageTracker.configureBudget(loadLlmBudget('llm_config.json'));
+  // How many independent workflow steps run at the same time
+  configureWorkflowExecution(createWorkflowExecutionOptionsFromEnv());
+
   // Now that the registry is initialized with the proper config, we can safely load tools
   // which will register themselves with the properly configured registry
   await initDirectories(); // Initialize tool directories
   await initializeToolEmbeddings(); // Initialize embeddings
+  // Load workflows once the tools are registered, so their steps can be checked against them
+  loadWorkflowDefinitions();
 
   logger.info('Application initialization complete.');
   // Return the fully loaded config
@@ -225,8 +337,8 @@ async function initializeApp() {
 
 // Initialize app, create server with loaded config, then start main logic
 initializeApp().then((loadedConfig) => {
-  const server = createServer(loadedConfig); // Pass loaded config to server creation
-  main(server).catch(error => { // Pass server instance to main
+  // Each connection gets its own server instance built from the loaded config
+  main(() => createServer(loadedConfig)).catch(error => {
     logger.fatal({ err: error }, 'Failed to start server');
     process.exit(1);
   });
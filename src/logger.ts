@@ -33,6 +33,7 @@ const configuredLogger = pino(
         'receivedConfig.apiKey', // Specifically target the observed log structure
         'config.apiKey', // Common config pattern
         'openRouterConfig.apiKey', // Specific object name from index.ts
+        '*.providers.*.apiKey', // API keys of additional LLM providers in a logged config
         'env.OPENROUTER_API_KEY', // If env vars are logged directly
         'env.PERPLEXITY_API_KEY' // Handle other potential keys
         // Add other sensitive keys if necessary, e.g., 'headers.Authorization'
@@ -1,8 +1,9 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 // import { z } from "zod"; // Removed unused import
 import dotenv from "dotenv";
-// import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js"; // Removed unused import
-import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import logger from "./logger.js";
 
 // Import all tool modules to trigger registration
@@ -13,6 +14,7 @@ import './services/request-processor/index.js';
 // Import registry functions
 import { getAllTools, executeTool, ToolExecutionContext } from './services/routing/toolRegistry.js'; // Import ToolExecutionContext
 import { addInteraction, getLastInteraction } from './services/state/sessionState.js'; // Import state functions
+import { mcpNotifier } from './services/mcp-notifier/index.js';
 
 // Import necessary types
 import { OpenRouterConfig } from "./types/workflow.js";
@@ -27,6 +29,22 @@ import { OpenRouterConfig } from "./types/workflow.js";
 // Load environment variables
 dotenv.config();
 
+// The stdio transport serves exactly one client for the life of the process and has no
+// session ID of its own, so the whole process shares one generated session ID.
+export const stdioSessionId = `stdio-${randomUUID()}`;
+
+/**
+ * Resolves the session a tool call belongs to.
+ * The SSE and Streamable HTTP transports report their own session ID (the one clients use
+ * for `/messages`, `/mcp` and `/events/:sessionId`); transports without one fall back to the
+ * per-process stdio session.
+ * @param extra The request metadata supplied by the MCP SDK.
+ * @returns The session ID to use for the tool call.
+ */
+export function resolveSessionId(extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): string {
+  return extra?.sessionId || stdioSessionId;
+}
+
 // REMOVED: Internal config creation. Will now be passed in.
 // const config: OpenRouterConfig = {
 //   baseUrl: process.env.OPENROUTER_BASE_URL || "https://openrouter.ai/api/v1",
@@ -55,6 +73,8 @@ export function createServer(loadedConfigParam: OpenRouterConfig): McpServer { /
       version: "1.0.0"
     },
     {
+      // Logging lets job progress reach clients as log notifications (see mcp-notifier)
+      capabilities: { logging: {} },
       instructions: `
 Vibe Coder MCP server provides tools for development automation:
 
@@ -288,21 +308,13 @@ All generated artifacts are stored in structured directories.
       // Pass the raw shape directly, as expected by server.tool
       definition.inputSchema,
       // The handler now integrates state management
-      async (params: Record<string, unknown>): Promise<CallToolResult> => {
+      async (params: Record<string, unknown>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>): Promise<CallToolResult> => {
         // Log the config object available within this closure
         logger.debug({ configInHandler: loadedConfigParam }, 'Tool handler closure using config object.'); // Use loadedConfigParam
 
         // --- Context Creation START ---
-        // --- How to get sessionId here needs investigation based on transport ---
-        // TODO: Replace this placeholder with actual session ID retrieval logic
-        // It might involve inspecting headers, query params, or transport-specific methods
-        // associated with the incoming MCP request that triggered this handler.
-        const sessionId = 'placeholder-session-id'; // CRITICAL PLACEHOLDER
-        if (sessionId === 'placeholder-session-id') {
-            logger.warn({ toolName: definition.name }, "Using placeholder session ID. SSE notifications will not work correctly.");
-        }
-
-        const context: ToolExecutionContext = { sessionId };
+        const sessionId = resolveSessionId(extra);
+        const context: ToolExecutionContext = { sessionId, progressToken: extra._meta?.progressToken };
         logger.debug({ toolName: definition.name, sessionId: context.sessionId }, "Server handler executing tool with context");
         // --- Context Creation END ---
 
@@ -322,8 +334,16 @@ All generated artifacts are stored in structured directories.
         }
 
 
-        // Execute the tool, passing the created context and the *freshly copied* config
-        const result = await executeTool(definition.name, params, executionConfig, context);
+        // Execute the tool, passing the created context and the *freshly copied* config.
+        // Its progress token may only be used for progress notifications until the call returns.
+        const { progressToken } = context;
+        if (progressToken !== undefined) mcpNotifier.startToolCall(sessionId, progressToken);
+        let result: CallToolResult;
+        try {
+          result = await executeTool(definition.name, params, executionConfig, context);
+        } finally {
+          if (progressToken !== undefined) mcpNotifier.finishToolCall(sessionId, progressToken);
+        }
 
         // --- State Management Integration START (Keep this part for now) ---
 
@@ -0,0 +1,60 @@
+// src/services/http-transport/event-store.test.ts
+import { describe, it, expect, vi } from 'vitest';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { InMemoryEventStore } from './eventStore.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const notification = (n: number): JSONRPCMessage => ({
+  jsonrpc: '2.0',
+  method: 'notifications/message',
+  params: { level: 'info', data: { n } },
+});
+
+const replay = async (store: InMemoryEventStore, lastEventId: string) => {
+  const sent: Array<{ eventId: string; message: JSONRPCMessage }> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, message) => { sent.push({ eventId, message }); },
+  });
+  return { streamId, sent };
+};
+
+describe('InMemoryEventStore', () => {
+  it('should replay only the events of the same stream stored after the given event', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('_GET_stream', notification(1));
+    await store.storeEvent('other-stream', notification(2));
+    const third = await store.storeEvent('_GET_stream', notification(3));
+
+    const { streamId, sent } = await replay(store, first);
+
+    expect(streamId).toBe('_GET_stream');
+    expect(sent).toEqual([{ eventId: third, message: notification(3) }]);
+  });
+
+  it('should keep only the most recent events of each stream', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('stream-1', notification(1));
+    await store.storeEvent('stream-1', notification(2));
+    await store.storeEvent('stream-1', notification(3));
+
+    const { sent } = await replay(store, first);
+
+    expect(sent.map(event => event.message)).toEqual([notification(2), notification(3)]);
+  });
+
+  it('should replay nothing for an unknown stream', async () => {
+    const store = new InMemoryEventStore();
+
+    const { sent } = await replay(store, 'missing-stream_7');
+
+    expect(sent).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+// src/services/http-transport/eventStore.ts
+import type { EventStore } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+
+/**
+ * Default number of events kept per stream for replay.
+ */
+export const DEFAULT_MAX_EVENTS_PER_STREAM = 500;
+
+interface StoredEvent {
+  sequence: number;
+  message: JSONRPCMessage;
+}
+
+/**
+ * In-memory event store that makes Streamable HTTP sessions resumable.
+ * Each stream keeps its most recent events so a client that reconnects with
+ * `Last-Event-ID` receives everything it missed on that stream.
+ * Event IDs have the form `<streamId>_<sequence>`, with a sequence that only increases.
+ * Create one store per session: stream IDs (such as the standalone GET stream) are only
+ * unique within a session, and the store is released together with its transport.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<string, StoredEvent[]>();
+  private nextSequence = 1;
+
+  constructor(private readonly maxEventsPerStream: number = DEFAULT_MAX_EVENTS_PER_STREAM) {}
+
+  async storeEvent(streamId: string, message: JSONRPCMessage): Promise<string> {
+    const sequence = this.nextSequence++;
+    let events = this.streams.get(streamId);
+    if (!events) {
+      events = [];
+      this.streams.set(streamId, events);
+    }
+    events.push({ sequence, message });
+    if (events.length > this.maxEventsPerStream) {
+      events.shift();
+    }
+    return `${streamId}_${sequence}`;
+  }
+
+  async replayEventsAfter(
+    lastEventId: string,
+    { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<string> {
+    const separator = lastEventId.lastIndexOf('_');
+    const streamId = separator > 0 ? lastEventId.slice(0, separator) : '';
+    const lastSequence = Number(lastEventId.slice(separator + 1));
+    const events = this.streams.get(streamId);
+    if (!events || !Number.isFinite(lastSequence)) {
+      logger.warn({ lastEventId }, 'Cannot replay events: unknown stream or malformed event ID.');
+      return streamId;
+    }
+
+    const missed = events.filter(event => event.sequence > lastSequence);
+    for (const event of missed) {
+      await send(`${streamId}_${event.sequence}`, event.message);
+    }
+    logger.debug({ streamId, lastEventId, replayed: missed.length }, 'Replayed missed events.');
+    return streamId;
+  }
+}
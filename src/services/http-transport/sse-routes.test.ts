@@ -0,0 +1,131 @@
+// src/services/http-transport/sse-routes.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { registerSseRoutes } from './sseRoutes.js';
+import { addInteraction, getSessionHistory } from '../state/sessionState.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+interface SseSession {
+  sessionId: string;
+  received: () => string;
+  close: () => void;
+}
+
+describe('SSE routes', () => {
+  let httpServer: Server;
+  let baseUrl: string;
+  let sessions: SseSession[];
+
+  /**
+   * Opens a `/sse` stream, waits for the endpoint event and keeps collecting everything sent on the stream.
+   */
+  const openSession = async (): Promise<SseSession> => {
+    const controller = new AbortController();
+    const response = await fetch(`${baseUrl}/sse`, { signal: controller.signal });
+    const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+    const decoder = new TextDecoder();
+    let text = '';
+    while (!text.includes('sessionId=')) {
+      const { value } = await reader.read();
+      text += decoder.decode(value, { stream: true });
+    }
+    void (async () => {
+      try {
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) return;
+          text += decoder.decode(value, { stream: true });
+        }
+      } catch {
+        // Aborted by close()
+      }
+    })();
+
+    const session: SseSession = {
+      sessionId: (text.match(/sessionId=([\w-]+)/) as RegExpMatchArray)[1],
+      received: () => text,
+      close: () => controller.abort(),
+    };
+    sessions.push(session);
+    return session;
+  };
+
+  const postMessage = (sessionId: string, id: string) => fetch(`${baseUrl}/messages?sessionId=${sessionId}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jsonrpc: '2.0', id, method: 'ping' }),
+  });
+
+  const addHistory = (sessionId: string) => addInteraction(sessionId, {
+    toolCall: { name: 'generate-prd', params: {}, timestamp: 1000 },
+    response: { content: [], timestamp: 1000 },
+  });
+
+  beforeEach(async () => {
+    sessions = [];
+    const app = express();
+    app.use(express.json());
+    registerSseRoutes(app, () => new McpServer({ name: 'test-server', version: '1.0.0' }));
+    httpServer = app.listen(0);
+    await new Promise(resolve => httpServer.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(httpServer.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    sessions.forEach(session => session.close());
+    httpServer.closeAllConnections();
+    await new Promise(resolve => httpServer.close(resolve));
+  });
+
+  it('should route each POST only to the transport of its own session', async () => {
+    const first = await openSession();
+    const second = await openSession();
+    expect(first.sessionId).not.toBe(second.sessionId);
+
+    expect((await postMessage(first.sessionId, 'first-ping')).status).toBe(202);
+    expect((await postMessage(second.sessionId, 'second-ping')).status).toBe(202);
+
+    await vi.waitFor(() => {
+      expect(first.received()).toContain('"id":"first-ping"');
+      expect(second.received()).toContain('"id":"second-ping"');
+    });
+    expect(first.received()).not.toContain('second-ping');
+    expect(second.received()).not.toContain('first-ping');
+  });
+
+  it('should answer 404 for an unknown session ID', async () => {
+    await openSession();
+
+    const response = await postMessage('unknown-session', 'ping-1');
+
+    expect(response.status).toBe(404);
+    expect(await response.json()).toEqual({ error: 'No active SSE connection for session unknown-session' });
+  });
+
+  it('should remove only the closed session\'s transport and history', async () => {
+    const closed = await openSession();
+    const open = await openSession();
+    addHistory(closed.sessionId);
+    addHistory(open.sessionId);
+
+    closed.close();
+
+    await vi.waitFor(async () => {
+      expect((await postMessage(closed.sessionId, 'after-close')).status).toBe(404);
+    });
+    expect(getSessionHistory(closed.sessionId)).toEqual([]);
+    expect(getSessionHistory(open.sessionId)).toHaveLength(1);
+    expect((await postMessage(open.sessionId, 'still-open')).status).toBe(202);
+  });
+});
@@ -0,0 +1,71 @@
+// src/services/http-transport/sseRoutes.ts
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import express from 'express';
+import logger from '../../logger.js';
+import { mcpNotifier } from '../mcp-notifier/index.js';
+import { sseNotifier } from '../sse-notifier/index.js';
+import { clearSessionHistory } from '../state/sessionState.js';
+
+/**
+ * Adds the routes of the SSE transport to an Express app:
+ * - `GET /sse` opens a session with its own transport and McpServer, so concurrent clients never share a connection;
+ *   closing the connection removes the session's transport, notifier registrations and history.
+ * - `POST /messages?sessionId=<id>` routes a client message to the transport of the session that owns it.
+ * @param app The Express app, with JSON body parsing enabled.
+ * @param createMcpServer Factory for each session's MCP server.
+ * @returns The active transports keyed by session ID.
+ */
+export function registerSseRoutes(app: express.Express, createMcpServer: () => McpServer): Map<string, SSEServerTransport> {
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  app.get('/sse', (req: express.Request, res: express.Response) => {
+    const transport = new SSEServerTransport('/messages', res);
+    const sessionId = transport.sessionId;
+    const mcpServer = createMcpServer();
+    sseTransports.set(sessionId, transport);
+    mcpNotifier.registerSession(sessionId, mcpServer);
+    logger.info({ sessionId, activeSessions: sseTransports.size }, 'Opened SSE session.');
+
+    res.on('close', () => {
+      sseTransports.delete(sessionId);
+      mcpNotifier.unregisterSession(sessionId);
+      clearSessionHistory(sessionId);
+      sseNotifier.clearSession(sessionId);
+      mcpServer.close().catch((error: Error) => {
+        logger.error({ err: error, sessionId }, 'Failed to close MCP server for SSE session');
+      });
+      logger.info({ sessionId, activeSessions: sseTransports.size }, 'Closed SSE session.');
+    });
+
+    mcpServer.connect(transport).catch((error: Error) => {
+      logger.error({ err: error, sessionId }, 'Failed to connect transport');
+      sseTransports.delete(sessionId);
+    });
+  });
+
+  app.post('/messages', async (req: express.Request, res: express.Response) => {
+    if (!req.body) {
+      return res.status(400).json({ error: 'Invalid request body' });
+    }
+    const sessionId = req.query.sessionId as string | undefined;
+    if (!sessionId) {
+      return res.status(400).json({ error: 'Missing sessionId query parameter' });
+    }
+    // Route the message to the transport of the client that owns this session
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      return res.status(404).json({ error: `No active SSE connection for session ${sessionId}` });
+    }
+    try {
+      await transport.handlePostMessage(req, res, req.body);
+    } catch (error) {
+      logger.error({ err: error, sessionId }, 'Error handling POST message');
+      if (!res.headersSent) {
+        res.status(500).json({ error: 'Internal server error while handling POST message.' });
+      }
+    }
+  });
+
+  return sseTransports;
+}
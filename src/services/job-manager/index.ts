@@ -1,8 +1,11 @@
 import { randomUUID } from 'crypto';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
 import logger from '../../logger.js';
-// Import sseNotifier here later when it exists to notify on status/result changes
-import { sseNotifier } from '../sse-notifier/index.js';
+import { jobNotifier } from '../job-notifier/index.js';
+import { JobStore, InMemoryJobStore } from './jobStore.js';
+import { JobRetentionOptions } from './retention.js';
+import { CancellationError } from '../../utils/errors.js';
+import type { LlmUsageTotals } from '../usage-tracker/index.js';
 
 /**
  * Represents the possible statuses of a background job.
@@ -12,8 +15,35 @@ export enum JobStatus {
   RUNNING = 'running',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  CANCELLED = 'cancelled',
 }
 
+/**
+ * Checks whether a job status is final (the job will not change status again).
+ * @param status The status to check.
+ * @returns True for COMPLETED, FAILED and CANCELLED.
+ */
+export function isFinalJobStatus(status: JobStatus): boolean {
+  return status === JobStatus.COMPLETED || status === JobStatus.FAILED || status === JobStatus.CANCELLED;
+}
+
+/**
+ * Structured progress of a running job, for progress bars.
+ */
+export interface JobProgress {
+  phase: string; // Name of the current phase (e.g., 'decomposition')
+  completed?: number; // Units of work finished in this phase (e.g., tasks decomposed)
+  total?: number; // Units of work in this phase
+  percent?: number; // 0-100
+  etaMs?: number; // Estimated time until the phase finishes, in milliseconds
+}
+
+/**
+ * Progress reported by an executor. Percent is derived from completed/total when omitted;
+ * the ETA is always computed by the JobManager.
+ */
+export type JobProgressUpdate = Omit<JobProgress, 'etaMs'>;
+
 /**
  * Defines the structure of a background job tracked by the JobManager.
  */
@@ -22,26 +52,124 @@ export interface Job {
   toolName: string;
   params: Record<string, unknown>;
   status: JobStatus;
+  priority?: number; // Scheduling priority; higher runs first (defaults to 0)
+  sessionId?: string; // Session that started the job; its progress events go to this session
+  progressToken?: ProgressToken; // Progress token of the tool call that started the job, for MCP progress notifications
   createdAt: number;
   updatedAt: number;
   progressMessage?: string; // Optional message describing the current step
-  result?: CallToolResult; // Final result (success or error)
+  progress?: JobProgress; // Optional structured progress of the current phase
+  result?: CallToolResult; // Final result (success or error), or partial output of a cancelled job
+  usage?: LlmUsageTotals; // LLM tokens and estimated cost used by the job so far
+  partialOutput?: string; // Text streamed by the job's LLM calls so far; dropped once the job completes
+}
+
+/**
+ * Options for JobManager.createJob.
+ */
+export interface CreateJobOptions {
+  priority?: number; // Scheduling priority; jobs with a higher priority leave the queue first
+  sessionId?: string; // Session that owns the job and receives its progress events
+  progressToken?: ProgressToken; // Progress token from the tool call's _meta, if the client sent one
+}
+
+/**
+ * Filter and paging options for JobManager.listJobs.
+ */
+export interface JobListFilter {
+  status?: JobStatus;
+  toolName?: string;
+  createdAfter?: number; // Inclusive, epoch milliseconds
+  createdBefore?: number; // Inclusive, epoch milliseconds
+  offset?: number;
+  limit?: number;
 }
 
+/**
+ * A page of jobs returned by JobManager.listJobs.
+ */
+export interface JobListPage {
+  jobs: Job[];
+  total: number; // Number of jobs matching the filter, across all pages
+  offset: number;
+  limit: number;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+
 /**
  * Manages the state of background jobs.
  * Uses a Singleton pattern.
  */
 class JobManager {
   private jobs = new Map<string, Job>();
+  private store: JobStore = new InMemoryJobStore();
+  // Abort controllers for jobs that have not finished yet. Not persisted.
+  private abortControllers = new Map<string, AbortController>();
+  // When each job entered its current phase, used to estimate the remaining time. Not persisted.
+  private phaseStarts = new Map<string, { phase: string; startedAt: number; startCompleted: number }>();
+  private retention?: JobRetentionOptions;
+  private cleanupTimer?: NodeJS.Timeout;
+
+  /**
+   * Switches the JobManager to a persistent store and reloads the jobs it holds.
+   * Jobs that were still pending or running when the server stopped cannot be resumed,
+   * so they are marked as failed with an explanatory result.
+   * @param store The job store to load from and persist to.
+   * @returns The number of jobs loaded from the store.
+   */
+  initializeStore(store: JobStore): number {
+    this.store = store;
+    let loadedJobs: Job[];
+    try {
+      loadedJobs = store.load();
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to load jobs from job store. Starting with no persisted jobs.');
+      return 0;
+    }
+
+    for (const job of loadedJobs) {
+      if (job.status === JobStatus.PENDING || job.status === JobStatus.RUNNING) {
+        const message = `Job was interrupted because the server stopped while it was ${job.status}.`;
+        job.status = JobStatus.FAILED;
+        job.updatedAt = Date.now();
+        job.progressMessage = message;
+        job.result = {
+          content: [{ type: 'text', text: `Error: ${message} Please start the job again.` }],
+          isError: true,
+          errorDetails: { type: 'JobInterruptedError', message },
+        };
+        logger.warn({ jobId: job.id, toolName: job.toolName }, 'Marked interrupted job as failed after restart.');
+        this.persist(job);
+      }
+      this.jobs.set(job.id, job);
+    }
+    logger.info({ jobCount: loadedJobs.length }, 'Restored jobs from job store.');
+    return loadedJobs.length;
+  }
+
+  /**
+   * Saves a job to the configured store. Persistence failures are logged
+   * but never interrupt the job itself.
+   * @param job The job to persist.
+   */
+  private persist(job: Job): void {
+    try {
+      this.store.save(job);
+    } catch (error) {
+      logger.error({ err: error, jobId: job.id }, 'Failed to persist job to job store.');
+    }
+  }
 
   /**
    * Creates a new job and stores it.
    * @param toolName The name of the tool being executed.
    * @param params The parameters the tool was called with.
+   * @param options Optional scheduling priority, the ID of the session that owns the job and its progress token.
    * @returns The ID of the newly created job.
    */
-  createJob(toolName: string, params: Record<string, unknown>): string {
+  createJob(toolName: string, params: Record<string, unknown>, options: CreateJobOptions = {}): string {
+    const { priority = 0, sessionId, progressToken } = options;
     const jobId = randomUUID();
     const now = Date.now();
     const newJob: Job = {
@@ -49,12 +177,17 @@ class JobManager {
       toolName,
       params,
       status: JobStatus.PENDING,
+      priority,
+      sessionId,
+      progressToken,
       createdAt: now,
       updatedAt: now,
     };
     this.jobs.set(jobId, newJob);
-    logger.info({ jobId, toolName }, `Created new background job.`);
-    sseNotifier.sendProgress('auto-session', jobId, JobStatus.PENDING, 'Job created');
+    this.abortControllers.set(jobId, new AbortController());
+    this.persist(newJob);
+    logger.info({ jobId, toolName, priority, sessionId }, `Created new background job.`);
+    jobNotifier.notify(newJob, 'Job created');
     return jobId;
   }
 
@@ -67,6 +200,49 @@ class JobManager {
     return this.jobs.get(jobId);
   }
 
+  /**
+   * Retrieves the abort signal for a job. Executors should check it between phases
+   * and pass it to long-running calls (e.g., LLM requests) so cancellation stops them.
+   * @param jobId The ID of the job.
+   * @returns The AbortSignal, or undefined if the job is unknown or already finished.
+   */
+  getAbortSignal(jobId: string): AbortSignal | undefined {
+    return this.abortControllers.get(jobId)?.signal;
+  }
+
+  /**
+   * Cancels a pending or running job. The job's abort signal fires, its status
+   * becomes CANCELLED and a final progress event is sent. Executors may still
+   * attach partial output afterwards via setJobResult.
+   * @param jobId The ID of the job to cancel.
+   * @param reason Optional reason recorded as the job's progress message.
+   * @returns True if the job was cancelled, false if it was not found or already finished.
+   */
+  cancelJob(jobId: string, reason?: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      logger.warn({ jobId }, `Attempted to cancel non-existent job.`);
+      return false;
+    }
+    if (isFinalJobStatus(job.status)) {
+      logger.warn({ jobId, currentStatus: job.status }, `Attempted to cancel a finalized job.`);
+      return false;
+    }
+
+    const message = reason ? `Job cancelled: ${reason}` : 'Job cancelled';
+    job.status = JobStatus.CANCELLED;
+    job.updatedAt = Date.now();
+    job.progressMessage = message;
+    this.abortControllers.get(jobId)?.abort(new CancellationError(message, { jobId }));
+    this.abortControllers.delete(jobId);
+    this.phaseStarts.delete(jobId);
+    this.persist(job);
+
+    logger.info({ jobId, reason }, `Cancelled job.`);
+    jobNotifier.notify(job, message);
+    return true;
+  }
+
   /**
    * Updates the status and optional progress message of a job.
    * @param jobId The ID of the job to update.
@@ -81,25 +257,158 @@ class JobManager {
       return false;
     }
 
+    // A cancelled job must stay cancelled even if its executor has not noticed yet.
+    if (job.status === JobStatus.CANCELLED) {
+      logger.debug({ jobId, newStatus: status }, `Ignoring status update for cancelled job.`);
+      return false;
+    }
+
     // Prevent updating status of already completed/failed jobs? Maybe allow for edge cases.
     if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
         logger.warn({ jobId, currentStatus: job.status, newStatus: status }, `Attempted to update status of a finalized job.`);
         // Optionally return false or allow update
     }
 
+    const statusChanged = job.status !== status;
     job.status = status;
     job.updatedAt = Date.now();
     if (progressMessage !== undefined) {
       job.progressMessage = progressMessage;
     }
+    // Message-only updates (e.g. queue positions) are not persisted; unfinished jobs are failed on restart anyway
+    if (statusChanged) {
+      this.persist(job);
+    }
     logger.info({ jobId, status, progressMessage }, `Updated job status.`);
-    sseNotifier.sendProgress('auto-session', jobId, status, progressMessage);
+    jobNotifier.notify(job, progressMessage);
+    return true;
+  }
+
+  /**
+   * Reports structured progress for a running job and marks it RUNNING.
+   * The percent is derived from completed/total unless given, and the ETA is
+   * estimated from how fast units have completed since the phase started.
+   * @param jobId The ID of the job to update.
+   * @param update The current phase and its completed/total units or percent.
+   * @param progressMessage An optional message describing the current progress.
+   * @returns True if the job was found and updated, false otherwise.
+   */
+  updateJobProgress(jobId: string, update: JobProgressUpdate, progressMessage?: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      logger.warn({ jobId }, `Attempted to update progress for non-existent job.`);
+      return false;
+    }
+    if (isFinalJobStatus(job.status)) {
+      logger.debug({ jobId, currentStatus: job.status, phase: update.phase }, `Ignoring progress update for a finalized job.`);
+      return false;
+    }
+
+    const progress = this.computeProgress(jobId, update);
+    const statusChanged = job.status !== JobStatus.RUNNING;
+    job.status = JobStatus.RUNNING;
+    job.progress = progress;
+    job.updatedAt = Date.now();
+    if (progressMessage !== undefined) {
+      job.progressMessage = progressMessage;
+    }
+    // Progress ticks are saved with the job's next status change
+    if (statusChanged) {
+      this.persist(job);
+    }
+    logger.debug({ jobId, progress, progressMessage }, `Updated job progress.`);
+    jobNotifier.notify(job, job.progressMessage, progress);
+    return true;
+  }
+
+  /**
+   * Builds the full progress object for an update, tracking when each phase started.
+   * @param jobId The ID of the job.
+   * @param update The progress reported by the executor.
+   * @returns The progress with percent and ETA filled in where they can be computed.
+   */
+  private computeProgress(jobId: string, update: JobProgressUpdate): JobProgress {
+    const now = Date.now();
+    let phaseStart = this.phaseStarts.get(jobId);
+    if (!phaseStart || phaseStart.phase !== update.phase) {
+      phaseStart = { phase: update.phase, startedAt: now, startCompleted: update.completed ?? 0 };
+      this.phaseStarts.set(jobId, phaseStart);
+    }
+
+    const progress: JobProgress = { ...update };
+    const { completed, total } = update;
+    if (progress.percent === undefined && completed !== undefined && total) {
+      progress.percent = (completed / total) * 100;
+    }
+    if (progress.percent !== undefined) {
+      progress.percent = Math.round(Math.min(100, Math.max(0, progress.percent)));
+    }
+
+    if (completed !== undefined && total) {
+      const completedInPhase = completed - phaseStart.startCompleted;
+      if (completed >= total) {
+        progress.etaMs = 0;
+      } else if (completedInPhase > 0) {
+        const msPerUnit = (now - phaseStart.startedAt) / completedInPhase;
+        progress.etaMs = Math.round(msPerUnit * (total - completed));
+      }
+    }
+    return progress;
+  }
+
+  /**
+   * Stores a job's LLM usage totals. Usage is stored even after the job finished
+   * or was cancelled, since calls already in flight still cost tokens.
+   * @param jobId The ID of the job.
+   * @param usage The job's updated usage totals.
+   * @returns True if the job was found, false otherwise.
+   */
+  setJobUsage(jobId: string, usage: LlmUsageTotals): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      logger.warn({ jobId }, `Attempted to record LLM usage for non-existent job.`);
+      return false;
+    }
+
+    job.usage = usage;
+    // A running job's usage is saved with its result; usage arriving after that is saved right away
+    if (isFinalJobStatus(job.status)) {
+      this.persist(job);
+    }
+    return true;
+  }
+
+  /**
+   * Writes streamed text into a running job's partial output and sends it to the job's session
+   * as a `jobOutput` event. The text replaces whatever the output held from `offset` on, so a
+   * streamed LLM call that starts over (after a retry or failover) overwrites its earlier text.
+   * Not persisted on every write; the output is saved with the job's next status change.
+   * @param jobId The ID of the job.
+   * @param offset Where in the partial output the text starts.
+   * @param text The text to write.
+   * @returns True if the output was written, false if the job is unknown or already finished.
+   */
+  writeJobOutput(jobId: string, offset: number, text: string): boolean {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      logger.warn({ jobId }, `Attempted to write output for non-existent job.`);
+      return false;
+    }
+    if (isFinalJobStatus(job.status)) {
+      logger.debug({ jobId, currentStatus: job.status }, `Ignoring output for a finalized job.`);
+      return false;
+    }
+
+    job.partialOutput = (job.partialOutput ?? '').slice(0, offset) + text;
+    job.updatedAt = Date.now();
+    jobNotifier.notifyOutput(job, offset, text);
     return true;
   }
 
   /**
    * Sets the final result (success or error) of a job and updates its status.
    * Automatically sets status to COMPLETED or FAILED based on result.isError.
+   * For a cancelled job the result is kept as its partial output and the status stays CANCELLED.
    * @param jobId The ID of the job to set the result for.
    * @param result The final CallToolResult object.
    * @returns True if the job was found and the result was set, false otherwise.
@@ -111,6 +420,14 @@ class JobManager {
       return false;
     }
 
+    if (job.status === JobStatus.CANCELLED) {
+      job.result = result;
+      job.updatedAt = Date.now();
+      this.persist(job);
+      logger.info({ jobId }, `Stored partial output for cancelled job.`);
+      return true;
+    }
+
     if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
         logger.warn({ jobId, currentStatus: job.status }, `Attempted to set result for an already finalized job.`);
         // Optionally overwrite or return false
@@ -121,14 +438,113 @@ class JobManager {
     job.status = result.isError ? JobStatus.FAILED : JobStatus.COMPLETED;
     job.updatedAt = Date.now();
     job.progressMessage = result.isError ? 'Job failed' : 'Job completed successfully'; // Set final message
+    if (job.progress && !result.isError) {
+      job.progress = { ...job.progress, percent: 100, etaMs: 0 };
+    }
+    if (!result.isError) {
+      // The result holds the finished output; keep partial output only for jobs that did not complete
+      delete job.partialOutput;
+    }
+    this.abortControllers.delete(jobId);
+    this.phaseStarts.delete(jobId);
+    this.persist(job);
 
     logger.info({ jobId, finalStatus: job.status }, `Set final job result.`);
-    sseNotifier.sendProgress('auto-session', jobId, job.status, job.progressMessage);
+    jobNotifier.notify(job, job.progressMessage, job.progress);
     return true;
   }
 
-  // Optional: Add cleanup logic for old jobs if needed
-  // cleanupOldJobs(maxAgeMs: number) { ... }
+  /**
+   * Lists jobs matching a filter, newest first, one page at a time.
+   * @param filter Optional status, tool name and creation time window filters, plus paging.
+   * @returns The requested page and the total number of matching jobs.
+   */
+  listJobs(filter: JobListFilter = {}): JobListPage {
+    const offset = Math.max(0, filter.offset ?? 0);
+    const limit = Math.max(1, filter.limit ?? DEFAULT_LIST_LIMIT);
+    const matching = Array.from(this.jobs.values())
+      .filter(job => filter.status === undefined || job.status === filter.status)
+      .filter(job => filter.toolName === undefined || job.toolName === filter.toolName)
+      .filter(job => filter.createdAfter === undefined || job.createdAt >= filter.createdAfter)
+      .filter(job => filter.createdBefore === undefined || job.createdAt <= filter.createdBefore)
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    return { jobs: matching.slice(offset, offset + limit), total: matching.length, offset, limit };
+  }
+
+  /**
+   * Applies a retention policy: evicts old finished jobs now and then periodically.
+   * Replaces any previously configured policy.
+   * @param options The retention limits and cleanup interval.
+   */
+  configureRetention(options: JobRetentionOptions): void {
+    this.stopRetention();
+    this.retention = options;
+    logger.info({ ...options }, 'Configured job retention.');
+    this.cleanupOldJobs();
+
+    if (options.cleanupIntervalMs > 0) {
+      this.cleanupTimer = setInterval(() => this.cleanupOldJobs(), options.cleanupIntervalMs);
+      // Don't keep the process alive just for job cleanup
+      this.cleanupTimer.unref();
+    }
+  }
+
+  /**
+   * Stops periodic eviction and clears the retention policy.
+   */
+  stopRetention(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = undefined;
+    }
+    this.retention = undefined;
+  }
+
+  /**
+   * Evicts finished jobs according to the configured retention policy:
+   * first jobs older than maxAgeMs, then the oldest finished jobs until at most maxJobs remain.
+   * Pending and running jobs are never evicted.
+   * @param now The current time in epoch milliseconds (injectable for tests).
+   * @returns The number of evicted jobs.
+   */
+  cleanupOldJobs(now: number = Date.now()): number {
+    if (!this.retention) return 0;
+    const { maxAgeMs, maxJobs } = this.retention;
+
+    const finishedJobs = Array.from(this.jobs.values())
+      .filter(job => isFinalJobStatus(job.status))
+      .sort((a, b) => a.updatedAt - b.updatedAt); // Oldest first
+    const evicted: string[] = [];
+
+    for (const job of finishedJobs) {
+      const expired = maxAgeMs > 0 && now - job.updatedAt > maxAgeMs;
+      const overLimit = maxJobs > 0 && this.jobs.size > maxJobs;
+      if (!expired && !overLimit) continue;
+      this.evict(job.id);
+      evicted.push(job.id);
+    }
+
+    if (evicted.length > 0) {
+      logger.info({ evictedCount: evicted.length, remainingCount: this.jobs.size }, 'Evicted old jobs.');
+    }
+    return evicted.length;
+  }
+
+  /**
+   * Removes a job from memory and from the persistent store.
+   * @param jobId The ID of the job to remove.
+   */
+  private evict(jobId: string): void {
+    this.jobs.delete(jobId);
+    this.abortControllers.delete(jobId);
+    this.phaseStarts.delete(jobId);
+    try {
+      this.store.remove(jobId);
+    } catch (error) {
+      logger.error({ err: error, jobId }, 'Failed to remove job from job store.');
+    }
+  }
 }
 
 // Export a singleton instance
@@ -1,13 +1,17 @@
 // src/services/job-manager/job-manager.test.ts
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { jobManager, JobStatus } from './index.js'; // Import the singleton instance
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { sseNotifier } from '../sse-notifier/index.js'; // Import to potentially mock
+import { mcpNotifier } from '../mcp-notifier/index.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { JobOutputWriter, JOB_OUTPUT_FLUSH_CHARS } from './jobOutput.js';
 
 // Mock the sseNotifier if JobManager interacts with it directly (e.g., on setJobResult)
 vi.mock('../sse-notifier/index.js', () => ({
   sseNotifier: {
     sendProgress: vi.fn(),
+    sendOutput: vi.fn(),
     // Add other methods if needed by JobManager
   }
 }));
@@ -54,6 +58,32 @@ describe('JobManager Singleton', () => {
     expect(job?.createdAt).toEqual(job?.updatedAt); // Initially they should be the same
   });
 
+  it('should send progress events only to the session that owns the job', () => {
+    const ownedId = jobManager.createJob('test-tool', {}, { sessionId: 'session-a' });
+    expect(jobManager.getJob(ownedId)?.sessionId).toBe('session-a');
+    jobManager.updateJobStatus(ownedId, JobStatus.RUNNING, 'Working...');
+    expect(sseNotifier.sendProgress).toHaveBeenLastCalledWith('session-a', ownedId, JobStatus.RUNNING, 'Working...', undefined);
+
+    vi.clearAllMocks();
+    const orphanId = jobManager.createJob('test-tool', {});
+    jobManager.updateJobStatus(orphanId, JobStatus.RUNNING, 'Working...');
+    expect(sseNotifier.sendProgress).not.toHaveBeenCalled();
+  });
+
+  it('should send progress over MCP instead of SSE for sessions registered with the MCP notifier', () => {
+    const sendLoggingMessage = vi.fn().mockResolvedValue(undefined);
+    mcpNotifier.registerSession('http-session', { server: { sendLoggingMessage } } as unknown as McpServer, { jobProgressLogs: true });
+    try {
+      const jobId = jobManager.createJob('test-tool', {}, { sessionId: 'http-session' });
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Working...');
+
+      expect(sendLoggingMessage).toHaveBeenCalledTimes(2);
+      expect(sseNotifier.sendProgress).not.toHaveBeenCalled();
+    } finally {
+      mcpNotifier.unregisterSession('http-session');
+    }
+  });
+
   it('should return undefined when getting a non-existent job', () => {
     const job = jobManager.getJob('non-existent-id');
     expect(job).toBeUndefined();
@@ -118,6 +148,190 @@ describe('JobManager Singleton', () => {
      // Optionally check logs if warnings are expected
    });
 
+  it('should report structured progress with percent and ETA', () => {
+    vi.useFakeTimers();
+    try {
+      const jobId = jobManager.createJob('test-tool', {}, { sessionId: 'session-progress' });
+      jobManager.updateJobProgress(jobId, { phase: 'decomposition', completed: 0, total: 4 }, 'Starting decomposition');
+      vi.advanceTimersByTime(2000);
+      jobManager.updateJobProgress(jobId, { phase: 'decomposition', completed: 1, total: 4 }, 'Decomposed 1/4 tasks.');
+
+      const job = jobManager.getJob(jobId);
+      expect(job?.status).toBe(JobStatus.RUNNING);
+      expect(job?.progressMessage).toBe('Decomposed 1/4 tasks.');
+      expect(job?.progress).toEqual({ phase: 'decomposition', completed: 1, total: 4, percent: 25, etaMs: 6000 });
+      expect(sseNotifier.sendProgress).toHaveBeenLastCalledWith('session-progress', jobId, JobStatus.RUNNING, 'Decomposed 1/4 tasks.', job?.progress);
+
+      // A new phase restarts the ETA estimate
+      jobManager.updateJobProgress(jobId, { phase: 'saving', completed: 0, total: 1 });
+      expect(jobManager.getJob(jobId)?.progress).toEqual({ phase: 'saving', completed: 0, total: 1, percent: 0 });
+
+      jobManager.setJobResult(jobId, { content: [], isError: false });
+      expect(jobManager.getJob(jobId)?.progress).toEqual({ phase: 'saving', completed: 0, total: 1, percent: 100, etaMs: 0 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('should ignore progress updates for finished jobs', () => {
+    const jobId = jobManager.createJob('test-tool', {});
+    jobManager.cancelJob(jobId);
+
+    expect(jobManager.updateJobProgress(jobId, { phase: 'research', percent: 50 })).toBe(false);
+    expect(jobManager.getJob(jobId)?.progress).toBeUndefined();
+  });
+
+  it('should cancel a running job, abort its signal and notify subscribers', () => {
+    const jobId = jobManager.createJob('test-tool', {}, { sessionId: 'session-cancel' });
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Working...');
+    const signal = jobManager.getAbortSignal(jobId);
+
+    expect(signal?.aborted).toBe(false);
+    expect(jobManager.cancelJob(jobId, 'No longer needed')).toBe(true);
+
+    const job = jobManager.getJob(jobId);
+    expect(job?.status).toBe(JobStatus.CANCELLED);
+    expect(job?.progressMessage).toBe('Job cancelled: No longer needed');
+    expect(signal?.aborted).toBe(true);
+    expect(sseNotifier.sendProgress).toHaveBeenLastCalledWith('session-cancel', jobId, JobStatus.CANCELLED, 'Job cancelled: No longer needed', undefined);
+  });
+
+  it('should keep a cancelled job cancelled while storing its partial output', () => {
+    const jobId = jobManager.createJob('test-tool', {});
+    jobManager.cancelJob(jobId);
+
+    expect(jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Still going')).toBe(false);
+    const partial: CallToolResult = { content: [{ type: 'text', text: 'Partial output' }], isError: false };
+    expect(jobManager.setJobResult(jobId, partial)).toBe(true);
+
+    const job = jobManager.getJob(jobId);
+    expect(job?.status).toBe(JobStatus.CANCELLED);
+    expect(job?.result).toEqual(partial);
+  });
+
+  it('should not cancel finished or non-existent jobs', () => {
+    const jobId = jobManager.createJob('test-tool', {});
+    jobManager.setJobResult(jobId, { content: [], isError: false });
+
+    expect(jobManager.cancelJob(jobId)).toBe(false);
+    expect(jobManager.getJob(jobId)?.status).toBe(JobStatus.COMPLETED);
+    expect(jobManager.cancelJob('fake-id')).toBe(false);
+  });
+
    // TODO: Add tests for status transition logic if implemented (e.g., cannot go from COMPLETED to RUNNING)
-   // TODO: Add tests for job cleanup/expiration if implemented
+});
+
+describe('JobManager listing and retention', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jobManager.stopRetention();
+  });
+
+  it('should list jobs newest first, filtered by tool name and status, with paging', () => {
+    const toolName = `list-tool-${Date.now()}`;
+    const firstId = jobManager.createJob(toolName, {});
+    const secondId = jobManager.createJob(toolName, {});
+    const thirdId = jobManager.createJob(toolName, {});
+    jobManager.getJob(firstId)!.createdAt -= 2000;
+    jobManager.getJob(secondId)!.createdAt -= 1000;
+    jobManager.setJobResult(secondId, { content: [], isError: false });
+
+    const firstPage = jobManager.listJobs({ toolName, limit: 2 });
+    expect(firstPage.total).toBe(3);
+    expect(firstPage.jobs.map(job => job.id)).toEqual([thirdId, secondId]);
+    expect(jobManager.listJobs({ toolName, limit: 2, offset: 2 }).jobs.map(job => job.id)).toEqual([firstId]);
+
+    const completed = jobManager.listJobs({ toolName, status: JobStatus.COMPLETED });
+    expect(completed.jobs.map(job => job.id)).toEqual([secondId]);
+  });
+
+  it('should filter jobs by creation time window', () => {
+    const toolName = `window-tool-${Date.now()}`;
+    const oldId = jobManager.createJob(toolName, {});
+    const newId = jobManager.createJob(toolName, {});
+    const now = Date.now();
+    jobManager.getJob(oldId)!.createdAt = now - 60_000;
+
+    expect(jobManager.listJobs({ toolName, createdAfter: now - 30_000 }).jobs.map(job => job.id)).toEqual([newId]);
+    expect(jobManager.listJobs({ toolName, createdBefore: now - 30_000 }).jobs.map(job => job.id)).toEqual([oldId]);
+  });
+
+  it('should evict finished jobs older than the maximum age but keep running ones', () => {
+    const finishedId = jobManager.createJob('retention-tool', {});
+    jobManager.setJobResult(finishedId, { content: [], isError: false });
+    const runningId = jobManager.createJob('retention-tool', {});
+    jobManager.updateJobStatus(runningId, JobStatus.RUNNING);
+
+    jobManager.configureRetention({ maxAgeMs: 1000, maxJobs: 0, cleanupIntervalMs: 0 });
+    const evicted = jobManager.cleanupOldJobs(Date.now() + 5000);
+
+    expect(evicted).toBeGreaterThanOrEqual(1);
+    expect(jobManager.getJob(finishedId)).toBeUndefined();
+    expect(jobManager.getJob(runningId)?.status).toBe(JobStatus.RUNNING);
+  });
+
+  it('should evict the oldest finished jobs when over the maximum count', () => {
+    const oldestId = jobManager.createJob('count-tool', {});
+    jobManager.setJobResult(oldestId, { content: [], isError: false });
+    jobManager.getJob(oldestId)!.updatedAt -= 10_000;
+    const newestId = jobManager.createJob('count-tool', {});
+    jobManager.setJobResult(newestId, { content: [], isError: false });
+
+    const maxJobs = jobManager.listJobs().total - 1;
+    jobManager.configureRetention({ maxAgeMs: 0, maxJobs, cleanupIntervalMs: 0 });
+
+    expect(jobManager.getJob(oldestId)).toBeUndefined();
+    expect(jobManager.getJob(newestId)).toBeDefined();
+    expect(jobManager.listJobs().total).toBe(maxJobs);
+  });
+});
+
+describe('JobManager streamed output', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should keep streamed text as partial output, send it to the session and drop it on completion', () => {
+    const jobId = jobManager.createJob('test-tool', {}, { sessionId: 'session-output' });
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING);
+
+    expect(jobManager.writeJobOutput(jobId, 0, 'Hello')).toBe(true);
+    expect(jobManager.writeJobOutput(jobId, 5, ' world')).toBe(true);
+    // Overwrites everything from the offset on
+    expect(jobManager.writeJobOutput(jobId, 5, ', there')).toBe(true);
+
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe('Hello, there');
+    expect(sseNotifier.sendOutput).toHaveBeenLastCalledWith('session-output', jobId, 5, ', there');
+
+    jobManager.setJobResult(jobId, { content: [{ type: 'text', text: 'Hello, there' }], isError: false });
+    expect(jobManager.getJob(jobId)?.partialOutput).toBeUndefined();
+    expect(jobManager.writeJobOutput(jobId, 0, 'late')).toBe(false);
+  });
+
+  it('should batch streamed text and start over when the call is retried', () => {
+    let now = 0;
+    const jobId = jobManager.createJob('test-tool', {});
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING);
+    jobManager.writeJobOutput(jobId, 0, 'Research findings');
+    const writer = new JobOutputWriter(jobId, () => now);
+
+    writer.write('Rep', 'Rep');
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe('Research findings');
+
+    now = 1000;
+    writer.write('ort', 'Report');
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe('Research findings\n\nReport');
+
+    // A retry starts the call's text over
+    const retried = 'x'.repeat(JOB_OUTPUT_FLUSH_CHARS);
+    writer.write(retried, retried);
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe(`Research findings\n\n${retried}`);
+
+    writer.write('!', `${retried}!`);
+    writer.flush();
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe(`Research findings\n\n${retried}!`);
+  });
 });
@@ -0,0 +1,157 @@
+// src/services/job-manager/job-store.test.ts
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { FileJobStore } from './jobStore.js';
+import { jobManager, Job, JobStatus } from './index.js';
+
+vi.mock('../sse-notifier/index.js', () => ({
+  sseNotifier: {
+    sendProgress: vi.fn(),
+  }
+}));
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const createJob = (id: string, status: JobStatus): Job => ({
+  id,
+  toolName: 'test-tool',
+  params: { input: id },
+  status,
+  createdAt: 1000,
+  updatedAt: 1000,
+});
+
+describe('FileJobStore', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-store-'));
+    filePath = path.join(tempDir, 'nested', 'jobs.jsonl');
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it('should return no jobs when the file does not exist', () => {
+    const store = new FileJobStore(filePath);
+    expect(store.load()).toEqual([]);
+  });
+
+  it('should keep the latest snapshot of each job and compact the file', () => {
+    const store = new FileJobStore(filePath);
+    store.save(createJob('job-1', JobStatus.PENDING));
+    store.save({ ...createJob('job-1', JobStatus.COMPLETED), updatedAt: 2000 });
+    store.save(createJob('job-2', JobStatus.FAILED));
+
+    const loaded = new FileJobStore(filePath).load();
+
+    expect(loaded).toHaveLength(2);
+    expect(loaded.find(job => job.id === 'job-1')?.status).toBe(JobStatus.COMPLETED);
+    expect(fs.readFileSync(filePath, 'utf-8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should drop removed jobs on load', () => {
+    const store = new FileJobStore(filePath);
+    store.save(createJob('job-1', JobStatus.COMPLETED));
+    store.save(createJob('job-2', JobStatus.COMPLETED));
+    store.remove('job-1');
+
+    const loaded = new FileJobStore(filePath).load();
+
+    expect(loaded.map(job => job.id)).toEqual(['job-2']);
+    expect(fs.readFileSync(filePath, 'utf-8').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('should compact the file while running once enough lines were appended', () => {
+    const store = new FileJobStore(filePath, 5);
+    store.save(createJob('job-1', JobStatus.PENDING));
+    store.save(createJob('job-2', JobStatus.PENDING));
+    store.save({ ...createJob('job-1', JobStatus.RUNNING), updatedAt: 2000 });
+    store.remove('job-2');
+    expect(fs.readFileSync(filePath, 'utf-8').trim().split('\n')).toHaveLength(4);
+
+    store.save({ ...createJob('job-1', JobStatus.COMPLETED), updatedAt: 3000 });
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n');
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual(expect.objectContaining({ id: 'job-1', status: JobStatus.COMPLETED }));
+  });
+
+  it('should skip corrupt lines instead of failing', () => {
+    fs.ensureDirSync(path.dirname(filePath));
+    fs.writeFileSync(filePath, `${JSON.stringify(createJob('job-1', JobStatus.COMPLETED))}\n{"id": "job-2", "sta`);
+
+    const loaded = new FileJobStore(filePath).load();
+
+    expect(loaded.map(job => job.id)).toEqual(['job-1']);
+  });
+});
+
+describe('JobManager with a persistent store', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'job-manager-store-'));
+    filePath = path.join(tempDir, 'jobs.jsonl');
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+  });
+
+  it('should restore finished jobs and fail jobs interrupted by a restart', () => {
+    const store = new FileJobStore(filePath);
+    store.save(createJob('finished-job', JobStatus.COMPLETED));
+    store.save(createJob('running-job', JobStatus.RUNNING));
+
+    const loadedCount = jobManager.initializeStore(new FileJobStore(filePath));
+
+    expect(loadedCount).toBe(2);
+    expect(jobManager.getJob('finished-job')?.status).toBe(JobStatus.COMPLETED);
+    const interrupted = jobManager.getJob('running-job');
+    expect(interrupted?.status).toBe(JobStatus.FAILED);
+    expect(interrupted?.result?.isError).toBe(true);
+    expect(interrupted?.progressMessage).toContain('interrupted');
+
+    // The failure is persisted, so a second restart sees the same state
+    const reloaded = new FileJobStore(filePath).load();
+    expect(reloaded.find(job => job.id === 'running-job')?.status).toBe(JobStatus.FAILED);
+  });
+
+  it('should persist new jobs and their results', () => {
+    jobManager.initializeStore(new FileJobStore(filePath));
+    const jobId = jobManager.createJob('test-tool', { input: 'persist me' });
+    jobManager.setJobResult(jobId, { content: [{ type: 'text', text: 'done' }], isError: false });
+
+    const reloaded = new FileJobStore(filePath).load();
+    const persisted = reloaded.find(job => job.id === jobId);
+    expect(persisted?.status).toBe(JobStatus.COMPLETED);
+    expect(persisted?.result?.content[0]).toEqual({ type: 'text', text: 'done' });
+  });
+
+  it('should only persist status changes, not progress-only updates', () => {
+    jobManager.initializeStore(new FileJobStore(filePath));
+    const jobId = jobManager.createJob('test-tool', { input: 'progress' });
+    jobManager.updateJobStatus(jobId, JobStatus.PENDING, 'Queued at position 2');
+    jobManager.updateJobProgress(jobId, { phase: 'generate', completed: 1, total: 3 });
+    jobManager.updateJobProgress(jobId, { phase: 'generate', completed: 2, total: 3 });
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Still generating');
+
+    const lines = fs.readFileSync(filePath, 'utf-8').trim().split('\n').map(line => JSON.parse(line) as Job);
+    expect(lines.filter(job => job.id === jobId).map(job => job.status)).toEqual([JobStatus.PENDING, JobStatus.RUNNING]);
+  });
+});
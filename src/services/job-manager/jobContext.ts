@@ -0,0 +1,53 @@
+// src/services/job-manager/jobContext.ts
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * The tool call and background job a piece of code is running for.
+ */
+export interface JobContext {
+  jobId?: string;
+  toolName?: string; // Tool whose executor the code runs in
+  sessionId?: string; // Session that called the tool
+}
+
+const storage = new AsyncLocalStorage<JobContext>();
+
+/**
+ * Runs job work with the job as the current job context. Code called from the
+ * work (such as LLM helpers) can then attribute what it does to the job without
+ * every caller passing the Job ID down.
+ * @param jobId The ID of the job the work belongs to.
+ * @param work The job body.
+ * @returns Whatever the work returns.
+ */
+export function runInJobContext<T>(jobId: string, work: () => T): T {
+  return storage.run({ ...storage.getStore(), jobId }, work);
+}
+
+/**
+ * Runs a tool executor with the tool and calling session as the current context,
+ * so work done outside background jobs can still be attributed to them.
+ * @param toolName The name of the tool being executed.
+ * @param sessionId The ID of the calling session, if known.
+ * @param work The executor call.
+ * @returns Whatever the work returns.
+ */
+export function runInToolContext<T>(toolName: string, sessionId: string | undefined, work: () => T): T {
+  return storage.run({ toolName, sessionId }, work);
+}
+
+/**
+ * Gets the ID of the job the current code is running for.
+ * @returns The Job ID, or undefined outside of scheduled job work.
+ */
+export function getCurrentJobId(): string | undefined {
+  return storage.getStore()?.jobId;
+}
+
+/**
+ * Gets the current context.
+ * @returns The job, tool and session the current code runs for, or undefined outside of any tool call.
+ */
+export function getCurrentJobContext(): JobContext | undefined {
+  return storage.getStore();
+}
@@ -0,0 +1,72 @@
+// src/services/job-manager/jobOutput.ts
+import { jobManager } from './index.js';
+import { getCurrentJobId } from './jobContext.js';
+
+// Streamed text is passed on in batches, so a long answer doesn't flood the session's event buffer
+export const JOB_OUTPUT_FLUSH_INTERVAL_MS = 500;
+export const JOB_OUTPUT_FLUSH_CHARS = 1000;
+
+// Separates the output of consecutive streamed calls of the same job
+const CALL_SEPARATOR = '\n\n';
+
+/**
+ * Streams the text of one LLM call into a job's partial output (see `JobManager.writeJobOutput`),
+ * after whatever earlier calls of the job wrote. Text is written in batches; `flush` writes the rest.
+ * Only one call per job should stream at a time, or the calls overwrite each other's text.
+ */
+export class JobOutputWriter {
+  private readonly offset: number; // Where this call's text starts in the job's output
+  private readonly separator: string;
+  private content = ''; // The call's text so far
+  private written = 0; // How much of separator + content has been written
+  private lastFlush: number;
+
+  /**
+   * @param jobId The ID of the job to write to.
+   * @param now Clock, injectable for tests.
+   */
+  constructor(private readonly jobId: string, private readonly now: () => number = Date.now) {
+    const existing = jobManager.getJob(jobId)?.partialOutput ?? '';
+    this.offset = existing.length;
+    this.separator = existing ? CALL_SEPARATOR : '';
+    this.lastFlush = now();
+  }
+
+  /**
+   * Takes in a piece of streamed text; matches `LlmDeltaHandler`, so it can be passed as `onDelta`.
+   * When the call starts over (after a retry or failover), the earlier text is overwritten.
+   * @param delta The newly arrived text.
+   * @param content The call's text so far, including the delta.
+   */
+  write = (delta: string, content: string): void => {
+    if (content === delta && this.content !== '') {
+      this.written = 0;
+    }
+    this.content = content;
+    const pending = this.separator.length + this.content.length - this.written;
+    if (pending >= JOB_OUTPUT_FLUSH_CHARS || this.now() - this.lastFlush >= JOB_OUTPUT_FLUSH_INTERVAL_MS) {
+      this.flush();
+    }
+  };
+
+  /**
+   * Writes any text not written yet.
+   */
+  flush(): void {
+    this.lastFlush = this.now();
+    const text = (this.separator + this.content).slice(this.written);
+    if (!text) return;
+    jobManager.writeJobOutput(this.jobId, this.offset + this.written, text);
+    this.written += text.length;
+  }
+}
+
+/**
+ * Creates a writer that streams an LLM call into the partial output of the job the
+ * current code runs for (see `runInJobContext`).
+ * @returns The writer, or undefined outside of job work.
+ */
+export function createCurrentJobOutputWriter(): JobOutputWriter | undefined {
+  const jobId = getCurrentJobId();
+  return jobId ? new JobOutputWriter(jobId) : undefined;
+}
@@ -0,0 +1,190 @@
+// src/services/job-manager/jobStore.ts
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../../logger.js';
+import type { Job } from './index.js';
+
+/**
+ * Persistence backend used by the JobManager.
+ * Implementations are synchronous so the JobManager API can stay synchronous.
+ */
+export interface JobStore {
+  /**
+   * Loads all persisted jobs.
+   * @returns The jobs found in the store (latest state of each job).
+   */
+  load(): Job[];
+  /**
+   * Persists the current state of a job, replacing any previous state.
+   * @param job The job to persist.
+   */
+  save(job: Job): void;
+  /**
+   * Removes a job from the store (e.g., when it is evicted by the retention policy).
+   * @param jobId The ID of the job to remove.
+   */
+  remove(jobId: string): void;
+}
+
+/**
+ * Marker line written by the file store when a job is removed.
+ */
+interface RemovedJobRecord {
+  id: string;
+  removed: true;
+}
+
+/**
+ * How many lines the file store appends before it compacts the file again.
+ */
+export const DEFAULT_JOB_STORE_COMPACT_AFTER_LINES = 1000;
+
+/**
+ * Job store that keeps nothing beyond the JobManager's own in-memory map.
+ * Jobs are lost when the server restarts.
+ */
+export class InMemoryJobStore implements JobStore {
+  load(): Job[] {
+    return [];
+  }
+
+  save(): void {
+    // Nothing to persist; the JobManager already holds the job in memory.
+  }
+
+  remove(): void {
+    // Nothing to remove; the JobManager deletes the job from its own map.
+  }
+}
+
+/**
+ * Job store backed by a JSON Lines file.
+ * Every save appends a full snapshot of the job and every removal appends a
+ * removal marker; the last line for each job ID wins. The file is compacted to
+ * one line per remaining job on load and again after every `compactAfterLines`
+ * appended lines, so it stays bounded on a long-running server.
+ */
+export class FileJobStore implements JobStore {
+  // Lines appended since the file was last compacted
+  private appendedLines = 0;
+
+  constructor(private readonly filePath: string, private readonly compactAfterLines: number = DEFAULT_JOB_STORE_COMPACT_AFTER_LINES) {}
+
+  load(): Job[] {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info({ filePath: this.filePath }, 'Job store file not found. Starting with an empty job store.');
+      return [];
+    }
+
+    const loadedJobs = this.readJobs();
+    this.compact(loadedJobs);
+    logger.info({ filePath: this.filePath, jobCount: loadedJobs.length }, 'Loaded jobs from job store file.');
+    return loadedJobs;
+  }
+
+  save(job: Job): void {
+    fs.ensureDirSync(path.dirname(this.filePath));
+    this.append(job);
+  }
+
+  remove(jobId: string): void {
+    if (!fs.existsSync(this.filePath)) return;
+    const record: RemovedJobRecord = { id: jobId, removed: true };
+    this.append(record);
+  }
+
+  /**
+   * Appends a record and compacts the file once enough lines have been appended since the last compaction.
+   */
+  private append(record: Job | RemovedJobRecord): void {
+    fs.appendFileSync(this.filePath, `${JSON.stringify(record)}\n`, 'utf-8');
+    this.appendedLines++;
+    if (this.appendedLines >= this.compactAfterLines) {
+      this.compact(this.readJobs());
+    }
+  }
+
+  /**
+   * Reads the latest state of every job that has not been removed.
+   */
+  private readJobs(): Job[] {
+    const jobs = new Map<string, Job>();
+    const lines = fs.readFileSync(this.filePath, 'utf-8').split('\n');
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      try {
+        const record = JSON.parse(line) as Job | RemovedJobRecord;
+        if (!record || typeof record.id !== 'string') {
+          logger.warn({ filePath: this.filePath, lineNumber: index + 1 }, 'Skipping job store record without an ID.');
+          return;
+        }
+        if ('removed' in record && record.removed) {
+          jobs.delete(record.id);
+          return;
+        }
+        jobs.set(record.id, record as Job);
+      } catch (error) {
+        // A crash mid-write can leave a truncated last line; skip it rather than failing startup.
+        logger.warn({ err: error, filePath: this.filePath, lineNumber: index + 1 }, 'Skipping unparseable job store record.');
+      }
+    });
+
+    return Array.from(jobs.values());
+  }
+
+  /**
+   * Rewrites the store file with a single line per job.
+   * @param jobs The jobs to keep.
+   */
+  private compact(jobs: Job[]): void {
+    // Counted from here even if the rewrite fails, so a failing disk isn't re-read on every append
+    this.appendedLines = 0;
+    try {
+      const content = jobs.map(job => JSON.stringify(job)).join('\n');
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, content ? `${content}\n` : '', 'utf-8');
+      fs.renameSync(tempPath, this.filePath);
+    } catch (error) {
+      logger.error({ err: error, filePath: this.filePath }, 'Failed to compact job store file.');
+    }
+  }
+}
+
+// Helper function to get the base output directory
+function getBaseOutputDir(): string {
+  return process.env.VIBE_CODER_OUTPUT_DIR
+    ? path.resolve(process.env.VIBE_CODER_OUTPUT_DIR)
+    : path.join(process.cwd(), 'workflow-agent-files');
+}
+
+/**
+ * Gets the path of the job store file.
+ * - `VIBE_CODER_JOB_STORE_PATH`: Path of the JSON Lines file; defaults to `jobs/jobs.jsonl` in the output directory.
+ * @returns The absolute path.
+ */
+export function getJobStoreFilePath(): string {
+  return process.env.VIBE_CODER_JOB_STORE_PATH
+    ? path.resolve(process.env.VIBE_CODER_JOB_STORE_PATH)
+    : path.join(getBaseOutputDir(), 'jobs', 'jobs.jsonl');
+}
+
+/**
+ * Creates the job store selected by environment variables.
+ * - `VIBE_CODER_JOB_STORE`: 'file' (default) or 'memory'.
+ * - `VIBE_CODER_JOB_STORE_PATH`: Path of the JSON Lines file used by the file store.
+ * @returns The configured JobStore instance.
+ */
+export function createJobStoreFromEnv(): JobStore {
+  const storeType = (process.env.VIBE_CODER_JOB_STORE || 'file').toLowerCase();
+  if (storeType === 'memory') {
+    logger.info('Using in-memory job store. Jobs will not survive server restarts.');
+    return new InMemoryJobStore();
+  }
+  if (storeType !== 'file') {
+    logger.warn({ storeType }, `Unknown VIBE_CODER_JOB_STORE value. Falling back to the file job store.`);
+  }
+
+  const filePath = getJobStoreFilePath();
+  logger.info({ filePath }, 'Using file-backed job store.');
+  return new FileJobStore(filePath);
+}
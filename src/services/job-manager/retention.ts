@@ -0,0 +1,39 @@
+// src/services/job-manager/retention.ts
+import { readNonNegativeNumber } from '../../utils/envNumbers.js';
+
+/**
+ * Controls how long finished jobs are kept by the JobManager.
+ * Pending and running jobs are never evicted.
+ */
+export interface JobRetentionOptions {
+  /** Finished jobs not updated for longer than this are evicted. 0 disables age-based eviction. */
+  maxAgeMs: number;
+  /** Maximum number of jobs kept; the oldest finished jobs are evicted first. 0 disables the limit. */
+  maxJobs: number;
+  /** How often eviction runs. 0 disables periodic eviction. */
+  cleanupIntervalMs: number;
+}
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_HOUR = 60 * MS_PER_MINUTE;
+
+export const DEFAULT_JOB_RETENTION: JobRetentionOptions = {
+  maxAgeMs: 24 * MS_PER_HOUR,
+  maxJobs: 1000,
+  cleanupIntervalMs: 10 * MS_PER_MINUTE,
+};
+
+/**
+ * Creates the job retention options from environment variables.
+ * - `VIBE_CODER_JOB_MAX_AGE_HOURS`: Hours to keep finished jobs (default 24, 0 = no limit).
+ * - `VIBE_CODER_JOB_MAX_COUNT`: Maximum number of jobs kept (default 1000, 0 = no limit).
+ * - `VIBE_CODER_JOB_CLEANUP_INTERVAL_MINUTES`: Minutes between eviction runs (default 10, 0 = only at startup).
+ * @returns The configured JobRetentionOptions.
+ */
+export function createJobRetentionOptionsFromEnv(): JobRetentionOptions {
+  return {
+    maxAgeMs: readNonNegativeNumber('VIBE_CODER_JOB_MAX_AGE_HOURS', DEFAULT_JOB_RETENTION.maxAgeMs / MS_PER_HOUR) * MS_PER_HOUR,
+    maxJobs: Math.floor(readNonNegativeNumber('VIBE_CODER_JOB_MAX_COUNT', DEFAULT_JOB_RETENTION.maxJobs)),
+    cleanupIntervalMs: readNonNegativeNumber('VIBE_CODER_JOB_CLEANUP_INTERVAL_MINUTES', DEFAULT_JOB_RETENTION.cleanupIntervalMs / MS_PER_MINUTE) * MS_PER_MINUTE,
+  };
+}
@@ -0,0 +1,144 @@
+// src/services/job-manager/scheduler.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JobScheduler, createSchedulerOptionsFromEnv } from './scheduler.js';
+import { jobManager, JobStatus } from './index.js';
+
+vi.mock('../sse-notifier/index.js', () => ({
+  sseNotifier: {
+    sendProgress: vi.fn(),
+  }
+}));
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+// Lets scheduled work (started via setImmediate) and its continuations run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * Creates job work that records when it starts and finishes only when released.
+ */
+function createControllableWork(started: string[], label: string) {
+  let release: () => void = () => {};
+  const done = new Promise<void>(resolve => { release = resolve; });
+  const work = async () => {
+    started.push(label);
+    await done;
+  };
+  return { work, release: () => release() };
+}
+
+describe('JobScheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should respect the global concurrency limit and report queue positions', async () => {
+    const scheduler = new JobScheduler({ maxConcurrentJobs: 1, toolConcurrencyLimits: {} });
+    const started: string[] = [];
+    const first = createControllableWork(started, 'first');
+    const second = createControllableWork(started, 'second');
+    const firstId = jobManager.createJob('tool-a', {});
+    const secondId = jobManager.createJob('tool-a', {});
+
+    scheduler.schedule(firstId, first.work);
+    scheduler.schedule(secondId, second.work);
+    await flush();
+
+    expect(started).toEqual(['first']);
+    expect(scheduler.getQueuePosition(secondId)).toBe(1);
+    expect(jobManager.getJob(secondId)?.progressMessage).toContain('Queued: position 1 of 1');
+
+    first.release();
+    await flush();
+    await flush();
+
+    expect(started).toEqual(['first', 'second']);
+    expect(scheduler.getQueuePosition(secondId)).toBeUndefined();
+    second.release();
+  });
+
+  it('should apply per-tool limits without blocking other tools', async () => {
+    const scheduler = new JobScheduler({ maxConcurrentJobs: 5, toolConcurrencyLimits: { 'slow-tool': 1 } });
+    const started: string[] = [];
+    const slowOne = createControllableWork(started, 'slow-1');
+    const slowTwo = createControllableWork(started, 'slow-2');
+    const other = createControllableWork(started, 'other');
+
+    scheduler.schedule(jobManager.createJob('slow-tool', {}), slowOne.work);
+    scheduler.schedule(jobManager.createJob('slow-tool', {}), slowTwo.work);
+    scheduler.schedule(jobManager.createJob('other-tool', {}), other.work);
+    await flush();
+
+    expect(started).toEqual(['slow-1', 'other']);
+    expect(scheduler.getStats()).toEqual({ running: 2, queued: 1 });
+    [slowOne, slowTwo, other].forEach(entry => entry.release());
+  });
+
+  it('should start higher-priority jobs first', async () => {
+    const scheduler = new JobScheduler({ maxConcurrentJobs: 1, toolConcurrencyLimits: {} });
+    const started: string[] = [];
+    const blocker = createControllableWork(started, 'blocker');
+    const low = createControllableWork(started, 'low');
+    const high = createControllableWork(started, 'high');
+
+    scheduler.schedule(jobManager.createJob('tool-a', {}), blocker.work);
+    const lowId = jobManager.createJob('tool-a', {}, { priority: 0 });
+    const highId = jobManager.createJob('tool-a', {}, { priority: 10 });
+    scheduler.schedule(lowId, low.work);
+    scheduler.schedule(highId, high.work);
+
+    expect(scheduler.getQueuePosition(highId)).toBe(1);
+    expect(scheduler.getQueuePosition(lowId)).toBe(2);
+
+    blocker.release();
+    await flush();
+    await flush();
+
+    expect(started).toEqual(['blocker', 'high']);
+    high.release();
+    await flush();
+    await flush();
+    expect(started).toEqual(['blocker', 'high', 'low']);
+    low.release();
+  });
+
+  it('should drop jobs that are cancelled while queued', async () => {
+    const scheduler = new JobScheduler({ maxConcurrentJobs: 1, toolConcurrencyLimits: {} });
+    const started: string[] = [];
+    const blocker = createControllableWork(started, 'blocker');
+    const cancelled = createControllableWork(started, 'cancelled');
+
+    scheduler.schedule(jobManager.createJob('tool-a', {}), blocker.work);
+    const cancelledId = jobManager.createJob('tool-a', {});
+    scheduler.schedule(cancelledId, cancelled.work);
+    jobManager.cancelJob(cancelledId);
+
+    blocker.release();
+    await flush();
+    await flush();
+
+    expect(started).toEqual(['blocker']);
+    expect(scheduler.getStats()).toEqual({ running: 0, queued: 0 });
+    expect(jobManager.getJob(cancelledId)?.status).toBe(JobStatus.CANCELLED);
+  });
+});
+
+describe('createSchedulerOptionsFromEnv', () => {
+  it('should parse the global and per-tool limits', () => {
+    vi.stubEnv('VIBE_CODER_MAX_CONCURRENT_JOBS', '4');
+    vi.stubEnv('VIBE_CODER_TOOL_CONCURRENCY', 'generate-task-list=1, research=2, broken');
+
+    expect(createSchedulerOptionsFromEnv()).toEqual({
+      maxConcurrentJobs: 4,
+      toolConcurrencyLimits: { 'generate-task-list': 1, research: 2 },
+    });
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,208 @@
+// src/services/job-manager/scheduler.ts
+import logger from '../../logger.js';
+import { readNonNegativeInteger } from '../../utils/envNumbers.js';
+import { jobManager, JobStatus } from './index.js';
+import { runInJobContext } from './jobContext.js';
+
+/**
+ * Concurrency limits applied by the JobScheduler.
+ */
+export interface JobSchedulerOptions {
+  /** Maximum number of jobs running at once across all tools. 0 means unlimited. */
+  maxConcurrentJobs: number;
+  /** Maximum number of jobs running at once per tool name. Tools not listed are only bound by the global limit. */
+  toolConcurrencyLimits: Record<string, number>;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: JobSchedulerOptions = {
+  maxConcurrentJobs: 3,
+  toolConcurrencyLimits: {},
+};
+
+/**
+ * The body of a background job. It must handle its own errors and set the job result.
+ */
+export type JobWork = () => Promise<void>;
+
+interface QueuedJob {
+  jobId: string;
+  toolName: string;
+  priority: number;
+  sequence: number; // Preserves FIFO order among jobs of equal priority
+  work: JobWork;
+  reportedPosition?: number;
+}
+
+/**
+ * Runs background job work with a global and per-tool concurrency limit.
+ * Jobs wait in a queue ordered by priority (higher first), then by submission order.
+ * While a job waits, its PENDING progress message reports its queue position.
+ */
+export class JobScheduler {
+  private queue: QueuedJob[] = [];
+  private runningCount = 0;
+  private runningByTool = new Map<string, number>();
+  private sequence = 0;
+
+  constructor(private options: JobSchedulerOptions = DEFAULT_SCHEDULER_OPTIONS) {}
+
+  /**
+   * Replaces the concurrency limits. Queued jobs start immediately if the new limits allow it.
+   * @param options The new limits.
+   */
+  configure(options: JobSchedulerOptions): void {
+    this.options = options;
+    logger.info({ ...options }, 'Configured job scheduler.');
+    this.drain();
+  }
+
+  /**
+   * Queues the work for a job created with jobManager.createJob. The work starts
+   * asynchronously, so executors can return the Job ID straight away.
+   * @param jobId The ID of the job the work belongs to.
+   * @param work The job body.
+   */
+  schedule(jobId: string, work: JobWork): void {
+    const job = jobManager.getJob(jobId);
+    const entry: QueuedJob = {
+      jobId,
+      toolName: job?.toolName ?? 'unknown',
+      priority: job?.priority ?? 0,
+      sequence: this.sequence++,
+      work,
+    };
+
+    // Insert after every job with the same or higher priority
+    const index = this.queue.findIndex(queued => queued.priority < entry.priority);
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+    logger.debug({ jobId, toolName: entry.toolName, priority: entry.priority, queueLength: this.queue.length }, 'Job queued.');
+    this.drain();
+  }
+
+  /**
+   * Gets the 1-based position of a job in the queue.
+   * @param jobId The ID of the job.
+   * @returns The queue position, or undefined if the job is not waiting.
+   */
+  getQueuePosition(jobId: string): number | undefined {
+    const index = this.queue.findIndex(queued => queued.jobId === jobId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  /**
+   * Gets the number of jobs currently running and waiting.
+   * @returns The running and queued job counts.
+   */
+  getStats(): { running: number; queued: number } {
+    return { running: this.runningCount, queued: this.queue.length };
+  }
+
+  /**
+   * Starts every queued job the concurrency limits allow, in queue order,
+   * then reports the new positions of the jobs still waiting.
+   */
+  private drain(): void {
+    // Jobs cancelled while waiting never start
+    this.queue = this.queue.filter(queued => {
+      if (jobManager.getJob(queued.jobId)?.status !== JobStatus.CANCELLED) return true;
+      logger.info({ jobId: queued.jobId }, 'Dropping cancelled job from the queue.');
+      return false;
+    });
+
+    for (const entry of [...this.queue]) {
+      if (!this.hasGlobalCapacity()) break;
+      if (!this.hasToolCapacity(entry.toolName)) continue; // A later job for another tool may still start
+      this.queue.splice(this.queue.indexOf(entry), 1);
+      this.start(entry);
+    }
+
+    this.reportQueuePositions();
+  }
+
+  private hasGlobalCapacity(): boolean {
+    const limit = this.options.maxConcurrentJobs;
+    return limit <= 0 || this.runningCount < limit;
+  }
+
+  private hasToolCapacity(toolName: string): boolean {
+    const limit = this.options.toolConcurrencyLimits[toolName];
+    return limit === undefined || limit <= 0 || (this.runningByTool.get(toolName) ?? 0) < limit;
+  }
+
+  private start(entry: QueuedJob): void {
+    this.runningCount++;
+    this.runningByTool.set(entry.toolName, (this.runningByTool.get(entry.toolName) ?? 0) + 1);
+    logger.debug({ jobId: entry.jobId, toolName: entry.toolName, running: this.runningCount }, 'Starting queued job.');
+
+    setImmediate(async () => {
+      try {
+        // Lets the LLM helpers attribute their calls to the job
+        await runInJobContext(entry.jobId, entry.work);
+      } catch (error) {
+        // Executors set their own failure results; this only guards the scheduler's bookkeeping
+        logger.error({ err: error, jobId: entry.jobId, toolName: entry.toolName }, 'Unhandled error in scheduled job.');
+      } finally {
+        this.runningCount--;
+        this.runningByTool.set(entry.toolName, (this.runningByTool.get(entry.toolName) ?? 1) - 1);
+        this.drain();
+      }
+    });
+  }
+
+  /**
+   * Updates the PENDING progress message of every waiting job whose position changed.
+   */
+  private reportQueuePositions(): void {
+    this.queue.forEach((entry, index) => {
+      const position = index + 1;
+      if (entry.reportedPosition === position) return;
+      entry.reportedPosition = position;
+      jobManager.updateJobStatus(
+        entry.jobId,
+        JobStatus.PENDING,
+        `Queued: position ${position} of ${this.queue.length}. Waiting for a free slot (${this.runningCount} job(s) running).`
+      );
+    });
+  }
+}
+
+/**
+ * Parses per-tool limits in the form `tool-a=1,tool-b=2`.
+ * @param value The raw environment variable value.
+ * @returns The parsed limits; invalid entries are skipped with a warning.
+ */
+function parseToolConcurrencyLimits(value: string | undefined): Record<string, number> {
+  const limits: Record<string, number> = {};
+  if (!value) return limits;
+  for (const pair of value.split(',')) {
+    if (!pair.trim()) continue;
+    const [toolName, rawLimit] = pair.split('=').map(part => part?.trim());
+    const limit = Number(rawLimit);
+    if (!toolName || !Number.isInteger(limit) || limit < 0) {
+      logger.warn({ entry: pair }, 'Skipping invalid VIBE_CODER_TOOL_CONCURRENCY entry. Expected tool-name=limit.');
+      continue;
+    }
+    limits[toolName] = limit;
+  }
+  return limits;
+}
+
+/**
+ * Creates the scheduler options from environment variables.
+ * - `VIBE_CODER_MAX_CONCURRENT_JOBS`: Global concurrency limit (default 3, 0 = unlimited).
+ * - `VIBE_CODER_TOOL_CONCURRENCY`: Per-tool limits, e.g. `generate-task-list=1,research=2`.
+ * @returns The configured JobSchedulerOptions.
+ */
+export function createSchedulerOptionsFromEnv(): JobSchedulerOptions {
+  return {
+    maxConcurrentJobs: readNonNegativeInteger('VIBE_CODER_MAX_CONCURRENT_JOBS', DEFAULT_SCHEDULER_OPTIONS.maxConcurrentJobs),
+    toolConcurrencyLimits: parseToolConcurrencyLimits(process.env.VIBE_CODER_TOOL_CONCURRENCY),
+  };
+}
+
+// Export a singleton instance
+export const jobScheduler = new JobScheduler();
@@ -0,0 +1,93 @@
+// src/services/job-notifier/index.ts
+import logger from '../../logger.js';
+import { Job, JobProgress, isFinalJobStatus } from '../job-manager/index.js';
+import { mcpNotifier } from '../mcp-notifier/index.js';
+import { sseNotifier } from '../sse-notifier/index.js';
+
+/**
+ * Formats the message of an MCP progress notification, prefixing the current phase.
+ * @param job The job being reported.
+ * @param message The job's progress message, if any.
+ * @param progress The job's structured progress, if any.
+ * @returns A human-readable progress message.
+ */
+function formatProgressMessage(job: Job, message?: string, progress?: JobProgress): string {
+  const text = message ?? `Job ${job.status}`;
+  if (!progress) return text;
+  const percent = progress.percent !== undefined ? ` ${progress.percent}%` : '';
+  return `[${progress.phase}${percent}] ${text}`;
+}
+
+/**
+ * Sends job status changes to every channel the owning session listens on:
+ * - MCP progress notifications, when the tool call that started the job carried a progress token
+ *   and has not returned yet; after it has, MCP log notifications, since the token is no longer valid;
+ * - MCP log notifications, for sessions registered for them (Streamable HTTP);
+ * - otherwise the SSE side channel (`/events/:sessionId`).
+ * Uses a Singleton pattern.
+ */
+class JobNotifier {
+  // Number of progress notifications sent per job; MCP requires the progress value to keep increasing
+  private progressCounts = new Map<string, number>();
+
+  /**
+   * Notifies the session that owns a job about its current status.
+   * Jobs created without a session have nobody to notify.
+   * @param job The job whose status changed.
+   * @param message Optional progress message to include.
+   * @param progress Optional structured progress to include.
+   */
+  notify(job: Job, message?: string, progress?: JobProgress): void {
+    if (!job.sessionId) return;
+
+    // A client that asked for progress keeps getting it over MCP once the tool call has returned, as log notifications
+    const progressTokenExpired = job.progressToken !== undefined && !this.sendMcpProgress(job, job.sessionId, message, progress);
+    if (mcpNotifier.sendProgress(job.sessionId, job.id, job.status, message, progress, progressTokenExpired)) return;
+    sseNotifier.sendProgress(job.sessionId, job.id, job.status, message, progress);
+  }
+
+  /**
+   * Sends text streamed by a job to the session that owns it, as an MCP log notification
+   * or over the SSE side channel, like status changes. Not sent as progress notifications.
+   * @param job The job that produced the text.
+   * @param offset Where in the job's partial output the text starts.
+   * @param text The streamed text.
+   */
+  notifyOutput(job: Job, offset: number, text: string): void {
+    if (!job.sessionId) return;
+
+    if (mcpNotifier.sendOutput(job.sessionId, job.id, offset, text)) return;
+    sseNotifier.sendOutput(job.sessionId, job.id, offset, text);
+  }
+
+  /**
+   * Sends an MCP progress notification for the job's progress token.
+   * The progress value counts the notifications sent so far; once the job is
+   * finished the total is set to the same value so clients can show completion.
+   * The phase data SSE clients get is included in `_meta`.
+   * @returns False if the notification could not be sent because the tool call has returned or the session is not connected.
+   */
+  private sendMcpProgress(job: Job, sessionId: string, message?: string, progress?: JobProgress): boolean {
+    const count = (this.progressCounts.get(job.id) ?? 0) + 1;
+    const finished = isFinalJobStatus(job.status);
+    if (finished) {
+      this.progressCounts.delete(job.id);
+    } else {
+      this.progressCounts.set(job.id, count);
+    }
+
+    const sent = mcpNotifier.sendProgressNotification(sessionId, job.progressToken!, {
+      progress: count,
+      total: finished ? count : undefined,
+      message: formatProgressMessage(job, message, progress),
+      _meta: { jobId: job.id, status: job.status, progress },
+    });
+    if (!sent) {
+      logger.debug({ jobId: job.id, sessionId }, 'Tool call has returned or the session is not connected over MCP. Skipped progress notification.');
+    }
+    return sent;
+  }
+}
+
+// Export a singleton instance
+export const jobNotifier = new JobNotifier();
@@ -0,0 +1,100 @@
+// src/services/job-notifier/job-notifier.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { jobNotifier } from './index.js';
+import { Job, JobStatus } from '../job-manager/index.js';
+import { mcpNotifier } from '../mcp-notifier/index.js';
+import { sseNotifier } from '../sse-notifier/index.js';
+
+vi.mock('../mcp-notifier/index.js', () => ({
+  mcpNotifier: {
+    sendProgress: vi.fn(),
+    sendProgressNotification: vi.fn(),
+  }
+}));
+
+vi.mock('../sse-notifier/index.js', () => ({
+  sseNotifier: {
+    sendProgress: vi.fn(),
+  }
+}));
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const createJob = (overrides: Partial<Job> = {}): Job => ({
+  id: 'job-1',
+  toolName: 'generate-task-list',
+  params: {},
+  status: JobStatus.RUNNING,
+  createdAt: 1000,
+  updatedAt: 1000,
+  sessionId: 'session-1',
+  ...overrides,
+});
+
+describe('JobNotifier Singleton', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(mcpNotifier.sendProgress).mockReturnValue(false);
+    vi.mocked(mcpNotifier.sendProgressNotification).mockReturnValue(true);
+  });
+
+  it('should send job progress over SSE when the session has no MCP log channel', () => {
+    const progress = { phase: 'decomposition', completed: 1, total: 4, percent: 25 };
+    jobNotifier.notify(createJob(), 'Decomposed 1/4 tasks.', progress);
+
+    expect(sseNotifier.sendProgress).toHaveBeenCalledWith('session-1', 'job-1', JobStatus.RUNNING, 'Decomposed 1/4 tasks.', progress);
+    expect(mcpNotifier.sendProgressNotification).not.toHaveBeenCalled();
+  });
+
+  it('should not use SSE for sessions that receive MCP log notifications', () => {
+    vi.mocked(mcpNotifier.sendProgress).mockReturnValue(true);
+    jobNotifier.notify(createJob(), 'Working...');
+
+    expect(sseNotifier.sendProgress).not.toHaveBeenCalled();
+  });
+
+  it('should send increasing MCP progress notifications for a progress token', () => {
+    const job = createJob({ id: 'job-token', progressToken: 'token-1' });
+    const progress = { phase: 'decomposition', completed: 1, total: 4, percent: 25 };
+
+    jobNotifier.notify(job, 'Starting...');
+    jobNotifier.notify(job, 'Decomposed 1/4 tasks.', progress);
+    jobNotifier.notify({ ...job, status: JobStatus.COMPLETED }, 'Job completed successfully');
+
+    const calls = vi.mocked(mcpNotifier.sendProgressNotification).mock.calls;
+    expect(calls.map(call => call[2].progress)).toEqual([1, 2, 3]);
+    expect(calls[1]).toEqual(['session-1', 'token-1', {
+      progress: 2,
+      total: undefined,
+      message: '[decomposition 25%] Decomposed 1/4 tasks.',
+      _meta: { jobId: 'job-token', status: JobStatus.RUNNING, progress },
+    }]);
+    // The final notification marks completion
+    expect(calls[2][2].total).toBe(3);
+    // SSE subscribers still get every update
+    expect(sseNotifier.sendProgress).toHaveBeenCalledTimes(3);
+    expect(mcpNotifier.sendProgress).toHaveBeenCalledWith('session-1', 'job-token', JobStatus.RUNNING, 'Starting...', undefined, false);
+  });
+
+  it('should send progress as MCP log notifications once the tool call has returned', () => {
+    vi.mocked(mcpNotifier.sendProgressNotification).mockReturnValue(false);
+    jobNotifier.notify(createJob({ id: 'job-returned', progressToken: 'token-3' }), 'Working...');
+
+    expect(mcpNotifier.sendProgress).toHaveBeenCalledWith('session-1', 'job-returned', JobStatus.RUNNING, 'Working...', undefined, true);
+    expect(sseNotifier.sendProgress).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not notify anyone for jobs without a session', () => {
+    jobNotifier.notify(createJob({ sessionId: undefined, progressToken: 'token-2' }), 'Working...');
+
+    expect(mcpNotifier.sendProgressNotification).not.toHaveBeenCalled();
+    expect(sseNotifier.sendProgress).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,304 @@
+// src/services/llm-cache/index.ts
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../../logger.js';
+import { readNonNegativeNumber } from '../../utils/envNumbers.js';
+import { LlmGenerationParams } from '../../types/workflow.js';
+
+/**
+ * What an LLM answer is cached under. Calls that agree on all fields share a cache entry.
+ */
+export interface LlmCacheKey {
+  model: string; // The model (or fallback chain) as mapped for the task
+  systemPrompt: string;
+  prompt: string;
+  temperature: number;
+  settings?: LlmGenerationParams; // Generation settings configured for the task (see `selectGenerationParamsForTask`)
+}
+
+/**
+ * Per-call cache options accepted by the LLM helpers.
+ */
+export interface LlmCacheCallOptions {
+  /** Skip the cached answer (the fresh answer still replaces it). */
+  bypass?: boolean;
+  /** How long the answer stays cached; defaults to the cache's TTL. */
+  ttlMs?: number;
+}
+
+/**
+ * Controls the on-disk LLM response cache.
+ */
+export interface LlmCacheOptions {
+  /** The cache is opt-in; nothing is read or written while disabled. */
+  enabled: boolean;
+  /** Directory holding one JSON file per cached answer. */
+  directory: string;
+  /** Default time-to-live of cached answers. */
+  ttlMs: number;
+  /** Time-to-live of cached research query answers. */
+  researchTtlMs: number;
+  /** Maximum total size of the cache files; the oldest entries are evicted first. 0 disables the limit. */
+  maxSizeBytes: number;
+}
+
+/**
+ * A cached LLM answer as stored on disk.
+ */
+export interface LlmCacheEntry {
+  hash: string; // Content address: SHA-256 of the cache key
+  model: string;
+  logicalTaskName: string;
+  temperature: number;
+  promptPreview: string; // Start of the user prompt, to recognise entries when inspecting the cache
+  createdAt: number;
+  expiresAt: number;
+  content: string;
+}
+
+/**
+ * An entry as listed by `LlmCache.list`, without the cached answer.
+ */
+export type LlmCacheEntrySummary = Omit<LlmCacheEntry, 'content'> & { sizeBytes: number };
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const BYTES_PER_MB = 1024 * 1024;
+const PROMPT_PREVIEW_LENGTH = 80;
+
+// Helper function to get the base output directory
+function getBaseOutputDir(): string {
+  return process.env.VIBE_CODER_OUTPUT_DIR
+    ? path.resolve(process.env.VIBE_CODER_OUTPUT_DIR)
+    : path.join(process.cwd(), 'workflow-agent-files');
+}
+
+export const DEFAULT_LLM_CACHE_OPTIONS: LlmCacheOptions = {
+  enabled: false,
+  directory: path.join(getBaseOutputDir(), 'llm-cache'),
+  ttlMs: 6 * MS_PER_HOUR,
+  researchTtlMs: 24 * MS_PER_HOUR,
+  maxSizeBytes: 100 * BYTES_PER_MB,
+};
+
+/**
+ * Computes the content address of a cache key.
+ * @param key The cache key.
+ * @returns The hex SHA-256 hash of the key.
+ */
+export function computeLlmCacheHash(key: LlmCacheKey): string {
+  const fields: unknown[] = [key.model, key.systemPrompt, key.prompt, key.temperature];
+  // Keys without task settings keep the hash they had before settings were configurable
+  if (key.settings && Object.keys(key.settings).length > 0) {
+    fields.push(key.settings);
+  }
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(fields))
+    .digest('hex');
+}
+
+/**
+ * Content-addressed on-disk cache of LLM answers, so repeated calls with the same
+ * model, prompts and temperature (e.g. re-running a workflow on the same input)
+ * don't pay for the same answer twice.
+ * Cache failures are logged and treated as misses; they never fail an LLM call.
+ * Uses a Singleton pattern.
+ */
+export class LlmCache {
+  constructor(private options: LlmCacheOptions = DEFAULT_LLM_CACHE_OPTIONS) {}
+
+  /**
+   * Replaces the cache options.
+   * @param options The new options.
+   */
+  configure(options: LlmCacheOptions): void {
+    this.options = options;
+    logger.info({ ...options }, `LLM response cache ${options.enabled ? 'enabled' : 'disabled'}.`);
+  }
+
+  /**
+   * Gets the current cache options.
+   * @returns The options.
+   */
+  getOptions(): LlmCacheOptions {
+    return this.options;
+  }
+
+  /**
+   * Looks up a cached answer. Expired entries are removed on the way.
+   * @param key The cache key.
+   * @param callOptions Per-call options; `bypass` skips the lookup.
+   * @returns The cached answer, or undefined on a miss (or when the cache is disabled or bypassed).
+   */
+  async get(key: LlmCacheKey, callOptions?: LlmCacheCallOptions): Promise<string | undefined> {
+    if (!this.options.enabled || callOptions?.bypass) return undefined;
+
+    const hash = computeLlmCacheHash(key);
+    const filePath = this.getEntryPath(hash);
+    try {
+      if (!(await fs.pathExists(filePath))) return undefined;
+      const entry = await fs.readJson(filePath) as LlmCacheEntry;
+      if (entry.expiresAt <= Date.now()) {
+        await fs.remove(filePath);
+        return undefined;
+      }
+      return entry.content;
+    } catch (error) {
+      logger.warn({ err: error, filePath }, 'Failed to read LLM cache entry. Treating it as a miss.');
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores an answer and evicts the oldest entries if the cache grows beyond its size limit.
+   * @param key The cache key.
+   * @param content The answer to cache.
+   * @param logicalTaskName The task the answer was generated for, shown when inspecting the cache.
+   * @param callOptions Per-call options; `ttlMs` overrides the default time-to-live.
+   */
+  async set(key: LlmCacheKey, content: string, logicalTaskName: string, callOptions?: LlmCacheCallOptions): Promise<void> {
+    if (!this.options.enabled) return;
+
+    const now = Date.now();
+    const entry: LlmCacheEntry = {
+      hash: computeLlmCacheHash(key),
+      model: key.model,
+      logicalTaskName,
+      temperature: key.temperature,
+      promptPreview: key.prompt.slice(0, PROMPT_PREVIEW_LENGTH),
+      createdAt: now,
+      expiresAt: now + (callOptions?.ttlMs ?? this.options.ttlMs),
+      content,
+    };
+    const filePath = this.getEntryPath(entry.hash);
+    try {
+      await fs.ensureDir(this.options.directory);
+      // Write to a temporary file first so concurrent readers never see a partial entry
+      const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+      await fs.writeJson(tempPath, entry);
+      await fs.rename(tempPath, filePath);
+      await this.enforceSizeLimit();
+    } catch (error) {
+      logger.warn({ err: error, filePath }, 'Failed to write LLM cache entry.');
+    }
+  }
+
+  /**
+   * Lists the cached entries, newest first.
+   * @returns Summaries of the entries, including expired ones not yet removed.
+   */
+  async list(): Promise<LlmCacheEntrySummary[]> {
+    const summaries: LlmCacheEntrySummary[] = [];
+    for (const fileName of await this.listEntryFiles()) {
+      const filePath = path.join(this.options.directory, fileName);
+      try {
+        const entry = await fs.readJson(filePath) as LlmCacheEntry;
+        const stats = await fs.stat(filePath);
+        summaries.push({
+          hash: entry.hash,
+          model: entry.model,
+          logicalTaskName: entry.logicalTaskName,
+          temperature: entry.temperature,
+          promptPreview: entry.promptPreview,
+          createdAt: entry.createdAt,
+          expiresAt: entry.expiresAt,
+          sizeBytes: stats.size,
+        });
+      } catch (error) {
+        logger.warn({ err: error, filePath }, 'Skipping unreadable LLM cache entry.');
+      }
+    }
+    return summaries.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Removes cached entries.
+   * @param expiredOnly Only remove entries whose time-to-live has passed.
+   * @returns The number of removed entries.
+   */
+  async clear(expiredOnly: boolean = false): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const fileName of await this.listEntryFiles()) {
+      const filePath = path.join(this.options.directory, fileName);
+      try {
+        if (expiredOnly) {
+          const entry = await fs.readJson(filePath) as LlmCacheEntry;
+          if (entry.expiresAt > now) continue;
+        }
+        await fs.remove(filePath);
+        removed++;
+      } catch (error) {
+        logger.warn({ err: error, filePath }, 'Failed to remove LLM cache entry.');
+      }
+    }
+    logger.info({ removed, expiredOnly, directory: this.options.directory }, 'Cleared LLM response cache.');
+    return removed;
+  }
+
+  private getEntryPath(hash: string): string {
+    return path.join(this.options.directory, `${hash}.json`);
+  }
+
+  private async listEntryFiles(): Promise<string[]> {
+    if (!(await fs.pathExists(this.options.directory))) return [];
+    const fileNames = await fs.readdir(this.options.directory);
+    return fileNames.filter(fileName => fileName.endsWith('.json'));
+  }
+
+  /**
+   * Evicts the least recently written entries until the cache fits its size limit.
+   */
+  private async enforceSizeLimit(): Promise<void> {
+    const { maxSizeBytes, directory } = this.options;
+    if (maxSizeBytes <= 0) return;
+
+    const files = await Promise.all((await this.listEntryFiles()).map(async fileName => {
+      const filePath = path.join(directory, fileName);
+      const stats = await fs.stat(filePath);
+      return { filePath, size: stats.size, modifiedAt: stats.mtimeMs };
+    }));
+    let totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalSize <= maxSizeBytes) return;
+
+    files.sort((a, b) => a.modifiedAt - b.modifiedAt);
+    let evicted = 0;
+    for (const file of files) {
+      if (totalSize <= maxSizeBytes) break;
+      await fs.remove(file.filePath);
+      totalSize -= file.size;
+      evicted++;
+    }
+    logger.info({ evicted, totalSize, maxSizeBytes }, 'Evicted the oldest LLM cache entries to stay within the size limit.');
+  }
+}
+
+/**
+ * Creates the LLM cache options from environment variables.
+ * - `VIBE_CODER_LLM_CACHE`: 'off' (default) or 'disk'.
+ * - `VIBE_CODER_LLM_CACHE_DIR`: Directory of the cache files (default `<output dir>/llm-cache`).
+ * - `VIBE_CODER_LLM_CACHE_TTL_HOURS`: Hours answers stay cached (default 6).
+ * - `VIBE_CODER_LLM_CACHE_RESEARCH_TTL_HOURS`: Hours research answers stay cached (default 24).
+ * - `VIBE_CODER_LLM_CACHE_MAX_SIZE_MB`: Maximum cache size (default 100, 0 = no limit).
+ * @returns The configured LlmCacheOptions.
+ */
+export function createLlmCacheOptionsFromEnv(): LlmCacheOptions {
+  const mode = (process.env.VIBE_CODER_LLM_CACHE || 'off').toLowerCase();
+  if (mode !== 'off' && mode !== 'disk') {
+    logger.warn({ mode }, 'Unknown VIBE_CODER_LLM_CACHE value. The LLM response cache stays disabled.');
+  }
+
+  return {
+    enabled: mode === 'disk',
+    directory: process.env.VIBE_CODER_LLM_CACHE_DIR
+      ? path.resolve(process.env.VIBE_CODER_LLM_CACHE_DIR)
+      : DEFAULT_LLM_CACHE_OPTIONS.directory,
+    ttlMs: readNonNegativeNumber('VIBE_CODER_LLM_CACHE_TTL_HOURS', DEFAULT_LLM_CACHE_OPTIONS.ttlMs / MS_PER_HOUR) * MS_PER_HOUR,
+    researchTtlMs: readNonNegativeNumber('VIBE_CODER_LLM_CACHE_RESEARCH_TTL_HOURS', DEFAULT_LLM_CACHE_OPTIONS.researchTtlMs / MS_PER_HOUR) * MS_PER_HOUR,
+    maxSizeBytes: Math.floor(readNonNegativeNumber('VIBE_CODER_LLM_CACHE_MAX_SIZE_MB', DEFAULT_LLM_CACHE_OPTIONS.maxSizeBytes / BYTES_PER_MB) * BYTES_PER_MB),
+  };
+}
+
+// Export a singleton instance
+export const llmCache = new LlmCache();
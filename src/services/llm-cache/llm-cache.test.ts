@@ -0,0 +1,113 @@
+// src/services/llm-cache/llm-cache.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { LlmCache, LlmCacheOptions, computeLlmCacheHash } from './index.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const key = { model: 'mock/model', systemPrompt: 'You write user stories.', prompt: 'A todo app', temperature: 0.1 };
+
+describe('LlmCache', () => {
+  let tempDir: string;
+  let options: LlmCacheOptions;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    options = { enabled: true, directory: tempDir, ttlMs: 60000, researchTtlMs: 120000, maxSizeBytes: 0 };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.removeSync(tempDir);
+  });
+
+  it('should address entries by model, prompts and temperature', () => {
+    expect(computeLlmCacheHash(key)).toBe(computeLlmCacheHash({ ...key }));
+    expect(computeLlmCacheHash(key)).not.toBe(computeLlmCacheHash({ ...key, temperature: 0.2 }));
+    expect(computeLlmCacheHash(key)).not.toBe(computeLlmCacheHash({ ...key, model: 'other/model' }));
+    expect(computeLlmCacheHash(key)).not.toBe(computeLlmCacheHash({ ...key, systemPrompt: 'You write tasks.' }));
+  });
+
+  it('should address entries by task settings only when some are configured', () => {
+    expect(computeLlmCacheHash({ ...key, settings: {} })).toBe(computeLlmCacheHash(key));
+    expect(computeLlmCacheHash({ ...key, settings: { max_tokens: 16000 } })).not.toBe(computeLlmCacheHash(key));
+  });
+
+  it('should return stored answers until they expire', async () => {
+    vi.useFakeTimers();
+    const cache = new LlmCache(options);
+
+    await cache.set(key, 'cached answer', 'user_stories_generation');
+    expect(await cache.get(key)).toBe('cached answer');
+    expect(await cache.get({ ...key, prompt: 'A chat app' })).toBeUndefined();
+
+    vi.advanceTimersByTime(60000);
+    expect(await cache.get(key)).toBeUndefined();
+    expect(await cache.list()).toEqual([]);
+  });
+
+  it('should honour per-call TTLs and the bypass flag', async () => {
+    vi.useFakeTimers();
+    const cache = new LlmCache(options);
+
+    await cache.set(key, 'research answer', 'research_query', { ttlMs: options.researchTtlMs });
+    vi.advanceTimersByTime(90000);
+
+    expect(await cache.get(key)).toBe('research answer');
+    expect(await cache.get(key, { bypass: true })).toBeUndefined();
+  });
+
+  it('should neither read nor write while disabled', async () => {
+    const cache = new LlmCache({ ...options, enabled: false });
+
+    await cache.set(key, 'answer', 'prd_generation');
+
+    expect(await cache.get(key)).toBeUndefined();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  it('should evict the oldest entries beyond the size limit', async () => {
+    const cache = new LlmCache(options);
+    await cache.set(key, 'first answer', 'prd_generation');
+    const entrySize = fs.statSync(path.join(tempDir, `${computeLlmCacheHash(key)}.json`)).size;
+    // Make the first entry clearly older than the ones written next
+    const past = new Date(Date.now() - 60000);
+    fs.utimesSync(path.join(tempDir, `${computeLlmCacheHash(key)}.json`), past, past);
+
+    cache.configure({ ...options, maxSizeBytes: entrySize * 2 + 10 });
+    await cache.set({ ...key, prompt: 'A chat app' }, 'second answer', 'prd_generation');
+    await cache.set({ ...key, prompt: 'A blog app' }, 'third answer', 'prd_generation');
+
+    expect(await cache.get(key)).toBeUndefined();
+    expect(await cache.get({ ...key, prompt: 'A blog app' })).toBe('third answer');
+    expect(await cache.list()).toHaveLength(2);
+  });
+
+  it('should list entries without their answers and clear expired entries only on request', async () => {
+    vi.useFakeTimers();
+    const cache = new LlmCache(options);
+    await cache.set(key, 'short-lived', 'prd_generation', { ttlMs: 1000 });
+    vi.advanceTimersByTime(10);
+    await cache.set({ ...key, prompt: 'A chat app' }, 'long-lived', 'research_query', { ttlMs: 120000 });
+
+    const entries = await cache.list();
+    expect(entries.map(entry => entry.logicalTaskName)).toEqual(['research_query', 'prd_generation']);
+    expect(entries[0]).not.toHaveProperty('content');
+    expect(entries[1].promptPreview).toBe('A todo app');
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.clear(true)).toBe(1);
+    expect(await cache.list()).toHaveLength(1);
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+// src/services/llm-providers/anthropic.ts
+import axios from 'axios';
+import type { LlmProviderSettings } from '../../types/workflow.js';
+import type { LlmChatRequest, LlmChatResponse, LlmProvider, LlmTokenUsage } from './index.js';
+import { createStreamError, isReadableStream, readSseJson } from './streaming.js';
+
+/**
+ * Version of the Anthropic Messages API the adapter speaks.
+ */
+export const ANTHROPIC_API_VERSION = '2023-06-01';
+
+interface AnthropicContentBlock {
+  type: string;
+  text?: string;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  message?: { usage?: AnthropicUsage }; // message_start
+  delta?: { type?: string; text?: string; stop_reason?: string }; // content_block_delta, message_delta
+  usage?: AnthropicUsage; // message_delta
+  error?: { type?: string; message?: string }; // error
+}
+
+// HTTP statuses of Anthropic's error types, which is all an `error` event in a stream carries
+const ANTHROPIC_ERROR_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+/**
+ * Adapter for the Anthropic Messages API (`/messages`).
+ * System messages move to the top-level `system` field. The API has no JSON mode,
+ * so JSON requests prefill the assistant turn with `{` and put it back in front of the answer.
+ */
+export class AnthropicProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly settings: LlmProviderSettings
+  ) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }));
+    if (request.jsonMode) {
+      messages.push({ role: 'assistant', content: '{' });
+    }
+    const stream = request.onDelta !== undefined;
+
+    const response = await axios.post(
+      `${this.settings.baseUrl}/messages`,
+      {
+        model: request.model,
+        ...(system ? { system } : {}),
+        messages,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+        ...(request.stop?.length ? { stop_sequences: request.stop } : {}),
+        ...(stream ? { stream: true } : {})
+      },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": this.settings.apiKey ?? '',
+          "anthropic-version": ANTHROPIC_API_VERSION
+        },
+        timeout: request.timeout,
+        signal: request.signal,
+        ...(stream ? { responseType: 'stream' as const } : {})
+      }
+    );
+
+    if (stream && isReadableStream(response.data)) {
+      return this.readStream(response.data, request);
+    }
+    const blocks: AnthropicContentBlock[] | undefined = response.data?.content;
+    const text = blocks?.filter(block => block.type === 'text').map(block => block.text ?? '').join('');
+    const content = text && request.jsonMode ? `{${text}` : text || undefined;
+    if (stream && content) {
+      request.onDelta?.(content, content);
+    }
+    return { content, usage: toTokenUsage(response.data?.usage), data: response.data };
+  }
+
+  /**
+   * Collects a streamed message, passing each text delta on as it arrives.
+   * Input tokens are reported at the start of the stream, output tokens at its end.
+   */
+  private async readStream(body: AsyncIterable<Buffer | string>, request: LlmChatRequest): Promise<LlmChatResponse> {
+    let content = '';
+    const usage: AnthropicUsage = {};
+    let reportedUsage = false;
+    let stopReason: string | undefined;
+    for await (const payload of readSseJson(body)) {
+      const event = payload as AnthropicStreamEvent;
+      if (event.type === 'error') {
+        const errorType = event.error?.type ?? 'unknown_error';
+        throw createStreamError(this.name, `${errorType}: ${event.error?.message ?? 'Unknown error'}`, ANTHROPIC_ERROR_STATUSES[errorType] ?? 500, event);
+      }
+      if (event.type === 'message_start' && event.message?.usage) {
+        Object.assign(usage, event.message.usage);
+        reportedUsage = true;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        // Put the prefilled brace back in front of a JSON answer
+        const delta = content === '' && request.jsonMode ? `{${event.delta.text}` : event.delta.text;
+        content += delta;
+        request.onDelta?.(delta, content);
+      } else if (event.type === 'message_delta') {
+        if (event.usage) {
+          Object.assign(usage, event.usage);
+          reportedUsage = true;
+        }
+        stopReason = event.delta?.stop_reason ?? stopReason;
+      }
+    }
+    return {
+      content: content || undefined,
+      usage: reportedUsage ? toTokenUsage(usage) : undefined,
+      data: { streamed: true, stop_reason: stopReason, usage: reportedUsage ? usage : undefined },
+    };
+  }
+}
+
+function toTokenUsage(usage: AnthropicUsage | undefined): LlmTokenUsage | undefined {
+  return usage ? { promptTokens: usage.input_tokens ?? 0, completionTokens: usage.output_tokens ?? 0 } : undefined;
+}
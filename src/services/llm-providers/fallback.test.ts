@@ -0,0 +1,185 @@
+// src/services/llm-providers/fallback.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
+import axios, { AxiosError, AxiosHeaders, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { chatWithModelFallback } from './fallback.js';
+import { llmResilience } from './resilience.js';
+import { createLlmProviderSettingsFromEnv } from './index.js';
+import { jobManager, JobStatus } from '../job-manager/index.js';
+import { runInJobContext } from '../job-manager/jobContext.js';
+import { usageTracker } from '../usage-tracker/index.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+vi.mock('../job-manager/index.js', () => ({
+  jobManager: {
+    updateJobStatus: vi.fn(),
+    getJob: vi.fn(),
+    setJobUsage: vi.fn(),
+  },
+  JobStatus: {
+    RUNNING: 'running',
+  },
+}));
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const config: OpenRouterConfig = {
+  baseUrl: 'http://openrouter.test',
+  apiKey: 'openrouter-key',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+  providers: createLlmProviderSettingsFromEnv({ OLLAMA_BASE_URL: 'http://ollama.test' }),
+};
+
+const request = {
+  messages: [{ role: 'user', content: 'Hello' }],
+  maxTokens: 100,
+  temperature: 0.1,
+};
+
+const createHttpError = (status: number): AxiosError => {
+  const requestConfig = { headers: new AxiosHeaders() } as InternalAxiosRequestConfig;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', requestConfig, {}, {
+    data: {}, status, statusText: 'Error', headers: {}, config: requestConfig,
+  } as AxiosResponse);
+};
+
+const completion = (content: string) => ({ data: { choices: [{ message: { content } }] } });
+
+describe('chatWithModelFallback', () => {
+  let postSpy: MockInstance<typeof axios.post>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    postSpy = vi.spyOn(axios, 'post');
+    // Fail over on the first error; retries are covered by resilience.test.ts
+    llmResilience.configure({
+      retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+      circuitBreaker: { failureThreshold: 0, resetTimeoutMs: 0 },
+    });
+    llmResilience.reset();
+    usageTracker.reset();
+  });
+
+  afterEach(() => {
+    postSpy.mockRestore();
+  });
+
+  it('should fail over to the next model on 429 and note which model answered in the job log', async () => {
+    postSpy
+      .mockRejectedValueOnce(createHttpError(429))
+      .mockResolvedValueOnce({ data: { message: { role: 'assistant', content: 'from fallback' } } });
+
+    const response = await runInJobContext('job-1', () =>
+      chatWithModelFallback(config, ['primary/model', 'ollama:llama3.1:8b'], request, 'task_list_decomposition')
+    );
+
+    expect(response.content).toBe('from fallback');
+    expect(response.modelUsed).toBe('ollama:llama3.1:8b');
+    expect(postSpy.mock.calls[0][0]).toBe('http://openrouter.test/chat/completions');
+    expect(postSpy.mock.calls[1][0]).toBe('http://ollama.test/api/chat');
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(
+      'job-1',
+      JobStatus.RUNNING,
+      'task_list_decomposition: answered by fallback model ollama:llama3.1:8b (failed: primary/model).'
+    );
+  });
+
+  it('should not fail over on client errors', async () => {
+    const clientError = createHttpError(400);
+    postSpy.mockRejectedValueOnce(clientError);
+
+    await expect(chatWithModelFallback(config, ['primary/model', 'backup/model'], request, 'prd_generation')).rejects.toBe(clientError);
+    expect(postSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip models whose circuit is open', async () => {
+    llmResilience.configure({
+      retry: { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 },
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000 },
+    });
+    postSpy
+      .mockRejectedValueOnce(createHttpError(503))
+      .mockResolvedValueOnce(completion('first'))
+      .mockResolvedValueOnce(completion('second'));
+
+    await chatWithModelFallback(config, ['primary/model', 'backup/model'], request, 'prd_generation');
+    const response = await chatWithModelFallback(config, ['primary/model', 'backup/model'], request, 'prd_generation');
+
+    expect(response.content).toBe('second');
+    expect(response.modelUsed).toBe('backup/model');
+    expect(postSpy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should throw the last error when every model fails', async () => {
+    const lastError = createHttpError(502);
+    postSpy
+      .mockRejectedValueOnce(createHttpError(500))
+      .mockRejectedValueOnce(lastError);
+
+    await expect(chatWithModelFallback(config, ['primary/model', 'backup/model'], request, 'prd_generation')).rejects.toBe(lastError);
+    expect(postSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should apply the generation settings of the task\'s llm_mapping entry', async () => {
+    postSpy.mockResolvedValueOnce(completion('answer'));
+    const taskConfig: OpenRouterConfig = {
+      ...config,
+      llm_mapping: { prd_generation: { model: 'primary/model', max_tokens: 16000, timeout: 300000, stop: ['END'] } },
+    };
+
+    await chatWithModelFallback(taskConfig, ['primary/model'], request, 'prd_generation');
+
+    const [, body, options] = postSpy.mock.calls[0];
+    // Settings the entry leaves out keep the request's values
+    expect(body).toMatchObject({ max_tokens: 16000, temperature: 0.1, stop: ['END'] });
+    expect(options).toMatchObject({ timeout: 300000 });
+  });
+
+  it('should record estimated usage for failed attempts, but not for refused requests', async () => {
+    postSpy
+      .mockRejectedValueOnce(createHttpError(429))
+      .mockRejectedValueOnce(createHttpError(503))
+      .mockResolvedValueOnce({ data: { choices: [{ message: { content: 'answer' } }], usage: { prompt_tokens: 3, completion_tokens: 1 } } });
+
+    await chatWithModelFallback(config, ['limited/model', 'primary/model', 'backup/model'], request, 'prd_generation');
+
+    const { byModel } = usageTracker.getReport();
+    expect(byModel['limited/model']).toBeUndefined();
+    // 'Hello' is estimated at 2 tokens
+    expect(byModel['primary/model']).toMatchObject({ calls: 1, promptTokens: 2, completionTokens: 0 });
+    expect(byModel['backup/model']).toMatchObject({ calls: 1, promptTokens: 3, completionTokens: 1 });
+  });
+
+  it('should record estimated usage for a stream that breaks off partway', async () => {
+    async function* brokenStream() {
+      yield `data: ${JSON.stringify({ choices: [{ delta: { content: 'Partial answer' } }] })}\n\n`;
+      throw new Error('socket hang up');
+    }
+    postSpy.mockResolvedValueOnce({ data: brokenStream() });
+    const deltas: string[] = [];
+
+    await expect(chatWithModelFallback(config, ['primary/model'], { ...request, onDelta: delta => deltas.push(delta) }, 'prd_generation'))
+      .rejects.toThrow('socket hang up');
+
+    expect(deltas).toEqual(['Partial answer']);
+    expect(usageTracker.getReport().byModel['primary/model']).toMatchObject({ calls: 1, promptTokens: 2, completionTokens: 4 });
+  });
+
+  it('should not write job notes for single-model mappings', async () => {
+    postSpy.mockResolvedValueOnce(completion('answer'));
+
+    const response = await runInJobContext('job-1', () =>
+      chatWithModelFallback(config, ['primary/model'], request, 'prd_generation')
+    );
+
+    expect(response.modelUsed).toBe('primary/model');
+    expect(jobManager.updateJobStatus).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,155 @@
+// src/services/llm-providers/fallback.ts
+import axios from 'axios';
+import logger from '../../logger.js';
+import { LlmGenerationParams, OpenRouterConfig } from '../../types/workflow.js';
+import { jobManager, JobStatus } from '../job-manager/index.js';
+import { getCurrentJobId } from '../job-manager/jobContext.js';
+import { LlmChatRequest, LlmChatResponse, LlmProvider, LlmTokenUsage, resolveLlmModel } from './index.js';
+import { isRetryableLlmError, llmResilience } from './resilience.js';
+import { estimateTokens, usageTracker } from '../usage-tracker/index.js';
+import { llmTranscripts } from '../llm-transcripts/index.js';
+import { selectBudgetForTask, selectGenerationParamsForTask } from '../../utils/configLoader.js';
+
+/**
+ * The result of a chat completion request sent along a fallback chain.
+ */
+export interface LlmFallbackResponse extends LlmChatResponse {
+  modelUsed: string; // The model (as mapped, including any provider prefix) that answered
+}
+
+/**
+ * Sends a chat request to the models of a fallback chain in order, moving on to the
+ * next model when a call fails with a retryable error (see `isRetryableLlmError`).
+ * Each model is first retried by the resilience layer (see `LlmResilience`); a model
+ * whose circuit breaker is open is skipped straight away. Any other error, or a retryable error from the last model, is thrown unchanged.
+ * For chains of more than one model, the model that answered is noted in the
+ * progress log of the job the call runs for. The tokens used by every attempt, including failed
+ * and cancelled ones, are recorded by the UsageTracker. No call is made once the task's LLM budget is used up, or when
+ * the request's max tokens could exceed it.
+ * Generation settings from the task's `llm_mapping` entry (see `selectGenerationParamsForTask`)
+ * replace the request's own max tokens, temperature, top_p, timeout and stop sequences.
+ * Answers are recorded as transcripts, or served from them without calling a provider, when
+ * configured (see `LlmTranscripts`).
+ *
+ * @param config The LLM configuration.
+ * @param modelChain The models to try, primary model first (see `selectModelChainForTask`).
+ * @param request The request to send to each model.
+ * @param logicalTaskName The logical task the call is made for, used in logs.
+ * @returns The response and the model that produced it.
+ * @throws BudgetExceededError if a spending limit has been reached, ConfigurationError if a model's
+ * provider is not usable, TranscriptMissError if a replayed request was not recorded, or the error of the last failed call.
+ */
+export async function chatWithModelFallback(
+  config: OpenRouterConfig,
+  modelChain: string[],
+  request: Omit<LlmChatRequest, 'model'>,
+  logicalTaskName: string
+): Promise<LlmFallbackResponse> {
+  const taskRequest = applyGenerationParams(request, selectGenerationParamsForTask(config, logicalTaskName));
+  usageTracker.assertWithinBudget(logicalTaskName, selectBudgetForTask(config, logicalTaskName), { maxTokens: taskRequest.maxTokens, models: modelChain });
+
+  // Replayed answers never reach a provider, so offline tests need no API keys
+  const replayed = await llmTranscripts.replay(modelChain, taskRequest, logicalTaskName);
+  if (replayed) {
+    usageTracker.record(replayed.modelUsed, logicalTaskName, replayed.usage);
+    return replayed;
+  }
+
+  const failedModels: string[] = [];
+  let lastError: unknown;
+
+  for (const [index, modelSpec] of modelChain.entries()) {
+    const { provider, model } = resolveLlmModel(config, modelSpec);
+    try {
+      const response = await llmResilience.execute(modelSpec, () => chatAndRecordUsage(provider, { ...taskRequest, model }, modelSpec, logicalTaskName), request.signal);
+      if (modelChain.length > 1) {
+        noteModelUsed(logicalTaskName, modelSpec, failedModels);
+      }
+      const answer = { ...response, modelUsed: modelSpec };
+      await llmTranscripts.record(modelChain, taskRequest, logicalTaskName, answer);
+      return answer;
+    } catch (error) {
+      lastError = error;
+      const nextModel = modelChain[index + 1];
+      if (nextModel === undefined || !isRetryableLlmError(error)) {
+        throw error;
+      }
+      failedModels.push(modelSpec);
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      logger.warn(
+        { err: error, logicalTaskName, failedModel: modelSpec, nextModel, status },
+        `LLM call for ${logicalTaskName} failed with a retryable error. Failing over to the next model.`
+      );
+    }
+  }
+
+  // Only reached for an empty chain
+  throw lastError;
+}
+
+/**
+ * Sends one attempt of a request and records its usage: the usage the provider reported or, for an attempt
+ * that failed or was cancelled, an estimate of the prompt and of the text streamed before it stopped.
+ */
+async function chatAndRecordUsage(provider: LlmProvider, request: LlmChatRequest, modelSpec: string, logicalTaskName: string): Promise<LlmChatResponse> {
+  let streamed = '';
+  const { onDelta } = request;
+  try {
+    const response = await provider.chat(onDelta
+      ? { ...request, onDelta: (delta, content) => { streamed = content; onDelta(delta, content); } }
+      : request);
+    usageTracker.record(modelSpec, logicalTaskName, response.usage);
+    return response;
+  } catch (error) {
+    const usage = estimateFailedAttemptUsage(request, streamed, error);
+    if (usage) {
+      usageTracker.record(modelSpec, logicalTaskName, usage);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Estimates the tokens a failed attempt consumed. A request the provider refused with a client error (4xx, e.g. 429)
+ * was never processed; after any other failure the prompt and the text streamed so far count.
+ * @returns The estimate, or undefined if the attempt consumed nothing.
+ */
+function estimateFailedAttemptUsage(request: LlmChatRequest, streamed: string, error: unknown): LlmTokenUsage | undefined {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  if (!streamed && status !== undefined && status >= 400 && status < 500) {
+    return undefined;
+  }
+  return {
+    promptTokens: estimateTokens(request.messages.map(message => message.content).join('\n')),
+    completionTokens: estimateTokens(streamed),
+  };
+}
+
+/**
+ * Records which model of a fallback chain answered, in the server log and the current job's progress log.
+ */
+function noteModelUsed(logicalTaskName: string, modelUsed: string, failedModels: string[]): void {
+  const note = failedModels.length > 0
+    ? `${logicalTaskName}: answered by fallback model ${modelUsed} (failed: ${failedModels.join(', ')}).`
+    : `${logicalTaskName}: answered by ${modelUsed}.`;
+  logger.info({ logicalTaskName, modelUsed, failedModels }, note);
+
+  const jobId = getCurrentJobId();
+  if (jobId) {
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, note);
+  }
+}
+
+/**
+ * Replaces the request's settings with those configured for the task.
+ */
+function applyGenerationParams(request: Omit<LlmChatRequest, 'model'>, params: LlmGenerationParams): Omit<LlmChatRequest, 'model'> {
+  return {
+    ...request,
+    maxTokens: params.max_tokens ?? request.maxTokens,
+    temperature: params.temperature ?? request.temperature,
+    topP: params.top_p ?? request.topP,
+    timeout: params.timeout ?? request.timeout,
+    stop: params.stop ?? request.stop,
+  };
+}
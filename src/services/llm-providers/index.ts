@@ -0,0 +1,193 @@
+// src/services/llm-providers/index.ts
+import logger from '../../logger.js';
+import { LlmProviderSettings, LlmProviderType, Message, OpenRouterConfig } from '../../types/workflow.js';
+import { ConfigurationError } from '../../utils/errors.js';
+import { OpenAICompatibleProvider } from './openaiCompatible.js';
+import { AnthropicProvider } from './anthropic.js';
+import { OllamaProvider } from './ollama.js';
+
+/**
+ * A single chat completion request, independent of the provider's API.
+ */
+export interface LlmChatRequest {
+  model: string; // Model name as the provider knows it (without a provider prefix)
+  messages: Message[];
+  maxTokens: number;
+  temperature: number;
+  topP?: number; // Nucleus sampling; the provider's default when unset
+  stop?: string[]; // Sequences that end the completion
+  jsonMode?: boolean; // Ask the provider to answer with a JSON object
+  timeout?: number; // Request timeout in milliseconds
+  signal?: AbortSignal;
+  onDelta?: LlmDeltaHandler; // Stream the completion, passing each piece of text as it arrives
+}
+
+/**
+ * Receives the text of a streamed completion as it arrives.
+ * @param delta The newly arrived text.
+ * @param content The text of the completion so far, including the delta. When a request is
+ *   retried or fails over to another model the content starts over, i.e. `content === delta`.
+ */
+export type LlmDeltaHandler = (delta: string, content: string) => void;
+
+/**
+ * Tokens consumed by a chat completion request, as reported by the provider.
+ */
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * The result of a chat completion request.
+ */
+export interface LlmChatResponse {
+  content?: string; // Text of the completion, undefined if the response contained none
+  usage?: LlmTokenUsage; // Undefined if the provider did not report usage
+  data: unknown; // Raw response body, for logging and error context
+}
+
+/**
+ * Adapter for one LLM API.
+ * For requests with an `onDelta` handler adapters stream the completion, and still resolve
+ * with the complete response once the stream ends.
+ * Adapters let HTTP errors (including cancellations) propagate unchanged, so callers
+ * can keep classifying them with `axios.isAxiosError` / `axios.isCancel`.
+ */
+export interface LlmProvider {
+  readonly name: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+/**
+ * A provider together with the model to request from it.
+ */
+export interface ResolvedLlmModel {
+  provider: LlmProvider;
+  model: string;
+}
+
+/**
+ * Provider used for models without a provider prefix, unless `defaultProvider` is configured.
+ * It talks to `config.baseUrl` with `config.apiKey` (OpenRouter by default).
+ */
+export const DEFAULT_LLM_PROVIDER = 'openrouter';
+
+interface BuiltInProvider {
+  type: LlmProviderType;
+  defaultBaseUrl: string;
+  baseUrlEnv: string;
+  apiKeyEnv: string;
+  requiresApiKey: boolean;
+}
+
+/**
+ * Providers configured from environment variables, in addition to the default provider.
+ */
+const BUILT_IN_PROVIDERS: Record<string, BuiltInProvider> = {
+  openai: { type: 'openai-compatible', defaultBaseUrl: 'https://api.openai.com/v1', baseUrlEnv: 'OPENAI_BASE_URL', apiKeyEnv: 'OPENAI_API_KEY', requiresApiKey: true },
+  anthropic: { type: 'anthropic', defaultBaseUrl: 'https://api.anthropic.com/v1', baseUrlEnv: 'ANTHROPIC_BASE_URL', apiKeyEnv: 'ANTHROPIC_API_KEY', requiresApiKey: true },
+  ollama: { type: 'ollama', defaultBaseUrl: 'http://localhost:11434', baseUrlEnv: 'OLLAMA_BASE_URL', apiKeyEnv: 'OLLAMA_API_KEY', requiresApiKey: false },
+  llamacpp: { type: 'openai-compatible', defaultBaseUrl: 'http://localhost:8080/v1', baseUrlEnv: 'LLAMACPP_BASE_URL', apiKeyEnv: 'LLAMACPP_API_KEY', requiresApiKey: false },
+};
+
+/**
+ * Creates the settings of the built-in providers from environment variables.
+ * Every built-in provider is listed; a missing API key only fails once the provider is used.
+ * @param env The environment to read (defaults to `process.env`).
+ * @returns Provider settings keyed by provider name, for `OpenRouterConfig.providers`.
+ */
+export function createLlmProviderSettingsFromEnv(env: Record<string, string | undefined> = process.env): Record<string, LlmProviderSettings> {
+  const providers: Record<string, LlmProviderSettings> = {};
+  for (const [name, builtIn] of Object.entries(BUILT_IN_PROVIDERS)) {
+    providers[name] = {
+      type: builtIn.type,
+      baseUrl: env[builtIn.baseUrlEnv] || builtIn.defaultBaseUrl,
+      apiKey: env[builtIn.apiKeyEnv] || undefined,
+      requiresApiKey: builtIn.requiresApiKey,
+    };
+  }
+  return providers;
+}
+
+/**
+ * Lists the names of all providers available with the given configuration.
+ * @param config The LLM configuration.
+ * @returns The default provider's name followed by the configured providers.
+ */
+export function getLlmProviderNames(config: OpenRouterConfig): string[] {
+  return [DEFAULT_LLM_PROVIDER, ...Object.keys(config.providers ?? {}).filter(name => name !== DEFAULT_LLM_PROVIDER)];
+}
+
+/**
+ * Returns the settings of a provider. The default provider uses the top-level
+ * `baseUrl` and `apiKey`, so existing OpenRouter configurations keep working.
+ */
+function getProviderSettings(config: OpenRouterConfig, providerName: string): LlmProviderSettings | undefined {
+  if (providerName === DEFAULT_LLM_PROVIDER) {
+    return { type: 'openai-compatible', baseUrl: config.baseUrl, apiKey: config.apiKey, requiresApiKey: true };
+  }
+  return config.providers?.[providerName];
+}
+
+/**
+ * Creates the adapter for a provider's API type.
+ * @param name The provider name, used in logs and errors.
+ * @param settings The provider's connection settings.
+ * @returns The provider adapter.
+ */
+export function createLlmProvider(name: string, settings: LlmProviderSettings): LlmProvider {
+  switch (settings.type) {
+    case 'anthropic':
+      return new AnthropicProvider(name, settings);
+    case 'ollama':
+      return new OllamaProvider(name, settings);
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(
+        name,
+        settings,
+        // OpenRouter uses the referer to attribute requests to the app
+        name === DEFAULT_LLM_PROVIDER ? { "HTTP-Referer": "https://vibe-coder-mcp.local" } : {}
+      );
+    default:
+      throw new ConfigurationError(`Unknown type "${String(settings.type)}" for LLM provider "${name}".`);
+  }
+}
+
+/**
+ * Resolves a model from `llm_mapping` (or a default model) to the provider that serves it.
+ * A model may be prefixed with a provider name, e.g. `anthropic:claude-3-5-sonnet-latest` or
+ * `ollama:llama3.1:8b`; models without a known provider prefix (such as
+ * `google/gemini-2.0-flash-thinking-exp:free`) go to the default provider.
+ *
+ * @param config The LLM configuration.
+ * @param modelSpec The model, optionally prefixed with `<provider>:`.
+ * @returns The provider adapter and the model name to send to it.
+ * @throws ConfigurationError if the provider is unknown or requires an API key that is not configured.
+ */
+export function resolveLlmModel(config: OpenRouterConfig, modelSpec: string): ResolvedLlmModel {
+  const separator = modelSpec.indexOf(':');
+  const prefix = separator > 0 ? modelSpec.slice(0, separator) : undefined;
+  const prefixIsProvider = prefix !== undefined && getLlmProviderNames(config).includes(prefix);
+
+  const providerName = prefixIsProvider ? prefix : (config.defaultProvider || DEFAULT_LLM_PROVIDER);
+  const model = prefixIsProvider ? modelSpec.slice(separator + 1) : modelSpec;
+
+  const settings = getProviderSettings(config, providerName);
+  if (!settings) {
+    throw new ConfigurationError(`LLM provider "${providerName}" is not configured.`, { modelSpec });
+  }
+  if (settings.requiresApiKey && !settings.apiKey) {
+    if (providerName === DEFAULT_LLM_PROVIDER) {
+      throw new ConfigurationError("OpenRouter API key (OPENROUTER_API_KEY) is not configured.");
+    }
+    const apiKeyEnv = BUILT_IN_PROVIDERS[providerName]?.apiKeyEnv;
+    throw new ConfigurationError(
+      `API key for LLM provider "${providerName}"${apiKeyEnv ? ` (${apiKeyEnv})` : ''} is not configured.`,
+      { modelSpec }
+    );
+  }
+
+  logger.debug({ modelSpec, provider: providerName, model }, 'Resolved LLM provider for model.');
+  return { provider: createLlmProvider(providerName, settings), model };
+}
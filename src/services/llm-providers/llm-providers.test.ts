@@ -0,0 +1,331 @@
+// src/services/llm-providers/llm-providers.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { Readable } from 'stream';
+import { resolveLlmModel, createLlmProviderSettingsFromEnv, getLlmProviderNames, DEFAULT_LLM_PROVIDER } from './index.js';
+import { ANTHROPIC_API_VERSION } from './anthropic.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+import { ApiError, ConfigurationError, ParsingError } from '../../utils/errors.js';
+import { isRetryableLlmError } from './resilience.js';
+
+vi.mock('axios');
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const mockedAxiosPost = vi.mocked(axios.post);
+
+const createConfig = (overrides: Partial<OpenRouterConfig> = {}): OpenRouterConfig => ({
+  baseUrl: 'http://openrouter.test',
+  apiKey: 'openrouter-key',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+  providers: createLlmProviderSettingsFromEnv({
+    ANTHROPIC_API_KEY: 'anthropic-key',
+    OLLAMA_BASE_URL: 'http://ollama.test',
+    LLAMACPP_BASE_URL: 'http://llamacpp.test/v1',
+  }),
+  ...overrides,
+});
+
+const messages = [
+  { role: 'system', content: 'You are helpful.' },
+  { role: 'user', content: 'Hello' },
+];
+
+describe('resolveLlmModel', () => {
+  it('should send unprefixed models to the default provider', () => {
+    const { provider, model } = resolveLlmModel(createConfig(), 'google/gemini-2.0-flash-thinking-exp:free');
+
+    expect(provider.name).toBe(DEFAULT_LLM_PROVIDER);
+    expect(model).toBe('google/gemini-2.0-flash-thinking-exp:free');
+  });
+
+  it('should pick the provider named by the model prefix', () => {
+    const { provider, model } = resolveLlmModel(createConfig(), 'ollama:llama3.1:8b');
+
+    expect(provider.name).toBe('ollama');
+    expect(model).toBe('llama3.1:8b');
+  });
+
+  it('should not require an OpenRouter key when the default provider is self-hosted', () => {
+    const config = createConfig({ apiKey: '', defaultProvider: 'llamacpp' });
+
+    const { provider, model } = resolveLlmModel(config, 'qwen2.5-coder');
+
+    expect(provider.name).toBe('llamacpp');
+    expect(model).toBe('qwen2.5-coder');
+  });
+
+  it('should throw a ConfigurationError when the provider needs a missing API key', () => {
+    const config = createConfig({ apiKey: '', providers: createLlmProviderSettingsFromEnv({}) });
+
+    expect(() => resolveLlmModel(config, 'some/model')).toThrow(ConfigurationError);
+    expect(() => resolveLlmModel(config, 'anthropic:claude-3-5-haiku-latest')).toThrow(/ANTHROPIC_API_KEY/);
+  });
+
+  it('should throw a ConfigurationError for an unknown default provider', () => {
+    expect(() => resolveLlmModel(createConfig({ defaultProvider: 'unknown' }), 'some/model')).toThrow(ConfigurationError);
+  });
+
+  it('should list the default provider first', () => {
+    expect(getLlmProviderNames(createConfig())).toEqual([DEFAULT_LLM_PROVIDER, 'openai', 'anthropic', 'ollama', 'llamacpp']);
+  });
+});
+
+describe('LLM provider adapters', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should call OpenRouter with the configured key and JSON mode', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { choices: [{ message: { content: '{"ok":true}' } }] } });
+    const { provider, model } = resolveLlmModel(createConfig(), 'some/model');
+
+    const response = await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2, jsonMode: true });
+
+    expect(response.content).toBe('{"ok":true}');
+    const [url, body, options] = mockedAxiosPost.mock.calls[0];
+    expect(url).toBe('http://openrouter.test/chat/completions');
+    expect(body).toMatchObject({ model: 'some/model', messages, max_tokens: 100, temperature: 0.2, response_format: { type: 'json_object' } });
+    expect(options?.headers).toMatchObject({ Authorization: 'Bearer openrouter-key' });
+  });
+
+  it('should call llama.cpp without an Authorization header', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { choices: [{ message: { content: 'hi' } }] } });
+    const { provider, model } = resolveLlmModel(createConfig(), 'llamacpp:local-model');
+
+    await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2 });
+
+    const [url, body, options] = mockedAxiosPost.mock.calls[0];
+    expect(url).toBe('http://llamacpp.test/v1/chat/completions');
+    expect(body).not.toHaveProperty('response_format');
+    expect(options?.headers).not.toHaveProperty('Authorization');
+  });
+
+  it('should map the request to the Anthropic Messages API', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { content: [{ type: 'text', text: '"ok":true}' }] } });
+    const { provider, model } = resolveLlmModel(createConfig(), 'anthropic:claude-3-5-haiku-latest');
+
+    const response = await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2, jsonMode: true });
+
+    // The prefilled opening brace is put back in front of the answer
+    expect(response.content).toBe('{"ok":true}');
+    const [url, body, options] = mockedAxiosPost.mock.calls[0];
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(body).toEqual({
+      model: 'claude-3-5-haiku-latest',
+      system: 'You are helpful.',
+      messages: [{ role: 'user', content: 'Hello' }, { role: 'assistant', content: '{' }],
+      max_tokens: 100,
+      temperature: 0.2,
+    });
+    expect(options?.headers).toMatchObject({ 'x-api-key': 'anthropic-key', 'anthropic-version': ANTHROPIC_API_VERSION });
+  });
+
+  it('should call the native Ollama chat API', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { message: { role: 'assistant', content: 'hi' } } });
+    const { provider, model } = resolveLlmModel(createConfig(), 'ollama:llama3.1:8b');
+
+    const response = await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2, jsonMode: true });
+
+    expect(response.content).toBe('hi');
+    const [url, body] = mockedAxiosPost.mock.calls[0];
+    expect(url).toBe('http://ollama.test/api/chat');
+    expect(body).toEqual({
+      model: 'llama3.1:8b',
+      messages,
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.2, num_predict: 100 },
+    });
+  });
+
+  it('should pass top_p and stop sequences on in each API\'s terms', async () => {
+    mockedAxiosPost.mockResolvedValue({ data: {} });
+    const request = { messages, maxTokens: 100, temperature: 0.2, topP: 0.9, stop: ['END'] };
+
+    for (const modelSpec of ['some/model', 'anthropic:claude-3-5-haiku-latest', 'ollama:llama3.1:8b']) {
+      const { provider, model } = resolveLlmModel(createConfig(), modelSpec);
+      await provider.chat({ ...request, model });
+    }
+
+    expect(mockedAxiosPost.mock.calls[0][1]).toMatchObject({ top_p: 0.9, stop: ['END'] });
+    expect(mockedAxiosPost.mock.calls[1][1]).toMatchObject({ top_p: 0.9, stop_sequences: ['END'] });
+    expect(mockedAxiosPost.mock.calls[2][1]).toMatchObject({ options: { temperature: 0.2, num_predict: 100, top_p: 0.9, stop: ['END'] } });
+    mockedAxiosPost.mockReset();
+  });
+
+  it('should normalise the token usage each API reports', async () => {
+    mockedAxiosPost
+      .mockResolvedValueOnce({ data: { choices: [{ message: { content: 'a' } }], usage: { prompt_tokens: 10, completion_tokens: 5 } } })
+      .mockResolvedValueOnce({ data: { content: [{ type: 'text', text: 'b' }], usage: { input_tokens: 20, output_tokens: 6 } } })
+      .mockResolvedValueOnce({ data: { message: { content: 'c' }, prompt_eval_count: 30, eval_count: 7 } });
+    const chat = (modelSpec: string) => {
+      const { provider, model } = resolveLlmModel(createConfig(), modelSpec);
+      return provider.chat({ model, messages, maxTokens: 100, temperature: 0.2 });
+    };
+
+    expect((await chat('some/model')).usage).toEqual({ promptTokens: 10, completionTokens: 5 });
+    expect((await chat('anthropic:claude-3-5-haiku-latest')).usage).toEqual({ promptTokens: 20, completionTokens: 6 });
+    expect((await chat('ollama:llama3.1:8b')).usage).toEqual({ promptTokens: 30, completionTokens: 7 });
+  });
+
+  it('should report no content when the response has an unexpected shape', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { unexpected: true } });
+    const { provider, model } = resolveLlmModel(createConfig(), 'anthropic:claude-3-5-haiku-latest');
+
+    const response = await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2 });
+
+    expect(response.content).toBeUndefined();
+    expect(response.usage).toBeUndefined();
+    expect(response.data).toEqual({ unexpected: true });
+  });
+});
+
+describe('LLM provider streaming', () => {
+  // Cuts the body into small chunks, so lines and events are split across chunks
+  const streamOf = (body: string) => ({ data: Readable.from(body.match(/[\s\S]{1,7}/g) ?? []) });
+  const sse = (...payloads: unknown[]) => payloads.map(payload => `data: ${JSON.stringify(payload)}\n\n`).join('');
+
+  const streamChat = async (modelSpec: string, jsonMode = false) => {
+    const deltas: string[] = [];
+    const { provider, model } = resolveLlmModel(createConfig(), modelSpec);
+    const response = await provider.chat({ model, messages, maxTokens: 100, temperature: 0.2, jsonMode, onDelta: delta => deltas.push(delta) });
+    return { response, deltas };
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should stream OpenAI-compatible completions', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf(
+      ': OPENROUTER PROCESSING\n\n' +
+      sse(
+        { choices: [{ delta: { content: 'Hel' } }] },
+        { choices: [{ delta: { content: 'lo!' }, finish_reason: 'stop' }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 2 } },
+      ) +
+      'data: [DONE]\n\n'
+    ));
+
+    const { response, deltas } = await streamChat('some/model');
+
+    expect(deltas).toEqual(['Hel', 'lo!']);
+    expect(response.content).toBe('Hello!');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 2 });
+    const [, body, options] = mockedAxiosPost.mock.calls[0];
+    expect(body).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+    expect(options?.responseType).toBe('stream');
+  });
+
+  it('should stream Anthropic messages and put the prefilled brace back', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf(
+      'event: message_start\n' + sse({ type: 'message_start', message: { usage: { input_tokens: 20, output_tokens: 1 } } }) +
+      'event: content_block_delta\n' + sse({ type: 'content_block_delta', delta: { type: 'text_delta', text: '"ok":' } }) +
+      'event: content_block_delta\n' + sse({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'true}' } }) +
+      'event: message_delta\n' + sse({ type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 4 } }) +
+      'event: message_stop\n' + sse({ type: 'message_stop' })
+    ));
+
+    const { response, deltas } = await streamChat('anthropic:claude-3-5-haiku-latest', true);
+
+    expect(deltas).toEqual(['{"ok":', 'true}']);
+    expect(response.content).toBe('{"ok":true}');
+    expect(response.usage).toEqual({ promptTokens: 20, completionTokens: 4 });
+  });
+
+  it('should stream Ollama answers', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf([
+      { message: { content: 'h' }, done: false },
+      { message: { content: 'i' }, done: false },
+      { message: { content: '' }, done: true, prompt_eval_count: 30, eval_count: 2 },
+    ].map(chunk => JSON.stringify(chunk)).join('\n') + '\n'));
+
+    const { response, deltas } = await streamChat('ollama:llama3.1:8b');
+
+    expect(deltas).toEqual(['h', 'i']);
+    expect(response.content).toBe('hi');
+    expect(response.usage).toEqual({ promptTokens: 30, completionTokens: 2 });
+    expect(mockedAxiosPost.mock.calls[0][1]).toMatchObject({ stream: true });
+  });
+
+  it('should pass on the whole answer when the server does not stream', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { choices: [{ message: { content: 'all at once' } }] } });
+
+    const { response, deltas } = await streamChat('llamacpp:local-model');
+
+    expect(deltas).toEqual(['all at once']);
+    expect(response.content).toBe('all at once');
+  });
+
+  it('should keep multibyte characters that are split across chunks', async () => {
+    const body = Buffer.from(sse({ choices: [{ delta: { content: 'Größe €' } }] }) + 'data: [DONE]\n\n', 'utf-8');
+    // Cut in the middle of the three bytes of '€'
+    const euro = body.indexOf(Buffer.from('€', 'utf-8'));
+    mockedAxiosPost.mockResolvedValueOnce({ data: Readable.from([body.subarray(0, euro + 1), body.subarray(euro + 1)]) });
+
+    const { response, deltas } = await streamChat('some/model');
+
+    expect(deltas).toEqual(['Größe €']);
+    expect(response.content).toBe('Größe €');
+  });
+
+  it('should throw a retryable ApiError for an error chunk of an OpenAI-compatible stream', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf(
+      sse({ choices: [{ delta: { content: 'Half an ans' } }] }) +
+      sse({ error: { code: 502, message: 'Upstream provider error' }, choices: [{ delta: { content: '' }, finish_reason: 'error' }] })
+    ));
+
+    const error = await streamChat('some/model').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.statusCode).toBe(502);
+    expect(error.message).toContain('Upstream provider error');
+    expect(isRetryableLlmError(error)).toBe(true);
+  });
+
+  it('should throw ApiErrors for Anthropic error events, retrying overloaded models only', async () => {
+    const errorStream = (type: string) => streamOf(
+      'event: content_block_delta\n' + sse({ type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hal' } }) +
+      'event: error\n' + sse({ type: 'error', error: { type, message: 'Something went wrong' } })
+    );
+    mockedAxiosPost.mockResolvedValueOnce(errorStream('overloaded_error')).mockResolvedValueOnce(errorStream('invalid_request_error'));
+
+    const overloaded = await streamChat('anthropic:claude-3-5-haiku-latest').catch(caught => caught);
+    const invalid = await streamChat('anthropic:claude-3-5-haiku-latest').catch(caught => caught);
+
+    expect(overloaded).toBeInstanceOf(ApiError);
+    expect(overloaded.statusCode).toBe(529);
+    expect(overloaded.message).toContain('overloaded_error');
+    expect(isRetryableLlmError(overloaded)).toBe(true);
+    expect(invalid.statusCode).toBe(400);
+    expect(isRetryableLlmError(invalid)).toBe(false);
+  });
+
+  it('should throw a retryable ApiError for an Ollama error line', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf(
+      JSON.stringify({ message: { content: 'h' }, done: false }) + '\n' +
+      JSON.stringify({ error: 'model runner has unexpectedly stopped' }) + '\n'
+    ));
+
+    const error = await streamChat('ollama:llama3.1:8b').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error.message).toContain('model runner has unexpectedly stopped');
+    expect(isRetryableLlmError(error)).toBe(true);
+  });
+
+  it('should throw a ParsingError for malformed chunks', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(streamOf(sse({ choices: [{ delta: { content: 'a' } }] }) + 'data: {not json\n\n'));
+
+    await expect(streamChat('some/model')).rejects.toThrow(ParsingError);
+  });
+});
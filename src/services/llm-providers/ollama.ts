@@ -0,0 +1,99 @@
+// src/services/llm-providers/ollama.ts
+import axios from 'axios';
+import type { LlmProviderSettings } from '../../types/workflow.js';
+import type { LlmChatRequest, LlmChatResponse, LlmProvider, LlmTokenUsage } from './index.js';
+import { createStreamError, isReadableStream, readNdjson } from './streaming.js';
+
+interface OllamaChatChunk {
+  message?: { content?: string };
+  done?: boolean;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string; // Sent instead of a chunk when generation fails, e.g. when the model runner stops
+}
+
+/**
+ * Adapter for Ollama's native chat API (`/api/chat`). Streamed answers arrive as
+ * newline-delimited JSON; the last object (`done: true`) carries the token counts.
+ * llama.cpp's server is OpenAI-compatible and uses the `llamacpp` provider instead.
+ */
+export class OllamaProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly settings: LlmProviderSettings
+  ) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const stream = request.onDelta !== undefined;
+    const response = await axios.post(
+      `${this.settings.baseUrl}/api/chat`,
+      {
+        model: request.model,
+        messages: request.messages,
+        stream,
+        ...(request.jsonMode ? { format: 'json' } : {}),
+        options: {
+          temperature: request.temperature,
+          num_predict: request.maxTokens,
+          ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+          ...(request.stop?.length ? { stop: request.stop } : {})
+        }
+      },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          // Only needed when Ollama sits behind an authenticating proxy
+          ...(this.settings.apiKey ? { "Authorization": `Bearer ${this.settings.apiKey}` } : {})
+        },
+        timeout: request.timeout,
+        signal: request.signal,
+        ...(stream ? { responseType: 'stream' as const } : {})
+      }
+    );
+
+    if (stream && isReadableStream(response.data)) {
+      return this.readStream(response.data, request);
+    }
+    const data: OllamaChatChunk | undefined = response.data;
+    const content = data?.message?.content;
+    if (stream && content) {
+      request.onDelta?.(content, content);
+    }
+    return { content, usage: toTokenUsage(data), data };
+  }
+
+  /**
+   * Collects a streamed answer, passing each text delta on as it arrives.
+   */
+  private async readStream(body: AsyncIterable<Buffer | string>, request: LlmChatRequest): Promise<LlmChatResponse> {
+    let content = '';
+    let last: OllamaChatChunk | undefined;
+    for await (const payload of readNdjson(body)) {
+      const chunk = payload as OllamaChatChunk;
+      if (chunk.error) {
+        // The request was accepted, so a failure while generating is the server's
+        throw createStreamError(this.name, chunk.error, 500, chunk);
+      }
+      const delta = chunk.message?.content;
+      if (delta) {
+        content += delta;
+        request.onDelta?.(delta, content);
+      }
+      last = chunk;
+    }
+    return {
+      content: content || undefined,
+      usage: toTokenUsage(last?.done ? last : undefined),
+      data: { streamed: true, ...last, message: { role: 'assistant', content } },
+    };
+  }
+}
+
+/**
+ * Ollama reports token counts as prompt_eval_count and eval_count.
+ */
+function toTokenUsage(data: OllamaChatChunk | undefined): LlmTokenUsage | undefined {
+  return data?.prompt_eval_count !== undefined || data?.eval_count !== undefined
+    ? { promptTokens: data.prompt_eval_count ?? 0, completionTokens: data.eval_count ?? 0 }
+    : undefined;
+}
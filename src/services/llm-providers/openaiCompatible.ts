@@ -0,0 +1,112 @@
+// src/services/llm-providers/openaiCompatible.ts
+import axios from 'axios';
+import type { LlmProviderSettings } from '../../types/workflow.js';
+import type { LlmChatRequest, LlmChatResponse, LlmProvider, LlmTokenUsage } from './index.js';
+import { createStreamError, isReadableStream, readSseJson } from './streaming.js';
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIStreamChunk {
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  usage?: OpenAIUsage | null;
+  // Sent instead of a delta when the upstream model fails mid-stream (OpenRouter, OpenAI)
+  error?: { message?: string; code?: number | string | null; type?: string | null };
+}
+
+/**
+ * Adapter for APIs that implement OpenAI's `/chat/completions` endpoint:
+ * OpenRouter, OpenAI, llama.cpp's server, vLLM, LM Studio and similar.
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly settings: LlmProviderSettings,
+    private readonly extraHeaders: Record<string, string> = {}
+  ) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const stream = request.onDelta !== undefined;
+    const response = await axios.post(
+      `${this.settings.baseUrl}/chat/completions`,
+      {
+        model: request.model,
+        messages: request.messages,
+        ...(request.jsonMode ? { response_format: { type: "json_object" } } : {}),
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+        ...(request.stop?.length ? { stop: request.stop } : {}),
+        // Servers that don't know stream_options ignore it; usage then stays unreported
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {})
+      },
+      {
+        headers: {
+          "Content-Type": "application/json",
+          // Self-hosted servers usually run without authentication
+          ...(this.settings.apiKey ? { "Authorization": `Bearer ${this.settings.apiKey}` } : {}),
+          ...this.extraHeaders
+        },
+        timeout: request.timeout,
+        signal: request.signal,
+        ...(stream ? { responseType: 'stream' as const } : {})
+      }
+    );
+
+    if (stream && isReadableStream(response.data)) {
+      return this.readStream(response.data, request);
+    }
+    const content: string | undefined = response.data?.choices?.[0]?.message?.content;
+    if (stream && content) {
+      // The server answered without streaming
+      request.onDelta?.(content, content);
+    }
+    return { content, usage: toTokenUsage(response.data?.usage), data: response.data };
+  }
+
+  /**
+   * Collects a streamed completion, passing each text delta on as it arrives.
+   */
+  private async readStream(body: AsyncIterable<Buffer | string>, request: LlmChatRequest): Promise<LlmChatResponse> {
+    let content = '';
+    let usage: OpenAIUsage | undefined;
+    let finishReason: string | undefined;
+    for await (const payload of readSseJson(body)) {
+      const chunk = payload as OpenAIStreamChunk;
+      if (chunk.error) {
+        throw createStreamError(this.name, chunk.error.message ?? 'Unknown error', toErrorStatus(chunk.error), chunk);
+      }
+      const choice = chunk.choices?.[0];
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        request.onDelta?.(delta, content);
+      }
+      finishReason = choice?.finish_reason ?? finishReason;
+      usage = chunk.usage ?? usage;
+    }
+    return {
+      content: content || undefined,
+      usage: toTokenUsage(usage),
+      data: { streamed: true, finish_reason: finishReason, usage },
+    };
+  }
+}
+
+/**
+ * Maps an error sent in a stream to an HTTP status. OpenRouter sends the status as `code`; OpenAI sends a `type`
+ * or string `code`. Anything unrecognized counts as a server error, since the request itself was accepted.
+ */
+function toErrorStatus(error: NonNullable<OpenAIStreamChunk['error']>): number {
+  if (typeof error.code === 'number') return error.code;
+  const kind = `${error.type ?? ''} ${error.code ?? ''}`;
+  if (kind.includes('rate_limit')) return 429;
+  if (kind.includes('invalid_request')) return 400;
+  return 500;
+}
+
+function toTokenUsage(usage: OpenAIUsage | undefined): LlmTokenUsage | undefined {
+  return usage ? { promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 } : undefined;
+}
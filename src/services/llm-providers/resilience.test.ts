@@ -0,0 +1,179 @@
+// src/services/llm-providers/resilience.test.ts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios, { AxiosError } from 'axios';
+import {
+  LlmResilience,
+  LlmResilienceOptions,
+  computeBackoffDelay,
+  isRetryableLlmError,
+  parseRetryAfter,
+} from './resilience.js';
+import { resolveLlmModel } from './index.js';
+import { ApiError, CancellationError, CircuitOpenError } from '../../utils/errors.js';
+import { mockOpenRouterResponse, mockOpenRouterResponseSequence } from '../../testUtils/mockLLM.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const config: OpenRouterConfig = {
+  baseUrl: 'http://openrouter.test',
+  apiKey: 'openrouter-key',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+};
+
+const matchUrl = 'http://openrouter.test/chat/completions';
+
+const createOptions = (overrides: { maxRetries?: number; failureThreshold?: number } = {}): LlmResilienceOptions => ({
+  retry: { maxRetries: overrides.maxRetries ?? 2, baseDelayMs: 1000, maxDelayMs: 30000 },
+  circuitBreaker: { failureThreshold: overrides.failureThreshold ?? 0, resetTimeoutMs: 60000 },
+});
+
+const chat = () => {
+  const { provider, model } = resolveLlmModel(config, 'primary/model');
+  return provider.chat({ model, messages: [{ role: 'user', content: 'Hello' }], maxTokens: 100, temperature: 0.1 });
+};
+
+describe('isRetryableLlmError', () => {
+  it('should retry rate limits, server errors, network errors and open circuits only', () => {
+    const httpError = (status: number) => new AxiosError('failed', 'ERR_BAD_RESPONSE', undefined, {}, { status } as never);
+    expect(isRetryableLlmError(httpError(429))).toBe(true);
+    expect(isRetryableLlmError(httpError(503))).toBe(true);
+    expect(isRetryableLlmError(new AxiosError('socket hang up', 'ECONNRESET'))).toBe(true);
+    expect(isRetryableLlmError(new CircuitOpenError('open', Date.now()))).toBe(true);
+    expect(isRetryableLlmError(httpError(400))).toBe(false);
+    expect(isRetryableLlmError(new axios.CanceledError())).toBe(false);
+    expect(isRetryableLlmError(new Error('boom'))).toBe(false);
+    expect(isRetryableLlmError(new ApiError('overloaded', 529))).toBe(true);
+    expect(isRetryableLlmError(new ApiError('bad request', 400))).toBe(false);
+    expect(isRetryableLlmError(new ApiError('no status'))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter and computeBackoffDelay', () => {
+  it('should parse Retry-After as seconds or as an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('2', now)).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+
+  it('should back off exponentially with jitter up to the maximum delay', () => {
+    const { retry } = createOptions();
+    expect(computeBackoffDelay(1, retry, () => 0)).toBe(500);
+    expect(computeBackoffDelay(1, retry, () => 0.999)).toBe(1000);
+    expect(computeBackoffDelay(3, retry, () => 0.999)).toBe(3998);
+    expect(computeBackoffDelay(10, retry, () => 0.999)).toBe(29985);
+  });
+});
+
+describe('LlmResilience', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should retry server errors with backoff until a call succeeds', async () => {
+    vi.useFakeTimers();
+    mockOpenRouterResponseSequence([
+      { matchUrl, shouldError: true, statusCode: 502 },
+      { matchUrl, shouldError: true, statusCode: 503 },
+      { matchUrl, responseContent: 'recovered' },
+    ]);
+    const resilience = new LlmResilience(createOptions());
+
+    const result = resilience.execute('primary/model', chat);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toMatchObject({ content: 'recovered' });
+    expect(axios.post).toHaveBeenCalledTimes(3);
+  });
+
+  it('should wait for Retry-After before retrying', async () => {
+    vi.useFakeTimers();
+    mockOpenRouterResponseSequence([
+      { matchUrl, shouldError: true, statusCode: 429, headers: { 'retry-after': '5' } },
+      { matchUrl, responseContent: 'after waiting' },
+    ]);
+    const resilience = new LlmResilience(createOptions());
+
+    const result = resilience.execute('primary/model', chat);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(axios.post).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toMatchObject({ content: 'after waiting' });
+    expect(axios.post).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not wait for a Retry-After longer than the maximum delay', async () => {
+    mockOpenRouterResponse({ matchUrl, shouldError: true, statusCode: 429, headers: { 'retry-after': '120' } });
+    const resilience = new LlmResilience(createOptions());
+
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 429 } });
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not retry client errors', async () => {
+    mockOpenRouterResponse({ matchUrl, shouldError: true, statusCode: 400 });
+    const resilience = new LlmResilience(createOptions());
+
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 400 } });
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting when the call is cancelled', async () => {
+    mockOpenRouterResponse({ matchUrl, shouldError: true, statusCode: 503 });
+    const resilience = new LlmResilience(createOptions());
+    const controller = new AbortController();
+
+    const result = resilience.execute('primary/model', chat, controller.signal);
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(result).rejects.toBeInstanceOf(CancellationError);
+    expect(axios.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after repeated failures, fail fast, and close it after a successful trial', async () => {
+    vi.useFakeTimers();
+    mockOpenRouterResponse({ matchUrl, shouldError: true, statusCode: 500 });
+    const resilience = new LlmResilience(createOptions({ maxRetries: 0, failureThreshold: 2 }));
+
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 500 } });
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 500 } });
+    expect(resilience.getCircuitState('primary/model')).toBe('open');
+
+    await expect(resilience.execute('primary/model', chat)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(axios.post).toHaveBeenCalledTimes(2);
+    // Other models are not affected
+    expect(resilience.getCircuitState('backup/model')).toBe('closed');
+
+    vi.advanceTimersByTime(60000);
+    expect(resilience.getCircuitState('primary/model')).toBe('half-open');
+    mockOpenRouterResponse({ matchUrl, responseContent: 'back up' });
+
+    await expect(resilience.execute('primary/model', chat)).resolves.toMatchObject({ content: 'back up' });
+    expect(resilience.getCircuitState('primary/model')).toBe('closed');
+  });
+
+  it('should reopen the circuit when the trial call fails', async () => {
+    vi.useFakeTimers();
+    mockOpenRouterResponse({ matchUrl, shouldError: true, statusCode: 503 });
+    const resilience = new LlmResilience(createOptions({ maxRetries: 0, failureThreshold: 1 }));
+
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 503 } });
+    vi.advanceTimersByTime(60000);
+    await expect(resilience.execute('primary/model', chat)).rejects.toMatchObject({ response: { status: 503 } });
+
+    expect(resilience.getCircuitState('primary/model')).toBe('open');
+    expect(axios.post).toHaveBeenCalledTimes(2);
+  });
+});
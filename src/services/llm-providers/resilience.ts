@@ -0,0 +1,283 @@
+// src/services/llm-providers/resilience.ts
+import axios from 'axios';
+import logger from '../../logger.js';
+import { readNonNegativeInteger } from '../../utils/envNumbers.js';
+import { ApiError, CancellationError, CircuitOpenError } from '../../utils/errors.js';
+
+/**
+ * How failed LLM calls are retried against the same model.
+ */
+export interface LlmRetryOptions {
+  /** Retries after the first attempt. 0 disables retries. */
+  maxRetries: number;
+  /** Delay before the first retry; doubles with every further retry (before jitter). */
+  baseDelayMs: number;
+  /** Upper bound for backoff delays. A longer `Retry-After` is not waited for; the call fails (over) instead. */
+  maxDelayMs: number;
+}
+
+/**
+ * When a model's circuit breaker stops sending calls to it.
+ */
+export interface LlmCircuitBreakerOptions {
+  /** Consecutive retryable failures that open the circuit. 0 disables the circuit breaker. */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before one trial call is let through. */
+  resetTimeoutMs: number;
+}
+
+export interface LlmResilienceOptions {
+  retry: LlmRetryOptions;
+  circuitBreaker: LlmCircuitBreakerOptions;
+}
+
+export const DEFAULT_LLM_RESILIENCE_OPTIONS: LlmResilienceOptions = {
+  retry: { maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 30000 },
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 },
+};
+
+/**
+ * State of a model's circuit breaker:
+ * - closed: calls go through;
+ * - open: calls fail fast with a CircuitOpenError;
+ * - half-open: the reset timeout has passed and the next call is a trial.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+interface Circuit {
+  consecutiveFailures: number;
+  openUntil?: number; // Set while the circuit is open or half-open
+  trialInFlight: boolean; // A half-open circuit lets a single trial call through
+}
+
+/**
+ * Checks whether an LLM call failed in a way another model (or a later attempt) may not:
+ * rate limiting (429), server errors (5xx), network errors without a response, and
+ * models whose circuit breaker is open. The same statuses count for ApiErrors, e.g. errors a provider
+ * sent inside a stream. Cancellations and other client errors are not retryable.
+ * @param error The error thrown by a provider.
+ * @returns True if the call may succeed elsewhere or later.
+ */
+export function isRetryableLlmError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return true;
+  if (error instanceof ApiError) {
+    return error.statusCode !== undefined && (error.statusCode === 429 || error.statusCode >= 500);
+  }
+  if (axios.isCancel(error) || !axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date.
+ * @param value The header value.
+ * @param now The current time in epoch milliseconds.
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).trim();
+  if (text === '') return undefined;
+
+  const seconds = Number(text);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  const date = Date.parse(text);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before a retry: exponential backoff capped at `maxDelayMs`,
+ * with "equal jitter" (half fixed, half random) so concurrent jobs don't retry in lockstep.
+ * @param retry The 1-based number of the retry.
+ * @param options The retry options.
+ * @param random Source of randomness in [0, 1).
+ * @returns The delay in milliseconds.
+ */
+export function computeBackoffDelay(retry: number, options: LlmRetryOptions, random: () => number = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+/**
+ * Waits for the given time, or rejects with a CancellationError when the signal fires.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancellationError('LLM call was cancelled while waiting to retry.'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancellationError('LLM call was cancelled while waiting to retry.'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retries LLM calls on transient errors and keeps a circuit breaker per model.
+ * Retries use jittered exponential backoff, or the server's `Retry-After` when it sends one.
+ * After repeated failures a model's circuit opens and calls to it fail fast with a
+ * CircuitOpenError, which lets a fallback chain move on to the next model straight away.
+ * Uses a Singleton pattern.
+ */
+export class LlmResilience {
+  // Circuit breakers keyed by model (as mapped, including any provider prefix)
+  private circuits = new Map<string, Circuit>();
+
+  constructor(private options: LlmResilienceOptions = DEFAULT_LLM_RESILIENCE_OPTIONS) {}
+
+  /**
+   * Replaces the retry and circuit breaker options.
+   * @param options The new options.
+   */
+  configure(options: LlmResilienceOptions): void {
+    this.options = options;
+    logger.info({ ...options }, 'Configured LLM retry and circuit breaker.');
+  }
+
+  /**
+   * Closes all circuits and forgets their failures.
+   */
+  reset(): void {
+    this.circuits.clear();
+  }
+
+  /**
+   * Gets the state of a model's circuit breaker.
+   * @param model The model.
+   * @param now The current time in epoch milliseconds.
+   * @returns The circuit state.
+   */
+  getCircuitState(model: string, now: number = Date.now()): CircuitState {
+    const circuit = this.circuits.get(model);
+    if (circuit?.openUntil === undefined) return 'closed';
+    return now < circuit.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Runs an LLM call for a model, retrying it on retryable errors (see `isRetryableLlmError`).
+   * @param model The model the call goes to; each model has its own circuit breaker.
+   * @param call The call to make.
+   * @param signal Optional AbortSignal that also cancels waiting between retries.
+   * @returns The result of the first successful attempt.
+   * @throws CircuitOpenError if the model's circuit is open, CancellationError if the signal fires
+   *   while waiting, or the error of the last attempt.
+   */
+  async execute<T>(model: string, call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const { maxRetries, maxDelayMs } = this.options.retry;
+
+    for (let attempt = 1; ; attempt++) {
+      this.admit(model);
+      try {
+        const result = await call();
+        this.recordSuccess(model);
+        return result;
+      } catch (error) {
+        if (!isRetryableLlmError(error)) {
+          this.releaseTrial(model);
+          throw error;
+        }
+        this.recordFailure(model);
+        if (attempt > maxRetries || this.getCircuitState(model) === 'open') {
+          throw error;
+        }
+
+        const retryAfterMs = axios.isAxiosError(error) ? parseRetryAfter(error.response?.headers?.['retry-after']) : undefined;
+        if (retryAfterMs !== undefined && retryAfterMs > maxDelayMs) {
+          logger.warn({ model, retryAfterMs, maxDelayMs }, 'LLM provider asked to retry later than the maximum retry delay. Not retrying.');
+          throw error;
+        }
+        const delay = retryAfterMs ?? computeBackoffDelay(attempt, this.options.retry);
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        logger.warn({ model, status, attempt, maxRetries, delay, retryAfterMs }, `LLM call failed with a retryable error. Retrying in ${delay}ms...`);
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  /**
+   * Lets a call through if the model's circuit allows it; a half-open circuit admits one trial call.
+   * @throws CircuitOpenError otherwise.
+   */
+  private admit(model: string): void {
+    const circuit = this.circuits.get(model);
+    const state = this.getCircuitState(model);
+    if (state === 'closed') return;
+    if (state === 'half-open' && circuit && !circuit.trialInFlight) {
+      circuit.trialInFlight = true;
+      logger.info({ model }, 'Circuit half-open. Sending a trial LLM call.');
+      return;
+    }
+    const retryAt = circuit?.openUntil ?? Date.now();
+    throw new CircuitOpenError(
+      `Circuit open for model ${model}: it failed repeatedly and is not called until ${new Date(retryAt).toISOString()}.`,
+      retryAt,
+      { model }
+    );
+  }
+
+  private recordSuccess(model: string): void {
+    if (this.circuits.get(model)?.openUntil !== undefined) {
+      logger.info({ model }, 'Trial LLM call succeeded. Circuit closed.');
+    }
+    this.circuits.delete(model);
+  }
+
+  private recordFailure(model: string): void {
+    const { failureThreshold, resetTimeoutMs } = this.options.circuitBreaker;
+    if (failureThreshold <= 0) return;
+
+    const circuit = this.circuits.get(model) ?? { consecutiveFailures: 0, trialInFlight: false };
+    circuit.consecutiveFailures++;
+    // A failed trial reopens the circuit straight away
+    if (circuit.trialInFlight || circuit.consecutiveFailures >= failureThreshold) {
+      circuit.openUntil = Date.now() + resetTimeoutMs;
+      circuit.trialInFlight = false;
+      logger.warn({ model, consecutiveFailures: circuit.consecutiveFailures, resetTimeoutMs }, 'LLM model failed repeatedly. Circuit opened.');
+    }
+    this.circuits.set(model, circuit);
+  }
+
+  /**
+   * Ends a trial call that failed for a non-retryable reason without judging the model.
+   */
+  private releaseTrial(model: string): void {
+    const circuit = this.circuits.get(model);
+    if (circuit) circuit.trialInFlight = false;
+  }
+}
+
+/**
+ * Creates the LLM retry and circuit breaker options from environment variables.
+ * - `LLM_MAX_RETRIES`: Retries per model after the first attempt (default 2, 0 = no retries).
+ * - `LLM_RETRY_BASE_DELAY_MS`: Delay before the first retry (default 1000).
+ * - `LLM_RETRY_MAX_DELAY_MS`: Maximum delay between retries, including `Retry-After` (default 30000).
+ * - `LLM_CIRCUIT_BREAKER_THRESHOLD`: Consecutive failures that open a model's circuit (default 5, 0 = disabled).
+ * - `LLM_CIRCUIT_BREAKER_RESET_MS`: How long an open circuit fails fast (default 60000).
+ * @returns The configured LlmResilienceOptions.
+ */
+export function createLlmResilienceOptionsFromEnv(): LlmResilienceOptions {
+  const { retry, circuitBreaker } = DEFAULT_LLM_RESILIENCE_OPTIONS;
+  return {
+    retry: {
+      maxRetries: readNonNegativeInteger('LLM_MAX_RETRIES', retry.maxRetries),
+      baseDelayMs: readNonNegativeInteger('LLM_RETRY_BASE_DELAY_MS', retry.baseDelayMs),
+      maxDelayMs: readNonNegativeInteger('LLM_RETRY_MAX_DELAY_MS', retry.maxDelayMs),
+    },
+    circuitBreaker: {
+      failureThreshold: readNonNegativeInteger('LLM_CIRCUIT_BREAKER_THRESHOLD', circuitBreaker.failureThreshold),
+      resetTimeoutMs: readNonNegativeInteger('LLM_CIRCUIT_BREAKER_RESET_MS', circuitBreaker.resetTimeoutMs),
+    },
+  };
+}
+
+// Export a singleton instance
+export const llmResilience = new LlmResilience();
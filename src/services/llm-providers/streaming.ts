@@ -0,0 +1,87 @@
+// src/services/llm-providers/streaming.ts
+import { ApiError, ParsingError } from '../../utils/errors.js';
+
+/**
+ * Checks whether a response body is a stream (as returned by axios for `responseType: 'stream'`).
+ * Servers that ignore the streaming flag answer with a regular response body instead.
+ * @param value The response body.
+ * @returns True if the body can be read chunk by chunk.
+ */
+export function isReadableStream(value: unknown): value is AsyncIterable<Buffer | string> {
+  return typeof (value as AsyncIterable<unknown> | undefined)?.[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Splits a streamed response body into lines, however the chunks happen to be cut.
+ * Bytes are decoded across chunks, so a multibyte UTF-8 character split between two chunks stays intact.
+ * @param stream The response body.
+ * @returns The lines, without line endings; empty lines included.
+ */
+export async function* readLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<string> {
+  const decoder = new TextDecoder('utf-8');
+  let pending = '';
+  for await (const chunk of stream) {
+    pending += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    for (const line of lines) {
+      yield line.endsWith('\r') ? line.slice(0, -1) : line;
+    }
+  }
+  pending += decoder.decode();
+  if (pending) {
+    yield pending;
+  }
+}
+
+/**
+ * Reads the JSON payloads of a Server-Sent Events stream, as sent by the OpenAI-compatible
+ * and Anthropic APIs. Comments, event names and other fields are skipped; the stream ends
+ * at OpenAI's `data: [DONE]` or when the body ends.
+ * @param stream The response body.
+ * @returns The parsed `data:` payloads.
+ * @throws ParsingError if a payload is not valid JSON.
+ */
+export async function* readSseJson(stream: AsyncIterable<Buffer | string>): AsyncGenerator<unknown> {
+  for await (const line of readLines(stream)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice('data:'.length).trim();
+    if (data === '[DONE]') return;
+    if (!data) continue;
+    yield parseStreamedJson(data);
+  }
+}
+
+/**
+ * Reads the JSON objects of a newline-delimited JSON stream, as sent by Ollama.
+ * @param stream The response body.
+ * @returns The parsed objects.
+ * @throws ParsingError if a line is not valid JSON.
+ */
+export async function* readNdjson(stream: AsyncIterable<Buffer | string>): AsyncGenerator<unknown> {
+  for await (const line of readLines(stream)) {
+    if (!line.trim()) continue;
+    yield parseStreamedJson(line);
+  }
+}
+
+/**
+ * Creates the error for an error a provider sent inside a stream, after the HTTP response had already started.
+ * The status decides whether the call is retried or fails over (see `isRetryableLlmError`).
+ * @param providerName The provider that sent the error.
+ * @param message The error message from the payload.
+ * @param statusCode The HTTP status the error corresponds to, e.g. 529 for an overloaded model.
+ * @param payload The payload carrying the error, kept as context.
+ * @returns The error to throw.
+ */
+export function createStreamError(providerName: string, message: string, statusCode: number, payload: unknown): ApiError {
+  return new ApiError(`LLM provider "${providerName}" reported an error in the stream: ${message}`, statusCode, { providerName, payload });
+}
+
+function parseStreamedJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new ParsingError('Streamed LLM response contained a malformed chunk.', { chunk: data.substring(0, 200) }, error as Error);
+  }
+}
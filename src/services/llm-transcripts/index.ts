@@ -0,0 +1,214 @@
+// src/services/llm-transcripts/index.ts
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../../logger.js';
+import { Message } from '../../types/workflow.js';
+import { TranscriptMissError } from '../../utils/errors.js';
+import type { LlmChatRequest, LlmTokenUsage } from '../llm-providers/index.js';
+import type { LlmFallbackResponse } from '../llm-providers/fallback.js';
+
+/**
+ * What happens to LLM calls: they go to the providers ('off'), go to the providers and are
+ * saved as transcripts ('record'), or are answered from saved transcripts only ('replay').
+ */
+export type LlmTranscriptMode = 'off' | 'record' | 'replay';
+
+/**
+ * Controls recording and replaying of LLM transcripts.
+ */
+export interface LlmTranscriptOptions {
+  mode: LlmTranscriptMode;
+  /** Directory holding one JSON file per recorded request. */
+  directory: string;
+}
+
+/**
+ * The parts of an LLM request that determine its answer. Requests that agree on all fields share a transcript.
+ */
+export interface LlmTranscriptRequest {
+  models: string[]; // The fallback chain as mapped for the task
+  messages: Message[];
+  maxTokens: number;
+  temperature: number;
+  topP?: number;
+  stop?: string[];
+  jsonMode?: boolean;
+}
+
+/**
+ * A recorded LLM request and its answer, as stored on disk.
+ */
+export interface LlmTranscript {
+  hash: string; // SHA-256 of the request; also the file name
+  logicalTaskName: string;
+  recordedAt: string; // ISO timestamp
+  request: LlmTranscriptRequest;
+  response: {
+    modelUsed: string;
+    content?: string;
+    usage?: LlmTokenUsage;
+    data: unknown;
+  };
+}
+
+// Helper function to get the base output directory
+function getBaseOutputDir(): string {
+  return process.env.VIBE_CODER_OUTPUT_DIR
+    ? path.resolve(process.env.VIBE_CODER_OUTPUT_DIR)
+    : path.join(process.cwd(), 'workflow-agent-files');
+}
+
+export const DEFAULT_LLM_TRANSCRIPT_OPTIONS: LlmTranscriptOptions = {
+  mode: 'off',
+  directory: path.join(getBaseOutputDir(), 'llm-transcripts'),
+};
+
+const TRANSCRIPT_MODES: LlmTranscriptMode[] = ['off', 'record', 'replay'];
+
+/**
+ * Picks the parts of a request that go into its transcript.
+ * @param models The fallback chain the request is sent along.
+ * @param request The request.
+ * @returns The transcript request.
+ */
+export function toTranscriptRequest(models: string[], request: Omit<LlmChatRequest, 'model'>): LlmTranscriptRequest {
+  return {
+    models,
+    messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    ...(request.topP !== undefined ? { topP: request.topP } : {}),
+    ...(request.stop?.length ? { stop: request.stop } : {}),
+    ...(request.jsonMode ? { jsonMode: true } : {}),
+  };
+}
+
+/**
+ * Computes the hash a request's transcript is stored under.
+ * @param request The transcript request.
+ * @returns The hex SHA-256 hash of the request.
+ */
+export function computeLlmTranscriptHash(request: LlmTranscriptRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([request.models, request.messages, request.maxTokens, request.temperature, request.topP ?? null, request.stop ?? null, request.jsonMode ?? false]))
+    .digest('hex');
+}
+
+/**
+ * Records LLM requests and their answers as transcript files, and serves them back in
+ * replay mode, so whole tools and workflows can be regression-tested offline and deterministically.
+ * Replaying never reaches a provider: a request without a transcript fails with a TranscriptMissError.
+ * Recording keeps the last answer for each distinct request.
+ * Uses a Singleton pattern.
+ */
+export class LlmTranscripts {
+  constructor(private options: LlmTranscriptOptions = DEFAULT_LLM_TRANSCRIPT_OPTIONS) {}
+
+  /**
+   * Replaces the transcript options.
+   * @param options The new options.
+   */
+  configure(options: LlmTranscriptOptions): void {
+    this.options = options;
+    if (options.mode !== 'off') {
+      logger.info({ ...options }, `LLM transcripts: ${options.mode === 'record' ? 'recording' : 'replaying'} in ${options.directory}.`);
+    }
+  }
+
+  /**
+   * Gets the current transcript options.
+   * @returns The options.
+   */
+  getOptions(): LlmTranscriptOptions {
+    return this.options;
+  }
+
+  /**
+   * Answers a request from its transcript when replaying. A streaming request receives the
+   * recorded answer as a single piece.
+   * @param models The fallback chain the request would be sent along.
+   * @param request The request.
+   * @param logicalTaskName The task the request is made for, used in errors.
+   * @returns The recorded answer, or undefined when not replaying.
+   * @throws TranscriptMissError if no transcript was recorded for the request.
+   */
+  async replay(models: string[], request: Omit<LlmChatRequest, 'model'>, logicalTaskName: string): Promise<LlmFallbackResponse | undefined> {
+    if (this.options.mode !== 'replay') return undefined;
+
+    const hash = computeLlmTranscriptHash(toTranscriptRequest(models, request));
+    const filePath = this.getTranscriptPath(hash);
+    if (!(await fs.pathExists(filePath))) {
+      logger.error({ logicalTaskName, hash, directory: this.options.directory }, 'No recorded LLM transcript for the request.');
+      throw new TranscriptMissError(
+        `No recorded LLM transcript for a ${logicalTaskName} request (${hash}) in ${this.options.directory}. ` +
+        'The prompt, model mapping or settings changed since recording; record the transcripts again with VIBE_CODER_LLM_TRANSCRIPTS=record.',
+        hash,
+        { logicalTaskName, directory: this.options.directory }
+      );
+    }
+
+    const transcript = await fs.readJson(filePath) as LlmTranscript;
+    const { modelUsed, content, usage, data } = transcript.response;
+    logger.debug({ logicalTaskName, hash, modelUsed }, 'Replaying recorded LLM transcript.');
+    if (content) {
+      request.onDelta?.(content, content);
+    }
+    return { content, usage, data, modelUsed };
+  }
+
+  /**
+   * Saves a request and its answer when recording. Failures to save are logged; they never fail the LLM call.
+   * @param models The fallback chain the request was sent along.
+   * @param request The request.
+   * @param logicalTaskName The task the request was made for.
+   * @param response The answer.
+   */
+  async record(models: string[], request: Omit<LlmChatRequest, 'model'>, logicalTaskName: string, response: LlmFallbackResponse): Promise<void> {
+    if (this.options.mode !== 'record') return;
+
+    const transcriptRequest = toTranscriptRequest(models, request);
+    const hash = computeLlmTranscriptHash(transcriptRequest);
+    const transcript: LlmTranscript = {
+      hash,
+      logicalTaskName,
+      recordedAt: new Date().toISOString(),
+      request: transcriptRequest,
+      response: { modelUsed: response.modelUsed, content: response.content, usage: response.usage, data: response.data },
+    };
+    try {
+      await fs.outputJson(this.getTranscriptPath(hash), transcript, { spaces: 2 });
+    } catch (error) {
+      logger.error({ err: error, logicalTaskName, hash }, 'Failed to record LLM transcript.');
+    }
+  }
+
+  private getTranscriptPath(hash: string): string {
+    return path.join(this.options.directory, `${hash}.json`);
+  }
+}
+
+/**
+ * Creates the LLM transcript options from environment variables.
+ * - `VIBE_CODER_LLM_TRANSCRIPTS`: 'off' (default), 'record' or 'replay'.
+ * - `VIBE_CODER_LLM_TRANSCRIPTS_DIR`: Directory of the transcript files (default `<output dir>/llm-transcripts`).
+ * @returns The configured LlmTranscriptOptions.
+ */
+export function createLlmTranscriptOptionsFromEnv(): LlmTranscriptOptions {
+  let mode = (process.env.VIBE_CODER_LLM_TRANSCRIPTS || 'off').toLowerCase() as LlmTranscriptMode;
+  if (!TRANSCRIPT_MODES.includes(mode)) {
+    logger.warn({ mode }, 'Unknown VIBE_CODER_LLM_TRANSCRIPTS value. LLM transcripts are neither recorded nor replayed.');
+    mode = 'off';
+  }
+
+  return {
+    mode,
+    directory: process.env.VIBE_CODER_LLM_TRANSCRIPTS_DIR
+      ? path.resolve(process.env.VIBE_CODER_LLM_TRANSCRIPTS_DIR)
+      : DEFAULT_LLM_TRANSCRIPT_OPTIONS.directory,
+  };
+}
+
+// Export a singleton instance
+export const llmTranscripts = new LlmTranscripts();
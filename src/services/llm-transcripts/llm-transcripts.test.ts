@@ -0,0 +1,124 @@
+// src/services/llm-transcripts/llm-transcripts.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach, MockInstance } from 'vitest';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { llmTranscripts, computeLlmTranscriptHash, toTranscriptRequest, createLlmTranscriptOptionsFromEnv, DEFAULT_LLM_TRANSCRIPT_OPTIONS } from './index.js';
+import { chatWithModelFallback } from '../llm-providers/fallback.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+import { TranscriptMissError } from '../../utils/errors.js';
+import { jobManager, JobStatus } from '../job-manager/index.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const config: OpenRouterConfig = {
+  baseUrl: 'http://openrouter.test',
+  apiKey: 'openrouter-key',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+};
+
+// Transcripts of a generate-task-list run: three research queries, the high-level list and the decomposition of its two tasks
+const TASK_LIST_FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'generate-task-list');
+
+const request = {
+  messages: [{ role: 'system', content: 'You write user stories.' }, { role: 'user', content: 'A todo app' }],
+  maxTokens: 100,
+  temperature: 0.1,
+};
+
+describe('LlmTranscripts', () => {
+  let tempDir: string;
+  let postSpy: MockInstance<typeof axios.post>;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-transcripts-'));
+    postSpy = vi.spyOn(axios, 'post');
+  });
+
+  afterEach(() => {
+    llmTranscripts.configure(DEFAULT_LLM_TRANSCRIPT_OPTIONS);
+    vi.unstubAllEnvs();
+    postSpy.mockRestore();
+    fs.removeSync(tempDir);
+  });
+
+  it('should record answers and replay them without calling the provider', async () => {
+    postSpy.mockResolvedValueOnce({ data: { choices: [{ message: { content: 'As a user...' } }], usage: { prompt_tokens: 10, completion_tokens: 5 } } });
+    llmTranscripts.configure({ mode: 'record', directory: tempDir });
+
+    const recorded = await chatWithModelFallback(config, ['mock/model'], request, 'user_stories_generation');
+
+    const hash = computeLlmTranscriptHash(toTranscriptRequest(['mock/model'], request));
+    const transcript = fs.readJsonSync(path.join(tempDir, `${hash}.json`));
+    expect(transcript).toMatchObject({ hash, logicalTaskName: 'user_stories_generation', request: { models: ['mock/model'], messages: request.messages } });
+    expect(transcript.response).toMatchObject({ modelUsed: 'mock/model', content: 'As a user...' });
+
+    // Replaying needs neither the provider nor its API key
+    llmTranscripts.configure({ mode: 'replay', directory: tempDir });
+    const onDelta = vi.fn();
+    const replayed = await chatWithModelFallback({ ...config, apiKey: '' }, ['mock/model'], { ...request, onDelta }, 'user_stories_generation');
+
+    expect(replayed).toEqual(recorded);
+    expect(onDelta).toHaveBeenCalledWith('As a user...', 'As a user...');
+    expect(postSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail loudly when a replayed request was not recorded', async () => {
+    llmTranscripts.configure({ mode: 'replay', directory: tempDir });
+
+    const changedRequest = { ...request, temperature: 0.2 };
+    await expect(chatWithModelFallback(config, ['mock/model'], changedRequest, 'user_stories_generation')).rejects.toThrow(TranscriptMissError);
+    expect(postSpy).not.toHaveBeenCalled();
+  });
+
+  it('should replay a whole generate-task-list job from recorded transcripts', async () => {
+    vi.stubEnv('VIBE_CODER_OUTPUT_DIR', tempDir);
+    // The tool reads its output directory when it is loaded
+    const { generateTaskList } = await import('../../tools/task-list-generator/index.js');
+    llmTranscripts.configure({ mode: 'replay', directory: TASK_LIST_FIXTURES_DIR });
+
+    const started = await generateTaskList(
+      { productDescription: 'A shared grocery list app', userStories: 'US-101: As a shopper, I want to add items to a shared list.' },
+      { ...config, apiKey: '' },
+      { sessionId: 'replay-session' }
+    );
+    const jobId = (started.content[0].text as string).match(/Job ID: (\S+)/)?.[1] as string;
+    await vi.waitFor(() => expect(jobManager.getJob(jobId)?.status).toBe(JobStatus.COMPLETED));
+
+    const resultText = jobManager.getJob(jobId)?.result?.content[0].text as string;
+    expect(resultText).toContain('# Task List: Shared Grocery List');
+    expect(resultText).toContain('**Sub-Task ID:** T-101.1');
+    expect(resultText).toContain('**Sub-Task ID:** T-102.1');
+    expect(fs.readdirSync(path.join(tempDir, 'task-list-generator'))).toHaveLength(1);
+    expect(postSpy).not.toHaveBeenCalled();
+  });
+
+  it('should address transcripts by everything that determines the answer', () => {
+    const hash = computeLlmTranscriptHash(toTranscriptRequest(['mock/model'], request));
+
+    expect(computeLlmTranscriptHash(toTranscriptRequest(['mock/model'], { ...request, signal: new AbortController().signal, timeout: 5000 }))).toBe(hash);
+    expect(computeLlmTranscriptHash(toTranscriptRequest(['other/model'], request))).not.toBe(hash);
+    expect(computeLlmTranscriptHash(toTranscriptRequest(['mock/model'], { ...request, jsonMode: true }))).not.toBe(hash);
+    expect(computeLlmTranscriptHash(toTranscriptRequest(['mock/model'], { ...request, stop: ['END'] }))).not.toBe(hash);
+  });
+
+  it('should read the mode and directory from the environment', () => {
+    vi.stubEnv('VIBE_CODER_LLM_TRANSCRIPTS', 'Replay');
+    vi.stubEnv('VIBE_CODER_LLM_TRANSCRIPTS_DIR', tempDir);
+    expect(createLlmTranscriptOptionsFromEnv()).toEqual({ mode: 'replay', directory: tempDir });
+
+    vi.stubEnv('VIBE_CODER_LLM_TRANSCRIPTS', 'rewind');
+    expect(createLlmTranscriptOptionsFromEnv().mode).toBe('off');
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,163 @@
+// src/services/mcp-notifier/index.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+import { JobStatus, JobProgress } from '../job-manager/index.js';
+
+/**
+ * Logger name used for job progress log notifications, so clients can tell them apart.
+ */
+export const JOB_PROGRESS_LOGGER = 'jobProgress';
+
+/**
+ * Logger name used for log notifications carrying text streamed by a job.
+ */
+export const JOB_OUTPUT_LOGGER = 'jobOutput';
+
+/**
+ * Options for McpNotifier.registerSession.
+ */
+export interface McpSessionOptions {
+  // Send job progress as log notifications instead of over the SSE side channel
+  // (for transports whose clients have no `/events/:sessionId` stream, e.g., Streamable HTTP)
+  jobProgressLogs?: boolean;
+}
+
+/**
+ * Parameters of an MCP progress notification.
+ */
+export interface McpProgressParams {
+  progress: number; // Increases with every notification for the same token
+  total?: number;
+  message?: string;
+  _meta?: Record<string, unknown>;
+}
+
+interface McpSession {
+  server: McpServer;
+  jobProgressLogs: boolean;
+  // Progress tokens of the session's tool calls that have not returned yet
+  activeProgressTokens: Set<ProgressToken>;
+}
+
+/**
+ * Sends job progress to clients over their own MCP connection, either as
+ * progress notifications (`notifications/progress`) for tool calls that carried
+ * a progress token and are still in flight, or as log notifications (`notifications/message`).
+ * Uses a Singleton pattern.
+ */
+class McpNotifier {
+  // MCP servers of the connected sessions, keyed by session ID
+  private sessions = new Map<string, McpSession>();
+
+  /**
+   * Makes a session's MCP connection available for job notifications.
+   * @param sessionId The ID of the MCP session.
+   * @param server The MCP server connected to the session's transport.
+   * @param options Whether the session receives job progress as log notifications.
+   */
+  registerSession(sessionId: string, server: McpServer, options: McpSessionOptions = {}): void {
+    const jobProgressLogs = options.jobProgressLogs ?? false;
+    this.sessions.set(sessionId, { server, jobProgressLogs, activeProgressTokens: new Set() });
+    logger.info({ sessionId, jobProgressLogs }, `Registered MCP session for job notifications.`);
+  }
+
+  /**
+   * Removes a session's MCP connection once the session has closed.
+   * @param sessionId The ID of the MCP session.
+   */
+  unregisterSession(sessionId: string): void {
+    if (this.sessions.delete(sessionId)) {
+      logger.info({ sessionId }, `Unregistered MCP session for job notifications.`);
+    }
+  }
+
+  /**
+   * Marks a tool call that carried a progress token as in flight. MCP only allows progress
+   * notifications for requests that have not completed, so call `finishToolCall` once it returns.
+   * @param sessionId The ID of the session that made the tool call.
+   * @param progressToken The progress token from the tool call's `_meta`.
+   */
+  startToolCall(sessionId: string, progressToken: ProgressToken): void {
+    this.sessions.get(sessionId)?.activeProgressTokens.add(progressToken);
+  }
+
+  /**
+   * Marks a tool call as returned; its progress token can no longer be used.
+   * @param sessionId The ID of the session that made the tool call.
+   * @param progressToken The progress token from the tool call's `_meta`.
+   */
+  finishToolCall(sessionId: string, progressToken: ProgressToken): void {
+    this.sessions.get(sessionId)?.activeProgressTokens.delete(progressToken);
+  }
+
+  /**
+   * Sends a job progress update to a session as an MCP log notification.
+   * @param sessionId The ID of the session associated with the job.
+   * @param jobId The ID of the job being updated.
+   * @param status The current status of the job.
+   * @param message An optional progress message.
+   * @param progress Optional structured progress of the job.
+   * @param force Optional: Send it even to a session that gets job progress over the SSE side channel,
+   *   e.g. to a client that asked for progress with a progress token whose tool call has returned.
+   * @returns True if the session receives job progress as log notifications (and needs no SSE side channel), false otherwise.
+   */
+  sendProgress(sessionId: string, jobId: string, status: JobStatus, message?: string, progress?: JobProgress, force = false): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session || (!session.jobProgressLogs && !force)) return false;
+
+    session.server.server.sendLoggingMessage({
+      level: status === JobStatus.FAILED ? 'error' : 'info',
+      logger: JOB_PROGRESS_LOGGER,
+      data: { jobId, status, message, progress, timestamp: Date.now() },
+    }).catch((error: Error) => {
+      logger.error({ err: error, sessionId, jobId }, `Failed to send MCP job progress notification.`);
+    });
+    return session.jobProgressLogs;
+  }
+
+  /**
+   * Sends text streamed by a job to a session as an MCP log notification.
+   * @param sessionId The ID of the session associated with the job.
+   * @param jobId The ID of the job that produced the text.
+   * @param offset Where in the job's partial output the text starts.
+   * @param text The streamed text.
+   * @returns True if the session receives job progress as log notifications, false otherwise.
+   */
+  sendOutput(sessionId: string, jobId: string, offset: number, text: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session?.jobProgressLogs) return false;
+
+    session.server.server.sendLoggingMessage({
+      level: 'info',
+      logger: JOB_OUTPUT_LOGGER,
+      data: { jobId, offset, text, timestamp: Date.now() },
+    }).catch((error: Error) => {
+      logger.error({ err: error, sessionId, jobId }, `Failed to send MCP job output notification.`);
+    });
+    return true;
+  }
+
+  /**
+   * Sends an MCP progress notification for the tool call that carried the given token.
+   * @param sessionId The ID of the session that made the tool call.
+   * @param progressToken The progress token from the tool call's `_meta`.
+   * @param params The progress values, message and metadata to send.
+   * @returns True if the notification was sent, false if the session is not connected or the tool call has returned.
+   */
+  sendProgressNotification(sessionId: string, progressToken: ProgressToken, params: McpProgressParams): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session?.activeProgressTokens.has(progressToken)) return false;
+
+    session.server.server.notification({
+      method: 'notifications/progress',
+      params: { progressToken, ...params },
+    }).catch((error: Error) => {
+      logger.error({ err: error, sessionId, progressToken }, `Failed to send MCP progress notification.`);
+    });
+    return true;
+  }
+}
+
+// Export a singleton instance
+export const mcpNotifier = new McpNotifier();
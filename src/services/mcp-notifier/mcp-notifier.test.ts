@@ -0,0 +1,96 @@
+// src/services/mcp-notifier/mcp-notifier.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { mcpNotifier, JOB_PROGRESS_LOGGER } from './index.js';
+import { JobStatus } from '../job-manager/index.js';
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const createMockServer = () => ({
+  server: {
+    sendLoggingMessage: vi.fn().mockResolvedValue(undefined),
+    notification: vi.fn().mockResolvedValue(undefined),
+  },
+});
+
+describe('McpNotifier Singleton', () => {
+  let mockServer: ReturnType<typeof createMockServer>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockServer = createMockServer();
+    mcpNotifier.registerSession('http-session', mockServer as unknown as McpServer, { jobProgressLogs: true });
+  });
+
+  it('should send job progress as a log notification to a registered session', () => {
+    const progress = { phase: 'research', percent: 50 };
+
+    const delivered = mcpNotifier.sendProgress('http-session', 'job-1', JobStatus.RUNNING, 'Researching...', progress);
+
+    expect(delivered).toBe(true);
+    expect(mockServer.server.sendLoggingMessage).toHaveBeenCalledWith({
+      level: 'info',
+      logger: JOB_PROGRESS_LOGGER,
+      data: { jobId: 'job-1', status: JobStatus.RUNNING, message: 'Researching...', progress, timestamp: expect.any(Number) },
+    });
+  });
+
+  it('should report failed jobs at error level', () => {
+    mcpNotifier.sendProgress('http-session', 'job-2', JobStatus.FAILED, 'Job failed');
+
+    expect(mockServer.server.sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ level: 'error' }));
+  });
+
+  it('should not send log notifications to sessions that use the SSE side channel', () => {
+    mcpNotifier.registerSession('sse-session', mockServer as unknown as McpServer);
+
+    expect(mcpNotifier.sendProgress('sse-session', 'job-4', JobStatus.RUNNING)).toBe(false);
+    expect(mockServer.server.sendLoggingMessage).not.toHaveBeenCalled();
+    mcpNotifier.unregisterSession('sse-session');
+  });
+
+  it('should send forced log notifications to sessions that use the SSE side channel', () => {
+    mcpNotifier.registerSession('sse-session', mockServer as unknown as McpServer);
+
+    expect(mcpNotifier.sendProgress('sse-session', 'job-5', JobStatus.RUNNING, 'Working', undefined, true)).toBe(false);
+    expect(mockServer.server.sendLoggingMessage).toHaveBeenCalledWith(expect.objectContaining({ logger: JOB_PROGRESS_LOGGER }));
+    mcpNotifier.unregisterSession('sse-session');
+  });
+
+  it('should send progress notifications for a progress token', () => {
+    mcpNotifier.startToolCall('http-session', 'token-1');
+    const delivered = mcpNotifier.sendProgressNotification('http-session', 'token-1', { progress: 2, message: 'Working' });
+
+    expect(delivered).toBe(true);
+    expect(mockServer.server.notification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'token-1', progress: 2, message: 'Working' },
+    });
+  });
+
+  it('should not send progress notifications once the tool call has returned', () => {
+    expect(mcpNotifier.sendProgressNotification('http-session', 'token-2', { progress: 1 })).toBe(false);
+
+    mcpNotifier.startToolCall('http-session', 'token-2');
+    mcpNotifier.finishToolCall('http-session', 'token-2');
+
+    expect(mcpNotifier.sendProgressNotification('http-session', 'token-2', { progress: 1 })).toBe(false);
+    expect(mockServer.server.notification).not.toHaveBeenCalled();
+  });
+
+  it('should not deliver to sessions that are not registered', () => {
+    mcpNotifier.unregisterSession('http-session');
+
+    expect(mcpNotifier.sendProgress('http-session', 'job-3', JobStatus.RUNNING)).toBe(false);
+    expect(mcpNotifier.sendProgressNotification('http-session', 'token-1', { progress: 1 })).toBe(false);
+    expect(mockServer.server.sendLoggingMessage).not.toHaveBeenCalled();
+    expect(mockServer.server.notification).not.toHaveBeenCalled();
+  });
+});
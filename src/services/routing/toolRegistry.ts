@@ -1,10 +1,11 @@
 // src/services/routing/toolRegistry.ts
 import { z } from 'zod';
-import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { CallToolResult, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
 import { OpenRouterConfig } from '../../types/workflow.js'; // Ensure OpenRouterConfig is imported
 import logger from '../../logger.js';
 // Removed ValidationIssue import as it's no longer exported from errors.ts
 import { AppError, ValidationError } from '../../utils/errors.js';
+import { runInToolContext } from '../job-manager/jobContext.js';
 
 /**
  * Defines the structure for passing contextual information (like sessionId)
@@ -12,6 +13,7 @@ import { AppError, ValidationError } from '../../utils/errors.js';
  */
 export interface ToolExecutionContext {
   sessionId: string; // Identifier for the client connection (e.g., SSE session)
+  progressToken?: ProgressToken; // Token from the tool call's _meta; background jobs send MCP progress notifications with it
   // Add other context properties here if needed in the future
 }
 
@@ -275,7 +277,8 @@ export async function executeTool(
   try {
     // Pass the validated data, the received config, and context to the executor
     logger.debug({ toolName: toolName, sessionId: context?.sessionId }, `Executing tool "${toolName}" executor with context.`); // Added log line
-    const result = await toolDefinition.executor(validationResult.data, config, context); // Pass config and context
+    // Run in the tool's context so LLM usage can be attributed to the tool and session
+    const result = await runInToolContext(toolName, context?.sessionId, () => toolDefinition.executor(validationResult.data, config, context)); // Pass config and context
     logger.info(`Tool "${toolName}" executed successfully.`);
     return result;
   } catch (error) {
@@ -1,7 +1,7 @@
 // src/services/sse-notifier/index.ts
 import { Response } from 'express'; // Assuming Express is used for the SSE endpoint
 import logger from '../../logger.js';
-import { JobStatus } from '../job-manager/index.js'; // Import JobStatus
+import { JobStatus, JobProgress } from '../job-manager/index.js'; // Import JobStatus and progress type
 
 /**
  * Represents the structure of the data sent via SSE.
@@ -10,36 +10,61 @@ interface SseProgressData {
   jobId: string;
   status: JobStatus;
   message?: string;
+  progress?: JobProgress; // Structured progress (phase, completed/total, percent, ETA) when available
   timestamp: number;
-  // Add other relevant fields like percentage complete if needed
 }
 
+/**
+ * Represents text streamed by a job, sent via SSE as a `jobOutput` event.
+ * Clients rebuild the job's output by cutting it at `offset` and appending `text`.
+ */
+interface SseOutputData {
+  jobId: string;
+  offset: number; // Where in the job's partial output the text starts
+  text: string;
+  timestamp: number;
+}
+
+/**
+ * An event kept in a session's replay buffer.
+ */
+interface BufferedSseEvent {
+  id: number;
+  event: string;
+  payload: string; // Serialized data line content
+}
+
+/**
+ * Number of most recent events kept per session for replay to reconnecting clients.
+ */
+export const MAX_BUFFERED_EVENTS_PER_SESSION = 100;
+
 /**
  * Manages Server-Sent Events (SSE) connections and broadcasts job progress.
+ * Every event gets a monotonically increasing ID and is kept in a bounded per-session
+ * buffer, so a client that reconnects with `Last-Event-ID` receives the events it missed.
+ * Only sessions that have subscribed at least once get a buffer; events for other sessions are dropped.
+ * A session may have several subscribers; each receives every event.
  * Uses a Singleton pattern.
  */
 class SseNotifier {
-  // Store active connections, mapping sessionId to the Express Response object
-  private connections = new Map<string, Response>();
+  // Store active connections, mapping sessionId to the Express Response objects subscribed to it
+  private connections = new Map<string, Set<Response>>();
+  // Most recent events of each session, oldest first
+  private eventBuffers = new Map<string, BufferedSseEvent[]>();
+  // Sessions that have registered a connection since they were last cleared, connected or not
+  private subscribedSessions = new Set<string>();
+  private nextEventId = 1;
 
   /**
    * Registers a new SSE connection for a given session ID.
-   * Sets up necessary headers and keeps the connection open.
+   * Sets up necessary headers, keeps the connection open and replays buffered
+   * events newer than `lastEventId`.
    * @param sessionId The unique identifier for the client session.
    * @param res The Express Response object for the SSE connection.
+   * @param lastEventId The `Last-Event-ID` sent by a reconnecting client, if any.
    */
-  registerConnection(sessionId: string, res: Response): void {
-    if (this.connections.has(sessionId)) {
-      logger.warn({ sessionId }, `SSE connection already registered for this session. Overwriting.`);
-      // Close the previous connection cleanly if possible
-      const oldRes = this.connections.get(sessionId);
-      try {
-        oldRes?.end();
-      } catch (e) {
-        logger.error({ err: e, sessionId }, `Error closing previous SSE connection.`);
-      }
-    }
-
+  registerConnection(sessionId: string, res: Response, lastEventId?: string): void {
     // Set headers for SSE
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
@@ -50,21 +75,30 @@ class SseNotifier {
     });
     res.flushHeaders(); // Send headers immediately
 
-    this.connections.set(sessionId, res);
-    logger.info({ sessionId }, `Registered new SSE connection.`);
+    let subscribers = this.connections.get(sessionId);
+    if (!subscribers) {
+      subscribers = new Set<Response>();
+      this.connections.set(sessionId, subscribers);
+    }
+    subscribers.add(res);
+    this.subscribedSessions.add(sessionId);
+    logger.info({ sessionId, subscriberCount: subscribers.size, lastEventId }, `Registered new SSE connection.`);
 
-    // Send a confirmation message
-    this.sendMessage(sessionId, 'connected', { message: 'SSE connection established.' });
+    // Send a confirmation message to this subscriber only; it is not part of the replayable stream
+    this.writeEvent(res, { event: 'connected', payload: JSON.stringify({ message: 'SSE connection established.' }) });
+    if (lastEventId !== undefined) {
+      this.replay(sessionId, res, lastEventId);
+    }
 
     // Handle client disconnect
     res.on('close', () => {
-      this.unregisterConnection(sessionId);
+      this.unregisterConnection(sessionId, res);
       logger.info({ sessionId }, `SSE connection closed by client.`);
     });
 
     // Keep connection alive periodically (optional, depends on proxy/server timeouts)
     const keepAliveInterval = setInterval(() => {
-      if (!this.connections.has(sessionId)) {
+      if (!this.connections.get(sessionId)?.has(res)) {
         clearInterval(keepAliveInterval);
         return;
       }
@@ -74,47 +108,132 @@ class SseNotifier {
   }
 
   /**
-   * Unregisters an SSE connection for a given session ID.
+   * Unregisters SSE connections for a given session ID.
    * @param sessionId The unique identifier for the client session.
+   * @param res The subscriber to remove. If omitted, all of the session's subscribers are removed.
    */
-  unregisterConnection(sessionId: string): void {
-    const res = this.connections.get(sessionId);
-    if (res) {
+  unregisterConnection(sessionId: string, res?: Response): void {
+    const subscribers = this.connections.get(sessionId);
+    if (!subscribers || (res && !subscribers.has(res))) {
+      logger.warn({ sessionId }, `Attempted to unregister non-existent SSE connection.`);
+      return;
+    }
+
+    const toRemove = res ? [res] : Array.from(subscribers);
+    for (const subscriber of toRemove) {
       try {
         // Check if writable before ending
-        if (!res.writableEnded) {
-          res.end();
+        if (!subscriber.writableEnded) {
+          subscriber.end();
         }
       } catch (e) {
          logger.error({ err: e, sessionId }, `Error ending SSE connection during unregister.`);
       }
+      subscribers.delete(subscriber);
+    }
+    if (subscribers.size === 0) {
       this.connections.delete(sessionId);
-      logger.info({ sessionId }, `Unregistered SSE connection.`);
-    } else {
-      logger.warn({ sessionId }, `Attempted to unregister non-existent SSE connection.`);
     }
+    logger.info({ sessionId, remainingSubscribers: subscribers.size }, `Unregistered SSE connection.`);
+  }
+
+  /**
+   * Forgets a session entirely: closes its subscribers and drops its replay buffer.
+   * Call this when the session itself ends, not when a single subscriber disconnects.
+   * @param sessionId The unique identifier for the client session.
+   */
+  clearSession(sessionId: string): void {
+    if (this.connections.has(sessionId)) {
+      this.unregisterConnection(sessionId);
+    }
+    this.eventBuffers.delete(sessionId);
+    this.subscribedSessions.delete(sessionId);
   }
 
   /**
-   * Sends a generic message to a specific SSE client.
+   * Sends a generic message to all subscribers of a session and buffers it for replay.
+   * Sessions that never subscribed are skipped, so their events don't pile up in buffers no one will read.
    * @param sessionId The ID of the session/client to send the message to.
    * @param event The name of the event (e.g., 'progress', 'error', 'connected').
    * @param data The data payload for the event.
    */
   private sendMessage(sessionId: string, event: string, data: Record<string, unknown>): void {
-    const res = this.connections.get(sessionId);
-    if (res && !res.writableEnded) {
-      try {
-        res.write(`event: ${event}\n`);
-        res.write(`data: ${JSON.stringify(data)}\n\n`);
-        logger.debug({ sessionId, event, data }, `Sent SSE message.`);
-      } catch (e) {
-        logger.error({ err: e, sessionId, event }, `Failed to send SSE message.`);
-        // Consider unregistering the connection if writing fails
-        this.unregisterConnection(sessionId);
+    let payload: string;
+    try {
+      payload = JSON.stringify(data);
+    } catch (e) {
+      logger.error({ err: e, sessionId, event }, `Failed to serialize SSE message.`);
+      return;
+    }
+
+    if (!this.subscribedSessions.has(sessionId)) {
+      logger.debug({ sessionId, event }, `Session never subscribed to SSE events. Dropped event.`);
+      return;
+    }
+
+    // Buffer the event even without subscribers, so a reconnecting client can still receive it
+    const bufferedEvent: BufferedSseEvent = { id: this.nextEventId++, event, payload };
+    let buffer = this.eventBuffers.get(sessionId);
+    if (!buffer) {
+      buffer = [];
+      this.eventBuffers.set(sessionId, buffer);
+    }
+    buffer.push(bufferedEvent);
+    if (buffer.length > MAX_BUFFERED_EVENTS_PER_SESSION) {
+      buffer.shift();
+    }
+
+    const subscribers = this.connections.get(sessionId);
+    if (!subscribers) {
+      logger.debug({ sessionId, event, eventId: bufferedEvent.id }, `No SSE subscribers for session. Buffered event for replay.`);
+      return;
+    }
+    for (const res of Array.from(subscribers)) {
+      if (this.writeEvent(res, bufferedEvent)) {
+        logger.debug({ sessionId, event, eventId: bufferedEvent.id }, `Sent SSE message.`);
+      } else {
+        this.unregisterConnection(sessionId, res);
+      }
+    }
+  }
+
+  /**
+   * Sends a session's buffered events that are newer than the given event ID to one subscriber.
+   * @param sessionId The ID of the session.
+   * @param res The subscriber to send the missed events to.
+   * @param lastEventId The ID of the last event the subscriber received.
+   */
+  private replay(sessionId: string, res: Response, lastEventId: string): void {
+    const lastId = Number(lastEventId);
+    if (!Number.isInteger(lastId)) {
+      logger.warn({ sessionId, lastEventId }, `Ignoring malformed Last-Event-ID.`);
+      return;
+    }
+    const missed = (this.eventBuffers.get(sessionId) || []).filter(event => event.id > lastId);
+    for (const event of missed) {
+      if (!this.writeEvent(res, event)) break;
+    }
+    logger.info({ sessionId, lastEventId, replayed: missed.length }, `Replayed missed SSE events.`);
+  }
+
+  /**
+   * Writes one SSE event to a subscriber.
+   * @param res The subscriber.
+   * @param event The event; its ID is included when present.
+   * @returns True if the event was written, false if the connection is closed or the write failed.
+   */
+  private writeEvent(res: Response, event: { id?: number; event: string; payload: string }): boolean {
+    if (res.writableEnded) return false;
+    try {
+      if (event.id !== undefined) {
+        res.write(`id: ${event.id}\n`);
       }
-    } else if (!res) {
-      logger.warn({ sessionId, event }, `Attempted to send SSE message to non-existent or closed connection.`);
+      res.write(`event: ${event.event}\n`);
+      res.write(`data: ${event.payload}\n\n`);
+      return true;
+    } catch (e) {
+      logger.error({ err: e, event: event.event }, `Failed to send SSE message.`);
+      return false;
     }
   }
 
@@ -124,10 +243,11 @@ class SseNotifier {
    * @param jobId The ID of the job being updated.
    * @param status The current status of the job.
    * @param message An optional progress message.
+   * @param progress Optional structured progress of the job.
    */
-  sendProgress(sessionId: string, jobId: string, status: JobStatus, message?: string): void {
-    if (!sessionId || sessionId === 'unknown-session' || sessionId === 'placeholder-session-id') {
-        logger.warn({ jobId, status, message }, "Cannot send SSE progress: Invalid or placeholder sessionId.");
+  sendProgress(sessionId: string, jobId: string, status: JobStatus, message?: string, progress?: JobProgress): void {
+    if (!sessionId || sessionId === 'unknown-session') {
+        logger.warn({ jobId, status, message }, "Cannot send SSE progress: Invalid or unknown sessionId.");
         return;
     }
 
@@ -135,18 +255,41 @@ class SseNotifier {
       jobId,
       status,
       message,
+      progress,
       timestamp: Date.now(),
     };
     // Double cast to satisfy sendMessage signature with stricter type checking
     this.sendMessage(sessionId, 'jobProgress', progressData as unknown as Record<string, unknown>);
   }
 
+  /**
+   * Sends text streamed by a job to a specific client via SSE.
+   * @param sessionId The ID of the session/client associated with the job.
+   * @param jobId The ID of the job that produced the text.
+   * @param offset Where in the job's partial output the text starts.
+   * @param text The streamed text.
+   */
+  sendOutput(sessionId: string, jobId: string, offset: number, text: string): void {
+    if (!sessionId || sessionId === 'unknown-session') {
+        logger.warn({ jobId }, "Cannot send SSE job output: Invalid or unknown sessionId.");
+        return;
+    }
+
+    const outputData: SseOutputData = {
+      jobId,
+      offset,
+      text,
+      timestamp: Date.now(),
+    };
+    this.sendMessage(sessionId, 'jobOutput', outputData as unknown as Record<string, unknown>);
+  }
+
   /**
    * Closes all active SSE connections. Useful on server shutdown.
    */
   closeAllConnections(): void {
     logger.info(`Closing all ${this.connections.size} active SSE connections...`);
-    this.connections.forEach((res, sessionId) => {
+    Array.from(this.connections.keys()).forEach(sessionId => {
       this.unregisterConnection(sessionId); // unregister handles logging and ending
     });
     this.connections.clear(); // Ensure map is cleared
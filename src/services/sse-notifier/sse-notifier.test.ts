@@ -1,6 +1,6 @@
 // src/services/sse-notifier/sse-notifier.test.ts
-import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
-import { sseNotifier } from './index.js'; // Import the singleton instance
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import { sseNotifier, MAX_BUFFERED_EVENTS_PER_SESSION } from './index.js'; // Import the singleton instance
 import { JobStatus } from '../job-manager/index.js'; // Import JobStatus enum
 import { Response } from 'express'; // Import Response type for mocking
 
@@ -130,5 +130,98 @@ describe('SseNotifier Singleton', () => {
     expect(mockResponse.write).not.toHaveBeenCalledWith(expect.stringContaining('event: progress'));
   });
 
+  describe('event IDs and replay', () => {
+    // Minimal stand-in for an SSE response that records everything written to it
+    const createStreamResponse = () => {
+      const chunks: string[] = [];
+      const res = {
+        writeHead: vi.fn(),
+        flushHeaders: vi.fn(),
+        write: vi.fn((chunk: string) => { chunks.push(chunk); return true; }),
+        end: vi.fn(() => { res.writableEnded = true; }),
+        on: vi.fn(),
+        writableEnded: false,
+      };
+      const eventIds = () => chunks.filter(chunk => chunk.startsWith('id: ')).map(chunk => Number(chunk.slice(4)));
+      return { res, chunks, eventIds };
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers(); // Keep-alive intervals must not outlive the test
+    });
+
+    afterEach(() => {
+      sseNotifier.clearSession('replay-session');
+      vi.useRealTimers();
+    });
+
+    it('should send streamed job output as jobOutput events', () => {
+      const subscriber = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', subscriber.res as unknown as Response);
+
+      sseNotifier.sendOutput('replay-session', 'job-1', 42, 'more text');
+
+      expect(subscriber.chunks).toContain('event: jobOutput\n');
+      const data = subscriber.chunks.filter(chunk => chunk.startsWith('data: ')).pop() as string;
+      expect(JSON.parse(data.slice('data: '.length))).toMatchObject({ jobId: 'job-1', offset: 42, text: 'more text' });
+    });
+
+    it('should send every subscriber of a session each event with increasing IDs', () => {
+      const first = createStreamResponse();
+      const second = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', first.res as unknown as Response);
+      sseNotifier.registerConnection('replay-session', second.res as unknown as Response);
+
+      sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.RUNNING, 'Step 1');
+      sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.COMPLETED, 'Done');
+
+      expect(first.eventIds()).toHaveLength(2);
+      expect(first.eventIds()[1]).toBeGreaterThan(first.eventIds()[0]);
+      expect(second.eventIds()).toEqual(first.eventIds());
+      expect(first.res.end).not.toHaveBeenCalled();
+    });
+
+    it('should replay missed events to a client reconnecting with Last-Event-ID', () => {
+      const original = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', original.res as unknown as Response);
+      sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.RUNNING, 'Step 1');
+      const [lastSeenId] = original.eventIds();
+      sseNotifier.unregisterConnection('replay-session', original.res as unknown as Response);
+
+      // Sent while the client is disconnected
+      sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.COMPLETED, 'Done');
+
+      const reconnected = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', reconnected.res as unknown as Response, String(lastSeenId));
+
+      expect(reconnected.eventIds()).toEqual([lastSeenId + 1]);
+      expect(reconnected.chunks.join('')).toContain('"status":"completed"');
+    });
+
+    it('should not buffer events for sessions that never subscribed', () => {
+      sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.RUNNING, 'Step 1');
+
+      const subscriber = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', subscriber.res as unknown as Response, '0');
+
+      expect(subscriber.eventIds()).toEqual([]);
+    });
+
+    it('should keep only the most recent events of a session', () => {
+      const original = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', original.res as unknown as Response);
+      sseNotifier.unregisterConnection('replay-session', original.res as unknown as Response);
+      for (let i = 0; i < MAX_BUFFERED_EVENTS_PER_SESSION + 5; i++) {
+        sseNotifier.sendProgress('replay-session', 'job-1', JobStatus.RUNNING, `Step ${i}`);
+      }
+
+      const reconnected = createStreamResponse();
+      sseNotifier.registerConnection('replay-session', reconnected.res as unknown as Response, '0');
+
+      expect(reconnected.eventIds()).toHaveLength(MAX_BUFFERED_EVENTS_PER_SESSION);
+      expect(reconnected.chunks.join('')).not.toContain('Step 4"');
+    });
+  });
+
   // TODO: Add tests for sendWorkflowStepStart, sendWorkflowStepUpdate, sendWorkflowStepEnd if those methods are kept/implemented
 });
@@ -0,0 +1,91 @@
+// src/services/usage-tracker/dailyUsageStore.ts
+import fs from 'fs-extra';
+import path from 'path';
+import logger from '../../logger.js';
+import { getJobStoreFilePath } from '../job-manager/jobStore.js';
+import type { LlmUsageTotals } from './index.js';
+
+/**
+ * The usage totals of one UTC day, e.g. `{ day: '2025-01-31', totals }`.
+ */
+export interface DailyUsage {
+  day: string;
+  totals: LlmUsageTotals;
+}
+
+/**
+ * Persistence backend for the UsageTracker's daily totals, so daily budgets survive restarts.
+ * Implementations are synchronous like the JobStore, since usage is recorded synchronously.
+ */
+export interface DailyUsageStore {
+  /**
+   * Loads the persisted daily totals.
+   * @returns The last saved day and its totals, or undefined if nothing was saved.
+   */
+  load(): DailyUsage | undefined;
+  /**
+   * Persists the totals of a day, replacing the previously saved day.
+   * @param usage The day and its totals.
+   */
+  save(usage: DailyUsage): void;
+}
+
+/**
+ * Daily usage store that keeps nothing; the totals start over when the server restarts.
+ */
+export class InMemoryDailyUsageStore implements DailyUsageStore {
+  load(): DailyUsage | undefined {
+    return undefined;
+  }
+
+  save(): void {
+    // Nothing to persist; the UsageTracker already holds the totals in memory.
+  }
+}
+
+/**
+ * Daily usage store backed by a small JSON file that is rewritten after every LLM call.
+ */
+export class FileDailyUsageStore implements DailyUsageStore {
+  constructor(private readonly filePath: string) {}
+
+  load(): DailyUsage | undefined {
+    if (!fs.existsSync(this.filePath)) {
+      logger.info({ filePath: this.filePath }, 'Daily usage file not found. Starting with empty daily totals.');
+      return undefined;
+    }
+
+    try {
+      const usage = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as Partial<DailyUsage>;
+      if (typeof usage?.day !== 'string' || typeof usage.totals !== 'object' || usage.totals === null) {
+        logger.warn({ filePath: this.filePath }, 'Ignoring daily usage file without a day and totals.');
+        return undefined;
+      }
+      logger.info({ filePath: this.filePath, day: usage.day }, 'Loaded daily LLM usage.');
+      return { day: usage.day, totals: usage.totals };
+    } catch (error) {
+      logger.warn({ err: error, filePath: this.filePath }, 'Ignoring unparseable daily usage file.');
+      return undefined;
+    }
+  }
+
+  save(usage: DailyUsage): void {
+    fs.ensureDirSync(path.dirname(this.filePath));
+    // Write a temp file first, so a crash mid-write leaves the previous totals intact
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(usage), 'utf-8');
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
+
+/**
+ * Creates the daily usage store matching the job store settings: the totals are saved to
+ * `daily-usage.json` next to the job store file, or kept in memory with `VIBE_CODER_JOB_STORE=memory`.
+ * @returns The configured DailyUsageStore instance.
+ */
+export function createDailyUsageStoreFromEnv(): DailyUsageStore {
+  if ((process.env.VIBE_CODER_JOB_STORE || 'file').toLowerCase() === 'memory') {
+    return new InMemoryDailyUsageStore();
+  }
+  return new FileDailyUsageStore(path.join(path.dirname(getJobStoreFilePath()), 'daily-usage.json'));
+}
@@ -0,0 +1,334 @@
+// src/services/usage-tracker/index.ts
+import logger from '../../logger.js';
+import { LlmBudget, LlmPrice } from '../../types/workflow.js';
+import { BudgetExceededError } from '../../utils/errors.js';
+import { jobManager } from '../job-manager/index.js';
+import { getCurrentJobContext } from '../job-manager/jobContext.js';
+import type { LlmTokenUsage } from '../llm-providers/index.js';
+import { DailyUsage, DailyUsageStore, InMemoryDailyUsageStore } from './dailyUsageStore.js';
+
+/**
+ * Token usage and estimated cost summed over a number of LLM calls.
+ */
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number; // Estimated; calls to models without a price add nothing
+  unpricedCalls: number; // Calls to models missing from the price table
+}
+
+/**
+ * A single LLM call as recorded by the UsageTracker.
+ */
+export interface LlmUsageRecord {
+  timestamp: number;
+  model: string; // As mapped for the task, including any provider prefix
+  logicalTaskName: string;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd?: number; // Undefined if the model has no price
+  jobId?: string;
+  sessionId?: string;
+  toolName?: string;
+}
+
+/**
+ * Which recorded calls a usage report covers.
+ */
+export interface LlmUsageFilter {
+  jobId?: string;
+  sessionId?: string;
+  toolName?: string;
+  since?: number; // Inclusive, epoch milliseconds
+}
+
+/**
+ * The most an LLM call can add to the usage, checked against the budget before the call is made.
+ */
+export interface LlmBudgetRequest {
+  maxTokens: number; // The request's max completion tokens
+  models: string[]; // The models that may answer; the most expensive one is assumed for the cost
+}
+
+/**
+ * Usage totals with per-model and per-tool breakdowns.
+ */
+export interface LlmUsageReport {
+  totals: LlmUsageTotals;
+  byModel: Record<string, LlmUsageTotals>;
+  byTool: Record<string, LlmUsageTotals>;
+}
+
+// Oldest records are dropped beyond this, so memory use stays bounded on long-running servers
+const MAX_RECORDS = 10000;
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+// Rough average for English text and code, used where the provider reports no usage
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Creates totals for zero calls.
+ * @returns Empty usage totals.
+ */
+export function createEmptyUsageTotals(): LlmUsageTotals {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+/**
+ * Estimates the number of tokens of a text, for calls whose usage the provider did not report.
+ * @param text The text, e.g. the prompt or a partial completion.
+ * @returns The estimated tokens.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Adds a recorded call to usage totals in place.
+ * @param totals The totals to update.
+ * @param record The call to add.
+ */
+export function addToUsageTotals(totals: LlmUsageTotals, record: Pick<LlmUsageRecord, 'promptTokens' | 'completionTokens' | 'costUsd'>): void {
+  totals.calls++;
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.costUsd === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.costUsd += record.costUsd;
+  }
+}
+
+/**
+ * Formats usage totals as a one-line summary, e.g.
+ * "3 LLM calls, 1200 prompt + 800 completion tokens, estimated cost $0.0042".
+ * @param totals The totals to format.
+ * @returns The summary.
+ */
+export function formatLlmUsage(totals: LlmUsageTotals): string {
+  let summary = `${totals.calls} LLM call${totals.calls === 1 ? '' : 's'}, ${totals.promptTokens} prompt + ${totals.completionTokens} completion tokens, estimated cost $${totals.costUsd.toFixed(4)}`;
+  if (totals.unpricedCalls > 0) {
+    summary += ` (${totals.unpricedCalls} call${totals.unpricedCalls === 1 ? '' : 's'} to models without a price not included)`;
+  }
+  return summary;
+}
+
+/**
+ * Gets the UTC day a point in time falls on, e.g. '2025-01-31'.
+ */
+function getUtcDay(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Records the token usage and estimated cost of every LLM call against the current
+ * job, tool and session (see `runInJobContext` and `runInToolContext`), and enforces
+ * the spending limits of the LLM budget.
+ * Job totals are stored on the job itself and the totals of the current UTC day in the
+ * daily usage store; the per-call records behind usage reports are kept in memory since the server started.
+ * Uses a Singleton pattern.
+ */
+class UsageTracker {
+  private prices: Record<string, LlmPrice> = {};
+  private budget: LlmBudget = {};
+  private records: LlmUsageRecord[] = [];
+  private daily: DailyUsage = { day: getUtcDay(Date.now()), totals: createEmptyUsageTotals() };
+  private store: DailyUsageStore = new InMemoryDailyUsageStore();
+
+  /**
+   * Sets the store the daily totals are persisted to and restores the current UTC day's totals from it.
+   * @param store The daily usage store to use.
+   */
+  initializeStore(store: DailyUsageStore): void {
+    this.store = store;
+    let saved: DailyUsage | undefined;
+    try {
+      saved = store.load();
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to load daily usage. Starting with empty daily totals.');
+      return;
+    }
+    // Totals of an earlier day no longer count against the daily budget
+    if (saved && saved.day === getUtcDay(Date.now())) {
+      this.daily = { day: saved.day, totals: { ...createEmptyUsageTotals(), ...saved.totals } };
+      logger.info({ day: saved.day, totals: this.daily.totals }, 'Restored daily LLM usage.');
+    }
+  }
+
+  /**
+   * Replaces the price table used for cost estimates.
+   * @param prices Prices in USD per million tokens, keyed by model as written in `llm_mapping`.
+   */
+  configurePrices(prices: Record<string, LlmPrice>): void {
+    this.prices = prices;
+    logger.info({ pricedModels: Object.keys(prices).length }, 'Configured LLM price table.');
+  }
+
+  /**
+   * Replaces the global spending limits.
+   * @param budget The limits; unset limits do not apply.
+   */
+  configureBudget(budget: LlmBudget): void {
+    this.budget = budget;
+    logger.info({ budget }, 'Configured LLM budget.');
+  }
+
+  /**
+   * Estimates the cost of a call from the price table.
+   * @param model The model, as written in `llm_mapping`.
+   * @param usage The tokens the call consumed.
+   * @returns The cost in USD, or undefined if the model has no price.
+   */
+  estimateCost(model: string, usage: LlmTokenUsage): number | undefined {
+    const price = this.prices[model];
+    if (!price) return undefined;
+    return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / TOKENS_PER_PRICE_UNIT;
+  }
+
+  /**
+   * Records an LLM call against the current job, tool and session.
+   * @param model The model that answered, as written in `llm_mapping`.
+   * @param logicalTaskName The logical task the call was made for.
+   * @param usage The tokens the call consumed; calls without reported usage count with zero tokens.
+   * @returns The recorded call.
+   */
+  record(model: string, logicalTaskName: string, usage?: LlmTokenUsage): LlmUsageRecord {
+    const tokens = usage ?? { promptTokens: 0, completionTokens: 0 };
+    const context = getCurrentJobContext();
+    const job = context?.jobId ? jobManager.getJob(context.jobId) : undefined;
+    const record: LlmUsageRecord = {
+      timestamp: Date.now(),
+      model,
+      logicalTaskName,
+      promptTokens: tokens.promptTokens,
+      completionTokens: tokens.completionTokens,
+      costUsd: this.estimateCost(model, tokens),
+      jobId: context?.jobId,
+      // Jobs may run long after the tool call that created them, so prefer what the job recorded
+      sessionId: job?.sessionId ?? context?.sessionId,
+      toolName: job?.toolName ?? context?.toolName,
+    };
+
+    this.records.push(record);
+    if (this.records.length > MAX_RECORDS) {
+      this.records.splice(0, this.records.length - MAX_RECORDS);
+    }
+    addToUsageTotals(this.getDailyUsage(record.timestamp), record);
+    this.persistDailyUsage();
+    if (job) {
+      const jobUsage = { ...(job.usage ?? createEmptyUsageTotals()) };
+      addToUsageTotals(jobUsage, record);
+      jobManager.setJobUsage(job.id, jobUsage);
+    }
+    logger.debug({ ...record, reportedUsage: usage !== undefined }, 'Recorded LLM usage.');
+    return record;
+  }
+
+  /**
+   * Gets the usage totals of the current UTC day, starting new totals when the day changed.
+   * @param now The current time in epoch milliseconds.
+   * @returns The day's totals (live; not a copy).
+   */
+  getDailyUsage(now: number = Date.now()): LlmUsageTotals {
+    const day = getUtcDay(now);
+    if (this.daily.day !== day) {
+      this.daily = { day, totals: createEmptyUsageTotals() };
+    }
+    return this.daily.totals;
+  }
+
+  /**
+   * Saves the day's totals to the store. Failures are logged, not thrown, so they never fail an LLM call.
+   */
+  private persistDailyUsage(): void {
+    try {
+      this.store.save(this.daily);
+    } catch (error) {
+      logger.error({ err: error }, 'Failed to persist daily usage.');
+    }
+  }
+
+  /**
+   * Gets the limits that apply to calls made for a task: the global limits,
+   * overridden by the task's own limits.
+   * @param taskBudget The limits of the task's `llm_mapping` entry, if any.
+   * @returns The effective limits.
+   */
+  getEffectiveBudget(taskBudget?: LlmBudget): LlmBudget {
+    return { ...this.budget, ...taskBudget };
+  }
+
+  /**
+   * Checks that an LLM call may still be made, before making it. A call is refused once the
+   * UTC day's cost or tokens, or (inside a background job) the job's tokens, reached their limit,
+   * or when the request's max tokens could take them past it.
+   * @param logicalTaskName The logical task the call is for.
+   * @param taskBudget The limits of the task's `llm_mapping` entry, if any.
+   * @param request Optional: The most the call can add; without it, only limits already reached refuse the call.
+   * @throws BudgetExceededError if a limit has been reached or the call could exceed it.
+   */
+  assertWithinBudget(logicalTaskName: string, taskBudget?: LlmBudget, request?: LlmBudgetRequest): void {
+    const budget = this.getEffectiveBudget(taskBudget);
+    const daily = this.getDailyUsage();
+    const jobId = getCurrentJobContext()?.jobId;
+    const jobUsage = jobId ? jobManager.getJob(jobId)?.usage : undefined;
+    const requestedTokens = request?.maxTokens ?? 0;
+    const requestedUsd = Math.max(0, ...(request?.models ?? []).map(model =>
+      this.estimateCost(model, { promptTokens: 0, completionTokens: requestedTokens }) ?? 0));
+
+    const checks: { limit: keyof LlmBudget; allowed?: number; used: number; requested: number; description: string }[] = [
+      { limit: 'daily_usd', allowed: budget.daily_usd, used: daily.costUsd, requested: requestedUsd, description: `daily budget of $${budget.daily_usd}` },
+      { limit: 'daily_tokens', allowed: budget.daily_tokens, used: daily.promptTokens + daily.completionTokens, requested: requestedTokens, description: `daily budget of ${budget.daily_tokens} tokens` },
+      {
+        limit: 'job_max_tokens',
+        // The job ceiling only applies inside background jobs
+        allowed: jobId ? budget.job_max_tokens : undefined,
+        used: jobUsage ? jobUsage.promptTokens + jobUsage.completionTokens : 0,
+        requested: requestedTokens,
+        description: `token ceiling of ${budget.job_max_tokens} tokens for job ${jobId}`,
+      },
+    ];
+    for (const { limit, allowed, used, requested, description } of checks) {
+      if (allowed === undefined || (used < allowed && used + requested <= allowed)) continue;
+
+      const formatAmount = (amount: number) => limit === 'daily_usd' ? `$${amount.toFixed(4)}` : `${amount} tokens`;
+      const reason = used >= allowed
+        ? `the ${description} is used up (${formatAmount(used)} used)`
+        : `the ${description} could be exceeded (${formatAmount(used)} used, up to ${formatAmount(requested)} more requested)`;
+      logger.warn({ logicalTaskName, jobId, limit, allowed, used, requested }, `LLM call for ${logicalTaskName} refused: ${limit} reached.`);
+      throw new BudgetExceededError(`LLM call for ${logicalTaskName} refused: ${reason}.`, limit, allowed, used, { logicalTaskName, jobId, requested });
+    }
+  }
+
+  /**
+   * Summarises the recorded calls matching a filter.
+   * @param filter Optional job, session, tool and start time filters.
+   * @returns Totals with per-model and per-tool breakdowns.
+   */
+  getReport(filter: LlmUsageFilter = {}): LlmUsageReport {
+    const report: LlmUsageReport = { totals: createEmptyUsageTotals(), byModel: {}, byTool: {} };
+    for (const record of this.records) {
+      if (filter.jobId !== undefined && record.jobId !== filter.jobId) continue;
+      if (filter.sessionId !== undefined && record.sessionId !== filter.sessionId) continue;
+      if (filter.toolName !== undefined && record.toolName !== filter.toolName) continue;
+      if (filter.since !== undefined && record.timestamp < filter.since) continue;
+
+      const toolName = record.toolName ?? 'unknown';
+      addToUsageTotals(report.totals, record);
+      addToUsageTotals(report.byModel[record.model] ??= createEmptyUsageTotals(), record);
+      addToUsageTotals(report.byTool[toolName] ??= createEmptyUsageTotals(), record);
+    }
+    return report;
+  }
+
+  /**
+   * Forgets all recorded calls and the day's totals. Job totals stored on jobs and the daily usage store are kept.
+   */
+  reset(): void {
+    this.records = [];
+    this.daily = { day: getUtcDay(Date.now()), totals: createEmptyUsageTotals() };
+  }
+}
+
+// Export a singleton instance
+export const usageTracker = new UsageTracker();
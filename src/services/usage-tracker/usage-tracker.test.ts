@@ -0,0 +1,172 @@
+// src/services/usage-tracker/usage-tracker.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { usageTracker, formatLlmUsage } from './index.js';
+import { FileDailyUsageStore, InMemoryDailyUsageStore } from './dailyUsageStore.js';
+import { jobManager } from '../job-manager/index.js';
+import { runInJobContext, runInToolContext } from '../job-manager/jobContext.js';
+import { BudgetExceededError } from '../../utils/errors.js';
+
+// Use the real jobManager, but keep it from sending progress notifications
+vi.mock('../job-notifier/index.js', () => ({
+  jobNotifier: {
+    notify: vi.fn(),
+  }
+}));
+
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('UsageTracker', () => {
+  beforeEach(() => {
+    usageTracker.reset();
+    usageTracker.configurePrices({ 'priced/model': { prompt: 1, completion: 2 } });
+    usageTracker.configureBudget({});
+  });
+
+  it('should estimate costs from the price table in USD per million tokens', () => {
+    expect(usageTracker.estimateCost('priced/model', { promptTokens: 1000, completionTokens: 500 })).toBeCloseTo(0.002);
+    expect(usageTracker.estimateCost('unpriced/model', { promptTokens: 1000, completionTokens: 500 })).toBeUndefined();
+  });
+
+  it('should attribute calls to the current job, its tool and session, and keep job totals on the job', () => {
+    const jobId = jobManager.createJob('generate-fullstack-starter-kit', {}, { sessionId: 'session-1' });
+
+    runInJobContext(jobId, () => {
+      usageTracker.record('priced/model', 'fullstack_starter_kit_generation', { promptTokens: 1000, completionTokens: 500 });
+      usageTracker.record('unpriced/model', 'research_query', { promptTokens: 200, completionTokens: 100 });
+    });
+
+    expect(jobManager.getJob(jobId)?.usage).toEqual({
+      calls: 2, promptTokens: 1200, completionTokens: 600, costUsd: 0.002, unpricedCalls: 1,
+    });
+    const report = usageTracker.getReport({ sessionId: 'session-1' });
+    expect(report.totals.calls).toBe(2);
+    expect(Object.keys(report.byTool)).toEqual(['generate-fullstack-starter-kit']);
+    expect(report.byModel['unpriced/model']).toMatchObject({ calls: 1, unpricedCalls: 1, costUsd: 0 });
+  });
+
+  it('should attribute calls outside jobs to the tool call context', () => {
+    runInToolContext('generate-code-stub', 'session-2', () => {
+      usageTracker.record('priced/model', 'code_stub_generation', { promptTokens: 10, completionTokens: 10 });
+    });
+    usageTracker.record('priced/model', 'semantic_routing');
+
+    const report = usageTracker.getReport();
+    expect(report.byTool['generate-code-stub']).toMatchObject({ calls: 1, promptTokens: 10, completionTokens: 10 });
+    // Calls without reported usage still count, with zero tokens
+    expect(report.byTool['unknown']).toMatchObject({ calls: 1, promptTokens: 0, completionTokens: 0 });
+    expect(usageTracker.getReport({ sessionId: 'session-2' }).totals.calls).toBe(1);
+    expect(usageTracker.getReport({ toolName: 'generate-code-stub' }).totals.calls).toBe(1);
+  });
+
+  it('should format totals as a summary', () => {
+    expect(formatLlmUsage({ calls: 3, promptTokens: 1200, completionTokens: 800, costUsd: 0.0042, unpricedCalls: 1 }))
+      .toBe('3 LLM calls, 1200 prompt + 800 completion tokens, estimated cost $0.0042 (1 call to models without a price not included)');
+  });
+
+  it('should refuse calls once the daily budget is used up', () => {
+    usageTracker.configureBudget({ daily_usd: 0.002 });
+    usageTracker.record('priced/model', 'prd_generation', { promptTokens: 500, completionTokens: 0 });
+    expect(() => usageTracker.assertWithinBudget('prd_generation')).not.toThrow();
+
+    usageTracker.record('priced/model', 'prd_generation', { promptTokens: 1000, completionTokens: 500 });
+    expect(() => usageTracker.assertWithinBudget('prd_generation')).toThrow(BudgetExceededError);
+    // A task can be given more room than the global budget
+    expect(() => usageTracker.assertWithinBudget('research_query', { daily_usd: 1 })).not.toThrow();
+  });
+
+  it('should refuse a call whose max tokens could take the usage past a limit', () => {
+    usageTracker.configureBudget({ daily_tokens: 1000 });
+    usageTracker.record('priced/model', 'prd_generation', { promptTokens: 600, completionTokens: 200 });
+
+    expect(() => usageTracker.assertWithinBudget('prd_generation', undefined, { maxTokens: 200, models: ['priced/model'] })).not.toThrow();
+    let thrown: unknown;
+    try {
+      usageTracker.assertWithinBudget('prd_generation', undefined, { maxTokens: 300, models: ['priced/model'] });
+    } catch (error) {
+      thrown = error;
+    }
+    expect(thrown).toBeInstanceOf(BudgetExceededError);
+    expect(thrown).toMatchObject({ limit: 'daily_tokens', allowed: 1000, used: 800, context: expect.objectContaining({ requested: 300 }) });
+
+    // The cost is estimated with the most expensive model that may answer
+    usageTracker.configureBudget({ daily_usd: 0.01 });
+    usageTracker.configurePrices({ 'priced/model': { prompt: 1, completion: 2 }, 'pricey/model': { prompt: 10, completion: 20 } });
+    expect(() => usageTracker.assertWithinBudget('prd_generation', undefined, { maxTokens: 500, models: ['priced/model'] })).not.toThrow();
+    expect(() => usageTracker.assertWithinBudget('prd_generation', undefined, { maxTokens: 500, models: ['priced/model', 'pricey/model'] }))
+      .toThrow(BudgetExceededError);
+  });
+
+  it('should apply the job token ceiling to each job separately, and only inside jobs', () => {
+    usageTracker.configureBudget({ job_max_tokens: 1000 });
+    const spentJobId = jobManager.createJob('generate-prd', {});
+    const freshJobId = jobManager.createJob('generate-prd', {});
+
+    runInJobContext(spentJobId, () => {
+      usageTracker.record('priced/model', 'prd_generation', { promptTokens: 800, completionTokens: 200 });
+      let thrown: unknown;
+      try {
+        usageTracker.assertWithinBudget('prd_generation');
+      } catch (error) {
+        thrown = error;
+      }
+      expect(thrown).toBeInstanceOf(BudgetExceededError);
+      expect(thrown).toMatchObject({ limit: 'job_max_tokens', allowed: 1000, used: 1000 });
+    });
+    runInJobContext(freshJobId, () => {
+      expect(() => usageTracker.assertWithinBudget('prd_generation')).not.toThrow();
+    });
+    expect(() => usageTracker.assertWithinBudget('prd_generation')).not.toThrow();
+  });
+});
+
+describe('UsageTracker daily usage store', () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'daily-usage-'));
+    filePath = path.join(tempDir, 'nested', 'daily-usage.json');
+    usageTracker.reset();
+    usageTracker.configurePrices({ 'priced/model': { prompt: 1, completion: 2 } });
+    usageTracker.configureBudget({ daily_tokens: 1000 });
+  });
+
+  afterEach(() => {
+    usageTracker.initializeStore(new InMemoryDailyUsageStore());
+    fs.removeSync(tempDir);
+  });
+
+  it('should persist the day\'s totals and restore them after a restart', () => {
+    usageTracker.initializeStore(new FileDailyUsageStore(filePath));
+    usageTracker.record('priced/model', 'prd_generation', { promptTokens: 800, completionTokens: 200 });
+    expect(new FileDailyUsageStore(filePath).load()?.totals).toMatchObject({ calls: 1, promptTokens: 800, completionTokens: 200 });
+
+    // A restart starts with empty in-memory totals
+    usageTracker.reset();
+    expect(() => usageTracker.assertWithinBudget('prd_generation')).not.toThrow();
+
+    usageTracker.initializeStore(new FileDailyUsageStore(filePath));
+    expect(usageTracker.getDailyUsage()).toMatchObject({ calls: 1, promptTokens: 800, completionTokens: 200 });
+    expect(() => usageTracker.assertWithinBudget('prd_generation')).toThrow(BudgetExceededError);
+  });
+
+  it('should ignore totals saved on an earlier day and unreadable files', () => {
+    const store = new FileDailyUsageStore(filePath);
+    store.save({ day: '2000-01-01', totals: { calls: 5, promptTokens: 5000, completionTokens: 0, costUsd: 1, unpricedCalls: 0 } });
+    usageTracker.initializeStore(store);
+    expect(usageTracker.getDailyUsage().calls).toBe(0);
+
+    fs.writeFileSync(filePath, '{"day":', 'utf-8');
+    expect(store.load()).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+// src/services/workflows/workflowConditions.test.ts
+import { describe, it, expect } from 'vitest';
+import { parseCondition, evaluateCondition, getConditionReferences, getReferencedStepId } from './workflowConditions.js';
+import { ParsingError } from '../../utils/errors.js';
+
+const values: Record<string, unknown> = {
+  'workflow.input.skipResearch': true,
+  'workflow.input.depth': 3,
+  'workflow.input.mode': 'fast',
+  'steps.generate.output.isError': false,
+};
+const evaluate = (expression: string) => evaluateCondition(parseCondition(expression), reference => values[reference]);
+
+describe('workflow conditions', () => {
+  it('should evaluate references, literals and operators', () => {
+    expect(evaluate('input.skipResearch')).toBe(true);
+    expect(evaluate('!input.skipResearch')).toBe(false);
+    expect(evaluate('workflow.input.depth >= 3 && input.mode == "fast"')).toBe(true);
+    expect(evaluate("input.mode != 'fast' || steps.generate.output.isError")).toBe(false);
+    expect(evaluate('!(input.depth < 2 || input.depth > 5)')).toBe(true);
+    expect(evaluate('steps.research.output.isError == null')).toBe(true);
+    expect(evaluate('input.mode > 2')).toBe(false);
+  });
+
+  it('should list the references and their step IDs', () => {
+    const references = getConditionReferences(parseCondition('input.skipResearch || steps.research.output.content[0].text == "none"'));
+
+    expect(references).toEqual(['workflow.input.skipResearch', 'steps.research.output.content[0].text']);
+    expect(references.map(getReferencedStepId)).toEqual([undefined, 'research']);
+  });
+
+  it('should reject invalid conditions with a ParsingError', () => {
+    expect(() => parseCondition('input.a &&')).toThrow(ParsingError);
+    expect(() => parseCondition('(input.a')).toThrow("Missing ')'");
+    expect(() => parseCondition('input.a = 1')).toThrow("Unexpected '='");
+    expect(() => parseCondition("input.mode == 'fast")).toThrow('Unterminated string');
+    expect(() => parseCondition('process.exit')).toThrow('Unknown reference "process.exit"');
+    expect(() => parseCondition('steps.research.isError')).toThrow('Unknown reference');
+  });
+});
@@ -0,0 +1,245 @@
+// src/services/workflows/workflowConditions.ts
+import { ParsingError } from '../../utils/errors.js';
+
+/**
+ * A parsed `when` condition of a workflow step.
+ *
+ * The condition language is deliberately small and never evaluated as code:
+ * - Values: `true`, `false`, `null`, numbers, 'single' or "double" quoted strings and references.
+ * - References: `input.<key>` (short for `workflow.input.<key>`) and `steps.<id>.output.<path>`, resolved like parameter templates.
+ * - Operators: `!`, `&&`, `||`, `==`, `!=`, `<`, `<=`, `>`, `>=` and parentheses.
+ */
+export type ConditionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'reference'; reference: string }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'compare'; operator: ComparisonOperator; left: ConditionNode; right: ConditionNode };
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * Resolves a reference of a condition, e.g. `workflow.input.skipResearch`; undefined if it does not exist.
+ */
+export type ConditionReferenceResolver = (reference: string) => unknown;
+
+type Token =
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'value'; value: string | number | boolean | null; position: number }
+  | { kind: 'reference'; value: string; position: number };
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '(', ')'];
+const COMPARISON_OPERATORS: ComparisonOperator[] = ['==', '!=', '<', '<=', '>', '>='];
+const IDENTIFIER_PATTERN = /[A-Za-z_][\w-]*(?:\.[\w-]+|\[\d+\])*/y;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?/y;
+const INPUT_REFERENCE_PATTERN = /^workflow\.input\.[\w-]+$/;
+const STEP_REFERENCE_PATTERN = /^steps\.([\w-]+)\.output\..+$/;
+
+/**
+ * Parses a `when` condition.
+ * @param expression The condition, e.g. `!input.skipResearch` or `steps.generate.output.isError == true`.
+ * @returns The parsed condition.
+ * @throws {ParsingError} if the condition is not valid.
+ */
+export function parseCondition(expression: string): ConditionNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new ParsingError(`${message} in condition '${expression}'.`, { expression });
+  };
+  const peekOperator = (...operators: string[]): boolean => {
+    const token = tokens[position];
+    return token?.kind === 'operator' && operators.includes(token.value);
+  };
+
+  const parseOr = (): ConditionNode => {
+    let node = parseAnd();
+    while (peekOperator('||')) {
+      position++;
+      node = { type: 'or', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+  const parseAnd = (): ConditionNode => {
+    let node = parseNot();
+    while (peekOperator('&&')) {
+      position++;
+      node = { type: 'and', left: node, right: parseNot() };
+    }
+    return node;
+  };
+  const parseNot = (): ConditionNode => {
+    if (peekOperator('!')) {
+      position++;
+      return { type: 'not', operand: parseNot() };
+    }
+    return parseComparison();
+  };
+  const parseComparison = (): ConditionNode => {
+    const left = parseOperand();
+    const token = tokens[position];
+    if (token?.kind === 'operator' && (COMPARISON_OPERATORS as string[]).includes(token.value)) {
+      position++;
+      return { type: 'compare', operator: token.value as ComparisonOperator, left, right: parseOperand() };
+    }
+    return left;
+  };
+  const parseOperand = (): ConditionNode => {
+    const token = tokens[position];
+    if (!token) return fail('Unexpected end');
+    position++;
+    if (token.kind === 'value') return { type: 'literal', value: token.value };
+    if (token.kind === 'reference') return { type: 'reference', reference: token.value };
+    if (token.value === '(') {
+      const node = parseOr();
+      if (!peekOperator(')')) fail(`Missing ')' at position ${tokens[position]?.position ?? expression.length}`);
+      position++;
+      return node;
+    }
+    return fail(`Unexpected '${token.value}' at position ${token.position}`);
+  };
+
+  const node = parseOr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    fail(`Unexpected '${token.value}' at position ${token.position}`);
+  }
+  return node;
+}
+
+/**
+ * Evaluates a parsed condition. `&&` and `||` short-circuit, `!` and the result use JavaScript truthiness,
+ * `==` and `!=` compare strictly (with `null` equal to a missing value) and `<`, `<=`, `>`, `>=` are false unless
+ * both sides are numbers or both are strings.
+ * @param node The parsed condition.
+ * @param resolveReference Resolves the references of the condition.
+ * @returns Whether the condition holds.
+ */
+export function evaluateCondition(node: ConditionNode, resolveReference: ConditionReferenceResolver): boolean {
+  return Boolean(evaluateNode(node, resolveReference));
+}
+
+/**
+ * Lists the references of a parsed condition, e.g. to find the steps it depends on.
+ * @param node The parsed condition.
+ * @returns The references, in the order they appear.
+ */
+export function getConditionReferences(node: ConditionNode): string[] {
+  switch (node.type) {
+    case 'literal': return [];
+    case 'reference': return [node.reference];
+    case 'not': return getConditionReferences(node.operand);
+    default: return [...getConditionReferences(node.left), ...getConditionReferences(node.right)];
+  }
+}
+
+/**
+ * Gets the step ID of a `steps.<id>.output.<path>` reference.
+ * @param reference A reference of a parsed condition.
+ * @returns The step ID, or undefined for workflow input references.
+ */
+export function getReferencedStepId(reference: string): string | undefined {
+  return reference.match(STEP_REFERENCE_PATTERN)?.[1];
+}
+
+function evaluateNode(node: ConditionNode, resolveReference: ConditionReferenceResolver): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'reference':
+      return resolveReference(node.reference);
+    case 'not':
+      return !evaluateNode(node.operand, resolveReference);
+    case 'and':
+      return Boolean(evaluateNode(node.left, resolveReference)) && Boolean(evaluateNode(node.right, resolveReference));
+    case 'or':
+      return Boolean(evaluateNode(node.left, resolveReference)) || Boolean(evaluateNode(node.right, resolveReference));
+    case 'compare':
+      return compare(node.operator, evaluateNode(node.left, resolveReference), evaluateNode(node.right, resolveReference));
+  }
+}
+
+function compare(operator: ComparisonOperator, left: unknown, right: unknown): boolean {
+  if (operator === '==' || operator === '!=') {
+    const equal = left === right || (left == null && right == null);
+    return operator === '==' ? equal : !equal;
+  }
+  const comparable = (typeof left === 'number' && typeof right === 'number') || (typeof left === 'string' && typeof right === 'string');
+  if (!comparable) return false;
+  const [a, b] = [left, right] as [number, number];
+  switch (operator) {
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+}
+
+/**
+ * Splits a condition into operators, literal values and references.
+ * @throws {ParsingError} on characters that start no token, unterminated strings and unknown references.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const fail = (message: string): never => {
+    throw new ParsingError(`${message} in condition '${expression}'.`, { expression });
+  };
+
+  let position = 0;
+  while (position < expression.length) {
+    const char = expression[position];
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => expression.startsWith(candidate, position));
+    if (operator) {
+      tokens.push({ kind: 'operator', value: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = position + 1;
+      while (end < expression.length && expression[end] !== char) {
+        // A backslash takes the next character literally, e.g. \' inside a single-quoted string
+        if (expression[end] === '\\' && end + 1 < expression.length) end++;
+        value += expression[end];
+        end++;
+      }
+      if (end >= expression.length) fail(`Unterminated string at position ${position}`);
+      tokens.push({ kind: 'value', value, position });
+      position = end + 1;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = position;
+    const number = NUMBER_PATTERN.exec(expression);
+    if (number) {
+      tokens.push({ kind: 'value', value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    IDENTIFIER_PATTERN.lastIndex = position;
+    const identifier = IDENTIFIER_PATTERN.exec(expression);
+    if (!identifier) fail(`Unexpected '${char}' at position ${position}`);
+    const word = (identifier as RegExpExecArray)[0];
+    if (word === 'true' || word === 'false') {
+      tokens.push({ kind: 'value', value: word === 'true', position });
+    } else if (word === 'null') {
+      tokens.push({ kind: 'value', value: null, position });
+    } else {
+      const reference = word.startsWith('input.') ? `workflow.${word}` : word;
+      if (!INPUT_REFERENCE_PATTERN.test(reference) && !STEP_REFERENCE_PATTERN.test(reference)) {
+        fail(`Unknown reference "${word}" (use input.<key> or steps.<id>.output.<path>)`);
+      }
+      tokens.push({ kind: 'reference', value: reference, position });
+    }
+    position += word.length;
+  }
+  return tokens;
+}
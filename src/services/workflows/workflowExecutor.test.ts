@@ -1,12 +1,13 @@
 // src/services/workflows/workflowExecutor.test.ts
-import { describe, it, expect, vi, beforeEach } from 'vitest'; // Removed unused import afterEach
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import fs from 'fs-extra';
 import * as toolRegistry from '../routing/toolRegistry.js'; // To mock executeTool
-import { loadWorkflowDefinitions, executeWorkflow } from './workflowExecutor.js'; // Removed unused import WorkflowResult
+import { loadWorkflowDefinitions, executeWorkflow, configureWorkflowExecution, DEFAULT_WORKFLOW_EXECUTION_OPTIONS } from './workflowExecutor.js'; // Removed unused import WorkflowResult
 import { OpenRouterConfig } from '../../types/workflow.js'; // Adjust path if necessary
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Adjust path if necessary
 import logger from '../../logger.js'; // Adjust path if necessary
-import { ConfigurationError } from '../../utils/errors.js'; // Removed unused imports
+import { CancellationError, ConfigurationError } from '../../utils/errors.js'; // Removed unused imports
+import { jobManager, JobStatus } from '../job-manager/index.js';
 
 // Mock dependencies
 vi.mock('fs-extra');
@@ -141,7 +142,21 @@ describe('Workflow Executor', () => {
          });
 
          it('should return error if parameter resolution fails', async () => {
-              // step2 expects output from step1, but let's say step1 doesn't exist in this flow
+              // The input is declared, but the caller didn't provide it
+              const result = await executeWorkflow('testFlow', {}, mockConfig);
+
+              expect(result.success).toBe(false);
+              expect(result.message).toContain("failed at step 1 (toolA)");
+              expect(result.message).toContain("Failed to resolve parameter 'p1'");
+              // Check the underlying error message from resolveParamValue
+              expect(result.message).toContain('Workflow input key "inputParam" not found');
+              expect(result.error?.stepId).toBe('step1');
+              expect(result.error?.toolName).toBe('toolA');
+              expect(executeToolMock).not.toHaveBeenCalled(); // Failed before calling tool
+         });
+
+         it('should refuse to run a workflow that failed validation', async () => {
+              // s2 refers to a step that doesn't exist, which is caught when loading
               const brokenWorkflowContent = JSON.stringify({
                   workflows: { brokenFlow: { description: "Broken", steps: [ { id: "s2", toolName: "tB", params: { p: "{steps.s1.output.content[0].text}" } } ] } }
               });
@@ -151,13 +166,9 @@ describe('Workflow Executor', () => {
               const result = await executeWorkflow('brokenFlow', {}, mockConfig);
 
               expect(result.success).toBe(false);
-              expect(result.message).toContain("failed at step 1 (tB)");
-              expect(result.message).toContain("Failed to resolve parameter 'p'");
-              // Check the underlying error message from resolveParamValue
-              expect(result.message).toContain("Output from step \"s1\" not found");
-              expect(result.error?.stepId).toBe('s2');
-              expect(result.error?.toolName).toBe('tB');
-              expect(executeToolMock).not.toHaveBeenCalled(); // Failed before calling tool
+              expect(result.message).toContain('Workflow "brokenFlow" failed validation');
+              expect(result.message).toContain('workflows.brokenFlow.steps[0].params.p: Unknown step "s1".');
+              expect(executeToolMock).not.toHaveBeenCalled();
          });
 
          it('should return error if workflow definition not found', async () => {
@@ -183,4 +194,273 @@ describe('Workflow Executor', () => {
              expect(logger.warn).toHaveBeenCalledWith(expect.anything(), expect.stringContaining("Could not resolve output template key 'msg'"));
          });
     });
+
+    describe('parallel steps', () => {
+        // Steps b and c only depend on a; d depends on both, c through dependsOn
+        const parallelWorkflowContent = JSON.stringify({
+            workflows: {
+                parallelFlow: {
+                    description: "Diamond",
+                    steps: [
+                        { id: "a", toolName: "toolA", params: {} },
+                        { id: "b", toolName: "toolB", params: { p: "{steps.a.output.content[0].text}" } },
+                        { id: "c", toolName: "toolC", params: { p: "{steps.a.output.content[0].text}" } },
+                        { id: "d", toolName: "toolD", params: { p: "{steps.b.output.content[0].text}" }, dependsOn: ["c"] }
+                    ]
+                }
+            }
+        });
+        const textResult = (text: string, isError = false): CallToolResult => ({ content: [{ type: 'text', text }], isError });
+
+        // Lets each tool call finish when the test says so
+        let pendingCalls: Map<string, (result: CallToolResult) => void>;
+        const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+        beforeEach(() => {
+            pendingCalls = new Map();
+            executeToolMock.mockImplementation(toolName => new Promise(resolve => pendingCalls.set(toolName, resolve)));
+            vi.mocked(fs.readFileSync).mockReturnValue(parallelWorkflowContent);
+            loadWorkflowDefinitions('parallelPath');
+        });
+
+        afterEach(() => {
+            configureWorkflowExecution(DEFAULT_WORKFLOW_EXECUTION_OPTIONS);
+        });
+
+        it('should run independent steps concurrently once their dependencies have finished', async () => {
+            const onProgress = vi.fn();
+            const run = executeWorkflow('parallelFlow', {}, mockConfig, undefined, onProgress);
+
+            await flush();
+            expect(Array.from(pendingCalls.keys())).toEqual(['toolA']);
+            pendingCalls.get('toolA')!(textResult('A'));
+            await flush();
+            expect(Array.from(pendingCalls.keys())).toEqual(['toolA', 'toolB', 'toolC']);
+            expect(executeToolMock).toHaveBeenCalledWith('toolB', { p: 'A' }, mockConfig, undefined);
+            expect(executeToolMock).toHaveBeenCalledWith('toolC', { p: 'A' }, mockConfig, undefined);
+
+            // d waits for c although it only references b
+            pendingCalls.get('toolB')!(textResult('B'));
+            await flush();
+            expect(pendingCalls.has('toolD')).toBe(false);
+            pendingCalls.get('toolC')!(textResult('C'));
+            await flush();
+            pendingCalls.get('toolD')!(textResult('D'));
+
+            const result = await run;
+            expect(result.success).toBe(true);
+            expect(Array.from(result.stepResults!.keys())).toEqual(['a', 'b', 'c', 'd']);
+            expect(onProgress).toHaveBeenCalledWith("Workflow 'parallelFlow': Starting step 3 ('c' - toolC).", 1, 4);
+            expect(onProgress).toHaveBeenCalledWith("Workflow 'parallelFlow': Starting step 4 ('d' - toolD).", 3, 4);
+            expect(onProgress).toHaveBeenLastCalledWith("Workflow 'parallelFlow' step 'd' completed successfully.", 4, 4);
+        });
+
+        it('should respect the parallelism limit', async () => {
+            configureWorkflowExecution({ maxParallelSteps: 1 });
+            const run = executeWorkflow('parallelFlow', {}, mockConfig);
+
+            await flush();
+            pendingCalls.get('toolA')!(textResult('A'));
+            await flush();
+            expect(pendingCalls.has('toolB')).toBe(true);
+            expect(pendingCalls.has('toolC')).toBe(false);
+            pendingCalls.get('toolB')!(textResult('B'));
+            await flush();
+            pendingCalls.get('toolC')!(textResult('C'));
+            await flush();
+            pendingCalls.get('toolD')!(textResult('D'));
+
+            expect((await run).success).toBe(true);
+        });
+
+        it('should report the failed step by ID and start no further steps', async () => {
+            const run = executeWorkflow('parallelFlow', {}, mockConfig);
+
+            await flush();
+            pendingCalls.get('toolA')!(textResult('A'));
+            await flush();
+            pendingCalls.get('toolC')!(textResult('C failed', true));
+            await flush();
+            // b is still running; the workflow waits for it but doesn't start d
+            pendingCalls.get('toolB')!(textResult('B'));
+
+            const result = await run;
+            expect(result.success).toBe(false);
+            expect(result.message).toContain("failed at step 3 (toolC)");
+            expect(result.error?.stepId).toBe('c');
+            expect(result.stepResults?.get('b')).toEqual(textResult('B'));
+            expect(executeToolMock).not.toHaveBeenCalledWith('toolD', expect.anything(), expect.anything(), undefined);
+        });
+
+        it('should start no further steps and cancel the running step jobs once the signal fires', async () => {
+            vi.useFakeTimers({ toFake: ['setTimeout'] });
+            try {
+                const controller = new AbortController();
+                const jobIdB = jobManager.createJob('toolB', {});
+                const run = executeWorkflow('parallelFlow', {}, mockConfig, undefined, undefined, controller.signal);
+                const rejection = expect(run).rejects.toBeInstanceOf(CancellationError);
+
+                await vi.advanceTimersByTimeAsync(0);
+                pendingCalls.get('toolA')!(textResult('A'));
+                await vi.advanceTimersByTimeAsync(0);
+                // b waits for its background job, c is still running
+                pendingCalls.get('toolB')!(textResult(`Started. Job ID: ${jobIdB}`));
+                await vi.advanceTimersByTimeAsync(0);
+
+                controller.abort(new CancellationError('Job cancelled'));
+                expect(jobManager.getJob(jobIdB)?.status).toBe(JobStatus.CANCELLED);
+                pendingCalls.get('toolC')!(textResult('C'));
+                await vi.advanceTimersByTimeAsync(2000);
+
+                await rejection;
+                expect(pendingCalls.has('toolD')).toBe(false);
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+
+    describe('conditions and error handling', () => {
+        const conditionalWorkflowContent = JSON.stringify({
+            workflows: {
+                conditionalFlow: {
+                    description: "Optional research, remediation if generation fails",
+                    inputSchema: { skipResearch: "boolean", topic: "string" },
+                    steps: [
+                        { id: "research", toolName: "toolA", params: {}, when: "!input.skipResearch" },
+                        { id: "generate", toolName: "toolB", params: { p: "{workflow.input.topic}" }, onError: ["remediate"] },
+                        { id: "remediate", toolName: "toolC", params: { p: "{steps.generate.output.content[0].text}" } },
+                        { id: "report", toolName: "toolD", params: { p: "{steps.research.output.content[0].text}" } }
+                    ]
+                },
+                continueFlow: {
+                    description: "Carries on after a failure",
+                    steps: [
+                        { id: "s1", toolName: "toolFail", params: {}, continueOnError: true },
+                        { id: "s2", toolName: "toolB", params: {}, when: "steps.s1.output.isError == true" },
+                        { id: "s3", toolName: "toolC", params: {}, when: "steps.s1.output.isError != true" }
+                    ]
+                }
+            }
+        });
+        const textResult = (text: string, isError = false): CallToolResult => ({ content: [{ type: 'text', text }], isError });
+
+        beforeEach(() => {
+            vi.mocked(fs.readFileSync).mockReturnValue(conditionalWorkflowContent);
+            loadWorkflowDefinitions('conditionalPath');
+        });
+
+        it('should skip steps whose condition is false, unused error handlers and dependents of skipped steps', async () => {
+            executeToolMock.mockImplementation(async toolName => textResult(`${toolName} output`));
+
+            const result = await executeWorkflow('conditionalFlow', { skipResearch: true, topic: 'Todo app' }, mockConfig);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe('Workflow "conditionalFlow" completed successfully.');
+            expect(executeToolMock).toHaveBeenCalledTimes(1);
+            expect(executeToolMock).toHaveBeenCalledWith('toolB', { p: 'Todo app' }, mockConfig, undefined);
+            expect(result.skippedSteps?.sort()).toEqual(['remediate', 'report', 'research']);
+            expect(result.failedSteps).toEqual([]);
+        });
+
+        it('should run error handlers of a failed step and carry on', async () => {
+            executeToolMock.mockImplementation(async toolName => toolName === 'toolB' ? textResult('Generation failed', true) : textResult(`${toolName} output`));
+
+            const result = await executeWorkflow('conditionalFlow', { skipResearch: false, topic: 'Todo app' }, mockConfig);
+
+            expect(result.success).toBe(true);
+            expect(result.message).toBe(`Workflow "conditionalFlow" completed, but steps 'generate' failed.`);
+            expect(executeToolMock).toHaveBeenCalledWith('toolC', { p: 'Generation failed' }, mockConfig, undefined);
+            expect(executeToolMock).toHaveBeenCalledWith('toolD', { p: 'toolA output' }, mockConfig, undefined);
+            expect(result.failedSteps).toEqual(['generate']);
+            expect(result.skippedSteps).toEqual([]);
+        });
+
+        it('should keep the error of a step with continueOnError for later conditions', async () => {
+            executeToolMock.mockImplementation(async toolName => {
+                if (toolName === 'toolFail') throw new Error('Tool crashed');
+                return textResult(`${toolName} output`);
+            });
+
+            const result = await executeWorkflow('continueFlow', {}, mockConfig);
+
+            expect(result.success).toBe(true);
+            expect(result.stepResults?.get('s1')).toEqual(textResult('Tool crashed', true));
+            expect(result.stepResults?.has('s2')).toBe(true);
+            expect(result.skippedSteps).toEqual(['s3']);
+        });
+    });
+
+    describe('forEach steps', () => {
+        const forEachWorkflowContent = JSON.stringify({
+            workflows: {
+                fanOutFlow: {
+                    description: "A stub per task",
+                    steps: [
+                        { id: "tasks", toolName: "toolA", params: {} },
+                        {
+                            id: "stubs", toolName: "toolB", params: { title: "{item.title}", position: "{index}" },
+                            forEach: { items: "{steps.tasks.output.content[0].text}", maxParallel: 2 }
+                        },
+                        { id: "review", toolName: "toolC", params: { p: "{steps.stubs.output.results[1].content[0].text}" } }
+                    ]
+                }
+            }
+        });
+        const textResult = (text: string, isError = false): CallToolResult => ({ content: [{ type: 'text', text }], isError });
+        const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+        let tasksText: string;
+        let runningItems: number;
+        let maxRunningItems: number;
+
+        beforeEach(() => {
+            tasksText = '```json\n[{"title":"Login"},{"title":"Signup"},{"title":"Logout"}]\n```';
+            runningItems = 0;
+            maxRunningItems = 0;
+            executeToolMock.mockImplementation(async (toolName, params) => {
+                if (toolName === 'toolA') return textResult(tasksText);
+                if (toolName === 'toolC') return textResult('Reviewed');
+                runningItems++;
+                maxRunningItems = Math.max(maxRunningItems, runningItems);
+                await flush();
+                runningItems--;
+                return params.title === 'Login' && tasksText.includes('broken') ? textResult('Stub failed', true) : textResult(`Stub for ${params.title}`);
+            });
+            vi.mocked(fs.readFileSync).mockReturnValue(forEachWorkflowContent);
+            loadWorkflowDefinitions('forEachPath');
+        });
+
+        it('should run the tool per item with bounded concurrency and collect the results in order', async () => {
+            const result = await executeWorkflow('fanOutFlow', {}, mockConfig);
+
+            expect(result.success).toBe(true);
+            expect(executeToolMock).toHaveBeenCalledWith('toolB', { title: 'Signup', position: 1 }, mockConfig, undefined);
+            expect(maxRunningItems).toBe(2);
+            const stubs = result.stepResults?.get('stubs');
+            expect(stubs?.content[0]?.text).toBe(JSON.stringify(['Stub for Login', 'Stub for Signup', 'Stub for Logout']));
+            expect(stubs?.results).toHaveLength(3);
+            expect(executeToolMock).toHaveBeenCalledWith('toolC', { p: 'Stub for Signup' }, mockConfig, undefined);
+        });
+
+        it('should fail the step when an item fails and start no further items', async () => {
+            tasksText = '[{"title":"Login"},{"title":"Signup"},{"title":"Logout"},{"title":"broken"}]';
+
+            const result = await executeWorkflow('fanOutFlow', {}, mockConfig);
+
+            expect(result.success).toBe(false);
+            expect(result.error?.stepId).toBe('stubs');
+            expect(result.message).toContain('Item 0 failed: Stub failed');
+            expect(executeToolMock).not.toHaveBeenCalledWith('toolB', expect.objectContaining({ title: 'Logout' }), mockConfig, undefined);
+            expect(executeToolMock).not.toHaveBeenCalledWith('toolC', expect.anything(), mockConfig, undefined);
+        });
+
+        it('should fail the step when the items are not an array', async () => {
+            tasksText = '{"title":"Login"}';
+
+            const result = await executeWorkflow('fanOutFlow', {}, mockConfig);
+
+            expect(result.success).toBe(false);
+            expect(result.message).toContain("forEach items of step 'stubs' must be an array, but resolved to object.");
+        });
+    });
 });
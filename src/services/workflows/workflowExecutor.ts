@@ -3,12 +3,14 @@ import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url'; // Need this for relative pathing in ES Modules
 import { CallToolResult, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'; // Import McpError, ErrorCode
-import { executeTool, ToolExecutionContext } from '../routing/toolRegistry.js'; // Import ToolExecutionContext
+import { executeTool, getAllTools, ToolExecutionContext } from '../routing/toolRegistry.js'; // Import ToolExecutionContext
 import { OpenRouterConfig } from '../../types/workflow.js';
 import logger from '../../logger.js';
+import { readNonNegativeInteger } from '../../utils/envNumbers.js';
 import { AppError, ToolExecutionError, ConfigurationError, ParsingError } from '../../utils/errors.js';
-import { jobManager, Job, JobStatus } from '../job-manager/index.js'; // Import Job Manager
-import { sseNotifier } from '../sse-notifier/index.js'; // Import SSE Notifier
+import { jobManager, Job, JobStatus, isFinalJobStatus } from '../job-manager/index.js'; // Import Job Manager
+import { validateWorkflowFile, formatWorkflowIssue, getStepDependencies, getErrorHandlerSources, WorkflowToolLookup, WorkflowValidationIssue } from './workflowValidation.js';
+import { parseCondition, evaluateCondition } from './workflowConditions.js';
 
 // --- Constants for Job Polling ---
 const POLLING_INTERVAL_MS = 2000; // Check job status every 2 seconds
@@ -17,33 +19,57 @@ const MAX_POLLING_ATTEMPTS = 150; // Max ~5 minutes (150 * 2s)
 // --- Interfaces ---
 
 /** Defines a single step within a workflow template. */
-interface WorkflowStep {
+export interface WorkflowStep {
   /** Unique identifier for this step within the workflow. */
   id: string;
   /** The name of the tool to execute for this step. */
   toolName: string;
   /** Parameters for the tool, where values can be static or template strings. */
-  params: Record<string, string>; // Values are templates like "{workflow.input.xyz}" or "{steps.id.output...}"
+  params: Record<string, unknown>; // String values can be templates like "{workflow.input.xyz}" or "{steps.id.output...}"
+  /** Optional: IDs of earlier steps that must finish first, in addition to those referenced in `params` and `when`. */
+  dependsOn?: string[];
+  /** Optional: Condition the step runs under, e.g. "!input.skipResearch" (see `parseCondition`). The step is skipped if it is false. */
+  when?: string;
+  /** Optional: If the step fails, store its error result and carry on instead of failing the workflow. */
+  continueOnError?: boolean;
+  /** Optional: IDs of later steps that only run if this step fails. Like `continueOnError`, a failure then doesn't stop the workflow. */
+  onError?: string[];
+  /** Optional: Run the tool once per item of an array instead of once; see `WorkflowForEach`. */
+  forEach?: WorkflowForEach;
+}
+
+/** Makes a step call its tool once per item, with `{item...}` and `{index}` bound in its params. */
+export interface WorkflowForEach {
+  /** The items: an array, or a template resolving to an array or to a string holding a JSON array, e.g. "{steps.tasks.output.content[0].text}". */
+  items: unknown;
+  /** Optional: How many items may run at the same time (0 = unlimited). Defaults to the server-wide step limit. */
+  maxParallel?: number;
 }
 
 /** Defines the structure of a workflow template. */
-interface WorkflowDefinition {
+export interface WorkflowDefinition {
   /** A description of what the workflow achieves. */
   description: string;
   /** Optional schema defining expected inputs for the entire workflow. */
   inputSchema?: Record<string, string>; // Simple type check for now
-  /** Ordered array of steps to execute. */
+  /** Steps to execute. A step starts once the steps it depends on have finished; independent steps run concurrently. */
   steps: WorkflowStep[];
   /** Optional template defining the structure of the final workflow output. */
-  output?: Record<string, string>;
+  output?: Record<string, unknown>;
+  /** Optional: How many steps may run at the same time (0 = unlimited). Overrides the server-wide limit. */
+  maxParallelSteps?: number;
 }
 
-/** Defines the expected structure of the workflows JSON file. */
-interface WorkflowFileFormat {
-  /** A map where keys are workflow names and values are WorkflowDefinition objects. */
-  workflows: Record<string, WorkflowDefinition>;
+/** Options for running workflows. */
+export interface WorkflowExecutionOptions {
+  /** How many steps of a workflow may run at the same time, unless the workflow sets its own limit (0 = unlimited). */
+  maxParallelSteps: number;
 }
 
+export const DEFAULT_WORKFLOW_EXECUTION_OPTIONS: WorkflowExecutionOptions = {
+  maxParallelSteps: 3,
+};
+
 /** Defines the result structure returned by executeWorkflow. */
 export interface WorkflowResult {
   /** Indicates if the workflow completed all steps successfully. */
@@ -54,6 +80,10 @@ export interface WorkflowResult {
   outputs?: Record<string, unknown>;
   /** Optional: Raw results of each executed step, keyed by step ID. */
   stepResults?: Map<string, CallToolResult>;
+  /** Optional: IDs of the steps that were skipped by their condition, as unused error handlers or after a skipped dependency. */
+  skippedSteps?: string[];
+  /** Optional: IDs of the steps that failed without stopping the workflow (`continueOnError` or `onError`). */
+  failedSteps?: string[];
   /** Optional: Details about the error if the workflow failed. */
   error?: {
     /** The ID of the step where the error occurred. */
@@ -69,6 +99,9 @@ export interface WorkflowResult {
 
 // --- Store for loaded definitions ---
 let loadedWorkflows = new Map<string, WorkflowDefinition>();
+let executionOptions: WorkflowExecutionOptions = DEFAULT_WORKFLOW_EXECUTION_OPTIONS;
+// Issues of the workflows that failed validation, so running them reports why
+let invalidWorkflows = new Map<string, WorkflowValidationIssue[]>();
 
 // --- Calculate default path relative to this file ---
 const __filename = fileURLToPath(import.meta.url);
@@ -77,7 +110,52 @@ const __dirname = path.dirname(__filename);
 const defaultWorkflowPath = path.resolve(__dirname, '../../../workflows.json');
 
 /**
- * Loads and performs basic validation on workflow definitions from a JSON file.
+ * Replaces the options for running workflows.
+ * @param options The new options.
+ */
+export function configureWorkflowExecution(options: WorkflowExecutionOptions): void {
+  executionOptions = options;
+  logger.info({ ...options }, 'Configured workflow execution.');
+}
+
+/**
+ * Creates the workflow execution options from environment variables.
+ * - `VIBE_CODER_WORKFLOW_MAX_PARALLEL_STEPS`: Steps of a workflow that may run at the same time (default 3, 0 = unlimited).
+ * @returns The configured WorkflowExecutionOptions.
+ */
+export function createWorkflowExecutionOptionsFromEnv(): WorkflowExecutionOptions {
+  return {
+    maxParallelSteps: readNonNegativeInteger('VIBE_CODER_WORKFLOW_MAX_PARALLEL_STEPS', DEFAULT_WORKFLOW_EXECUTION_OPTIONS.maxParallelSteps),
+  };
+}
+
+/**
+ * Looks up tools in the tool registry for workflow validation.
+ * @returns The lookup, or undefined while no tools are registered (tool checks are then skipped).
+ */
+function getRegisteredToolLookup(): WorkflowToolLookup | undefined {
+  const tools = getAllTools() ?? [];
+  if (tools.length === 0) return undefined;
+  const toolsByName = new Map(tools.map(tool => [tool.name, tool]));
+  return toolName => toolsByName.get(toolName);
+}
+
+/**
+ * Groups issues by the workflow they belong to.
+ */
+function groupIssuesByWorkflow(issues: WorkflowValidationIssue[]): Map<string, WorkflowValidationIssue[]> {
+  const grouped = new Map<string, WorkflowValidationIssue[]>();
+  for (const issue of issues) {
+    const workflowName = issue.workflowName ?? '';
+    grouped.set(workflowName, [...(grouped.get(workflowName) ?? []), issue]);
+  }
+  return grouped;
+}
+
+/**
+ * Loads and validates workflow definitions from a JSON file (see `validateWorkflowFile`).
+ * Workflows with issues are not loaded; each issue is logged with its JSON path.
+ * Tools and their parameters are only checked once tools are registered, so call this after the tool registry is initialized.
  * Clears existing loaded workflows before attempting to load.
  * Logs warnings or errors but does not throw if loading fails, allowing the server to start.
  * @param filePath Path to the workflows JSON file. Defaults to 'workflows.json' in the project root.
@@ -85,6 +163,7 @@ const defaultWorkflowPath = path.resolve(__dirname, '../../../workflows.json');
 export function loadWorkflowDefinitions(filePath: string = defaultWorkflowPath): void {
   logger.info(`Attempting to load workflow definitions from: ${filePath}`);
   loadedWorkflows = new Map(); // Clear previous definitions first
+  invalidWorkflows = new Map();
 
   try {
     if (!fs.existsSync(filePath)) {
@@ -92,52 +171,103 @@ export function loadWorkflowDefinitions(filePath: string = defaultWorkflowPath):
       return;
     }
     const fileContent = fs.readFileSync(filePath, 'utf-8');
-    const workflowData: WorkflowFileFormat = JSON.parse(fileContent);
+    const workflowData: unknown = JSON.parse(fileContent);
 
-    // Basic structural validation
-    if (!workflowData || typeof workflowData.workflows !== 'object' || workflowData.workflows === null) {
-      throw new ConfigurationError('Invalid workflow file format: Root "workflows" object missing or invalid.');
+    const lookupTool = getRegisteredToolLookup();
+    if (!lookupTool) {
+      logger.debug('No tools registered yet. Workflow steps are loaded without checking their tools.');
+    }
+    const { workflows, issues } = validateWorkflowFile(workflowData, lookupTool);
+    for (const issue of issues) {
+      logger.error({ filePath, path: issue.path }, `Invalid workflow definition: ${formatWorkflowIssue(issue)}`);
     }
 
-    // TODO: Add more robust validation using Zod for the WorkflowFileFormat structure
-    //       This would involve defining Zod schemas for WorkflowDefinition, WorkflowStep etc.
-    //       and parsing workflowData against that schema.
-
-    loadedWorkflows = new Map(Object.entries(workflowData.workflows));
+    loadedWorkflows = workflows;
+    invalidWorkflows = groupIssuesByWorkflow(issues);
+    if (invalidWorkflows.size > 0) {
+      logger.warn({ filePath, invalidWorkflows: Array.from(invalidWorkflows.keys()) }, `${invalidWorkflows.size} workflow definitions failed validation and were not loaded. Run validate-workflows for details.`);
+    }
     logger.info(`Successfully loaded ${loadedWorkflows.size} workflow definitions.`);
 
   } catch (error) {
     logger.error({ err: error, filePath }, 'Failed to load or parse workflow definitions. Workflows will be unavailable.');
     // Clear workflows again in case of partial loading before error
     loadedWorkflows = new Map();
-    // Consider re-throwing if workflow loading is critical:
-    // if (error instanceof Error) {
-    //     throw new ConfigurationError(`Failed to load workflows from ${filePath}: ${error.message}`, undefined, error);
-    // } else {
-    //     throw new ConfigurationError(`Failed to load workflows from ${filePath}: Unknown error.`);
-    // }
+    invalidWorkflows = new Map();
   }
 }
 
+/** Defines the result structure returned by validateWorkflowDefinitions. */
+export interface WorkflowValidationReport {
+  /** The validated file. */
+  filePath: string;
+  /** Names of the workflows without issues. */
+  validWorkflows: string[];
+  /** Issues of the other workflows, with JSON paths. */
+  issues: WorkflowValidationIssue[];
+  /** Whether tools and their parameters were checked (they need registered tools). */
+  toolsChecked: boolean;
+}
+
+/**
+ * Validates a workflow definition file against the registered tools without loading it.
+ * @param filePath Path to the workflows JSON file. Defaults to 'workflows.json' in the project root.
+ * @returns The validation report.
+ * @throws ConfigurationError if the file is missing, is not valid JSON or has no `workflows` object.
+ */
+export function validateWorkflowDefinitions(filePath: string = defaultWorkflowPath): WorkflowValidationReport {
+  if (!fs.existsSync(filePath)) {
+    throw new ConfigurationError(`Workflow definition file not found: ${filePath}.`, { filePath });
+  }
+  let workflowData: unknown;
+  try {
+    workflowData = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new ConfigurationError(`Workflow definition file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`, { filePath });
+  }
+
+  const lookupTool = getRegisteredToolLookup();
+  const { workflows, issues } = validateWorkflowFile(workflowData, lookupTool);
+  return { filePath, validWorkflows: Array.from(workflows.keys()), issues, toolsChecked: lookupTool !== undefined };
+}
+
+/** The values a forEach step binds for each item, referenced as `{item...}` and `{index}` in its params. */
+interface ForEachBindings {
+  item: unknown;
+  index: number;
+}
+
 /**
  * Resolves a parameter value template string against workflow inputs and step outputs.
- * Handles simple path traversal for step outputs (e.g., `content[0].text`).
+ * Handles simple path traversal for step outputs (e.g., `content[0].text`) and, in forEach steps, for the current item (e.g., `{item.title}`).
  *
- * @param valueTemplate Template string (e.g., "{workflow.input.xyz}", "{steps.id.output.content[0].text}") or a literal value.
+ * @param valueTemplate Template string (e.g., "{workflow.input.xyz}", "{steps.id.output.content[0].text}", "{item.title}", "{index}") or a literal value.
  * @param workflowInput The initial input object provided to the workflow.
  * @param stepOutputs A Map containing results (CallToolResult) from previously executed steps, keyed by step ID.
+ * @param bindings Optional: The current item and its index, when resolving the params of a forEach step.
  * @returns The resolved value.
  * @throws {ParsingError} if the template syntax is invalid or the referenced data cannot be found.
  */
 function resolveParamValue(
   valueTemplate: unknown,
   workflowInput: Record<string, unknown>,
-  stepOutputs: Map<string, CallToolResult>
+  stepOutputs: Map<string, CallToolResult>,
+  bindings?: ForEachBindings
 ): unknown {
   if (typeof valueTemplate !== 'string') {
     return valueTemplate; // Return non-strings (like numbers, booleans, objects from template) directly
   }
 
+  const bindingMatch = valueTemplate.match(/^{(?:(index)|item((?:\.[\w-]+|\[\d+\])*))}$/);
+  if (bindingMatch) {
+      if (!bindings) {
+          throw new ParsingError(`Template '${valueTemplate}' can only be used in the params of a forEach step.`);
+      }
+      if (bindingMatch[1]) return bindings.index;
+      const itemPath = bindingMatch[2].replace(/^\./, '');
+      return itemPath ? resolveValuePath(bindings.item, itemPath, `the forEach item ${bindings.index}`, valueTemplate) : bindings.item;
+  }
+
   const match = valueTemplate.match(/^{(workflow\.input\.([\w-]+))|(steps\.([\w-]+)\.output\.(.+))}$/);
   if (!match) {
     return valueTemplate; // Not a template, return as literal string
@@ -162,38 +292,7 @@ function resolveParamValue(
               throw new ParsingError(`Output from step "${stepId}" not found (required for template '${valueTemplate}'). Ensure step IDs match and the step executed.`);
           }
 
-          // Basic path traversal - handle potential errors gracefully
-          let currentValue: unknown = stepResult;
-          // Split by '.' or array access like '[0]'
-          const pathParts = outputPath.match(/([^[.\]]+)|\[(\d+)\]/g);
-          if (!pathParts) {
-              throw new ParsingError(`Invalid output path format '${outputPath}' in template '${valueTemplate}'.`);
-          }
-
-          for (const part of pathParts) {
-              if (currentValue === null || currentValue === undefined) {
-                   throw new ParsingError(`Cannot access path part '${part}' in '${outputPath}' from step '${stepId}' output because parent value is null or undefined. Template: '${valueTemplate}'.`);
-              }
-              const arrayMatch = part.match(/^\[(\d+)\]$/);
-              if (arrayMatch) { // Array index like '[0]'
-                  const index = parseInt(arrayMatch[1], 10);
-                  if (!Array.isArray(currentValue) || index >= currentValue.length) {
-                      throw new ParsingError(`Index ${index} out of bounds for array in path '${outputPath}' from step '${stepId}'. Template: '${valueTemplate}'.`);
-                  }
-                  currentValue = currentValue[index];
-              } else { // Object key
-                  if (typeof currentValue !== 'object' || currentValue === null || !(part in currentValue)) {
-                       throw new ParsingError(`Key '${part}' not found in object path '${outputPath}' from step '${stepId}'. Template: '${valueTemplate}'.`);
-                  }
-                  // Use a type assertion to access the property after we've verified it exists
-                  currentValue = (currentValue as Record<string, unknown>)[part];
-              }
-          }
-
-          if (currentValue === undefined) {
-             // It's possible for a valid path to resolve to undefined. Log and return it.
-             logger.warn(`Resolved path '${outputPath}' resulted in undefined for step '${stepId}'. Template: '${valueTemplate}'`);
-          }
+          const currentValue = resolveValuePath(stepResult, outputPath, `step '${stepId}' output`, valueTemplate);
           logger.debug(`Resolved template '${valueTemplate}' from step '${stepId}' output path '${outputPath}'.`);
           return currentValue;
       }
@@ -209,6 +308,82 @@ function resolveParamValue(
   return valueTemplate; // Fallback to literal
 }
 
+/**
+ * Follows a path like `content[0].text` into a value.
+ * @param root The value to start from, e.g. a step's CallToolResult.
+ * @param valuePath The path of object keys and array indexes.
+ * @param source Describes the root for error messages, e.g. "step 'x' output".
+ * @param valueTemplate The template being resolved, for error messages.
+ * @returns The value at the path.
+ * @throws {ParsingError} if the path is malformed or does not exist.
+ */
+function resolveValuePath(root: unknown, valuePath: string, source: string, valueTemplate: string): unknown {
+  // Basic path traversal - handle potential errors gracefully
+  let currentValue: unknown = root;
+  // Split by '.' or array access like '[0]'
+  const pathParts = valuePath.match(/([^[.\]]+)|\[(\d+)\]/g);
+  if (!pathParts) {
+      throw new ParsingError(`Invalid output path format '${valuePath}' in template '${valueTemplate}'.`);
+  }
+
+  for (const part of pathParts) {
+      if (currentValue === null || currentValue === undefined) {
+           throw new ParsingError(`Cannot access path part '${part}' in '${valuePath}' from ${source} because parent value is null or undefined. Template: '${valueTemplate}'.`);
+      }
+      const arrayMatch = part.match(/^\[(\d+)\]$/);
+      if (arrayMatch) { // Array index like '[0]'
+          const index = parseInt(arrayMatch[1], 10);
+          if (!Array.isArray(currentValue) || index >= currentValue.length) {
+              throw new ParsingError(`Index ${index} out of bounds for array in path '${valuePath}' from ${source}. Template: '${valueTemplate}'.`);
+          }
+          currentValue = currentValue[index];
+      } else { // Object key
+          if (typeof currentValue !== 'object' || currentValue === null || !(part in currentValue)) {
+               throw new ParsingError(`Key '${part}' not found in object path '${valuePath}' from ${source}. Template: '${valueTemplate}'.`);
+          }
+          // Use a type assertion to access the property after we've verified it exists
+          currentValue = (currentValue as Record<string, unknown>)[part];
+      }
+  }
+
+  if (currentValue === undefined) {
+     // It's possible for a valid path to resolve to undefined. Log and return it.
+     logger.warn(`Resolved path '${valuePath}' resulted in undefined from ${source}. Template: '${valueTemplate}'`);
+  }
+  return currentValue;
+}
+
+/**
+ * Resolves the items of a forEach step. A string, such as a step's text output, is parsed as a JSON array,
+ * optionally wrapped in a Markdown code fence.
+ * @param stepId The ID of the forEach step, for error messages.
+ * @param itemsTemplate The step's `forEach.items`.
+ * @param workflowInput The initial input object provided to the workflow.
+ * @param stepOutputs Results from previously executed steps, keyed by step ID.
+ * @returns The items.
+ * @throws {ParsingError} if the items cannot be resolved or are not an array.
+ */
+function resolveForEachItems(
+  stepId: string,
+  itemsTemplate: unknown,
+  workflowInput: Record<string, unknown>,
+  stepOutputs: Map<string, CallToolResult>
+): unknown[] {
+  let items = resolveParamValue(itemsTemplate, workflowInput, stepOutputs);
+  if (typeof items === 'string') {
+    const fenced = items.match(/^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/i);
+    try {
+      items = JSON.parse(fenced ? fenced[1] : items);
+    } catch (error) {
+      throw new ParsingError(`forEach items of step '${stepId}' are not a JSON array: ${error instanceof Error ? error.message : String(error)}`, { stepId });
+    }
+  }
+  if (!Array.isArray(items)) {
+    throw new ParsingError(`forEach items of step '${stepId}' must be an array, but resolved to ${items === null ? 'null' : typeof items}.`, { stepId });
+  }
+  return items;
+}
+
 /**
  * Checks if a CallToolResult indicates a background job was started.
  * @param result The CallToolResult from executeTool.
@@ -230,12 +405,12 @@ function getJobIdFromResult(result: CallToolResult): string | null {
 
 /**
  * Waits for a background job to complete by polling the JobManager.
- * Sends progress updates via SSE.
+ * The job reports its own progress to the session through the job notifier.
  * @param jobId The ID of the job to wait for.
  * @param stepId The ID of the workflow step associated with this job.
- * @param sessionId The session ID for SSE notifications.
+ * @param sessionId The session ID, for logging.
  * @returns The final CallToolResult from the completed or failed job.
- * @throws {ToolExecutionError} if the job is not found, polling times out, or the job fails unexpectedly.
+ * @throws {ToolExecutionError} if the job is not found, is cancelled, polling times out, or the job fails unexpectedly.
  */
 async function waitForJobCompletion(jobId: string, stepId: string, sessionId: string): Promise<CallToolResult> {
     logger.info({ jobId, stepId, sessionId }, `Waiting for background job to complete...`);
@@ -252,23 +427,21 @@ async function waitForJobCompletion(jobId: string, stepId: string, sessionId: st
             throw new ToolExecutionError(`Background job ${jobId} for step ${stepId} was not found.`);
         }
 
-        if (job.status === JobStatus.COMPLETED || job.status === JobStatus.FAILED) {
+        if (isFinalJobStatus(job.status)) {
             logger.info({ jobId, stepId, sessionId, status: job.status }, `Job finished with status: ${job.status}.`);
+            if (job.status === JobStatus.CANCELLED) {
+                // Partial output of a cancelled job must not be mistaken for a successful step
+                throw new ToolExecutionError(`Background job ${jobId} for step ${stepId} was cancelled.`, { jobId, stepId });
+            }
             if (!job.result) {
                  logger.error({ jobId, stepId, sessionId, status: job.status }, `Job finished but has no result stored.`);
                  throw new ToolExecutionError(`Background job ${jobId} for step ${stepId} finished with status ${job.status} but has no result.`);
             }
-            // Send final SSE update before returning
-            sseNotifier.sendProgress(sessionId, jobId, job.status, `Job ${job.status.toLowerCase()}.`);
             return job.result;
         }
 
         // Still running or pending
         logger.debug({ jobId, stepId, sessionId, status: job.status, attempt: attempts }, `Polling job status: ${job.status}`);
-        // Send intermediate progress update via SSE - Use status as message base
-        const progressMessage = `Job status: ${job.status}... (Polling attempt ${attempts}/${MAX_POLLING_ATTEMPTS})`;
-        sseNotifier.sendProgress(sessionId, jobId, job.status, progressMessage);
-
     }
 
     // If loop finishes, it means timeout
@@ -277,102 +450,324 @@ async function waitForJobCompletion(jobId: string, stepId: string, sessionId: st
 }
 
 
+/**
+ * Listener notified of workflow progress: steps starting, waiting for their background job, finishing, failing or being skipped.
+ * @param message The progress message, e.g. "Workflow 'plan': Starting step 2 ('tasks' - generate-task-list)."
+ * @param completedSteps How many steps have finished (including skipped steps) so far; with parallel steps, this can lag behind the step numbers.
+ * @param totalSteps The number of steps in the workflow.
+ */
+export type WorkflowProgressListener = (message: string, completedSteps: number, totalSteps: number) => void;
+
 /**
  * Executes a predefined workflow by its name.
- * Iterates through the steps, resolves parameters, executes tools, handles potential background jobs, and manages errors.
+ * Runs each step once the steps it depends on (see `getStepDependencies`) have finished, so independent steps run
+ * concurrently up to the parallelism limit. Resolves parameters, executes tools, handles potential background jobs, and manages errors.
+ * Steps whose `when` condition is false are skipped, and so are error handlers (`onError`) of steps that succeeded and,
+ * unless they have a condition of their own, steps that depend on a skipped step.
+ * When a step fails, no further steps start and the workflow fails at the first failed step once the running steps have finished,
+ * unless the step has `continueOnError` or `onError`; its error result is then kept and the workflow carries on.
+ * Once the signal fires, no further steps start and the background jobs of the running steps are cancelled.
  *
  * @param workflowName The name of the workflow (must be loaded).
  * @param workflowInput Input data for the workflow, matching its inputSchema.
  * @param config OpenRouter configuration passed to tools.
  * @param context Optional ToolExecutionContext containing sessionId for SSE.
+ * @param onProgress Optional listener for step events, e.g., to report them as the workflow job's progress.
+ * @param signal Optional AbortSignal that cancels the workflow (e.g., when its job is cancelled).
  * @returns A promise resolving to the WorkflowResult.
+ * @throws The signal's reason (a CancellationError for cancelled jobs) once the running steps have stopped.
  */
 export async function executeWorkflow(
   workflowName: string,
   workflowInput: Record<string, unknown>,
   config: OpenRouterConfig,
-  context?: ToolExecutionContext // Accept context
+  context?: ToolExecutionContext, // Accept context
+  onProgress?: WorkflowProgressListener,
+  signal?: AbortSignal
 ): Promise<WorkflowResult> {
   const workflow = loadedWorkflows.get(workflowName);
   const sessionId = context?.sessionId || `no-session-${Math.random().toString(36).substring(2)}`; // Get sessionId or generate placeholder
 
+  const validationIssues = invalidWorkflows.get(workflowName);
+  if (!workflow && validationIssues) {
+    const message = `Workflow "${workflowName}" failed validation and was not loaded: ${validationIssues.map(formatWorkflowIssue).join('; ')}`;
+    logger.error({ workflowName, issues: validationIssues }, message);
+    return { success: false, message, error: { message, details: { issues: validationIssues } } };
+  }
+
   if (!workflow) {
     logger.error(`Workflow "${workflowName}" not found.`);
     return { success: false, message: `Workflow "${workflowName}" not found.`, error: { message: `Workflow "${workflowName}" not found.`} };
   }
 
   logger.info({ workflowName, sessionId }, `Starting workflow execution.`);
-  // Use Map for step outputs as it preserves insertion order if needed, and allows any string key
+  // Use Map for step outputs; entries are added as steps finish, keyed by step ID
   const stepOutputs = new Map<string, CallToolResult>();
   let currentStepIndex = 0;
   let currentStep: WorkflowStep | undefined;
 
+  // Steps report progress through their own jobs; the caller's progress token belongs to the workflow itself
+  const stepContext: ToolExecutionContext | undefined = context && { ...context, progressToken: undefined };
+  const reportProgress = (message: string): void => onProgress?.(message, finishedSteps.size, workflow.steps.length);
+
+  // Background jobs of the running steps, cancelled together with the workflow
+  const stepJobIds = new Set<string>();
+  const cancelStepJob = (jobId: string): void => {
+    jobManager.cancelJob(jobId, `workflow '${workflowName}' was cancelled`);
+  };
+  const cancelStepJobs = (): void => stepJobIds.forEach(cancelStepJob);
+
+  /**
+   * Calls a step's tool once: resolves its params, executes the tool and waits for its background job.
+   * @param bindings Optional: The item of a forEach step the call is for.
+   * @returns The final result (either immediate or from the job) and the job's ID, if the tool started one.
+   * @throws AppError if a parameter cannot be resolved, ToolExecutionError if waiting for the job fails.
+   */
+  const callStepTool = async (
+    step: WorkflowStep,
+    stepLogContext: Record<string, unknown>,
+    bindings?: ForEachBindings
+  ): Promise<{ stepResult: CallToolResult; jobId: string | null }> => {
+    // Resolve parameters for this step
+    const resolvedParams: Record<string, unknown> = {};
+    for (const [key, template] of Object.entries(step.params)) {
+       try {
+          resolvedParams[key] = resolveParamValue(template, workflowInput, stepOutputs, bindings);
+          logger.debug(`Resolved param '${key}' for step '${step.id}'`);
+       } catch (resolveError) {
+           // If a parameter cannot be resolved, fail the workflow immediately
+            logger.error({ err: resolveError, ...stepLogContext, paramKey: key, template }, `Failed to resolve parameter`);
+            throw new AppError(`Failed to resolve parameter '${key}' for step '${step.id}': ${(resolveError as Error).message}`, { stepId: step.id, paramKey: key }, resolveError instanceof Error ? resolveError : undefined);
+       }
+    }
+
+    // Execute the tool for this step, passing the context
+    let stepResult = await executeTool(step.toolName, resolvedParams, config, stepContext);
+
+    // --- Handle potential background job ---
+    const jobId = getJobIdFromResult(stepResult);
+    if (jobId) {
+        logger.info({ ...stepLogContext, jobId }, `Tool returned a background job ID. Waiting for completion...`);
+        reportProgress(`Workflow '${workflowName}' step '${step.id}': Waiting for background job ${jobId}...`);
+        stepJobIds.add(jobId);
+        if (signal?.aborted) cancelStepJob(jobId);
+        try {
+            // Wait for the job and get its final result
+            stepResult = await waitForJobCompletion(jobId, step.id, sessionId);
+            logger.info({ ...stepLogContext, jobId, finalStatus: stepResult.isError ? 'FAILED' : 'COMPLETED' }, `Background job finished.`);
+        } catch (jobError) {
+             logger.error({ err: jobError, ...stepLogContext, jobId }, `Error waiting for background job.`);
+             // Propagate the job waiting error, adding workflow context
+             throw new ToolExecutionError(`Step '${step.id}' failed while waiting for background job ${jobId}: ${jobError instanceof Error ? jobError.message : String(jobError)}`, { stepId: step.id, toolName: step.toolName, jobId });
+        } finally {
+            stepJobIds.delete(jobId);
+        }
+    }
+    // --- End Job Handling ---
+    return { stepResult, jobId };
+  };
+
+  /**
+   * Calls a forEach step's tool once per item, at most `maxParallel` items at a time. Once an item fails, no further items start.
+   * @returns A result whose text is a JSON array of the items' text outputs and whose `results` holds each item's result,
+   *   in item order; an error result naming the failed item if one failed.
+   * @throws {ParsingError} if the items are not an array.
+   */
+  const runForEach = async (step: WorkflowStep, forEach: WorkflowForEach, stepLogContext: Record<string, unknown>): Promise<CallToolResult> => {
+    const items = resolveForEachItems(step.id, forEach.items, workflowInput, stepOutputs);
+    const maxParallelItems = forEach.maxParallel ?? executionOptions.maxParallelSteps;
+    logger.info({ ...stepLogContext, items: items.length, maxParallelItems }, `Running forEach step over ${items.length} items.`);
+
+    const results: CallToolResult[] = [];
+    let nextIndex = 0;
+    // Set from the workers, hence the assertion: it keeps TypeScript from narrowing it to undefined
+    let failedItem = undefined as { index: number; result: CallToolResult } | undefined;
+    // Each worker takes the next item until none are left or an item has failed
+    const runItems = async (): Promise<void> => {
+      while (!failedItem && nextIndex < items.length) {
+        const index = nextIndex++;
+        let result: CallToolResult;
+        try {
+          ({ stepResult: result } = await callStepTool(step, { ...stepLogContext, itemIndex: index }, { item: items[index], index }));
+        } catch (itemError) {
+          result = { content: [{ type: 'text', text: itemError instanceof Error ? itemError.message : String(itemError) }], isError: true };
+        }
+        results[index] = result;
+        if (result.isError) {
+          failedItem = failedItem ?? { index, result };
+        }
+      }
+    };
+    const workerCount = maxParallelItems > 0 ? Math.min(maxParallelItems, items.length) : items.length;
+    await Promise.all(Array.from({ length: workerCount }, runItems));
+
+    if (failedItem) {
+      return {
+        content: [{ type: 'text', text: `Item ${failedItem.index} failed: ${failedItem.result.content[0]?.text || 'Unknown tool error'}` }],
+        results,
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: 'text', text: JSON.stringify(results.map(result => result.content[0]?.text ?? null)) }],
+      results,
+    };
+  };
+
+  /**
+   * Runs one step: calls its tool, once or per item of its forEach, and stores the result.
+   * @throws AppError if a parameter cannot be resolved, ToolExecutionError if the tool or its job fails.
+   */
+  const runStep = async (step: WorkflowStep, stepNumber: number): Promise<void> => {
+    const stepLogContext = { workflowName, sessionId, stepId: step.id, toolName: step.toolName, stepNum: stepNumber };
+    logger.info(stepLogContext, `Executing workflow step ${stepNumber}/${workflow.steps.length}`);
+    reportProgress(`Workflow '${workflowName}': Starting step ${stepNumber} ('${step.id}' - ${step.toolName}).`);
+
+    const stepResult = step.forEach
+      ? await runForEach(step, step.forEach, stepLogContext)
+      : (await callStepTool(step, stepLogContext)).stepResult;
+
+    // Store the final result (either immediate or from the job), keyed by step ID
+    stepOutputs.set(step.id, stepResult);
+
+    // Check for errors from the final tool execution result
+    if (stepResult.isError) {
+      const stepErrorMessage = stepResult.content[0]?.text || 'Unknown tool error';
+      logger.error({ ...stepLogContext, errorResult: stepResult }, `Workflow step failed.`);
+      reportProgress(`Workflow '${workflowName}' step '${step.id}' failed: ${stepErrorMessage}`);
+       // Propagate the error, adding workflow context
+       throw new ToolExecutionError(`Step '${step.id}' (Tool: ${step.toolName}) failed: ${stepErrorMessage}`, { stepId: step.id, toolName: step.toolName, toolResult: stepResult });
+    }
+
+    logger.debug(stepLogContext, `Workflow step completed successfully.`);
+  };
+
+  // Independent steps run concurrently, up to the parallelism limit (0 = unlimited)
+  const maxParallelSteps = workflow.maxParallelSteps ?? executionOptions.maxParallelSteps;
+  // Error handlers wait for the steps they handle
+  const errorHandlerSources = getErrorHandlerSources(workflow.steps);
+  const dependencies = new Map(workflow.steps.map(step => [step.id, [...getStepDependencies(step), ...(errorHandlerSources.get(step.id) ?? [])]]));
+  const pendingSteps = [...workflow.steps];
+  const runningSteps = new Map<string, Promise<void>>();
+  // Steps that succeeded, failed without stopping the workflow, or were skipped
+  const finishedSteps = new Set<string>();
+  const failedSteps = new Set<string>();
+  const skippedSteps = new Set<string>();
+  // Set from the steps' promise callbacks, hence the assertion: it keeps TypeScript from narrowing it to undefined
+  let failure = undefined as { step: WorkflowStep; stepNumber: number; error: unknown } | undefined;
+
+  // Conditions read the same values as parameter templates; a value that doesn't exist (yet) is undefined
+  const resolveConditionReference = (reference: string): unknown => {
+    try {
+      return resolveParamValue(`{${reference}}`, workflowInput, stepOutputs);
+    } catch (error) {
+      if (error instanceof ParsingError) return undefined;
+      throw error;
+    }
+  };
+
+  /**
+   * Decides whether a step whose dependencies have finished is skipped.
+   * @returns Why the step is skipped, or undefined if it runs.
+   * @throws {ParsingError} if the step's condition is invalid.
+   */
+  const getSkipReason = (step: WorkflowStep): string | undefined => {
+    const sources = errorHandlerSources.get(step.id) ?? [];
+    if (sources.length > 0 && !sources.some(source => failedSteps.has(source))) {
+      return `none of the steps it handles (${sources.join(', ')}) failed`;
+    }
+    if (step.when !== undefined) {
+      return evaluateCondition(parseCondition(step.when), resolveConditionReference) ? undefined : `its condition '${step.when}' is false`;
+    }
+    // Without a condition of its own, a step can't run without the output of a skipped step
+    const skippedDependency = (dependencies.get(step.id) ?? []).find(dependency => skippedSteps.has(dependency) && !sources.includes(dependency));
+    return skippedDependency !== undefined ? `step '${skippedDependency}' it depends on was skipped` : undefined;
+  };
+
+  /**
+   * Records a failed step. With `continueOnError` or `onError`, the step counts as finished and its error result
+   * is stored for later steps, e.g. for `steps.<id>.output.isError`; otherwise the workflow fails.
+   */
+  const handleStepFailure = (step: WorkflowStep, stepNumber: number, error: unknown): void => {
+    if (!step.continueOnError && (step.onError ?? []).length === 0) {
+      failure = failure ?? { step, stepNumber, error };
+      return;
+    }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (!stepOutputs.has(step.id)) {
+      stepOutputs.set(step.id, { content: [{ type: 'text', text: errorMessage }], isError: true });
+    }
+    failedSteps.add(step.id);
+    finishedSteps.add(step.id);
+    logger.warn({ workflowName, sessionId, stepId: step.id, toolName: step.toolName, err: error }, `Workflow step failed. Continuing with the remaining steps.`);
+  };
+
+  signal?.addEventListener('abort', cancelStepJobs, { once: true });
   try {
      // TODO: Optional: Validate workflowInput against workflow.inputSchema here if defined
 
-    for (const step of workflow.steps) {
-      currentStep = step; // Keep track of the current step for error reporting
-      currentStepIndex++;
-      const stepLogContext = { workflowName, sessionId, stepId: step.id, toolName: step.toolName, stepNum: currentStepIndex };
-      logger.info(stepLogContext, `Executing workflow step ${currentStepIndex}/${workflow.steps.length}`);
-      // Use sendProgress for step start notification - use step.id as identifier since jobId isn't known yet
-      sseNotifier.sendProgress(sessionId, step.id, JobStatus.RUNNING, `Workflow '${workflowName}': Starting step ${currentStepIndex} ('${step.id}' - ${step.toolName}).`);
-
-      // Resolve parameters for this step
-      const resolvedParams: Record<string, unknown> = {};
-      for (const [key, template] of Object.entries(step.params)) {
-         try {
-            resolvedParams[key] = resolveParamValue(template, workflowInput, stepOutputs);
-            logger.debug(`Resolved param '${key}' for step '${step.id}'`);
-         } catch (resolveError) {
-             // If a parameter cannot be resolved, fail the workflow immediately
-              logger.error({ err: resolveError, ...stepLogContext, paramKey: key, template }, `Failed to resolve parameter`);
-              throw new AppError(`Failed to resolve parameter '${key}' for step '${step.id}': ${(resolveError as Error).message}`, { stepId: step.id, paramKey: key }, resolveError instanceof Error ? resolveError : undefined);
-         }
-      }
+    while (pendingSteps.length > 0 || runningSteps.size > 0) {
+      // Once a step has failed or the workflow is cancelled, no further steps start; the running ones are allowed to finish
+      // Dependencies are listed before their dependents, so one pass in order also skips the dependents of a skipped step
+      for (const step of [...pendingSteps]) {
+        if (failure || signal?.aborted) break;
+        if (!(dependencies.get(step.id) ?? []).every(dependency => finishedSteps.has(dependency))) continue;
+
+        const stepNumber = workflow.steps.indexOf(step) + 1;
+        let skipReason: string | undefined;
+        try {
+          skipReason = getSkipReason(step);
+        } catch (conditionError) {
+          pendingSteps.splice(pendingSteps.indexOf(step), 1);
+          handleStepFailure(step, stepNumber, conditionError);
+          continue;
+        }
+        if (skipReason !== undefined) {
+          pendingSteps.splice(pendingSteps.indexOf(step), 1);
+          skippedSteps.add(step.id);
+          finishedSteps.add(step.id);
+          logger.info({ workflowName, sessionId, stepId: step.id, stepNum: stepNumber }, `Skipping workflow step: ${skipReason}.`);
+          reportProgress(`Workflow '${workflowName}': Skipped step ${stepNumber} ('${step.id}') because ${skipReason}.`);
+          continue;
+        }
 
-      // Execute the tool for this step, passing the context
-      let stepResult = await executeTool(step.toolName, resolvedParams, config, context);
-
-      // --- Handle potential background job ---
-      const jobId = getJobIdFromResult(stepResult);
-      if (jobId) {
-          logger.info({ ...stepLogContext, jobId }, `Tool returned a background job ID. Waiting for completion...`);
-          // Use sendProgress for step update notification
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Workflow '${workflowName}' step '${step.id}': Waiting for background job ${jobId}...`);
-          try {
-              // Wait for the job and get its final result
-              stepResult = await waitForJobCompletion(jobId, step.id, sessionId);
-              logger.info({ ...stepLogContext, jobId, finalStatus: stepResult.isError ? 'FAILED' : 'COMPLETED' }, `Background job finished.`);
-          } catch (jobError) {
-               logger.error({ err: jobError, ...stepLogContext, jobId }, `Error waiting for background job.`);
-               // Propagate the job waiting error, adding workflow context
-               throw new ToolExecutionError(`Step '${step.id}' failed while waiting for background job ${jobId}: ${jobError instanceof Error ? jobError.message : String(jobError)}`, { stepId: step.id, toolName: step.toolName, jobId });
-          }
+        if (maxParallelSteps > 0 && runningSteps.size >= maxParallelSteps) break;
+        pendingSteps.splice(pendingSteps.indexOf(step), 1);
+        const running = runStep(step, stepNumber)
+          .then(() => {
+            finishedSteps.add(step.id);
+            reportProgress(`Workflow '${workflowName}' step '${step.id}' completed successfully.`);
+          })
+          .catch(error => handleStepFailure(step, stepNumber, error))
+          .finally(() => { runningSteps.delete(step.id); });
+        runningSteps.set(step.id, running);
       }
-      // --- End Job Handling ---
-
-      // Store the final result (either immediate or from the job), keyed by step ID
-      stepOutputs.set(step.id, stepResult);
-
-      // Check for errors from the final tool execution result
-      if (stepResult.isError) {
-        const stepErrorMessage = stepResult.content[0]?.text || 'Unknown tool error';
-        logger.error({ ...stepLogContext, errorResult: stepResult }, `Workflow step failed.`);
-        // Use sendProgress for step failure notification
-        sseNotifier.sendProgress(sessionId, jobId || step.id, JobStatus.FAILED, `Workflow '${workflowName}' step '${step.id}' failed: ${stepErrorMessage}`);
-         // Propagate the error, adding workflow context
-         throw new ToolExecutionError(`Step '${step.id}' (Tool: ${step.toolName}) failed: ${stepErrorMessage}`, { stepId: step.id, toolName: step.toolName, toolResult: stepResult });
+      if (runningSteps.size === 0) {
+        if (!failure && !signal?.aborted && pendingSteps.length > 0) {
+          // Validation only allows dependencies on earlier steps, so this means the definition changed underneath
+          throw new AppError(`Steps ${pendingSteps.map(step => `'${step.id}'`).join(', ')} depend on steps that never ran.`, { pendingSteps: pendingSteps.map(step => step.id) });
+        }
+        break;
       }
+      await Promise.race(runningSteps.values());
+    }
 
-      logger.debug(stepLogContext, `Workflow step completed successfully.`);
-      // Use sendProgress for step success notification
-      sseNotifier.sendProgress(sessionId, jobId || step.id, JobStatus.COMPLETED, `Workflow '${workflowName}' step '${step.id}' completed successfully.`);
-    } // End loop through steps
+    if (signal?.aborted) {
+      logger.info({ workflowName, sessionId, pendingSteps: pendingSteps.map(step => step.id) }, `Workflow execution cancelled.`);
+      throw signal.reason;
+    }
+
+    if (failure) {
+      currentStep = failure.step; // Report the step that failed first
+      currentStepIndex = failure.stepNumber;
+      throw failure.error;
+    }
 
     // Process final output if defined
     let finalOutputData: Record<string, unknown> | undefined;
-    let finalMessage = `Workflow "${workflowName}" completed successfully.`;
+    let finalMessage = failedSteps.size > 0
+      ? `Workflow "${workflowName}" completed, but steps ${Array.from(failedSteps).map(id => `'${id}'`).join(', ')} failed.`
+      : `Workflow "${workflowName}" completed successfully.`;
     if (workflow.output) {
        finalOutputData = {};
        logger.debug(`Processing final workflow output template for ${workflowName}`);
@@ -397,9 +792,12 @@ export async function executeWorkflow(
       message: finalMessage,
       outputs: finalOutputData,
       stepResults: stepOutputs, // Include raw results for debugging/auditing
+      skippedSteps: Array.from(skippedSteps),
+      failedSteps: Array.from(failedSteps),
     };
 
   } catch (error) {
+     if (signal?.aborted) throw signal.reason;
      // Catch errors from parameter resolution or tool execution/job waiting
      logger.error({ err: error, workflowName, sessionId, failedStepId: currentStep?.id, failedToolName: currentStep?.toolName }, `Workflow execution failed.`);
      const errDetails = {
@@ -408,21 +806,19 @@ export async function executeWorkflow(
         message: error instanceof Error ? error.message : 'Unknown workflow execution error',
         details: error instanceof AppError ? error.context : undefined,
      };
-     // Ensure SSE notification for the failed step if it wasn't sent already (using sendProgress)
      if (currentStep) {
-        sseNotifier.sendProgress(sessionId, currentStep.id, JobStatus.FAILED, `Workflow '${workflowName}' failed at step '${currentStep.id}': ${errDetails.message}`);
+        reportProgress(`Workflow '${workflowName}' failed at step '${currentStep.id}': ${errDetails.message}`);
      }
 
      return {
        success: false,
        message: `Workflow "${workflowName}" failed at step ${currentStepIndex} (${currentStep?.toolName || 'N/A'}): ${errDetails.message}`,
        stepResults: stepOutputs, // Include results up to the point of failure
+       skippedSteps: Array.from(skippedSteps),
+       failedSteps: Array.from(failedSteps),
        error: errDetails,
      };
+  } finally {
+    signal?.removeEventListener('abort', cancelStepJobs);
   }
 }
-
-// --- Load definitions on server startup ---
-// Ensures workflows are ready when the server starts.
-// Consider making this async if validation becomes complex or involves I/O.
-loadWorkflowDefinitions();
@@ -0,0 +1,180 @@
+// src/services/workflows/workflowValidation.test.ts
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { validateWorkflowFile, WorkflowToolLookup } from './workflowValidation.js';
+import { ToolDefinition } from '../routing/toolRegistry.js';
+import { ConfigurationError } from '../../utils/errors.js';
+
+const createTool = (name: string, inputSchema: z.ZodRawShape): ToolDefinition => ({
+  name,
+  description: `Mock ${name}`,
+  inputSchema,
+  executor: async () => ({ content: [] }),
+});
+
+const tools = new Map([
+  ['generate-prd', createTool('generate-prd', { productDescription: z.string().min(10) })],
+  ['generate-task-list', createTool('generate-task-list', { productDescription: z.string(), userStories: z.string(), maxTasks: z.number().optional() })],
+]);
+const lookupTool: WorkflowToolLookup = toolName => tools.get(toolName);
+
+const validWorkflow = {
+  description: 'PRD, then tasks',
+  inputSchema: { productDescription: 'string' },
+  steps: [
+    { id: 'prd', toolName: 'generate-prd', params: { productDescription: '{workflow.input.productDescription}' } },
+    { id: 'tasks', toolName: 'generate-task-list', params: { productDescription: '{workflow.input.productDescription}', userStories: '{steps.prd.output.content[0].text}' } },
+  ],
+  output: { summary: 'Done: {steps.tasks.output.content[0].text}' },
+};
+
+describe('validateWorkflowFile', () => {
+  it('should accept valid workflows', () => {
+    const result = validateWorkflowFile({ workflows: { plan: validWorkflow } }, lookupTool);
+
+    expect(result.issues).toEqual([]);
+    expect(Array.from(result.workflows.keys())).toEqual(['plan']);
+  });
+
+  it('should report schema errors with JSON paths', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: { ...validWorkflow, steps: [{ id: 'prd', tool: 'generate-prd', params: {} }] },
+      },
+    });
+
+    expect(result.workflows.size).toBe(0);
+    expect(result.issues).toEqual(expect.arrayContaining([
+      expect.objectContaining({ workflowName: 'plan', path: 'workflows.plan.steps[0].toolName', message: 'Required' }),
+      expect.objectContaining({ path: 'workflows.plan.steps[0]', message: expect.stringContaining("'tool'") }),
+    ]));
+  });
+
+  it('should report duplicate step IDs, misordered references and undeclared inputs', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: {
+          description: 'Broken',
+          inputSchema: { productDescription: 'string' },
+          steps: [
+            { id: 'tasks', toolName: 'generate-task-list', params: { productDescription: '{workflow.input.productDesc}', userStories: '{steps.prd.output.content[0].text}' } },
+            { id: 'prd', toolName: 'generate-prd', params: { productDescription: '{workflow.input.productDescription}' } },
+            { id: 'prd', toolName: 'generate-prd', params: { productDescription: '{workflow.input.productDescription}' } },
+          ],
+          output: { summary: '{steps.missing.output.content[0].text}' },
+        },
+        good: validWorkflow,
+      },
+    }, lookupTool);
+
+    expect(Array.from(result.workflows.keys())).toEqual(['good']);
+    expect(result.issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      `workflows.plan.steps[0].params.productDescription: Workflow input "productDesc" used in '{workflow.input.productDesc}' is not declared in inputSchema.`,
+      `workflows.plan.steps[0].params.userStories: Step "prd" is listed after step "tasks", so its output is not available yet. Referenced in '{steps.prd.output.content[0].text}'.`,
+      'workflows.plan.steps[2].id: Duplicate step ID "prd".',
+      `workflows.plan.output.summary: Unknown step "missing". Referenced in '{steps.missing.output.content[0].text}'.`,
+    ]);
+  });
+
+  it('should check tools and literal params against the tool input schema', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: {
+          description: 'Bad tools',
+          steps: [
+            { id: 'typo', toolName: 'generate-prdd', params: {} },
+            { id: 'prd', toolName: 'generate-prd', params: { productDescription: 'Short', extra: 'x' } },
+            { id: 'tasks', toolName: 'generate-task-list', params: { productDescription: 'A todo app for teams', maxTasks: 'ten' } },
+          ],
+        },
+      },
+    }, lookupTool);
+
+    expect(result.issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      'workflows.plan.steps[0].toolName: Unknown tool "generate-prdd".',
+      'workflows.plan.steps[1].params.productDescription: String must contain at least 10 character(s)',
+      'workflows.plan.steps[1].params.extra: Tool "generate-prd" has no parameter "extra".',
+      'workflows.plan.steps[2].params: Missing required parameter "userStories" of tool "generate-task-list".',
+      'workflows.plan.steps[2].params.maxTasks: Expected number, received string',
+    ]);
+  });
+
+  it('should only allow dependsOn entries naming earlier steps', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: {
+          description: 'Dependencies',
+          steps: [
+            { id: 'a', toolName: 'toolA', params: {}, dependsOn: ['b'] },
+            { id: 'b', toolName: 'toolB', params: {}, dependsOn: ['a', 'missing'] },
+          ],
+        },
+      },
+    });
+
+    expect(result.issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      'workflows.plan.steps[0].dependsOn[0]: Step "b" is listed after step "a", so its output is not available yet.',
+      'workflows.plan.steps[1].dependsOn[1]: Unknown step "missing".',
+    ]);
+  });
+
+  it('should check conditions and error handlers', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: {
+          description: 'Branches',
+          inputSchema: { skipResearch: 'boolean' },
+          steps: [
+            { id: 'a', toolName: 'toolA', params: {}, when: '!input.skipResearch && steps.b.output.isError', onError: ['missing'] },
+            { id: 'b', toolName: 'toolB', params: {}, when: 'input.skip ==', onError: ['a'] },
+            { id: 'c', toolName: 'toolC', params: {}, when: 'input.other', continueOnError: true },
+          ],
+        },
+      },
+    });
+
+    expect(result.issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      `workflows.plan.steps[0].when: Step "b" is listed after step "a", so its output is not available yet. Referenced in the condition '!input.skipResearch && steps.b.output.isError'.`,
+      'workflows.plan.steps[0].onError[0]: Unknown step "missing".',
+      `workflows.plan.steps[1].when: Unexpected end in condition 'input.skip =='.`,
+      'workflows.plan.steps[1].onError[0]: Error handler "a" must be listed after step "b".',
+      'workflows.plan.steps[2].when: Workflow input "other" used in the condition is not declared in inputSchema.',
+    ]);
+  });
+
+  it('should check forEach items and only allow item bindings in forEach steps', () => {
+    const result = validateWorkflowFile({
+      workflows: {
+        plan: {
+          description: 'Fan-out',
+          steps: [
+            { id: 'prd', toolName: 'generate-prd', params: { productDescription: '{item.description}' } },
+            {
+              id: 'tasks', toolName: 'generate-task-list',
+              params: { productDescription: '{item.description}', userStories: '{steps.prd.output.content[0].text}', maxTasks: '{index}' },
+              forEach: { items: '{steps.stories.output.content[0].text}', maxParallel: 2 },
+            },
+          ],
+        },
+      },
+    }, lookupTool);
+
+    expect(result.issues.map(issue => `${issue.path}: ${issue.message}`)).toEqual([
+      `workflows.plan.steps[0].params.productDescription: '{item.description}' can only be used in a step with forEach.`,
+      `workflows.plan.steps[1].forEach.items: Unknown step "stories". Referenced in '{steps.stories.output.content[0].text}'.`,
+    ]);
+  });
+
+  it('should skip tool checks without a tool lookup', () => {
+    const result = validateWorkflowFile({
+      workflows: { plan: { description: 'Unknown tool', steps: [{ id: 's1', toolName: 'not-registered', params: {} }] } },
+    });
+
+    expect(result.issues).toEqual([]);
+    expect(result.workflows.has('plan')).toBe(true);
+  });
+
+  it('should throw a ConfigurationError without a workflows object', () => {
+    expect(() => validateWorkflowFile({ not_workflows: {} })).toThrow(ConfigurationError);
+  });
+});
@@ -0,0 +1,352 @@
+// src/services/workflows/workflowValidation.ts
+import { z } from 'zod';
+import type { ToolDefinition } from '../routing/toolRegistry.js';
+import { ConfigurationError } from '../../utils/errors.js';
+import type { WorkflowDefinition, WorkflowStep } from './workflowExecutor.js';
+import { parseCondition, getConditionReferences, getReferencedStepId } from './workflowConditions.js';
+
+// --- Zod Schemas for workflows.json ---
+
+const workflowStepSchema = z.object({
+  id: z.string().min(1, 'Step ID must not be empty.'),
+  toolName: z.string().min(1, 'Tool name must not be empty.'),
+  params: z.record(z.unknown()).default({}),
+  dependsOn: z.array(z.string().min(1)).optional(),
+  when: z.string().min(1, 'Condition must not be empty.').optional(),
+  continueOnError: z.boolean().optional(),
+  onError: z.array(z.string().min(1)).optional(),
+  forEach: z.object({
+    items: z.union([z.string().min(1), z.array(z.unknown())]),
+    maxParallel: z.number().int().nonnegative().optional(),
+  }).strict().optional(),
+}).strict();
+
+const workflowDefinitionSchema = z.object({
+  description: z.string(),
+  inputSchema: z.record(z.string()).optional(),
+  steps: z.array(workflowStepSchema).min(1, 'A workflow needs at least one step.'),
+  output: z.record(z.unknown()).optional(),
+  maxParallelSteps: z.number().int().nonnegative().optional(),
+}).strict();
+
+const workflowFileSchema = z.object({
+  workflows: z.record(z.unknown()),
+});
+
+// A parameter whose whole value is a template is resolved at run time, so its type is unknown at load time
+const WHOLE_TEMPLATE_PATTERN = /^\{(workflow\.input\.[\w-]+|steps\.[\w-]+\.output\..+|item(?:\.[\w-]+|\[\d+\])*|index)\}$/;
+// Every template reference inside a string value
+const TEMPLATE_REFERENCE_PATTERN = /\{(?:workflow\.input\.([\w-]+)|steps\.([\w-]+)\.output\.[^}]+)\}/g;
+// The bindings of a forEach step, e.g. {item}, {item.title} or {index}
+const FOR_EACH_BINDING_PATTERN = /^\{(?:item(?:\.[\w-]+|\[\d+\])*|index)\}$/;
+
+/**
+ * A problem found in a workflow definition file.
+ */
+export interface WorkflowValidationIssue {
+  /** The workflow the issue belongs to, if any. */
+  workflowName?: string;
+  /** JSON path of the offending value, e.g. `workflows.newProjectSetup.steps[1].toolName`. */
+  path: string;
+  message: string;
+}
+
+/**
+ * The outcome of validating a workflow definition file.
+ */
+export interface WorkflowValidationResult {
+  /** The workflows without issues, by name. */
+  workflows: Map<string, WorkflowDefinition>;
+  /** The issues of the other workflows, in file order. */
+  issues: WorkflowValidationIssue[];
+}
+
+/**
+ * Looks up a tool by name; `getTool` of the tool registry.
+ */
+export type WorkflowToolLookup = (toolName: string) => ToolDefinition | undefined;
+
+/**
+ * Validates the contents of a workflow definition file: the structure of every workflow,
+ * duplicate step IDs, references to steps that have not run yet, undeclared workflow inputs and,
+ * given a tool lookup, unknown tools and step parameters that don't satisfy the tool's input schema.
+ * A workflow with any issue is left out of the result, so it fails at load time instead of halfway through a run.
+ * @param data The parsed JSON of the file.
+ * @param lookupTool Optional: Looks up the tools the steps call. Without it, tools are not checked.
+ * @returns The valid workflows and the issues of the others.
+ * @throws ConfigurationError if the file has no `workflows` object.
+ */
+export function validateWorkflowFile(data: unknown, lookupTool?: WorkflowToolLookup): WorkflowValidationResult {
+  const file = workflowFileSchema.safeParse(data);
+  if (!file.success) {
+    throw new ConfigurationError('Invalid workflow file format: Root "workflows" object missing or invalid.', {
+      issues: file.error.issues.map(issue => ({ path: toJsonPath(issue.path), message: issue.message })),
+    });
+  }
+
+  const workflows = new Map<string, WorkflowDefinition>();
+  const issues: WorkflowValidationIssue[] = [];
+  for (const [name, rawDefinition] of Object.entries(file.data.workflows)) {
+    const basePath: (string | number)[] = ['workflows', name];
+    const parsed = workflowDefinitionSchema.safeParse(rawDefinition);
+    if (!parsed.success) {
+      issues.push(...parsed.error.issues.map(issue => ({ workflowName: name, path: toJsonPath([...basePath, ...issue.path]), message: issue.message })));
+      continue;
+    }
+
+    const workflowIssues = checkWorkflowSemantics(parsed.data, basePath, lookupTool);
+    if (workflowIssues.length > 0) {
+      issues.push(...workflowIssues.map(issue => ({ workflowName: name, ...issue })));
+      continue;
+    }
+    workflows.set(name, parsed.data);
+  }
+  return { workflows, issues };
+}
+
+/**
+ * Finds the steps a step depends on: those listed in `dependsOn` and those whose output its params, its forEach items or its `when` condition refer to.
+ * Error handlers also depend on the steps whose `onError` lists them; see `getErrorHandlerSources`.
+ * @param step The step.
+ * @returns The IDs of the steps, without duplicates.
+ */
+export function getStepDependencies(step: WorkflowStep): string[] {
+  const dependencies = new Set(step.dependsOn ?? []);
+  collectStepReferences(step.params, dependencies);
+  collectStepReferences(step.forEach?.items, dependencies);
+  if (step.when) {
+    for (const reference of getConditionReferences(parseCondition(step.when))) {
+      const stepId = getReferencedStepId(reference);
+      if (stepId !== undefined) dependencies.add(stepId);
+    }
+  }
+  return Array.from(dependencies);
+}
+
+/**
+ * Maps each error handler step to the steps whose `onError` lists it.
+ * @param steps The steps of a workflow.
+ * @returns The IDs of the failing steps a handler runs for, keyed by the handler's step ID.
+ */
+export function getErrorHandlerSources(steps: WorkflowStep[]): Map<string, string[]> {
+  const sources = new Map<string, string[]>();
+  for (const step of steps) {
+    for (const handlerId of step.onError ?? []) {
+      sources.set(handlerId, [...(sources.get(handlerId) ?? []), step.id]);
+    }
+  }
+  return sources;
+}
+
+/**
+ * Adds the step IDs of all `{steps.*.output.*}` references in a value, including nested values.
+ */
+function collectStepReferences(value: unknown, stepIds: Set<string>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectStepReferences(item, stepIds));
+  } else if (value !== null && typeof value === 'object') {
+    Object.values(value).forEach(item => collectStepReferences(item, stepIds));
+  } else if (typeof value === 'string') {
+    for (const match of value.matchAll(TEMPLATE_REFERENCE_PATTERN)) {
+      if (match[2] !== undefined) stepIds.add(match[2]);
+    }
+  }
+}
+
+/**
+ * Formats an issue as a single line.
+ * @param issue The issue.
+ * @returns `<path>: <message>`.
+ */
+export function formatWorkflowIssue(issue: WorkflowValidationIssue): string {
+  return `${issue.path}: ${issue.message}`;
+}
+
+/**
+ * Checks what the schema can't: step IDs, template references, dependencies, conditions, error handlers and tool parameters.
+ * A step may only depend on steps listed before it, which keeps the step graph free of cycles.
+ */
+function checkWorkflowSemantics(workflow: WorkflowDefinition, basePath: (string | number)[], lookupTool?: WorkflowToolLookup): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+  const allStepIds = new Set(workflow.steps.map(step => step.id));
+  const earlierStepIds = new Set<string>();
+
+  workflow.steps.forEach((step, index) => {
+    const stepPath = [...basePath, 'steps', index];
+    if (earlierStepIds.has(step.id)) {
+      issues.push({ path: toJsonPath([...stepPath, 'id']), message: `Duplicate step ID "${step.id}".` });
+    }
+
+    const checkDependency = (reference: string): string | undefined => {
+      if (earlierStepIds.has(reference)) return undefined;
+      if (reference === step.id) return `Step "${step.id}" refers to its own output.`;
+      if (allStepIds.has(reference)) return `Step "${reference}" is listed after step "${step.id}", so its output is not available yet.`;
+      return `Unknown step "${reference}".`;
+    };
+    for (const [key, value] of Object.entries(step.params)) {
+      issues.push(...checkTemplateReferences(value, [...stepPath, 'params', key], workflow, checkDependency));
+      if (!step.forEach) {
+        issues.push(...checkForEachBindings(value, [...stepPath, 'params', key]));
+      }
+    }
+    if (step.forEach) {
+      issues.push(...checkTemplateReferences(step.forEach.items, [...stepPath, 'forEach', 'items'], workflow, checkDependency));
+    }
+    (step.dependsOn ?? []).forEach((dependency, dependencyIndex) => {
+      const problem = checkDependency(dependency);
+      if (problem) {
+        issues.push({ path: toJsonPath([...stepPath, 'dependsOn', dependencyIndex]), message: problem });
+      }
+    });
+    if (step.when !== undefined) {
+      issues.push(...checkCondition(step.when, [...stepPath, 'when'], workflow, checkDependency));
+    }
+    // Error handlers run after the step that failed, so they must be listed after it
+    (step.onError ?? []).forEach((handlerId, handlerIndex) => {
+      const handlerPath = toJsonPath([...stepPath, 'onError', handlerIndex]);
+      if (!allStepIds.has(handlerId)) {
+        issues.push({ path: handlerPath, message: `Unknown step "${handlerId}".` });
+      } else if (earlierStepIds.has(handlerId) || handlerId === step.id) {
+        issues.push({ path: handlerPath, message: `Error handler "${handlerId}" must be listed after step "${step.id}".` });
+      }
+    });
+
+    if (lookupTool) {
+      issues.push(...checkToolParams(step.toolName, step.params, stepPath, lookupTool));
+    }
+    earlierStepIds.add(step.id);
+  });
+
+  // The output is resolved after all steps have run
+  for (const [key, value] of Object.entries(workflow.output ?? {})) {
+    issues.push(...checkTemplateReferences(value, [...basePath, 'output', key], workflow, reference =>
+      allStepIds.has(reference) ? undefined : `Unknown step "${reference}".`
+    ));
+  }
+  return issues;
+}
+
+/**
+ * Checks the `{workflow.input.*}` and `{steps.*.output.*}` references in a value, including nested values.
+ * @param checkStep Returns a problem with a referenced step ID, or undefined if the reference is fine.
+ */
+function checkTemplateReferences(
+  value: unknown,
+  path: (string | number)[],
+  workflow: WorkflowDefinition,
+  checkStep: (stepId: string) => string | undefined
+): WorkflowValidationIssue[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => checkTemplateReferences(item, [...path, index], workflow, checkStep));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => checkTemplateReferences(item, [...path, key], workflow, checkStep));
+  }
+  if (typeof value !== 'string') return [];
+
+  const issues: WorkflowValidationIssue[] = [];
+  for (const match of value.matchAll(TEMPLATE_REFERENCE_PATTERN)) {
+    const [template, inputKey, stepId] = match;
+    if (inputKey !== undefined && !(workflow.inputSchema && inputKey in workflow.inputSchema)) {
+      issues.push({ path: toJsonPath(path), message: `Workflow input "${inputKey}" used in '${template}' is not declared in inputSchema.` });
+    }
+    const stepProblem = stepId !== undefined ? checkStep(stepId) : undefined;
+    if (stepProblem) {
+      issues.push({ path: toJsonPath(path), message: `${stepProblem} Referenced in '${template}'.` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Reports `{item...}` and `{index}` templates, including nested ones, in the params of a step without `forEach`.
+ */
+function checkForEachBindings(value: unknown, path: (string | number)[]): WorkflowValidationIssue[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => checkForEachBindings(item, [...path, index]));
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => checkForEachBindings(item, [...path, key]));
+  }
+  if (typeof value === 'string' && FOR_EACH_BINDING_PATTERN.test(value)) {
+    return [{ path: toJsonPath(path), message: `'${value}' can only be used in a step with forEach.` }];
+  }
+  return [];
+}
+
+/**
+ * Checks that a `when` condition parses and that its references name declared workflow inputs and earlier steps.
+ * @param checkStep Returns a problem with a referenced step ID, or undefined if the reference is fine.
+ */
+function checkCondition(
+  condition: string,
+  path: (string | number)[],
+  workflow: WorkflowDefinition,
+  checkStep: (stepId: string) => string | undefined
+): WorkflowValidationIssue[] {
+  let references: string[];
+  try {
+    references = getConditionReferences(parseCondition(condition));
+  } catch (error) {
+    return [{ path: toJsonPath(path), message: error instanceof Error ? error.message : String(error) }];
+  }
+
+  const issues: WorkflowValidationIssue[] = [];
+  for (const reference of references) {
+    const stepId = getReferencedStepId(reference);
+    const inputKey = stepId === undefined ? reference.slice('workflow.input.'.length) : undefined;
+    if (inputKey !== undefined && !(workflow.inputSchema && inputKey in workflow.inputSchema)) {
+      issues.push({ path: toJsonPath(path), message: `Workflow input "${inputKey}" used in the condition is not declared in inputSchema.` });
+    }
+    const stepProblem = stepId !== undefined ? checkStep(stepId) : undefined;
+    if (stepProblem) {
+      issues.push({ path: toJsonPath(path), message: `${stepProblem} Referenced in the condition '${condition}'.` });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks that a step's tool exists and that its parameters satisfy the tool's input schema.
+ * Parameters that are whole templates are only checked for existence; their values are known at run time.
+ */
+function checkToolParams(
+  toolName: string,
+  params: Record<string, unknown>,
+  stepPath: (string | number)[],
+  lookupTool: WorkflowToolLookup
+): WorkflowValidationIssue[] {
+  const tool = lookupTool(toolName);
+  if (!tool) {
+    return [{ path: toJsonPath([...stepPath, 'toolName']), message: `Unknown tool "${toolName}".` }];
+  }
+
+  const issues: WorkflowValidationIssue[] = [];
+  for (const [key, fieldSchema] of Object.entries(tool.inputSchema)) {
+    if (!(key in params) && !fieldSchema.isOptional()) {
+      issues.push({ path: toJsonPath([...stepPath, 'params']), message: `Missing required parameter "${key}" of tool "${toolName}".` });
+    }
+  }
+  for (const [key, value] of Object.entries(params)) {
+    const paramPath = [...stepPath, 'params', key];
+    const fieldSchema = tool.inputSchema[key];
+    if (!fieldSchema) {
+      issues.push({ path: toJsonPath(paramPath), message: `Tool "${toolName}" has no parameter "${key}".` });
+      continue;
+    }
+    if (typeof value === 'string' && WHOLE_TEMPLATE_PATTERN.test(value)) continue;
+
+    const result = fieldSchema.safeParse(value);
+    if (!result.success) {
+      issues.push(...result.error.issues.map(issue => ({ path: toJsonPath([...paramPath, ...issue.path]), message: issue.message })));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Turns a path of keys and indexes into a JSON path, e.g. `workflows.x.steps[1].toolName`.
+ */
+function toJsonPath(path: (string | number)[]): string {
+  return path.reduce<string>((jsonPath, part) => typeof part === 'number' ? `${jsonPath}[${part}]` : jsonPath ? `${jsonPath}.${part}` : part, '');
+}
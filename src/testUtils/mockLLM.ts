@@ -23,8 +23,13 @@ export interface MockOptions { // Export the interface
   errorMessage?: string;
   /** Optional: Override the default URL pattern to match against axios.post calls. */
   matchUrl?: string | RegExp;
+  /** Optional: Extra response headers, e.g. { 'retry-after': '2' } on a 429 error. */
+  headers?: Record<string, string>;
 }
 
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type MockPostImplementation = (url: string, data?: any, config?: AxiosRequestConfig) => Promise<AxiosResponse>;
+
 /**
  * Sets up a mock for axios.post specifically targeting OpenRouter chat completions API endpoint.
  * This simplifies mocking LLM responses or errors in Vitest tests.
@@ -35,26 +40,54 @@ export interface MockOptions { // Export the interface
  * @param options Configuration for the mock response or error.
  */
 export function mockOpenRouterResponse(options: MockOptions): void {
+  // Get the spy on axios.post. If multiple mocks are needed in one test,
+  // subsequent calls might refine the implementation based on URL/model.
+  // Vitest spies allow multiple mockImplementations, the last one matching usually wins,
+  // but more specific matching inside the implementation is safer.
+  const axiosPostSpy = vi.spyOn(axios, 'post');
+  axiosPostSpy.mockImplementation(createMockPostImplementation(options));
+}
+
+/**
+ * Like `mockOpenRouterResponse`, but answers consecutive calls with consecutive entries,
+ * e.g. a 429 followed by a success to exercise retries. Once the sequence is exhausted,
+ * the last entry answers all further calls.
+ *
+ * @param sequence Configuration for each response or error, in call order.
+ */
+export function mockOpenRouterResponseSequence(sequence: MockOptions[]): void {
+  if (sequence.length === 0) {
+    throw new Error('mockOpenRouterResponseSequence needs at least one response.');
+  }
+  const implementations = sequence.map(createMockPostImplementation);
+  let callIndex = 0;
+  const axiosPostSpy = vi.spyOn(axios, 'post');
+  axiosPostSpy.mockImplementation((url, data, config) => {
+    const implementation = implementations[Math.min(callIndex, implementations.length - 1)];
+    callIndex++;
+    return implementation(url, data, config);
+  });
+}
+
+/**
+ * Builds an axios.post implementation that answers OpenRouter chat completion calls as configured.
+ */
+function createMockPostImplementation(options: MockOptions): MockPostImplementation {
   const {
     model,
     responseContent,
     statusCode = options.shouldError ? 500 : 200,
     shouldError = false,
     errorMessage = 'Mock API Error',
-    matchUrl = `${openRouterBaseUrl}/chat/completions` // Default match URL pattern
+    matchUrl = `${openRouterBaseUrl}/chat/completions`, // Default match URL pattern
+    headers = {}
   } = options;
 
-  // Get the spy on axios.post. If multiple mocks are needed in one test,
-  // subsequent calls might refine the implementation based on URL/model.
-  // Vitest spies allow multiple mockImplementations, the last one matching usually wins,
-  // but more specific matching inside the implementation is safer.
-  const axiosPostSpy = vi.spyOn(axios, 'post');
-
   // We need to use 'any' here to match axios.post's complex generic signature
   // The eslint rule is disabled because in mocking contexts, 'any' is sometimes unavoidable
   // when dealing with library methods that use complex generic types
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  axiosPostSpy.mockImplementation(async (url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse> => {
+  return async (url: string, data?: any, config?: AxiosRequestConfig): Promise<AxiosResponse> => {
     // 1. Check if the URL matches the expected OpenRouter endpoint
     const urlMatches = (typeof matchUrl === 'string' && url === matchUrl) ||
                        (matchUrl instanceof RegExp && matchUrl.test(url));
@@ -105,7 +138,7 @@ export function mockOpenRouterResponse(options: MockOptions): void {
           data: { error: { message: errorMessage, type: 'mock_error' } },
           status: statusCode,
           statusText: 'Mock Error',
-          headers: {}, // Response headers can be empty
+          headers, // Response headers (empty unless configured)
           config: internalErrorConfig, // Use the config with defined headers
         } as AxiosResponse
       );
@@ -148,12 +181,12 @@ export function mockOpenRouterResponse(options: MockOptions): void {
        data: mockResponseData,
        status: statusCode,
        statusText: 'OK',
-       headers: { 'content-type': 'application/json' }, // Mock response headers
+       headers: { 'content-type': 'application/json', ...headers }, // Mock response headers
        // Ensure the config object within the mock response also has AxiosHeaders type
        config: {
          ...(config || {}),
          headers: new AxiosHeaders(), // Assign a new, empty AxiosHeaders to satisfy the type
        } as InternalAxiosRequestConfig,
     } as AxiosResponse);
-  });
+  };
 }
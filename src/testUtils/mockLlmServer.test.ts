@@ -0,0 +1,96 @@
+// src/testUtils/mockLlmServer.test.ts
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import axios from 'axios';
+import { MockLlmServer } from './mockLlmServer.js';
+import { OpenAICompatibleProvider } from '../services/llm-providers/openaiCompatible.js';
+import { LlmChatRequest } from '../services/llm-providers/index.js';
+import { ParsingError } from '../utils/errors.js';
+
+const createRequest = (overrides: Partial<LlmChatRequest> = {}): LlmChatRequest => ({
+  model: 'mock/model',
+  messages: [{ role: 'system', content: 'You write PRDs.' }, { role: 'user', content: 'A todo app' }],
+  maxTokens: 100,
+  temperature: 0.1,
+  ...overrides,
+});
+
+describe('MockLlmServer', () => {
+  let server: MockLlmServer;
+  let provider: OpenAICompatibleProvider;
+
+  beforeEach(async () => {
+    server = new MockLlmServer({ streamChunkSize: 5 });
+    provider = new OpenAICompatibleProvider('openrouter', { type: 'openai-compatible', baseUrl: await server.start(), apiKey: 'test-key' });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should answer with the first script matching the model and prompt', async () => {
+    server.script(
+      { model: /gemini/, content: 'Wrong model' },
+      { prompt: /todo/, content: { title: 'Todo PRD' }, usage: { promptTokens: 7, completionTokens: 3 } },
+      { content: 'Fallback' }
+    );
+
+    const response = await provider.chat(createRequest());
+
+    expect(response.content).toBe('{"title":"Todo PRD"}');
+    expect(response.usage).toEqual({ promptTokens: 7, completionTokens: 3 });
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]).toMatchObject({ model: 'mock/model', stream: false, scriptIndex: 1 });
+  });
+
+  it('should stream the answer in chunks and report usage', async () => {
+    server.script({ content: 'Streamed answer' });
+    const deltas: string[] = [];
+
+    const response = await provider.chat(createRequest({ onDelta: delta => deltas.push(delta) }));
+
+    expect(deltas).toEqual(['Strea', 'med a', 'nswer']);
+    expect(response.content).toBe('Streamed answer');
+    expect(response.usage).toEqual({ promptTokens: 50, completionTokens: 50 });
+  });
+
+  it('should answer with scripted errors a limited number of times', async () => {
+    server.script({ status: 429, errorMessage: 'Rate limited', headers: { 'retry-after': '2' }, times: 1 }, { content: 'Recovered' });
+
+    const error = await provider.chat(createRequest()).catch(e => e);
+    expect(axios.isAxiosError(error)).toBe(true);
+    expect(error.response.status).toBe(429);
+    expect(error.response.headers['retry-after']).toBe('2');
+    expect(error.response.data.error.message).toBe('Rate limited');
+
+    const response = await provider.chat(createRequest());
+    expect(response.content).toBe('Recovered');
+  });
+
+  it('should send malformed JSON when scripted to', async () => {
+    server.script({ content: 'Broken', malformed: true });
+
+    const response = await provider.chat(createRequest());
+    expect(response.content).toBeUndefined();
+    expect(typeof response.data).toBe('string');
+
+    await expect(provider.chat(createRequest({ onDelta: () => {} }))).rejects.toThrow(ParsingError);
+  });
+
+  it('should delay scripted answers', async () => {
+    server.script({ content: 'Slow', latencyMs: 200 });
+
+    await expect(provider.chat(createRequest({ timeout: 50 }))).rejects.toThrow(/timeout/);
+  });
+
+  it('should reject unmatched requests unless a fallback answer is set', async () => {
+    server.script({ model: 'other/model', content: 'Not for you' });
+    await expect(provider.chat(createRequest())).rejects.toMatchObject({ response: { status: 500 } });
+    await server.stop();
+
+    server = new MockLlmServer({ fallbackContent: 'Default answer' });
+    provider = new OpenAICompatibleProvider('openrouter', { type: 'openai-compatible', baseUrl: `${await server.start()}/api/v1` });
+    const response = await provider.chat(createRequest());
+    expect(response.content).toBe('Default answer');
+    expect(server.requests[0].scriptIndex).toBe(-1);
+  });
+});
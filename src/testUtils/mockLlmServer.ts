@@ -0,0 +1,291 @@
+// src/testUtils/mockLlmServer.ts
+import express from 'express';
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { fileURLToPath } from 'url';
+
+/**
+ * One scripted answer of the mock LLM server. A request gets the answer of the first
+ * script whose `model` and `prompt` both match it.
+ */
+export interface MockLlmScript {
+  /** Optional: Only answer requests for this model (exact name or RegExp). */
+  model?: string | RegExp;
+  /** Optional: Only answer requests with a message containing this text or matching this RegExp. */
+  prompt?: string | RegExp;
+  /** The answer placed in the message content. If an object, it will be JSON.stringified. */
+  content?: string | object;
+  /** Optional: Answer with this HTTP status and an OpenAI-style error body instead, e.g. 429. */
+  status?: number;
+  /** Optional: Message of the error body (default: 'Mock LLM server error'). */
+  errorMessage?: string;
+  /** Optional: Extra response headers, e.g. { 'retry-after': '1' } on a 429. */
+  headers?: Record<string, string>;
+  /** Optional: Wait this long before answering. */
+  latencyMs?: number;
+  /** Optional: Send a body that is cut off in the middle of the JSON (or of a stream chunk). */
+  malformed?: boolean;
+  /** Optional: Token counts reported for the answer (default: 50 prompt, 50 completion). */
+  usage?: { promptTokens: number; completionTokens: number };
+  /** Optional: Answer this many requests, then stop matching (default: unlimited). */
+  times?: number;
+}
+
+/**
+ * Options of the mock LLM server.
+ */
+export interface MockLlmServerOptions {
+  /** Scripted answers, tried in order. */
+  scripts?: MockLlmScript[];
+  /** Optional: Answer for requests no script matches. Without it, they get a 500 error. */
+  fallbackContent?: string;
+  /** Optional: Characters per chunk of a streamed answer (default: 20). */
+  streamChunkSize?: number;
+  /** Optional: Delay between the chunks of a streamed answer (default: 0). */
+  streamChunkDelayMs?: number;
+}
+
+/**
+ * A chat completion request the mock LLM server received.
+ */
+export interface MockLlmRequest {
+  model?: string;
+  messages: { role: string; content: string }[];
+  stream: boolean;
+  body: Record<string, unknown>;
+  /** Index of the script that answered it, or -1 for the fallback or the unmatched error. */
+  scriptIndex: number;
+}
+
+interface ScriptState {
+  script: MockLlmScript;
+  answered: number;
+}
+
+const DEFAULT_STREAM_CHUNK_SIZE = 20;
+
+/**
+ * A local HTTP stand-in for an OpenAI-compatible API, answering `/chat/completions` (plain and
+ * streamed) from scripted responses. Unlike the axios mocks in `mockLLM.ts` it runs out of process
+ * from the code under test, so the real server can be pointed at it with `OPENROUTER_BASE_URL`
+ * and run end-to-end, including the transports and background jobs, without network access.
+ *
+ * ```ts
+ * const server = new MockLlmServer({ scripts: [{ model: /gemini/, status: 429, times: 1 }, { content: 'Hello' }] });
+ * process.env.OPENROUTER_BASE_URL = await server.start();
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class MockLlmServer {
+  /** The chat completion requests received so far, in order. */
+  readonly requests: MockLlmRequest[] = [];
+  private scripts: ScriptState[] = [];
+  private server?: http.Server;
+  private url?: string;
+
+  constructor(private readonly options: MockLlmServerOptions = {}) {
+    this.script(...(options.scripts ?? []));
+  }
+
+  /**
+   * Adds scripted answers after the existing ones.
+   * @param scripts The answers.
+   * @returns The server, for chaining.
+   */
+  script(...scripts: MockLlmScript[]): this {
+    this.scripts.push(...scripts.map(script => ({ script, answered: 0 })));
+    return this;
+  }
+
+  /**
+   * Removes all scripted answers and forgets the received requests.
+   */
+  reset(): void {
+    this.scripts = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * The base URL to use as `OPENROUTER_BASE_URL` (or a provider's `base_url`).
+   * @throws Error if the server has not been started.
+   */
+  get baseUrl(): string {
+    if (!this.url) {
+      throw new Error('The mock LLM server has not been started.');
+    }
+    return this.url;
+  }
+
+  /**
+   * Starts listening on localhost.
+   * @param port The port, or 0 (default) for any free port.
+   * @returns The base URL.
+   */
+  async start(port = 0): Promise<string> {
+    const app = express();
+    app.use(express.json({ limit: '10mb' }));
+    // Also answers under a path prefix, e.g. a base URL ending in /v1 or /api/v1
+    app.post(/\/chat\/completions$/, (req, res) => {
+      this.handleChatCompletion(req, res).catch(error => {
+        if (!res.headersSent) {
+          res.status(500).json({ error: { message: (error as Error).message, type: 'mock_error' } });
+        } else {
+          res.end();
+        }
+      });
+    });
+
+    const server = http.createServer(app);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  /**
+   * Stops the server, ending any answers still being sent.
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    this.url = undefined;
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handleChatCompletion(req: express.Request, res: express.Response): Promise<void> {
+    const body = (req.body ?? {}) as Record<string, unknown>;
+    const model = typeof body.model === 'string' ? body.model : undefined;
+    const messages = Array.isArray(body.messages) ? body.messages as MockLlmRequest['messages'] : [];
+    const stream = body.stream === true;
+
+    const scriptIndex = this.scripts.findIndex(state => this.matches(state, model, messages));
+    this.requests.push({ model, messages, stream, body, scriptIndex });
+
+    if (scriptIndex === -1) {
+      if (this.options.fallbackContent === undefined) {
+        res.status(500).json({ error: { message: `No scripted response matches the request for model ${model}.`, type: 'mock_error' } });
+        return;
+      }
+      return this.sendAnswer(res, { content: this.options.fallbackContent }, model, stream, body);
+    }
+
+    const state = this.scripts[scriptIndex];
+    state.answered++;
+    const { script } = state;
+    if (script.latencyMs) {
+      await delay(script.latencyMs);
+    }
+    res.set(script.headers ?? {});
+    if (script.status !== undefined && script.status !== 200) {
+      res.status(script.status).json({ error: { message: script.errorMessage ?? 'Mock LLM server error', type: 'mock_error', code: script.status } });
+      return;
+    }
+    return this.sendAnswer(res, script, model, stream, body);
+  }
+
+  private matches({ script, answered }: ScriptState, model: string | undefined, messages: MockLlmRequest['messages']): boolean {
+    if (script.times !== undefined && answered >= script.times) return false;
+    if (script.model !== undefined && !matchesText(script.model, model ?? '', true)) return false;
+    const prompt = script.prompt;
+    if (prompt !== undefined && !messages.some(message => matchesText(prompt, String(message.content ?? ''), false))) return false;
+    return true;
+  }
+
+  private async sendAnswer(res: express.Response, script: MockLlmScript, model: string | undefined, stream: boolean, body: Record<string, unknown>): Promise<void> {
+    const content = typeof script.content === 'object' ? JSON.stringify(script.content) : script.content ?? '';
+    const usage = {
+      prompt_tokens: script.usage?.promptTokens ?? 50,
+      completion_tokens: script.usage?.completionTokens ?? 50,
+      total_tokens: (script.usage?.promptTokens ?? 50) + (script.usage?.completionTokens ?? 50),
+    };
+    const id = `chatcmpl-mock-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const responseModel = model ?? 'mock-model';
+
+    if (!stream) {
+      const completion = JSON.stringify({
+        id,
+        object: 'chat.completion',
+        created,
+        model: responseModel,
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+        usage,
+      });
+      res.status(200).type('application/json').send(script.malformed ? completion.slice(0, Math.floor(completion.length / 2)) : completion);
+      return;
+    }
+
+    res.status(200);
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+    const sendChunk = (chunk: object) => {
+      res.write(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model: responseModel, ...chunk })}\n\n`);
+    };
+
+    const chunkSize = this.options.streamChunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+    for (let start = 0; start < content.length; start += chunkSize) {
+      if (start > 0 && this.options.streamChunkDelayMs) {
+        await delay(this.options.streamChunkDelayMs);
+      }
+      sendChunk({ choices: [{ index: 0, delta: { content: content.slice(start, start + chunkSize) }, finish_reason: null }] });
+      if (script.malformed) {
+        res.end('data: {"choices": [{"index": 0, "delta": {"content": "\n\n');
+        return;
+      }
+    }
+    sendChunk({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] });
+    const streamOptions = body.stream_options as { include_usage?: boolean } | undefined;
+    if (streamOptions?.include_usage) {
+      sendChunk({ choices: [], usage });
+    }
+    res.end('data: [DONE]\n\n');
+  }
+}
+
+/**
+ * Reads scripted answers from a JSON file for the command line. In the file,
+ * `model` and `prompt` are regular expressions written as strings.
+ * @param filePath The path of a file holding `MockLlmServerOptions`.
+ * @returns The options.
+ */
+export function loadMockLlmServerOptions(filePath: string): MockLlmServerOptions {
+  const options = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as MockLlmServerOptions;
+  return {
+    ...options,
+    scripts: (options.scripts ?? []).map(script => ({
+      ...script,
+      ...(typeof script.model === 'string' ? { model: new RegExp(script.model) } : {}),
+      ...(typeof script.prompt === 'string' ? { prompt: new RegExp(script.prompt) } : {}),
+    })),
+  };
+}
+
+function matchesText(pattern: string | RegExp, text: string, exact: boolean): boolean {
+  if (pattern instanceof RegExp) return pattern.test(text);
+  return exact ? text === pattern : text.includes(pattern);
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Run directly (`npm run mock-llm -- [script.json]`) to serve until stopped, e.g. for CI:
+// MOCK_LLM_PORT sets the port (default 4010); without a script file, every request gets a fixed answer.
+if (process.argv[1] && fileURLToPath(import.meta.url) === process.argv[1]) {
+  const scriptFile = process.argv[2];
+  const options = scriptFile ? loadMockLlmServerOptions(scriptFile) : { fallbackContent: 'Mock LLM answer.' };
+  const server = new MockLlmServer(options);
+  server.start(process.env.MOCK_LLM_PORT ? parseInt(process.env.MOCK_LLM_PORT) : 4010).then(url => {
+    console.log(`Mock LLM server listening on ${url}. Set OPENROUTER_BASE_URL=${url} to use it.`);
+  }).catch(error => {
+    console.error('Failed to start the mock LLM server:', error);
+    process.exit(1);
+  });
+}
@@ -6,11 +6,12 @@ import { OpenRouterConfig } from '../../types/workflow.js';
 import { CallToolResult, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
 import { readFileContent } from '../../utils/fileReader.js'; // Adjust path if necessary
-import { ApiError, ParsingError, ToolExecutionError, AppError, ConfigurationError } from '../../utils/errors.js'; // Adjust path if necessary, Added ConfigurationError
+import { ApiError, CancellationError, ParsingError, ToolExecutionError, AppError } from '../../utils/errors.js'; // Adjust path if necessary
 import logger from '../../logger.js'; // Adjust path if necessary
-import { selectModelForTask } from '../../utils/configLoader.js'; // Import the new utility
+import { selectModelForTask, selectModelChainForTask } from '../../utils/configLoader.js'; // Import the new utility
+import { chatWithModelFallback } from '../../services/llm-providers/fallback.js';
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // TODO: Consider moving cleanCodeOutput to a shared utils/codeUtils.ts
 function cleanCodeOutput(rawOutput: string): string {
@@ -73,7 +74,7 @@ export const refactorCode: ToolExecutor = async (
   const validatedParams = params as CodeRefactorInput;
 
   // --- Create Job & Return Immediately ---
-  const jobId = jobManager.createJob('refactor-code', params);
+  const jobId = jobManager.createJob('refactor-code', params, { sessionId });
   logger.info({ jobId, tool: 'refactorCode', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -83,16 +84,16 @@ export const refactorCode: ToolExecutor = async (
   };
 
   // --- Execute Long-Running Logic Asynchronously ---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     let fileContext = '';
     const logs: string[] = []; // Keep logs specific to this job execution
     // Define these within the async block scope so catch can access them
     const logicalTaskName = 'code_refactoring';
     const defaultModel = config.geminiModel || "google/gemini-2.0-flash-001";
+    const signal = jobManager.getAbortSignal(jobId);
 
     try {
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting code refactoring process...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting code refactoring process...');
       logger.info({ jobId }, `Refactoring ${validatedParams.language} code based on: "${validatedParams.refactoringInstructions.substring(0, 50)}..."`);
       logs.push(`[${new Date().toISOString()}] Refactoring ${validatedParams.language} code.`);
 
@@ -100,17 +101,16 @@ export const refactorCode: ToolExecutor = async (
       if (validatedParams.contextFilePath) {
           logger.debug({ jobId }, `Reading context file for refactoring: ${validatedParams.contextFilePath}`);
           jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Reading context file: ${validatedParams.contextFilePath}`);
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Reading context file: ${validatedParams.contextFilePath}`);
           try {
               fileContext = await readFileContent(validatedParams.contextFilePath);
               logger.info({ jobId }, `Added context from file: ${validatedParams.contextFilePath}`);
               logs.push(`[${new Date().toISOString()}] Successfully read context file.`);
-              sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Context file read successfully.`);
+              jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Context file read successfully.`);
           } catch (readError: unknown) { // Catch specific error
               const errorMsg = readError instanceof Error ? readError.message : String(readError);
               logger.warn({ jobId, err: readError }, `Could not read context file '${validatedParams.contextFilePath}'. Proceeding without file context.`);
               logs.push(`[${new Date().toISOString()}] Warning: Failed to read context file: ${errorMsg}`);
-              sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Warning: Could not read context file: ${errorMsg}`);
+              jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Warning: Could not read context file: ${errorMsg}`);
               // Include warning in context passed to LLM, but don't fail the job yet
               fileContext = `\n\n[Warning: Failed to read context file '${validatedParams.contextFilePath}'. Error: ${errorMsg}]`;
           }
@@ -119,54 +119,41 @@ export const refactorCode: ToolExecutor = async (
       const userPrompt = createLLMPrompt(validatedParams, fileContext);
 
       // Select the model (variables defined above)
-      const modelToUse = selectModelForTask(config, logicalTaskName, defaultModel);
+      const modelChain = selectModelChainForTask(config, logicalTaskName, defaultModel);
+      const modelToUse = modelChain.join(' -> ');
       logs.push(`[${new Date().toISOString()}] Selected model: ${modelToUse}`);
 
-      // Check for API key
-      if (!config.apiKey) {
-        throw new ConfigurationError("OpenRouter API key (OPENROUTER_API_KEY) is not configured.");
-      }
 
       logger.info({ jobId, modelToUse }, `Calling LLM for code refactoring...`);
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Calling LLM (${modelToUse}) for refactoring...`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Calling LLM (${modelToUse}) for refactoring...`);
 
       // LLM API Call
-      const response = await axios.post(
-        `${config.baseUrl}/chat/completions`,
-        {
-          model: modelToUse,
-          messages: [
-            { role: "system", content: REFACTOR_SYSTEM_PROMPT },
-            { role: "user", content: userPrompt }
-          ],
-          max_tokens: 2000,
-          temperature: 0.1,
-        },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${config.apiKey}`,
-            "HTTP-Referer": "https://vibe-coder-mcp.local" // Optional
-           },
-           timeout: 90000 // Increased timeout for potentially longer refactoring
-        }
-      );
+      // Fails over along the model chain on 429/5xx; throws ConfigurationError if a provider is not usable (e.g., missing API key)
+      const response = await chatWithModelFallback(config, modelChain, {
+        messages: [
+          { role: "system", content: REFACTOR_SYSTEM_PROMPT },
+          { role: "user", content: userPrompt }
+        ],
+        maxTokens: 2000,
+        temperature: 0.1,
+        timeout: 90000, // Increased timeout for potentially longer refactoring
+        signal
+      }, logicalTaskName);
+      signal?.throwIfAborted();
 
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Received response from LLM. Processing...`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Received response from LLM. Processing...`);
 
-      if (response.data?.choices?.[0]?.message?.content) {
-        const rawCode = response.data.choices[0].message.content;
+      if (response.content) {
+        const rawCode = response.content;
         const cleanCode = cleanCodeOutput(rawCode);
 
         if (!cleanCode) {
              throw new ParsingError("LLM returned empty code content after cleanup.", { rawCode, modelUsed: modelToUse });
         }
 
-        logger.info({ jobId, modelUsed: modelToUse }, `Successfully generated refactored code.`);
+        logger.info({ jobId, modelUsed: response.modelUsed }, `Successfully generated refactored code.`);
         logs.push(`[${new Date().toISOString()}] Successfully generated refactored code.`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Refactoring complete.`);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Refactoring complete.`);
 
         // Set final success result
         const finalResult: CallToolResult = {
@@ -183,6 +170,16 @@ export const refactorCode: ToolExecutor = async (
       }
 
     } catch (error: unknown) { // Catch errors within the async block
+       if (error instanceof CancellationError || signal?.aborted) {
+         // The job manager already marked the job CANCELLED and notified clients
+         logger.info({ jobId, tool: 'refactor-code' }, 'Code refactoring job cancelled.');
+         jobManager.setJobResult(jobId, {
+           content: [{ type: 'text', text: 'Code refactoring was cancelled before the refactored code was generated.' }],
+           isError: false
+         });
+         return;
+       }
+
        const errorMsg = error instanceof Error ? error.message : String(error);
        logger.error({ err: error, jobId, tool: 'refactor-code', params: validatedParams }, `Error during code refactoring background job.`);
        logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -211,10 +208,8 @@ export const refactorCode: ToolExecutor = async (
 
        // Store error result in Job Manager
        jobManager.setJobResult(jobId, errorResult);
-       // Send final failed status via SSE
-       sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // End of setImmediate
+  }); // End of scheduled job
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -67,7 +67,7 @@ describe('refactorCode (Async)', () => {
     const initialResult = await refactorCode(baseParams, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`Code refactoring job started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('code-refactor-generator', baseParams);
+    expect(jobManager.createJob).toHaveBeenCalledWith('code-refactor-generator', baseParams, { sessionId: mockContext.sessionId });
 
     // Verify underlying logic not called yet
     expect(axios.post).not.toHaveBeenCalled();
@@ -92,8 +92,8 @@ describe('refactorCode (Async)', () => {
     expect(finalResultArgs[1].content[0]?.text).toBe(mockRefactoredCode);
 
     // Verify SSE calls
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting code refactoring...'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating refactored code via LLM...'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting code refactoring...'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating refactored code via LLM...'));
     // Final status notification might be implicit via jobManager or explicit
   });
 
@@ -107,7 +107,7 @@ describe('refactorCode (Async)', () => {
 
      // --- Initial Call ---
      await refactorCode(paramsWithContext, mockConfig, mockContext);
-     expect(jobManager.createJob).toHaveBeenCalledWith('code-refactor-generator', paramsWithContext);
+     expect(jobManager.createJob).toHaveBeenCalledWith('code-refactor-generator', paramsWithContext, { sessionId: mockContext.sessionId });
 
      // --- Advance Timers ---
      await runAsyncTicks(1);
@@ -149,7 +149,7 @@ describe('refactorCode (Async)', () => {
        expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].isError).toBe(false); // Still completes successfully
        expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].content[0]?.text).toBe(mockRefactoredCode);
        // Verify SSE warning was sent
-       expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Could not read context file'));
+       expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Could not read context file'));
    });
 
    it('should clean markdown fences from the output (async)', async () => {
@@ -185,7 +185,7 @@ describe('refactorCode (Async)', () => {
        expect(finalResultArgs[1].content[0]?.text).toContain('Error during background job');
        const errorDetailsApi = finalResultArgs[1].errorDetails as any; // Cast to any
        expect(errorDetailsApi?.message).toContain('Code refactoring API Error: Status 400');
-       expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.FAILED, expect.stringContaining('Job failed:'));
+       expect(sseNotifier.sendProgress).not.toHaveBeenCalled(); // Only the JobManager sends job events
    });
 
     it('should set job to FAILED if LLM returns empty content after cleanup (async)', async () => {
@@ -4,12 +4,13 @@ import { CodeStubInput, codeStubInputSchema } from './schema.js'; // Import sche
 import { OpenRouterConfig } from '../../types/workflow.js';
 import { CallToolResult, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'; // Import McpError, ErrorCode
 import { registerTool, ToolDefinition, ToolExecutor } from '../../services/routing/toolRegistry.js';
-import { ApiError, ParsingError, ToolExecutionError, AppError, ConfigurationError } from '../../utils/errors.js'; // Import custom errors, Added ConfigurationError
+import { ApiError, CancellationError, ParsingError, ToolExecutionError, AppError } from '../../utils/errors.js'; // Import custom errors
 import { readFileContent } from '../../utils/fileReader.js'; // Import file reader utility
 import logger from '../../logger.js';
-import { selectModelForTask } from '../../utils/configLoader.js'; // Import the new utility
+import { selectModelChainForTask } from '../../utils/configLoader.js'; // Import the new utility
+import { chatWithModelFallback } from '../../services/llm-providers/fallback.js';
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 const CODE_STUB_SYSTEM_PROMPT = `You are an expert code generation assistant. Your task is to generate a clean, syntactically correct code stub based ONLY on the user's specifications.
 
@@ -105,7 +106,7 @@ export const generateCodeStub: ToolExecutor = async (
   const validatedParams = params as CodeStubInput;
 
   // ---> Step 2.5(CSG).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('generate-code-stub', params);
+  const jobId = jobManager.createJob('generate-code-stub', params, { sessionId });
   logger.info({ jobId, tool: 'generateCodeStub', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -115,7 +116,7 @@ export const generateCodeStub: ToolExecutor = async (
   };
 
   // ---> Step 2.5(CSG).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     // Define variables needed within the async scope
     let fileContext = '';
     // let previousText: string | undefined = undefined; // Removed - context.previousResponse is not reliable here
@@ -123,12 +124,12 @@ export const generateCodeStub: ToolExecutor = async (
     const defaultModel = config.geminiModel || "google/gemini-2.0-flash-001"; // Or a better default code model
     const logs: string[] = []; // Keep logs specific to this job execution
     let modelToUse: string = defaultModel; // Declare modelToUse here
+    const signal = jobManager.getAbortSignal(jobId);
 
     // ---> Step 2.5(CSG).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(CSG).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting code stub generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting code stub generation...');
       logger.info({ jobId }, `Generating ${validatedParams.language} ${validatedParams.stubType} stub: ${validatedParams.name}`);
       logs.push(`[${new Date().toISOString()}] Generating ${validatedParams.language} ${validatedParams.stubType} stub: ${validatedParams.name}`);
 
@@ -136,76 +137,62 @@ export const generateCodeStub: ToolExecutor = async (
           logger.debug({ jobId }, `Reading context file: ${validatedParams.contextFilePath}`);
           // ---> Step 2.5(CSG).6: Add Progress Updates (Context Reading) <---
           jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Reading context file: ${validatedParams.contextFilePath}`);
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Reading context file: ${validatedParams.contextFilePath}`);
           try {
               fileContext = await readFileContent(validatedParams.contextFilePath);
               logger.info({ jobId }, `Successfully added context from file: ${validatedParams.contextFilePath}`);
               logs.push(`[${new Date().toISOString()}] Successfully read context file.`);
-              sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Context file read successfully.`);
+              jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Context file read successfully.`);
           } catch (readError) {
               const errorMsg = readError instanceof Error ? readError.message : String(readError);
               logger.warn({ jobId, err: readError }, `Could not read context file '${validatedParams.contextFilePath}'. Proceeding without file context.`);
               logs.push(`[${new Date().toISOString()}] Warning: Failed to read context file: ${errorMsg}`);
-              sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Warning: Could not read context file: ${errorMsg}`);
+              jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Warning: Could not read context file: ${errorMsg}`);
               fileContext = `\n\n[Warning: Failed to read context file '${validatedParams.contextFilePath}'. Error: ${errorMsg}]`;
           }
       }
 
-      // Removed previousText logic as context.previousResponse is not reliable in setImmediate
+      // Removed previousText logic as context.previousResponse is not reliable in background jobs
 
       const userPrompt = createLLMPrompt(validatedParams, fileContext /*, previousText */); // Pass fileContext
 
       // Select the model (assign to variable declared outside try)
-      modelToUse = selectModelForTask(config, logicalTaskName, defaultModel);
+      const modelChain = selectModelChainForTask(config, logicalTaskName, defaultModel);
+      modelToUse = modelChain.join(' -> ');
       logs.push(`[${new Date().toISOString()}] Selected model: ${modelToUse}`);
 
-      // Check for API key
-      if (!config.apiKey) {
-        throw new ConfigurationError("OpenRouter API key (OPENROUTER_API_KEY) is not configured.");
-      }
 
       // ---> Step 2.5(CSG).6: Add Progress Updates (LLM Call) <---
       logger.info({ jobId, modelToUse }, `Calling LLM for code stub generation...`);
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Calling LLM (${modelToUse}) for stub generation...`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Calling LLM (${modelToUse}) for stub generation...`);
 
       // Add Code Stub Generator header
-      const response = await axios.post(
-        `${config.baseUrl}/chat/completions`,
-      {
-        model: modelToUse, // Use selected model
+      // Fails over along the model chain on 429/5xx; throws ConfigurationError if a provider is not usable (e.g., missing API key)
+      const response = await chatWithModelFallback(config, modelChain, {
         messages: [
           { role: "system", content: CODE_STUB_SYSTEM_PROMPT },
           { role: "user", content: userPrompt }
         ],
-        max_tokens: 1000, // Adjust as needed
+        maxTokens: 1000, // Adjust as needed
         temperature: 0.2, // Lower temperature for more predictable code
+        signal,
         // No stream needed for simple stub
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${config.apiKey}`,
-          "HTTP-Referer": "https://vibe-coder-mcp.local", // Optional - Added comma
-        },
-      }
-    );
+      }, logicalTaskName);
+      signal?.throwIfAborted();
 
       // ---> Step 2.5(CSG).6: Add Progress Updates (Processing Response) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Received response from LLM. Processing...`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Received response from LLM. Processing...`);
 
-      if (response.data?.choices?.[0]?.message?.content) {
-        const rawCode = response.data.choices[0].message.content;
+      if (response.content) {
+        const rawCode = response.content;
         const cleanCode = cleanCodeOutput(rawCode);
 
         if (!cleanCode) {
              throw new ParsingError("LLM returned empty code content after cleanup.", { rawCode, modelUsed: modelToUse });
         }
 
-        logger.info({ jobId, modelUsed: modelToUse }, `Successfully generated code stub for ${validatedParams.name}`);
+        logger.info({ jobId, modelUsed: response.modelUsed }, `Successfully generated code stub for ${validatedParams.name}`);
         logs.push(`[${new Date().toISOString()}] Successfully generated code stub.`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Stub generation complete.`);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Stub generation complete.`);
 
         // ---> Step 2.5(CSG).7: Update Final Result/Error Handling (Set Success Result) <---
         const finalResult: CallToolResult = {
@@ -222,6 +209,16 @@ export const generateCodeStub: ToolExecutor = async (
 
     // ---> Step 2.5(CSG).7: Update Final Result/Error Handling (Catch Block) <---
     } catch (error) {
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients
+        logger.info({ jobId, tool: 'generate-code-stub' }, 'Code stub generation job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: 'Code stub generation was cancelled before the stub was generated.' }],
+          isError: false
+        });
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'generate-code-stub', params: validatedParams, modelUsed: modelToUse }, `Error generating code stub for ${validatedParams.name}`);
       logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -247,10 +244,8 @@ export const generateCodeStub: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
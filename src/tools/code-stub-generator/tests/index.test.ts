@@ -67,7 +67,7 @@ describe('generateCodeStub (Async)', () => {
     const initialResult = await generateCodeStub(baseParams, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`Code stub generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-code-stub', baseParams);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-code-stub', baseParams, { sessionId: mockContext.sessionId });
 
     // Verify underlying logic not called yet
     expect(axios.post).not.toHaveBeenCalled();
@@ -91,8 +91,8 @@ describe('generateCodeStub (Async)', () => {
     expect(finalResultArgs[1].content[0]?.text).toBe(mockCode);
 
     // Verify SSE calls
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting code stub generation...'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Calling LLM'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting code stub generation...'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Calling LLM'));
   });
 
   it('should clean markdown fences from the output (async)', async () => {
@@ -125,7 +125,7 @@ describe('generateCodeStub (Async)', () => {
 
        // --- Initial Call ---
        await generateCodeStub(complexParams, mockConfig, mockContext);
-       expect(jobManager.createJob).toHaveBeenCalledWith('generate-code-stub', complexParams);
+       expect(jobManager.createJob).toHaveBeenCalledWith('generate-code-stub', complexParams, { sessionId: mockContext.sessionId });
        // --- Advance Timers ---
        await runAsyncTicks(1);
        // --- Verify Async Operations ---
@@ -181,7 +181,7 @@ describe('generateCodeStub (Async)', () => {
         expect(requestData.messages[1].content).toContain(`[Warning: Failed to read context file '${contextFilePath}'. Error: ${readErrorMessage}]`);
         expect(jobManager.setJobResult).toHaveBeenCalledTimes(1);
         expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].isError).toBe(false); // Still completes successfully
-        expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Could not read context file'));
+        expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Could not read context file'));
     });
 
 
@@ -202,7 +202,7 @@ describe('generateCodeStub (Async)', () => {
        expect(finalResultArgs[1].content[0]?.text).toContain('Error during background job');
        const errorDetails = finalResultArgs[1].errorDetails as any;
        expect(errorDetails?.message).toContain('Code stub generation API Error: Status 500');
-       expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.FAILED, expect.stringContaining('Job failed:'));
+       expect(sseNotifier.sendProgress).not.toHaveBeenCalled(); // Only the JobManager sends job events
    });
 
    it('should set job to FAILED if LLM returns empty content after cleanup (async)', async () => {
@@ -1,7 +1,7 @@
 import { z } from 'zod';
 import { CallToolResult, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { OpenRouterConfig } from '../../types/workflow.js';
-import { performDirectLlmCall } from '../../utils/llmHelper.js'; // Import the new helper
+import { performDirectLlmCall, performStructuredLlmCall } from '../../utils/llmHelper.js'; // Import the new helper
 import { performResearchQuery } from '../../utils/researchHelper.js';
 import logger from '../../logger.js';
 import fs from 'fs-extra';
@@ -10,9 +10,9 @@ import { starterKitDefinitionSchema, StarterKitDefinition, fileStructureItemSche
 import { generateSetupScripts, ScriptOutput } from './scripts.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 // Import necessary error types for direct LLM calls and parsing
-import { AppError, ValidationError, ParsingError, ToolExecutionError, ApiError, ConfigurationError } from '../../utils/errors.js';
+import { AppError, ValidationError, ToolExecutionError, ApiError, CancellationError, ConfigurationError } from '../../utils/errors.js';
 
 // Helper function to get the base output directory
 function getBaseOutputDir(): string {
@@ -26,6 +26,10 @@ function getBaseOutputDir(): string {
 // Define tool-specific directory using the helper
 const STARTER_KIT_DIR = path.join(getBaseOutputDir(), 'fullstack-starter-kit-generator');
 
+// Phases reported as structured job progress, in execution order
+const STARTER_KIT_PHASES = ['research', 'core definition', 'directory structure', 'parsing', 'validation', 'saving definition', 'setup scripts', 'saving scripts'] as const;
+type StarterKitPhase = typeof STARTER_KIT_PHASES[number];
+
 /**
  * Input schema for the Fullstack Starter Kit Generator tool
  */
@@ -185,7 +189,7 @@ export const generateFullstackStarterKit: ToolExecutor = async (
   const input = params as unknown as FullstackStarterKitInput;
 
   // --- Create Job & Return Immediately ---
-  const jobId = jobManager.createJob('generate-fullstack-starter-kit', params);
+  const jobId = jobManager.createJob('generate-fullstack-starter-kit', params, { sessionId, progressToken: context?.progressToken });
   logger.info({ jobId, tool: 'generateFullstackStarterKit', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -195,10 +199,13 @@ export const generateFullstackStarterKit: ToolExecutor = async (
   };
 
   // --- Execute Long-Running Logic Asynchronously ---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs for background process
     let mainPartsJson: Omit<StarterKitDefinition, 'directoryStructure'> | undefined; // Define here for broader scope
     let validatedDefinition: StarterKitDefinition | undefined; // Define here for broader scope
+    const signal = jobManager.getAbortSignal(jobId);
+    const reportPhase = (phase: StarterKitPhase, message: string) =>
+      jobManager.updateJobProgress(jobId, { phase, completed: STARTER_KIT_PHASES.indexOf(phase), total: STARTER_KIT_PHASES.length }, message);
 
     try { // This try block now wraps the entire async operation
       // Log the start
@@ -206,8 +213,7 @@ export const generateFullstackStarterKit: ToolExecutor = async (
       logs.push(`[${new Date().toISOString()}] Starting Fullstack Starter Kit Generator`);
       logs.push(`[${new Date().toISOString()}] Use case: ${input.use_case}`);
 
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting starter kit generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting starter kit generation...');
+      reportPhase('research', 'Starting starter kit generation...');
 
       // Step 1: Analyze the use case and tech stack preferences using sequential thinking
       // (Skipped as per previous logic)
@@ -217,7 +223,7 @@ export const generateFullstackStarterKit: ToolExecutor = async (
       if (input.request_recommendation) {
         logger.info({ jobId, inputs: { use_case: input.use_case } }, "Fullstack Starter Kit Generator: Starting pre-generation research...");
         logs.push(`[${new Date().toISOString()}] Starting pre-generation research using Perplexity (sonar-deep-research)`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
 
         try {
           // Define relevant research queries
@@ -227,9 +233,9 @@ export const generateFullstackStarterKit: ToolExecutor = async (
 
           // Execute research queries in parallel using Perplexity
           const researchResults = await Promise.allSettled([
-            performResearchQuery(query1, config),
-            performResearchQuery(query2, config),
-            performResearchQuery(query3, config)
+            performResearchQuery(query1, config, signal),
+            performResearchQuery(query2, config, signal),
+            performResearchQuery(query3, config, signal)
           ]);
 
           // Process research results
@@ -248,18 +254,19 @@ export const generateFullstackStarterKit: ToolExecutor = async (
 
           logger.info({ jobId }, "Fullstack Starter Kit Generator: Pre-generation research completed.");
           logs.push(`[${new Date().toISOString()}] Completed pre-generation research`);
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research complete.');
+          jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research complete.');
         } catch (researchError: unknown) {
           const errorMsg = researchError instanceof Error ? researchError.message : String(researchError);
           logger.error({ jobId, err: researchError }, "Fullstack Starter Kit Generator: Error during research aggregation");
           researchContext = "## Pre-Generation Research Context:\n*Error occurred during research phase.*\n\n";
           logs.push(`[${new Date().toISOString()}] Error during research: ${errorMsg}`);
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Research phase failed: ${errorMsg}`);
+          jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Research phase failed: ${errorMsg}`);
         }
       } else {
         logger.debug({ jobId }, 'Skipping research - recommendation not requested');
         logs.push(`[${new Date().toISOString()}] Skipping research - recommendation not requested`);
       }
+      signal?.throwIfAborted();
 
       // Ensure directories are initialized
       await initDirectories();
@@ -351,54 +358,17 @@ ${researchContext ? `Research Context:\n${researchContext}` : 'No research conte
 # FINAL INSTRUCTION: Generate the JSON object for the main parts now.
 `;
 
-      logger.info({ jobId }, 'Generating main starter kit parts (excluding directory structure) using direct LLM call...');
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating core project definition...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating core project definition...');
-      const mainPartsRawText = await performDirectLlmCall(
+      logger.info({ jobId }, 'Generating main starter kit parts (excluding directory structure) using structured LLM call...');
+      reportPhase('core definition', 'Generating core project definition...');
+      // Parses and validates the JSON, sending invalid output back to the LLM for correction
+      mainPartsJson = await performStructuredLlmCall(
         mainPartsPrompt,
-        '', // No specific system prompt needed here as it's in mainPartsPrompt
+        mainPartsSchema,
         config,
         'fullstack_starter_kit_generation', // Logical task name
-        0.2 // Use a low temperature for JSON generation
+        { temperature: 0.2, signal } // Use a low temperature for JSON generation
       );
-      logs.push(`[${new Date().toISOString()}] Received main parts generation output (raw text).`);
-      logger.debug({ jobId, rawJsonText: mainPartsRawText }, "Raw JSON text received from LLM");
-
-      // Robust JSON Parsing
-      let parsedJson: any;
-      try {
-        // Attempt direct parsing first
-        parsedJson = JSON.parse(mainPartsRawText);
-      } catch (parseError: unknown) {
-        logger.warn({ jobId, err: parseError }, "Direct JSON parsing failed. Attempting to extract JSON block...");
-        const jsonMatch = mainPartsRawText.match(/\{[\s\S]*\}/);
-        const matchedText = jsonMatch?.[0];
-
-        if (matchedText) {
-          try {
-            parsedJson = JSON.parse(matchedText);
-            logger.info({ jobId }, "Successfully extracted and parsed JSON block from raw text.");
-          } catch (nestedParseError: unknown) {
-            const errorCause = nestedParseError instanceof Error ? nestedParseError : undefined;
-            logger.error({ jobId, err: nestedParseError, extractedText: matchedText }, "Failed to parse extracted JSON block.");
-            throw new ParsingError(`LLM response could not be parsed as JSON, even after extraction. Raw text: ${mainPartsRawText}`, { rawText: mainPartsRawText }, errorCause);
-          }
-        } else {
-          const errorCause = parseError instanceof Error ? parseError : undefined;
-          logger.error({ jobId, rawText: mainPartsRawText }, "Could not find JSON block in LLM response.");
-          throw new ParsingError(`LLM response did not contain a valid JSON block. Raw text: ${mainPartsRawText}`, { rawText: mainPartsRawText }, errorCause);
-        }
-      }
-
-      // Validate the parsed JSON against the schema
-      const validationResultMain = mainPartsSchema.safeParse(parsedJson);
-      if (!validationResultMain.success) {
-        // Access error safely within this block
-        logger.error({ jobId, errors: validationResultMain.error.issues, parsedJson }, "Main parts output failed schema validation");
-        throw new ValidationError('Main parts output failed schema validation.', validationResultMain.error.issues);
-      }
-      // Assign validated data which is guaranteed by the success check
-      mainPartsJson = validationResultMain.data;
+      signal?.throwIfAborted();
       logger.info({ jobId }, 'Successfully parsed and validated main starter kit parts.');
       logs.push(`[${new Date().toISOString()}] Successfully parsed and validated main parts.`); // Log only on success
 
@@ -441,16 +411,17 @@ Generate the directory structure based on the provided tech stack and project de
 
       let directoryStructureMarkdown: string;
       logger.info({ jobId }, 'Generating directory structure as Markdown using direct LLM call...');
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating directory structure...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating directory structure...');
+      reportPhase('directory structure', 'Generating directory structure...');
       // Use performDirectLlmCall instead of processWithSequentialThinking
       directoryStructureMarkdown = await performDirectLlmCall(
         dirStructurePrompt,
         '', // No specific system prompt needed here as it's in dirStructurePrompt
         config,
         'fullstack_starter_kit_generation', // Can reuse the same logical task name or create a specific one
-        0.1 // Low temperature for structured Markdown
+        0.1, // Low temperature for structured Markdown
+        signal
       );
+      signal?.throwIfAborted();
       logs.push(`[${new Date().toISOString()}] Received directory structure Markdown output.`);
 
       // Basic validation for Markdown structure (e.g., starts with a list item)
@@ -466,8 +437,7 @@ Generate the directory structure based on the provided tech stack and project de
       // --- Step 3c: Parse Markdown Directory Structure ---
       let directoryStructureJson: z.infer<typeof fileStructureItemSchema>[];
       logger.info({ jobId }, 'Parsing directory structure Markdown...');
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Parsing directory structure...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Parsing directory structure...');
+      reportPhase('parsing', 'Parsing directory structure...');
       directoryStructureJson = parseDirectoryStructureMarkdown(directoryStructureMarkdown);
       logger.info({ jobId }, 'Successfully parsed directory structure.');
       logs.push(`[${new Date().toISOString()}] Successfully parsed directory structure.`);
@@ -480,8 +450,7 @@ Generate the directory structure based on the provided tech stack and project de
       };
 
       logger.info({ jobId }, 'Validating final combined starter kit definition...');
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Validating final definition...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Validating final definition...');
+      reportPhase('validation', 'Validating final definition...');
       const validationResultFinal = starterKitDefinitionSchema.safeParse(finalDefinition);
       if (!validationResultFinal.success) {
         // Access error safely within this block
@@ -500,16 +469,14 @@ Generate the directory structure based on the provided tech stack and project de
       const definitionFilename = `${timestamp}-${sanitizedName}-definition.json`;
       const definitionFilePath = path.join(STARTER_KIT_DIR, definitionFilename);
 
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Saving definition file...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Saving definition file...');
+      reportPhase('saving definition', 'Saving definition file...');
       await fs.writeJson(definitionFilePath, validatedDefinition, { spaces: 2 });
       logger.info({ jobId }, `Saved validated definition to ${definitionFilename}`);
       logs.push(`[${new Date().toISOString()}] Saved validated definition to ${definitionFilename}`);
 
       // Generate setup scripts
       logger.info({ jobId }, 'Generating setup scripts...');
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating setup scripts...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating setup scripts...');
+      reportPhase('setup scripts', 'Generating setup scripts...');
       let scripts: ScriptOutput = { sh: '# Error generating script', bat: 'REM Error generating script' };
       try {
         scripts = generateSetupScripts(validatedDefinition); // Use validated definition
@@ -518,7 +485,7 @@ Generate the directory structure based on the provided tech stack and project de
         const errorMsg = scriptError instanceof Error ? scriptError.message : String(scriptError);
         logger.error({ jobId, err: scriptError }, "Failed to generate setup scripts content");
         logs.push(`[${new Date().toISOString()}] Error generating setup scripts: ${errorMsg}`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Warning: Failed to generate setup scripts: ${errorMsg}`);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Warning: Failed to generate setup scripts: ${errorMsg}`);
         // Continue to save whatever script content was generated, even if partial or error message
       }
 
@@ -528,8 +495,7 @@ Generate the directory structure based on the provided tech stack and project de
       const scriptShFilePath = path.join(STARTER_KIT_DIR, scriptShFilename);
       const scriptBatFilePath = path.join(STARTER_KIT_DIR, scriptBatFilename);
 
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Saving setup scripts...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Saving setup scripts...');
+      reportPhase('saving scripts', 'Saving setup scripts...');
       try {
         await fs.writeFile(scriptShFilePath, scripts.sh, { mode: 0o755 }); // Make executable
         await fs.writeFile(scriptBatFilePath, scripts.bat);
@@ -540,7 +506,7 @@ Generate the directory structure based on the provided tech stack and project de
         // Log the error but don't necessarily fail the whole operation, just report it in logs
         logger.error({ jobId, err: saveError }, "Failed to save setup scripts");
         logs.push(`[${new Date().toISOString()}] Error saving setup scripts: ${errorMsg}`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Warning: Failed to save setup scripts: ${errorMsg}`);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Warning: Failed to save setup scripts: ${errorMsg}`);
       }
 
       // Format the response for the final result
@@ -598,6 +564,16 @@ Generated with the Fullstack Starter Kit Generator
       // sseNotifier.sendProgress(sessionId, jobId, JobStatus.COMPLETED, 'Job completed successfully.');
 
     } catch (error: unknown) { // Catch errors within the async block
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients
+        logger.info({ jobId, tool: 'generateFullstackStarterKit' }, 'Background job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: 'Starter kit generation was cancelled before the starter kit was saved.' }],
+          isError: false
+        });
+        return;
+      }
+
       // Catch-all for any unexpected errors during the process
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'generateFullstackStarterKit' }, 'Error during background job execution.');
@@ -623,10 +599,8 @@ Generated with the Fullstack Starter Kit Generator
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (setJobResult might handle this, but explicit call is safer)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // End of setImmediate
+  }); // End of scheduled job
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -6,7 +6,7 @@ import { getGitDiffSummary } from '../../utils/gitHelper.js'; // Adjust path if
 import { AppError } from '../../utils/errors.js'; // Adjust path if necessary
 import logger from '../../logger.js'; // Adjust path if necessary
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 import { OpenRouterConfig } from '../../types/workflow.js'; // Import OpenRouterConfig for type consistency
 
 // Define the executor function
@@ -25,7 +25,7 @@ export const generateGitSummary: ToolExecutor = async (
   const validatedParams = params as GitSummaryInput;
 
   // ---> Step 2.5(GSG).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('generate-git-summary', params);
+  const jobId = jobManager.createJob('generate-git-summary', params, { sessionId });
   logger.info({ jobId, tool: 'generateGitSummary', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -35,14 +35,13 @@ export const generateGitSummary: ToolExecutor = async (
   };
 
   // ---> Step 2.5(GSG).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
 
     // ---> Step 2.5(GSG).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(GSG).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting Git summary generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting Git summary generation...');
       logger.info({ jobId }, `Generating Git summary (staged: ${validatedParams.staged})`);
       logs.push(`[${new Date().toISOString()}] Generating Git summary (staged: ${validatedParams.staged}).`);
 
@@ -52,7 +51,7 @@ export const generateGitSummary: ToolExecutor = async (
       // ---> Step 2.5(GSG).6: Add Progress Updates (Completion) <---
       logger.info({ jobId }, `Successfully generated Git summary.`);
       logs.push(`[${new Date().toISOString()}] Successfully generated Git summary.`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Git summary generated.`);
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Git summary generated.`);
 
       // ---> Step 2.5(GSG).7: Update Final Result/Error Handling (Set Success Result) <---
       // The helper already returns a user-friendly message for no changes
@@ -87,10 +86,8 @@ export const generateGitSummary: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -5,7 +5,7 @@ import { generateGitSummary } from '../index.js'; // Import the actual executor
 import { AppError } from '../../../utils/errors.js'; // Adjust path if necessary
 import { OpenRouterConfig } from '../../../types/workflow.js'; // Adjust path if necessary
 import logger from '../../../logger.js'; // Adjust path if necessary
-import { jobManager, JobStatus } from '../../../services/job-manager/index.js'; // Import Job Manager
+import { jobManager } from '../../../services/job-manager/index.js'; // Import Job Manager
 import { sseNotifier } from '../../../services/sse-notifier/index.js'; // Import SSE Notifier
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import CallToolResult
 
@@ -50,7 +50,7 @@ describe('generateGitSummary Tool (Async)', () => {
     const initialResult = await generateGitSummary(params, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`Git summary generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-git-summary', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-git-summary', params, { sessionId: mockContext.sessionId });
 
     // --- Advance Timers ---
     await runAsyncTicks(1);
@@ -73,7 +73,7 @@ describe('generateGitSummary Tool (Async)', () => {
     const initialResult = await generateGitSummary(params, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`Git summary generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-git-summary', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-git-summary', params, { sessionId: mockContext.sessionId });
 
     // --- Advance Timers ---
     await runAsyncTicks(1);
@@ -121,7 +121,7 @@ describe('generateGitSummary Tool (Async)', () => {
      expect(finalResultArgs[1].content[0]?.text).toContain(`Error during background job ${mockJobId}`);
      const errorDetails = finalResultArgs[1].errorDetails as any;
      expect(errorDetails?.message).toBe(error.message);
-     expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.FAILED, expect.stringContaining('Job failed:'));
+     expect(sseNotifier.sendProgress).not.toHaveBeenCalled(); // Only the JobManager sends job events
   });
 
    // Test that the tool correctly returns the message from the helper
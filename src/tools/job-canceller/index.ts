@@ -0,0 +1,72 @@
+// src/tools/job-canceller/index.ts
+import { z } from 'zod';
+import { CallToolResult, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+import { registerTool, ToolDefinition, ToolExecutor } from '../../services/routing/toolRegistry.js';
+import { jobManager, isFinalJobStatus } from '../../services/job-manager/index.js';
+
+// --- Zod Schema ---
+const cancelJobInputSchemaShape = {
+  jobId: z.string().uuid({ message: "Invalid Job ID format. Must be a UUID." }).describe("The unique identifier of the job to cancel."),
+  reason: z.string().optional().describe("Optional reason for the cancellation, recorded on the job.")
+};
+
+// --- Tool Executor ---
+
+/**
+ * Cancels a pending or running background job.
+ * The job keeps any partial output its executor stored, retrievable via `get-job-result`.
+ */
+export const cancelJob: ToolExecutor = async (
+  params: Record<string, unknown>,
+  // Config and context are not used for this tool
+): Promise<CallToolResult> => {
+  const { jobId, reason } = params as { jobId: string; reason?: string };
+
+  logger.info({ jobId, reason }, `Attempting to cancel job.`);
+  const job = jobManager.getJob(jobId);
+
+  if (!job) {
+    logger.warn({ jobId }, `Job not found.`);
+    const notFoundError = new McpError(ErrorCode.InvalidParams, `Job with ID '${jobId}' not found.`);
+    return {
+      content: [{ type: 'text', text: notFoundError.message }],
+      isError: true,
+      errorDetails: notFoundError
+    };
+  }
+
+  if (isFinalJobStatus(job.status)) {
+    // Not an error: the caller's goal (the job is no longer running) is already met
+    return {
+      content: [{ type: 'text', text: `Job '${jobId}' (${job.toolName}) is already ${job.status} and cannot be cancelled. Use get-job-result to retrieve its result.` }],
+      isError: false
+    };
+  }
+
+  if (!jobManager.cancelJob(jobId, reason)) {
+    const cancelError = new McpError(ErrorCode.InternalError, `Failed to cancel job '${jobId}'.`, { jobId });
+    return {
+      content: [{ type: 'text', text: cancelError.message }],
+      isError: true,
+      errorDetails: cancelError
+    };
+  }
+
+  return {
+    content: [{ type: 'text', text: `Job '${jobId}' (${job.toolName}) has been cancelled. Use get-job-result to retrieve any partial output.` }],
+    isError: false
+  };
+};
+
+// --- Tool Registration ---
+const cancelJobToolDefinition: ToolDefinition = {
+  name: "cancel-job",
+  description: "Cancels a pending or running background job. Any partial output remains available via get-job-result.",
+  inputSchema: cancelJobInputSchemaShape,
+  executor: cancelJob
+};
+
+registerTool(cancelJobToolDefinition);
+
+logger.info("Registered tool: cancel-job");
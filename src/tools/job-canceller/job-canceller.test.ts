@@ -0,0 +1,78 @@
+// src/tools/job-canceller/job-canceller.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { cancelJob } from './index.js';
+import { jobManager, JobStatus, Job } from '../../services/job-manager/index.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+// Mock the jobManager singleton
+vi.mock('../../services/job-manager/index.js', () => ({
+  jobManager: {
+    getJob: vi.fn(),
+    cancelJob: vi.fn(),
+  },
+  JobStatus: {
+    PENDING: 'pending',
+    RUNNING: 'running',
+    COMPLETED: 'completed',
+    FAILED: 'failed',
+    CANCELLED: 'cancelled',
+  },
+  isFinalJobStatus: (status: string) => ['completed', 'failed', 'cancelled'].includes(status),
+}));
+
+// Mock the logger
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('cancelJob Tool Executor', () => {
+  const mockConfig: OpenRouterConfig = {
+    baseUrl: 'mock-url',
+    apiKey: 'mock-key',
+    geminiModel: 'mock-gemini',
+    perplexityModel: 'mock-perplexity',
+  };
+  const jobId = '123e4567-e89b-12d3-a456-426614174000';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return an error if the job does not exist', async () => {
+    vi.mocked(jobManager.getJob).mockReturnValue(undefined);
+
+    const result = await cancelJob({ jobId }, mockConfig);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain(`Job with ID '${jobId}' not found.`);
+    expect(jobManager.cancelJob).not.toHaveBeenCalled();
+  });
+
+  it('should cancel a running job and pass the reason on', async () => {
+    const mockJob: Partial<Job> = { id: jobId, toolName: 'generate-task-list', status: JobStatus.RUNNING };
+    vi.mocked(jobManager.getJob).mockReturnValue(mockJob as Job);
+    vi.mocked(jobManager.cancelJob).mockReturnValue(true);
+
+    const result = await cancelJob({ jobId, reason: 'Wrong input' }, mockConfig);
+
+    expect(jobManager.cancelJob).toHaveBeenCalledWith(jobId, 'Wrong input');
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toContain('has been cancelled');
+  });
+
+  it('should not cancel a job that has already finished', async () => {
+    const mockJob: Partial<Job> = { id: jobId, toolName: 'research', status: JobStatus.COMPLETED };
+    vi.mocked(jobManager.getJob).mockReturnValue(mockJob as Job);
+
+    const result = await cancelJob({ jobId }, mockConfig);
+
+    expect(jobManager.cancelJob).not.toHaveBeenCalled();
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toContain('is already completed');
+  });
+});
@@ -0,0 +1,98 @@
+// src/tools/job-lister/index.ts
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+import { registerTool, ToolDefinition, ToolExecutor } from '../../services/routing/toolRegistry.js';
+import { jobManager, JobStatus, Job } from '../../services/job-manager/index.js';
+
+const MAX_PAGE_SIZE = 100;
+
+// --- Zod Schema ---
+const listJobsInputSchemaShape = {
+  status: z.nativeEnum(JobStatus).optional().describe("Only list jobs with this status (pending, running, completed, failed, cancelled)."),
+  toolName: z.string().optional().describe("Only list jobs started by this tool (e.g., 'generate-task-list')."),
+  createdAfter: z.string().datetime({ message: "createdAfter must be an ISO 8601 date-time." }).optional().describe("Only list jobs created at or after this ISO 8601 date-time."),
+  createdBefore: z.string().datetime({ message: "createdBefore must be an ISO 8601 date-time." }).optional().describe("Only list jobs created at or before this ISO 8601 date-time."),
+  limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional().default(20).describe(`Maximum number of jobs to return (1-${MAX_PAGE_SIZE}, default 20).`),
+  offset: z.number().int().min(0).optional().default(0).describe("Number of matching jobs to skip, for paging (default 0).")
+};
+
+/**
+ * Formats a single job as a one-line summary.
+ * @param job The job to format.
+ * @returns The summary line.
+ */
+function formatJobLine(job: Job): string {
+  const progress = job.progressMessage ? ` | ${job.progressMessage}` : '';
+  return `- ${job.id} | ${job.toolName} | ${job.status} | created ${new Date(job.createdAt).toISOString()} | updated ${new Date(job.updatedAt).toISOString()}${progress}`;
+}
+
+// --- Tool Executor ---
+
+/**
+ * Lists background jobs, newest first, filtered by status, tool name and creation time.
+ */
+export const listJobs: ToolExecutor = async (
+  params: Record<string, unknown>,
+  // Config and context are not used for this tool
+): Promise<CallToolResult> => {
+  const { status, toolName, createdAfter, createdBefore, limit, offset } = params as {
+    status?: JobStatus;
+    toolName?: string;
+    createdAfter?: string;
+    createdBefore?: string;
+    limit?: number;
+    offset?: number;
+  };
+
+  const page = jobManager.listJobs({
+    status,
+    toolName,
+    createdAfter: createdAfter ? Date.parse(createdAfter) : undefined,
+    createdBefore: createdBefore ? Date.parse(createdBefore) : undefined,
+    limit,
+    offset,
+  });
+  logger.info({ status, toolName, createdAfter, createdBefore, total: page.total, offset: page.offset }, 'Listed jobs.');
+
+  if (page.total === 0) {
+    return {
+      content: [{ type: 'text', text: 'No jobs match the given filters.' }],
+      isError: false
+    };
+  }
+  if (page.jobs.length === 0) {
+    return {
+      content: [{ type: 'text', text: `Found ${page.total} matching job(s), but offset ${page.offset} is past the last one.` }],
+      isError: false
+    };
+  }
+
+  const lastShown = page.offset + page.jobs.length;
+  const lines = [
+    `Found ${page.total} matching job(s). Showing ${page.offset + 1}-${lastShown}, newest first:`,
+    '',
+    ...page.jobs.map(formatJobLine),
+  ];
+  if (lastShown < page.total) {
+    lines.push('', `More jobs are available. Call list-jobs again with offset ${lastShown} to see the next page.`);
+  }
+  lines.push('', 'Use get-job-result with a Job ID to retrieve its result.');
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: false
+  };
+};
+
+// --- Tool Registration ---
+const listJobsToolDefinition: ToolDefinition = {
+  name: "list-jobs",
+  description: "Lists background jobs (newest first) with their IDs and statuses, filtered by status, tool name and creation time, with paging.",
+  inputSchema: listJobsInputSchemaShape,
+  executor: listJobs
+};
+
+registerTool(listJobsToolDefinition);
+
+logger.info("Registered tool: list-jobs");
@@ -0,0 +1,84 @@
+// src/tools/job-lister/job-lister.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { listJobs } from './index.js';
+import { jobManager, JobStatus } from '../../services/job-manager/index.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+// Use the real jobManager, but keep it from sending SSE events
+vi.mock('../../services/sse-notifier/index.js', () => ({
+  sseNotifier: {
+    sendProgress: vi.fn(),
+  }
+}));
+
+// Mock the logger
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('listJobs Tool Executor', () => {
+  const mockConfig: OpenRouterConfig = {
+    baseUrl: 'mock-url',
+    apiKey: 'mock-key',
+    geminiModel: 'mock-gemini',
+    perplexityModel: 'mock-perplexity',
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report when no jobs match', async () => {
+    const result = await listJobs({ toolName: 'no-such-tool', limit: 20, offset: 0 }, mockConfig);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toBe('No jobs match the given filters.');
+  });
+
+  it('should list matching jobs and point to the next page', async () => {
+    const toolName = 'lister-test-tool';
+    const firstId = jobManager.createJob(toolName, {});
+    jobManager.getJob(firstId)!.createdAt -= 1000;
+    const secondId = jobManager.createJob(toolName, {});
+    jobManager.updateJobStatus(secondId, JobStatus.RUNNING, 'Halfway there');
+
+    const result = await listJobs({ toolName, limit: 1, offset: 0 }, mockConfig);
+    const text = result.content[0]?.text as string;
+
+    expect(result.isError).toBe(false);
+    expect(text).toContain('Found 2 matching job(s). Showing 1-1');
+    expect(text).toContain(`${secondId} | ${toolName} | running`);
+    expect(text).toContain('Halfway there');
+    expect(text).not.toContain(firstId);
+    expect(text).toContain('offset 1');
+  });
+
+  it('should filter by status and creation time', async () => {
+    const toolName = 'lister-filter-tool';
+    const jobId = jobManager.createJob(toolName, {});
+    jobManager.setJobResult(jobId, { content: [], isError: false });
+    const createdAt = jobManager.getJob(jobId)!.createdAt;
+
+    const inWindow = await listJobs({
+      toolName,
+      status: JobStatus.COMPLETED,
+      createdAfter: new Date(createdAt - 1000).toISOString(),
+      limit: 20,
+      offset: 0,
+    }, mockConfig);
+    const outOfWindow = await listJobs({
+      toolName,
+      createdBefore: new Date(createdAt - 1000).toISOString(),
+      limit: 20,
+      offset: 0,
+    }, mockConfig);
+
+    expect(inWindow.content[0]?.text).toContain(jobId);
+    expect(outOfWindow.content[0]?.text).toBe('No jobs match the given filters.');
+  });
+});
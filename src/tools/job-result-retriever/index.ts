@@ -4,13 +4,38 @@ import { CallToolResult, McpError, ErrorCode, TextContent } from '@modelcontextp
 import { OpenRouterConfig } from '../../types/workflow.js'; // Although not used directly, keep for ToolExecutor signature
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js';
-import { jobManager, JobStatus, Job } from '../../services/job-manager/index.js'; // Import JobManager and types
+import { jobManager, JobStatus, Job, JobProgress } from '../../services/job-manager/index.js'; // Import JobManager and types
+import { formatLlmUsage } from '../../services/usage-tracker/index.js';
 
 // --- Zod Schema ---
 const getJobResultInputSchemaShape = {
   jobId: z.string().uuid({ message: "Invalid Job ID format. Must be a UUID." }).describe("The unique identifier of the job to retrieve.")
 };
 
+/**
+ * Formats structured job progress as a short summary, e.g. "decomposition: 3/7 (43%), about 20s remaining".
+ */
+function formatProgress(progress: JobProgress): string {
+  let summary = progress.phase;
+  if (progress.completed !== undefined && progress.total !== undefined) {
+    summary += `: ${progress.completed}/${progress.total}`;
+  }
+  if (progress.percent !== undefined) {
+    summary += ` (${progress.percent}%)`;
+  }
+  if (progress.etaMs !== undefined && progress.etaMs > 0) {
+    summary += `, about ${Math.ceil(progress.etaMs / 1000)}s remaining`;
+  }
+  return summary;
+}
+
+/**
+ * Formats a job's LLM usage for status notes, or returns an empty string if the job made no LLM calls.
+ */
+function formatJobUsage(job: Job): string {
+  return job.usage ? ` LLM usage: ${formatLlmUsage(job.usage)}.` : '';
+}
+
 // --- Tool Executor ---
 
 /**
@@ -48,6 +73,14 @@ export const getJobResult: ToolExecutor = async (
         break;
       case JobStatus.RUNNING:
         responseText = `Job '${jobId}' (${job.toolName}) is running. Status updated at: ${new Date(job.updatedAt).toISOString()}. Progress: ${job.progressMessage || 'No progress message available.'}`;
+        if (job.progress) {
+          responseText += ` Phase: ${formatProgress(job.progress)}.`;
+        }
+        responseText += formatJobUsage(job);
+        // Text streamed by the job's LLM calls so far
+        if (job.partialOutput) {
+          responseText += `\n\nOutput so far (still being written):\n\n${job.partialOutput}`;
+        }
         break;
       case JobStatus.COMPLETED:
         responseText = `Job '${jobId}' (${job.toolName}) completed successfully at: ${new Date(job.updatedAt).toISOString()}.`;
@@ -58,7 +91,7 @@ export const getJobResult: ToolExecutor = async (
             // Check if finalResult is defined before accessing content
             if (finalResult) {
                 // Optionally add a note about completion to the result content
-                const completionNote: TextContent = { type: 'text', text: `\n---\nJob Status: COMPLETED (${new Date(job.updatedAt).toISOString()})` };
+                const completionNote: TextContent = { type: 'text', text: `\n---\nJob Status: COMPLETED (${new Date(job.updatedAt).toISOString()})${formatJobUsage(job)}` };
                 // Ensure content array exists before pushing
                 finalResult.content = [...(finalResult.content || []), completionNote];
             } else {
@@ -81,7 +114,7 @@ export const getJobResult: ToolExecutor = async (
              // Check if finalResult is defined before accessing content
             if (finalResult) {
                  // Optionally add a note about failure to the result content
-                const failureNote: TextContent = { type: 'text', text: `\n---\nJob Status: FAILED (${new Date(job.updatedAt).toISOString()})` };
+                const failureNote: TextContent = { type: 'text', text: `\n---\nJob Status: FAILED (${new Date(job.updatedAt).toISOString()})${formatJobUsage(job)}` };
                 // Ensure content array exists before pushing
                 finalResult.content = [...(finalResult.content || []), failureNote];
             } else {
@@ -100,6 +133,24 @@ export const getJobResult: ToolExecutor = async (
              };
         }
         break;
+      case JobStatus.CANCELLED:
+        responseText = `Job '${jobId}' (${job.toolName}) was cancelled at: ${new Date(job.updatedAt).toISOString()}. ${job.progressMessage || ''}`.trim();
+        // Cancelled executors may have stored partial output
+        if (job.result) {
+            finalResult = JSON.parse(JSON.stringify(job.result));
+            if (finalResult) {
+                const cancellationNote: TextContent = { type: 'text', text: `\n---\nJob Status: CANCELLED (${new Date(job.updatedAt).toISOString()}). The output above is partial.${formatJobUsage(job)}` };
+                finalResult.content = [...(finalResult.content || []), cancellationNote];
+            } else {
+                 logger.error({ jobId }, "Deep copy of job result failed unexpectedly for CANCELLED job.");
+                 responseText += ' Failed to process partial result.';
+            }
+        } else if (job.partialOutput) {
+            responseText += `\n\nOutput streamed before the job was cancelled:\n\n${job.partialOutput}`;
+        } else {
+            responseText += ' No partial output is available.';
+        }
+        break;
       default:
         // Should not happen
         logger.error({ jobId, status: job.status }, `Job has unknown status.`);
@@ -107,7 +158,7 @@ export const getJobResult: ToolExecutor = async (
         break;
     }
 
-    // If we have a final result (from COMPLETED or FAILED job with result stored), return it
+    // If we have a final result (from a COMPLETED, FAILED or CANCELLED job with result stored), return it
     if (finalResult) {
         logger.info({ jobId, status: job.status }, `Returning final stored result for job.`);
         return finalResult;
@@ -97,6 +97,37 @@ describe('getJobResult Tool Executor', () => {
      expect(result.content[0]?.text).not.toContain(`Progress:`);
    });
 
+  it('should show the LLM usage of a running job', async () => {
+    const jobId = 'running-job-with-usage';
+    const mockJob: Partial<Job> = {
+      id: jobId,
+      status: JobStatus.RUNNING,
+      updatedAt: Date.now(),
+      usage: { calls: 2, promptTokens: 1200, completionTokens: 800, costUsd: 0.0042, unpricedCalls: 0 },
+    };
+    vi.mocked(jobManager.getJob).mockReturnValue(mockJob as Job);
+
+    const result = await getJobResult({ jobId }, mockConfig, mockContext);
+
+    expect(result.content[0]?.text).toContain('LLM usage: 2 LLM calls, 1200 prompt + 800 completion tokens, estimated cost $0.0042.');
+  });
+
+  it('should show the output a running job has streamed so far', async () => {
+    const jobId = 'running-job-with-output';
+    const mockJob: Partial<Job> = {
+      id: jobId,
+      status: JobStatus.RUNNING,
+      updatedAt: Date.now(),
+      partialOutput: '# PRD: Example\n\n## Introduction',
+    };
+    vi.mocked(jobManager.getJob).mockReturnValue(mockJob as Job);
+
+    const result = await getJobResult({ jobId }, mockConfig, mockContext);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toContain('Output so far (still being written):\n\n# PRD: Example\n\n## Introduction');
+  });
+
   it('should return the final result if the job is COMPLETED', async () => {
     const jobId = 'completed-job';
     const finalResultData: CallToolResult = { content: [{ type: 'text', text: 'Final success data!' }], isError: false };
@@ -0,0 +1,83 @@
+// src/tools/llm-cache-manager/index.ts
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+import { registerTool, ToolDefinition, ToolExecutor } from '../../services/routing/toolRegistry.js';
+import { llmCache, LlmCacheEntrySummary } from '../../services/llm-cache/index.js';
+
+const MAX_LISTED_ENTRIES = 100;
+
+// --- Zod Schema ---
+const manageLlmCacheInputSchemaShape = {
+  action: z.enum(['inspect', 'clear']).optional().default('inspect').describe("'inspect' lists the cached LLM responses, 'clear' removes them (default 'inspect')."),
+  expiredOnly: z.boolean().optional().default(false).describe("With 'clear', only remove responses whose time-to-live has passed."),
+  limit: z.number().int().min(1).max(MAX_LISTED_ENTRIES).optional().default(20).describe(`With 'inspect', maximum number of entries to list (1-${MAX_LISTED_ENTRIES}, default 20).`)
+};
+
+/**
+ * Formats a single cache entry as a one-line summary.
+ * @param entry The entry to format.
+ * @param now The current time in epoch milliseconds.
+ * @returns The summary line.
+ */
+function formatEntryLine(entry: LlmCacheEntrySummary, now: number): string {
+  const expiry = entry.expiresAt <= now ? 'expired' : `expires ${new Date(entry.expiresAt).toISOString()}`;
+  return `- ${entry.hash.slice(0, 12)} | ${entry.logicalTaskName} | ${entry.model} | ${entry.sizeBytes} bytes | created ${new Date(entry.createdAt).toISOString()} | ${expiry} | "${entry.promptPreview}"`;
+}
+
+// --- Tool Executor ---
+
+/**
+ * Inspects or clears the on-disk LLM response cache.
+ */
+export const manageLlmCache: ToolExecutor = async (
+  params: Record<string, unknown>,
+  // Config and context are not used for this tool
+): Promise<CallToolResult> => {
+  const { action = 'inspect', expiredOnly = false, limit = 20 } = params as {
+    action?: 'inspect' | 'clear';
+    expiredOnly?: boolean;
+    limit?: number;
+  };
+  const options = llmCache.getOptions();
+
+  if (action === 'clear') {
+    const removed = await llmCache.clear(expiredOnly);
+    return {
+      content: [{ type: 'text', text: `Removed ${removed} ${expiredOnly ? 'expired ' : ''}cached LLM response(s) from ${options.directory}.` }],
+      isError: false
+    };
+  }
+
+  const entries = await llmCache.list();
+  logger.info({ entryCount: entries.length, directory: options.directory }, 'Inspected LLM response cache.');
+
+  const now = Date.now();
+  const totalSize = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+  const expiredCount = entries.filter(entry => entry.expiresAt <= now).length;
+  const lines = [
+    `LLM response cache is ${options.enabled ? 'enabled' : 'disabled (set VIBE_CODER_LLM_CACHE=disk to enable it)'}.`,
+    `Directory: ${options.directory}`,
+    `Entries: ${entries.length} (${expiredCount} expired), ${totalSize} bytes${options.maxSizeBytes > 0 ? ` of ${options.maxSizeBytes} allowed` : ''}.`,
+  ];
+  if (entries.length > 0) {
+    lines.push('', `Newest ${Math.min(limit, entries.length)} entries:`, ...entries.slice(0, limit).map(entry => formatEntryLine(entry, now)));
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: false
+  };
+};
+
+// --- Tool Registration ---
+const manageLlmCacheToolDefinition: ToolDefinition = {
+  name: "manage-llm-cache",
+  description: "Inspects the on-disk LLM response cache (entries, sizes, expiry) or clears it, optionally only its expired entries.",
+  inputSchema: manageLlmCacheInputSchemaShape,
+  executor: manageLlmCache
+};
+
+registerTool(manageLlmCacheToolDefinition);
+
+logger.info("Registered tool: manage-llm-cache");
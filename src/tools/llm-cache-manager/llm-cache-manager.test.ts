@@ -0,0 +1,60 @@
+// src/tools/llm-cache-manager/llm-cache-manager.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { manageLlmCache } from './index.js';
+import { llmCache, DEFAULT_LLM_CACHE_OPTIONS } from '../../services/llm-cache/index.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+// Mock the logger
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('manageLlmCache Tool Executor', () => {
+  const mockConfig: OpenRouterConfig = {
+    baseUrl: 'mock-url',
+    apiKey: 'mock-key',
+    geminiModel: 'mock-gemini',
+    perplexityModel: 'mock-perplexity',
+  };
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-tool-'));
+    llmCache.configure({ ...DEFAULT_LLM_CACHE_OPTIONS, enabled: true, directory: cacheDir });
+  });
+
+  afterEach(() => {
+    llmCache.configure(DEFAULT_LLM_CACHE_OPTIONS);
+    fs.removeSync(cacheDir);
+  });
+
+  it('should list cached responses', async () => {
+    await llmCache.set({ model: 'mock/model', systemPrompt: 'system', prompt: 'A todo app', temperature: 0.1 }, 'answer', 'prd_generation');
+
+    const result = await manageLlmCache({ action: 'inspect', limit: 20 }, mockConfig);
+    const text = result.content[0]?.text as string;
+
+    expect(result.isError).toBe(false);
+    expect(text).toContain('LLM response cache is enabled.');
+    expect(text).toContain('Entries: 1 (0 expired)');
+    expect(text).toContain('| prd_generation | mock/model |');
+    expect(text).toContain('"A todo app"');
+  });
+
+  it('should clear the cache', async () => {
+    await llmCache.set({ model: 'mock/model', systemPrompt: 'system', prompt: 'A todo app', temperature: 0.1 }, 'answer', 'prd_generation');
+
+    const result = await manageLlmCache({ action: 'clear' }, mockConfig);
+
+    expect(result.content[0]?.text).toBe(`Removed 1 cached LLM response(s) from ${cacheDir}.`);
+    expect(await llmCache.list()).toEqual([]);
+  });
+});
@@ -8,9 +8,9 @@ import { performDirectLlmCall } from '../../utils/llmHelper.js'; // Import the n
 import { performResearchQuery } from '../../utils/researchHelper.js';
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
-import { AppError, ApiError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
+import { AppError, ApiError, CancellationError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // PRD-specific system prompt (Exported for testing)
 export const PRD_SYSTEM_PROMPT = `
@@ -126,7 +126,7 @@ export const generatePRD: ToolExecutor = async (
   const productDescription = params.productDescription as string; // Assert type after validation
 
   // ---> Step 2.5(PRD).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('generate-prd', params);
+  const jobId = jobManager.createJob('generate-prd', params, { sessionId, progressToken: context?.progressToken });
   logger.info({ jobId, tool: 'generatePRD', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -136,15 +136,15 @@ export const generatePRD: ToolExecutor = async (
   };
 
   // ---> Step 2.5(PRD).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
     let filePath: string = ''; // Define filePath in outer scope for catch block
+    const signal = jobManager.getAbortSignal(jobId);
 
     // ---> Step 2.5(PRD).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(PRD).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting PRD generation process...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting PRD generation process...');
       logs.push(`[${new Date().toISOString()}] Starting PRD generation for: ${productDescription.substring(0, 50)}...`);
 
       // Ensure directories are initialized before writing
@@ -159,7 +159,6 @@ export const generatePRD: ToolExecutor = async (
       // ---> Step 2.5(PRD).6: Add Progress Updates (Research Start) <---
       logger.info({ jobId, inputs: { productDescription: productDescription.substring(0, 50) } }, "PRD Generator: Starting pre-generation research...");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
       logs.push(`[${new Date().toISOString()}] Starting pre-generation research.`);
 
       let researchContext = '';
@@ -171,9 +170,9 @@ export const generatePRD: ToolExecutor = async (
       
       // Execute research queries in parallel using Perplexity
       const researchResults = await Promise.allSettled([
-        performResearchQuery(query1, config), // Uses config.perplexityModel (perplexity/sonar-deep-research)
-        performResearchQuery(query2, config),
-        performResearchQuery(query3, config)
+        performResearchQuery(query1, config, signal), // Uses config.perplexityModel (perplexity/sonar-deep-research)
+        performResearchQuery(query2, config, signal),
+        performResearchQuery(query3, config, signal)
       ]);
       
       // Process research results
@@ -193,7 +192,6 @@ export const generatePRD: ToolExecutor = async (
       // ---> Step 2.5(PRD).6: Add Progress Updates (Research End) <---
       logger.info({ jobId }, "PRD Generator: Pre-generation research completed.");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research complete. Starting main PRD generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research complete. Starting main PRD generation...');
       logs.push(`[${new Date().toISOString()}] Pre-generation research completed.`);
 
     } catch (researchError) {
@@ -201,8 +199,9 @@ export const generatePRD: ToolExecutor = async (
       logs.push(`[${new Date().toISOString()}] Error during research aggregation: ${researchError instanceof Error ? researchError.message : String(researchError)}`);
       // Include error in context but continue
       researchContext = "## Pre-Generation Research Context:\n*Error occurred during research phase.*\n\n";
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
     }
+    signal?.throwIfAborted();
 
     // Create the main generation prompt with combined research and inputs
     const mainGenerationPrompt = `Create a comprehensive PRD for the following product:\n\n${productDescription}\n\n${researchContext}`;
@@ -210,7 +209,6 @@ export const generatePRD: ToolExecutor = async (
     // ---> Step 2.5(PRD).6: Add Progress Updates (LLM Call Start) <---
     logger.info({ jobId }, "PRD Generator: Starting main generation using direct LLM call...");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating PRD content via LLM...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating PRD content via LLM...');
     logs.push(`[${new Date().toISOString()}] Calling LLM for main PRD generation.`);
 
     const prdMarkdown = await performDirectLlmCall(
@@ -218,13 +216,16 @@ export const generatePRD: ToolExecutor = async (
       PRD_SYSTEM_PROMPT, // Pass the system prompt
       config,
       'prd_generation', // Logical task name
-      0.3 // Slightly higher temp might be okay for PRD text
+      0.3, // Slightly higher temp might be okay for PRD text
+      signal,
+      undefined,
+      true // Stream the PRD into the job's partial output, so get-job-result shows it while it is written
     );
+    signal?.throwIfAborted();
 
     // ---> Step 2.5(PRD).6: Add Progress Updates (LLM Call End) <---
     logger.info({ jobId }, "PRD Generator: Main generation completed.");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Processing LLM response...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Processing LLM response...');
     logs.push(`[${new Date().toISOString()}] Received response from LLM.`);
 
     // Basic validation: Check if the output looks like Markdown and contains expected elements
@@ -240,14 +241,13 @@ export const generatePRD: ToolExecutor = async (
     // ---> Step 2.5(PRD).6: Add Progress Updates (Saving File) <---
     logger.info({ jobId }, `Saving PRD to ${filePath}...`);
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Saving PRD to file...`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Saving PRD to file...`);
     logs.push(`[${new Date().toISOString()}] Saving PRD to ${filePath}.`);
 
     // Save the result
     await fs.writeFile(filePath, formattedResult, 'utf8');
     logger.info({ jobId }, `PRD generated and saved to ${filePath}`);
     logs.push(`[${new Date().toISOString()}] PRD saved successfully.`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `PRD saved successfully.`);
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `PRD saved successfully.`);
 
     // ---> Step 2.5(PRD).7: Update Final Result/Error Handling (Set Success Result) <---
     const finalResult: CallToolResult = {
@@ -260,6 +260,16 @@ export const generatePRD: ToolExecutor = async (
 
     // ---> Step 2.5(PRD).7: Update Final Result/Error Handling (Catch Block) <---
     } catch (error) {
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients; the streamed PRD stays in the partial output
+        logger.info({ jobId, tool: 'generate-prd' }, 'PRD generation job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: 'PRD generation was cancelled before the PRD was saved.' }],
+          isError: false
+        });
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'generate-prd', params }, `PRD Generator Error: ${errorMsg}`);
       logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -282,10 +292,8 @@ export const generatePRD: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -8,7 +8,6 @@ import { ApiError, AppError, ToolExecutionError } from '../../../utils/errors.js
 import fs from 'fs-extra';
 import logger from '../../../logger.js';
 import { jobManager, JobStatus } from '../../../services/job-manager/index.js'; // Import Job Manager
-import { sseNotifier } from '../../../services/sse-notifier/index.js'; // Import SSE Notifier
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import CallToolResult
 
 // Mock dependencies
@@ -88,7 +87,7 @@ describe('PRD Generator Tool Executor (Async)', () => {
     const initialResult = await generatePRD(params, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`PRD generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-prd', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-prd', params, { sessionId: mockContext.sessionId });
 
     // Verify underlying logic not called yet
     expect(mockPerformResearchQuery).not.toHaveBeenCalled();
@@ -126,10 +125,10 @@ describe('PRD Generator Tool Executor (Async)', () => {
     expect(finalResultArgs[1].content[0]?.text).toContain(mockGeneratedPRD);
 
     // 5. Verify SSE Calls (basic)
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting PRD generation'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating PRD content via LLM'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving PRD to file'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting PRD generation'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating PRD content via LLM'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving PRD to file'));
   });
 
   it('should handle research failures gracefully (async)', async () => {
@@ -152,7 +151,7 @@ describe('PRD Generator Tool Executor (Async)', () => {
     expect(mockWriteFile).toHaveBeenCalledTimes(1); // File should still be saved
     expect(jobManager.setJobResult).toHaveBeenCalledTimes(1); // Job should complete successfully
     expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].isError).toBe(false);
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
   });
 
   it('should set job to FAILED if direct LLM call throws error (async)', async () => {
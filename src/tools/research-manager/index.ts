@@ -8,9 +8,9 @@ import { performResearchQuery } from '../../utils/researchHelper.js';
 import { performDirectLlmCall } from '../../utils/llmHelper.js'; // Import the new helper
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
-import { AppError, ApiError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
+import { AppError, ApiError, CancellationError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // Helper function to get the base output directory
 function getBaseOutputDir(): string {
@@ -24,6 +24,10 @@ function getBaseOutputDir(): string {
 // Define tool-specific directory using the helper
 const RESEARCH_DIR = path.join(getBaseOutputDir(), 'research-manager');
 
+// Phases reported as structured job progress, in execution order
+const RESEARCH_PHASES = ['initial research', 'enhancement', 'validation', 'saving'] as const;
+type ResearchPhase = typeof RESEARCH_PHASES[number];
+
 // Initialize directories if they don't exist
 export async function initDirectories() {
   const baseOutputDir = getBaseOutputDir();
@@ -126,7 +130,7 @@ export const performResearch: ToolExecutor = async (
   const query = params.query as string;
 
   // ---> Step 2.5(RM).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('research', params); // Use original tool name 'research'
+  const jobId = jobManager.createJob('research', params, { sessionId, progressToken: context?.progressToken }); // Use original tool name 'research'
   logger.info({ jobId, tool: 'research', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -136,15 +140,18 @@ export const performResearch: ToolExecutor = async (
   };
 
   // ---> Step 2.5(RM).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
     let filePath: string = ''; // Define filePath in outer scope for catch block
+    let researchResult = ''; // Initial findings, returned as partial output if the job is cancelled
+    const signal = jobManager.getAbortSignal(jobId);
+    const reportPhase = (phase: ResearchPhase, message: string) =>
+      jobManager.updateJobProgress(jobId, { phase, completed: RESEARCH_PHASES.indexOf(phase), total: RESEARCH_PHASES.length }, message);
 
     // ---> Step 2.5(RM).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(RM).6: Add Progress Updates (Initial) <---
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting research process...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting research process...');
+      reportPhase('initial research', 'Starting research process...');
       logs.push(`[${new Date().toISOString()}] Starting research for: ${query.substring(0, 50)}...`);
 
       // Ensure directories are initialized before writing
@@ -158,17 +165,17 @@ export const performResearch: ToolExecutor = async (
 
       // ---> Step 2.5(RM).6: Add Progress Updates (Perplexity Call Start) <---
       logger.info({ jobId }, `Performing initial research query via Perplexity: ${query.substring(0, 50)}...`);
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing initial research query via Perplexity...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing initial research query via Perplexity...');
+      reportPhase('initial research', 'Performing initial research query via Perplexity...');
       logs.push(`[${new Date().toISOString()}] Calling Perplexity for initial research.`);
 
       // Use Perplexity model for research via centralized helper
-      const researchResult = await performResearchQuery(query, config);
+      // Streamed into the job's partial output, so get-job-result shows the findings while they arrive
+      researchResult = await performResearchQuery(query, config, signal, undefined, true);
+      signal?.throwIfAborted();
 
       // ---> Step 2.5(RM).6: Add Progress Updates (Perplexity Call End / LLM Call Start) <---
       logger.info({ jobId }, "Research Manager: Initial research complete. Enhancing results using direct LLM call...");
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Initial research complete. Enhancing results via LLM...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Initial research complete. Enhancing results via LLM...');
+      reportPhase('enhancement', 'Initial research complete. Enhancing results via LLM...');
       logs.push(`[${new Date().toISOString()}] Perplexity research complete. Calling LLM for enhancement.`);
 
       const enhancementPrompt = `Synthesize and structure the following initial research findings based on the original query.\n\nOriginal Query: ${query}\n\nInitial Research Findings:\n${researchResult}`;
@@ -178,13 +185,16 @@ export const performResearch: ToolExecutor = async (
       RESEARCH_SYSTEM_PROMPT, // System prompt guides the structuring
       config,
       'research_enhancement', // Define a logical task name for potential mapping
-      0.4 // Slightly higher temp for synthesis might be okay
+      0.4, // Slightly higher temp for synthesis might be okay
+      signal,
+      undefined,
+      true // Stream the report after the initial findings
     );
+    signal?.throwIfAborted();
 
     // ---> Step 2.5(RM).6: Add Progress Updates (LLM Call End) <---
     logger.info({ jobId }, "Research Manager: Enhancement completed.");
-    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Processing enhanced research...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Processing enhanced research...');
+    reportPhase('validation', 'Processing enhanced research...');
     logs.push(`[${new Date().toISOString()}] LLM enhancement complete.`);
 
     // Basic validation
@@ -199,15 +209,14 @@ export const performResearch: ToolExecutor = async (
 
     // ---> Step 2.5(RM).6: Add Progress Updates (Saving File) <---
     logger.info({ jobId }, `Saving research to ${filePath}...`);
-    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Saving research to file...`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Saving research to file...`);
+    reportPhase('saving', `Saving research to file...`);
     logs.push(`[${new Date().toISOString()}] Saving research to ${filePath}.`);
 
     // Save the result
     await fs.writeFile(filePath, formattedResult, 'utf8');
     logger.info({ jobId }, `Research result saved to ${filePath}`);
     logs.push(`[${new Date().toISOString()}] Research saved successfully.`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Research saved successfully.`);
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Research saved successfully.`);
 
     // ---> Step 2.5(RM).7: Update Final Result/Error Handling (Set Success Result) <---
     const finalResult: CallToolResult = {
@@ -220,6 +229,18 @@ export const performResearch: ToolExecutor = async (
 
     // ---> Step 2.5(RM).7: Update Final Result/Error Handling (Catch Block) <---
     } catch (error) {
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients; keep the partial output
+        logger.info({ jobId, tool: 'research', query }, 'Research job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: researchResult
+            ? `Research was cancelled before enhancement. Initial research findings:\n\n${researchResult}`
+            : 'Research was cancelled before any findings were returned.' }],
+          isError: false
+        });
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'research', query }, `Research Manager Error: ${errorMsg}`);
       logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -241,10 +262,8 @@ export const performResearch: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -8,9 +8,9 @@ import { performDirectLlmCall } from '../../utils/llmHelper.js'; // Import the n
 import { performResearchQuery } from '../../utils/researchHelper.js';
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
-import { AppError, ApiError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
+import { AppError, ApiError, CancellationError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // Rules generator-specific system prompt
 const RULES_SYSTEM_PROMPT = `
@@ -132,7 +132,7 @@ export const generateRules: ToolExecutor = async (
   const ruleCategories = params.ruleCategories as string[] | undefined;
 
   // ---> Step 2.5(Rules).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('generate-rules', params);
+  const jobId = jobManager.createJob('generate-rules', params, { sessionId });
   logger.info({ jobId, tool: 'generateRules', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -142,15 +142,15 @@ export const generateRules: ToolExecutor = async (
   };
 
   // ---> Step 2.5(Rules).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
     let filePath: string = ''; // Define filePath in outer scope for catch block
+    const signal = jobManager.getAbortSignal(jobId);
 
     // ---> Step 2.5(Rules).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(Rules).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting rules generation process...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting rules generation process...');
       logs.push(`[${new Date().toISOString()}] Starting rules generation for: ${productDescription.substring(0, 50)}...`);
 
       // Ensure directories are initialized before writing
@@ -165,7 +165,6 @@ export const generateRules: ToolExecutor = async (
       // ---> Step 2.5(Rules).6: Add Progress Updates (Research Start) <---
       logger.info({ jobId, inputs: { productDescription: productDescription.substring(0, 50), userStories: userStories?.substring(0, 50), ruleCategories } }, "Rules Generator: Starting pre-generation research...");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
       logs.push(`[${new Date().toISOString()}] Starting pre-generation research.`);
 
       let researchContext = '';
@@ -194,9 +193,9 @@ export const generateRules: ToolExecutor = async (
       
       // Execute research queries in parallel using Perplexity
       const researchResults = await Promise.allSettled([
-        performResearchQuery(query1, config), // Uses config.perplexityModel (perplexity/sonar-deep-research)
-        performResearchQuery(query2, config),
-        performResearchQuery(query3, config)
+        performResearchQuery(query1, config, signal), // Uses config.perplexityModel (perplexity/sonar-deep-research)
+        performResearchQuery(query2, config, signal),
+        performResearchQuery(query3, config, signal)
       ]);
       
       // Process research results
@@ -216,7 +215,6 @@ export const generateRules: ToolExecutor = async (
       // ---> Step 2.5(Rules).6: Add Progress Updates (Research End) <---
       logger.info({ jobId }, "Rules Generator: Pre-generation research completed.");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research complete. Starting main rules generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research complete. Starting main rules generation...');
       logs.push(`[${new Date().toISOString()}] Pre-generation research completed.`);
 
     } catch (researchError) {
@@ -224,8 +222,9 @@ export const generateRules: ToolExecutor = async (
       logs.push(`[${new Date().toISOString()}] Error during research aggregation: ${researchError instanceof Error ? researchError.message : String(researchError)}`);
       // Include error in context but continue
       researchContext = "## Pre-Generation Research Context:\n*Error occurred during research phase.*\n\n";
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
     }
+    signal?.throwIfAborted();
 
     // Create the main generation prompt with combined research and inputs
     let mainGenerationPrompt = `Create a comprehensive set of development rules for the following product:\n\n${productDescription}`;
@@ -245,7 +244,6 @@ export const generateRules: ToolExecutor = async (
     // ---> Step 2.5(Rules).6: Add Progress Updates (LLM Call Start) <---
     logger.info({ jobId }, "Rules Generator: Starting main generation using direct LLM call...");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating rules content via LLM...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating rules content via LLM...');
     logs.push(`[${new Date().toISOString()}] Calling LLM for main rules generation.`);
 
     const rulesMarkdown = await performDirectLlmCall(
@@ -253,13 +251,14 @@ export const generateRules: ToolExecutor = async (
       RULES_SYSTEM_PROMPT, // Pass the system prompt
       config,
       'rules_generation', // Logical task name
-      0.2 // Low temperature for structured rules
+      0.2, // Low temperature for structured rules
+      signal
     );
+    signal?.throwIfAborted();
 
     // ---> Step 2.5(Rules).6: Add Progress Updates (LLM Call End) <---
     logger.info({ jobId }, "Rules Generator: Main generation completed.");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Processing LLM response...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Processing LLM response...');
     logs.push(`[${new Date().toISOString()}] Received response from LLM.`);
 
     // Basic validation: Check if the output looks like Markdown and contains expected elements
@@ -275,14 +274,13 @@ export const generateRules: ToolExecutor = async (
     // ---> Step 2.5(Rules).6: Add Progress Updates (Saving File) <---
     logger.info({ jobId }, `Saving rules to ${filePath}...`);
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Saving rules to file...`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Saving rules to file...`);
     logs.push(`[${new Date().toISOString()}] Saving rules to ${filePath}.`);
 
     // Save the result
     await fs.writeFile(filePath, formattedResult, 'utf8');
     logger.info({ jobId }, `Rules generated and saved to ${filePath}`);
     logs.push(`[${new Date().toISOString()}] Rules saved successfully.`);
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Rules saved successfully.`);
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Rules saved successfully.`);
 
     // ---> Step 2.5(Rules).7: Update Final Result/Error Handling (Set Success Result) <---
     const finalResult: CallToolResult = {
@@ -295,6 +293,16 @@ export const generateRules: ToolExecutor = async (
 
     // ---> Step 2.5(Rules).7: Update Final Result/Error Handling (Catch Block) <---
     } catch (error) {
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients
+        logger.info({ jobId, tool: 'generate-rules' }, 'Rules generation job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: 'Development rules generation was cancelled before the rules were saved.' }],
+          isError: false
+        });
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'generate-rules', params }, `Rules Generator Error: ${errorMsg}`);
       logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -317,10 +325,8 @@ export const generateRules: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
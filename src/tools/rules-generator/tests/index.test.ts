@@ -6,7 +6,6 @@ import * as researchHelper from '../../../utils/researchHelper.js';
 import * as llmHelper from '../../../utils/llmHelper.js'; // Import the new helper
 import fs from 'fs-extra';
 import { jobManager, JobStatus } from '../../../services/job-manager/index.js'; // Import Job Manager
-import { sseNotifier } from '../../../services/sse-notifier/index.js'; // Import SSE Notifier
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import CallToolResult
 import { ApiError, ToolExecutionError } from '../../../utils/errors.js'; // Import necessary errors
 import logger from '../../../logger.js'; // Import logger
@@ -94,7 +93,7 @@ describe('Rules Generator (Async)', () => {
     const initialResult = await generateRules(params, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`Development rules generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-rules', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-rules', params, { sessionId: mockContext.sessionId });
 
     // Verify underlying logic not called yet
     expect(mockPerformResearchQuery).not.toHaveBeenCalled();
@@ -135,10 +134,10 @@ describe('Rules Generator (Async)', () => {
     expect(finalResultArgs[1].content[0]?.text).toContain(mockGeneratedRules);
 
     // 5. Verify SSE Calls (basic)
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting rules generation'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating rules content via LLM'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving rules to file'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting rules generation'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating rules content via LLM'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving rules to file'));
   });
 
   it('should handle custom rule categories in the research process (async)', async () => {
@@ -181,7 +180,7 @@ describe('Rules Generator (Async)', () => {
     expect(mockWriteFile).toHaveBeenCalledTimes(1); // File should still be saved
     expect(jobManager.setJobResult).toHaveBeenCalledTimes(1); // Job should complete successfully
     expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].isError).toBe(false);
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
   });
 
   it('should set job to FAILED if direct LLM call throws error (async)', async () => {
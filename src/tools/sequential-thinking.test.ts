@@ -6,9 +6,10 @@ import axios from 'axios'; // Import axios to mock it
 // Import the REAL function we are testing
 import { processWithSequentialThinking, getNextThought, SEQUENTIAL_THINKING_SYSTEM_PROMPT } from './sequential-thinking.js'; // Added getNextThought
 import { OpenRouterConfig } from '../types/workflow.js';
-import { ValidationError, ParsingError, FallbackError, ApiError } from '../utils/errors.js'; // Added FallbackError, ApiError
+import { ValidationError, ParsingError, FallbackError, ApiError, BudgetExceededError } from '../utils/errors.js'; // Added FallbackError, ApiError
 import logger from '../logger.js';
 import { SequentialThought as ZodSequentialThought } from '../types/sequentialThought.js';
+import { usageTracker } from '../services/usage-tracker/index.js';
 
 // Mock axios globally for this test suite
 vi.mock('axios');
@@ -103,11 +104,12 @@ describe('processWithSequentialThinking', () => {
 
      expect(result).toBe('Successful Retry Answer');
      expect(mockedAxiosPost).toHaveBeenCalledTimes(2);
-     // Verify the second call's prompt contains the error message with type assertion
-     expect((mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages[1].content).toContain('Your previous attempt (attempt 1) failed with this error');
-     expect((mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages[1].content).toContain('LLM output was not valid JSON'); // Check for ParsingError message
-     expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ err: expect.any(ParsingError), attempt: 1 }), expect.stringContaining('Attempt 1 to get thought'));
-     expect(vi.mocked(logger.info)).toHaveBeenCalledWith(expect.stringContaining('Retrying thought generation (attempt 2)...'));
+     // Verify the retry sends the invalid answer back together with the parsing error
+     const retryMessages = (mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages;
+     expect(retryMessages[2]).toEqual({ role: 'assistant', content: '{ bad json' });
+     expect(retryMessages[3].role).toBe('user');
+     expect(retryMessages[3].content).toContain('LLM output was not valid JSON'); // Check for ParsingError message
+     expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ err: expect.any(ParsingError), attempt: 1 }), expect.stringContaining('asking the model to correct it'));
    });
 
    it('should retry on validation error (schema mismatch) and succeed on retry', async () => {
@@ -120,11 +122,11 @@ describe('processWithSequentialThinking', () => {
 
     expect(result).toBe('Successful Retry Answer');
     expect(mockedAxiosPost).toHaveBeenCalledTimes(2);
-    // Verify the second call's prompt contains the error message with type assertion
-    expect((mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages[1].content).toContain('Your previous attempt (attempt 1) failed with this error');
-    expect((mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages[1].content).toContain('Sequential thought validation failed'); // Check for ValidationError message
-    expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ err: expect.any(ValidationError), attempt: 1 }), expect.stringContaining('Attempt 1 to get thought'));
-    expect(vi.mocked(logger.info)).toHaveBeenCalledWith(expect.stringContaining('Retrying thought generation (attempt 2)...'));
+    // Verify the retry lists the Zod issues of the invalid answer
+    const retryMessages = (mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] }).messages;
+    expect(retryMessages[3].content).toContain("- next_thought_needed: The 'next_thought_needed' field is required.");
+    expect(retryMessages[3].content).toContain('- thought_number:');
+    expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.objectContaining({ err: expect.any(ValidationError), attempt: 1 }), expect.stringContaining('asking the model to correct it'));
   });
 
 
@@ -148,7 +150,11 @@ describe('processWithSequentialThinking', () => {
        expect(vi.mocked(logger.error)).toHaveBeenCalledWith(
          expect.objectContaining({ message: 'Sequential thinking aborted due to persistent LLM formatting error (FallbackError). Not retrying.' }),
        );
-       expect(vi.mocked(logger.warn)).toHaveBeenCalledTimes(1); // Called for the first failed attempt in getNextThought
+       // The first invalid answer was sent back for correction once
+       expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(
+         expect.objectContaining({ err: expect.any(ParsingError), attempt: 1 }),
+         expect.stringContaining('asking the model to correct it')
+       );
    });
 
    it('should fail immediately on API error without retrying', async () => {
@@ -341,4 +347,42 @@ describe('processWithSequentialThinking', () => {
      );
    });
 
+   // --- Tests for the LLM budget ---
+   describe('when the LLM budget runs out', () => {
+     // Each thought uses 100 tokens and may use up to 20 more; the task budget allows starting two thoughts
+     const budgetConfig: OpenRouterConfig = {
+       ...mockConfig,
+       llm_mapping: { sequential_thought_generation: { model: 'mock-gemini', max_tokens: 20, budget: { daily_tokens: 150 } } },
+     };
+     const createMockApiResponseWithUsage = (content: ZodSequentialThought) => ({
+       data: { ...createMockApiResponse(content).data, usage: { prompt_tokens: 80, completion_tokens: 20 } }
+     });
+
+     beforeEach(() => {
+       usageTracker.reset();
+     });
+
+     it('should stop generating thoughts and return the last thought', async () => {
+       mockedAxiosPost
+         .mockResolvedValueOnce(createMockApiResponseWithUsage({ thought: 'Step 1', next_thought_needed: true, thought_number: 1, total_thoughts: 3 }))
+         .mockResolvedValueOnce(createMockApiResponseWithUsage({ thought: 'Step 2', next_thought_needed: true, thought_number: 2, total_thoughts: 3 }));
+
+       const result = await processWithSequentialThinking(baseUserPrompt, budgetConfig);
+
+       expect(result).toBe('Step 2');
+       expect(mockedAxiosPost).toHaveBeenCalledTimes(2);
+       expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(
+         expect.objectContaining({ err: expect.any(BudgetExceededError), thoughtsGenerated: 2 }),
+         expect.stringContaining('because the LLM budget ran out')
+       );
+     });
+
+     it('should throw BudgetExceededError if the budget is used up before the first thought', async () => {
+       usageTracker.record('mock-gemini', 'sequential_thought_generation', { promptTokens: 150, completionTokens: 0 });
+
+       await expect(processWithSequentialThinking(baseUserPrompt, budgetConfig)).rejects.toThrow(BudgetExceededError);
+       expect(mockedAxiosPost).not.toHaveBeenCalled();
+     });
+   });
+
 });
@@ -1,10 +1,9 @@
-import axios, { AxiosError } from 'axios';
 import { OpenRouterConfig } from '../types/workflow.js';
 import logger from '../logger.js';
 import { sequentialThoughtSchema, SequentialThought as ZodSequentialThought } from '../types/sequentialThought.js';
 // Removed ValidationIssue from import as it's no longer exported/used here
-import { ApiError, ParsingError, ValidationError, AppError, FallbackError } from '../utils/errors.js';
-import { selectModelForTask } from '../utils/configLoader.js'; // Import the new utility
+import { ApiError, ParsingError, ValidationError, AppError, FallbackError, BudgetExceededError } from '../utils/errors.js';
+import { performStructuredLlmCall } from '../utils/llmHelper.js';
 
 // Removed internal SequentialThought interface as ZodSequentialThought is now the source of truth.
 
@@ -35,12 +34,14 @@ Your response MUST be a valid JSON object with ONLY these fields:
 `;
 
 /**
- * Process a task using sequential thinking
+ * Process a task using sequential thinking. Thinking stops early when the LLM budget runs out
+ * (see `llm_budget`); the last thought generated so far is then the result.
  *
  * @param userPrompt The prompt to send to the model
  * @param config OpenRouter configuration
  * @param systemPrompt Optional additional system prompt to add to the sequential thinking prompt
  * @returns The final result of the sequential thinking process
+ * @throws BudgetExceededError if the budget is used up before the first thought
  */
 export async function processWithSequentialThinking(
   userPrompt: string,
@@ -91,6 +92,7 @@ export async function processWithSequentialThinking(
     let lastError: Error | null = null;
     let currentPromptForLLM = initialPrompt; // Use a mutable variable for the prompt
     let nextThought: ZodSequentialThought | null = null; // Initialize as null, use Zod type
+    let budgetError: BudgetExceededError | null = null;
 
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
       try {
@@ -108,10 +110,19 @@ export async function processWithSequentialThinking(
 
         // NEW: Catch FallbackError specifically and abort immediately
         if (error instanceof FallbackError) {
-            logger.error({ err: error, rawContent: error.rawContent }, "Sequential thinking aborted due to persistent LLM formatting error (FallbackError). Not retrying.");
+            logger.error({ message: "Sequential thinking aborted due to persistent LLM formatting error (FallbackError). Not retrying.", err: error, rawContent: error.rawContent });
             throw error; // Re-throw immediately to abort the process
         }
 
+        // Stop thinking when the budget runs out, keeping the thoughts so far if there are any
+        else if (error instanceof BudgetExceededError) {
+          if (thoughts.length === 0) {
+            throw error;
+          }
+          budgetError = error;
+          break;
+        }
+
         // Don't retry on API errors - they are terminal failures
         else if (error instanceof ApiError) { // Changed to else if
           logger.error({ err: error }, "API error occurred - not retrying");
@@ -142,6 +153,11 @@ export async function processWithSequentialThinking(
       } // End catch block
     } // End for loop
 
+    if (budgetError !== null) {
+      logger.warn({ err: budgetError, thoughtsGenerated: thoughts.length }, `Sequential thinking stopped after ${thoughts.length} thoughts because the LLM budget ran out. Using the last thought as the result.`);
+      break;
+    }
+
     // If all retries failed, throw the last error encountered
     if (lastError !== null) {
       throw lastError;
@@ -219,8 +235,10 @@ function extractFallbackThoughtText(rawContent: string): string {
 
 
 /**
- * Get the next thought from the AI, with retry logic for specific network errors.
+ * Get the next thought from the AI. Transient network errors and rate limits are retried by the LLM resilience layer;
+ * an answer that is not a valid thought is sent back to the model for correction once.
  * @param currentThoughtNumber The number of the thought being requested (for fallback context).
+ * @throws FallbackError if the answer is still not a valid thought after the correction.
  */
 export async function getNextThought( // Added export back
   prompt: string,
@@ -229,216 +247,40 @@ export async function getNextThought( // Added export back
   currentThoughtNumber: number // Added parameter
 ): Promise<ZodSequentialThought> {
   const logicalTaskName = 'sequential_thought_generation';
-  const maxRetries = 2; // 1 initial attempt + 1 retry
-  let lastError: Error | null = null;
-  // Removed outer declaration: let rawContent: string | undefined;
-
-  // Select the model using the utility function
-  const defaultModel = config.geminiModel || "google/gemini-2.0-flash-001"; // Ensure a default model exists
-  const modelToUse = selectModelForTask(config, logicalTaskName, defaultModel);
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try { // Inner try for each attempt
-      logger.debug(`Attempt ${attempt}/${maxRetries} to call OpenRouter for sequential thought using model ${modelToUse}...`);
-      const response = await axios.post(
-        `${config.baseUrl}/chat/completions`,
-        {
-        model: modelToUse, // Use selected model
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        response_format: { type: "json_object" },
-        max_tokens: 2000,
-        temperature: 0.5 // Reduced temperature
-      },
-        {
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${config.apiKey}`,
-            "HTTP-Referer": "https://vibe-coder-mcp.local"
-          }
-        }
-      );
-
-      // Extract the response
-      if (response.data.choices && response.data.choices.length > 0) {
-        // Declare rawContent locally within this block
-        const rawContent = response.data.choices[0].message.content;
-
-        // --- Clean rawContent: Strip fences and find JSON object ---
-        let jsonContent = rawContent.trim(); // Default to trimmed raw
-        let cleaned = false;
-        const firstBrace = rawContent.indexOf('{');
-        const lastBrace = rawContent.lastIndexOf('}');
-
-        if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-            const extracted = rawContent.substring(firstBrace, lastBrace + 1);
-            // Basic check if the extracted part looks like JSON
-            if (extracted.startsWith('{') && extracted.endsWith('}')) {
-                 jsonContent = extracted;
-                 if (jsonContent !== rawContent.trim()) {
-                     logger.debug({ raw: rawContent, cleaned: jsonContent }, "Stripped potential garbage/fences from LLM JSON response.");
-                     cleaned = true;
-                 }
-            } else {
-                 logger.warn({ raw: rawContent }, "Found braces but extracted content doesn't look like JSON, using trimmed raw content for parsing.");
-                 jsonContent = rawContent.trim();
-            }
-        } else {
-             logger.warn({ raw: rawContent }, "Could not find expected JSON object braces, attempting to parse trimmed raw content.");
-             jsonContent = rawContent.trim();
-        }
-        // --- End Cleaning ---
-
-        let parsedContent: unknown; // Keep this one
-        let validationResult: Zod.SafeParseReturnType<unknown, ZodSequentialThought>; // Define type for validation result
-
-        try {
-          // Attempt to parse the potentially cleaned content
-          parsedContent = JSON.parse(jsonContent); // Use cleaned content
-
-          // Attempt to validate the parsed content
-          validationResult = sequentialThoughtSchema.safeParse(parsedContent);
-
-          if (validationResult.success) {
-            logger.debug('Sequential thought successfully parsed and validated.');
-            return validationResult.data; // Success! Exit loop and function.
-          } else {
-            // Zod validation failed
-            logger.error({
-              message: 'Zod validation failed for SequentialThought',
-              errors: validationResult.error.issues,
-              rawContent: rawContent,
-            }, 'Sequential thought schema validation failed');
-            // Throw specific validation error to be caught below
-            // Pass Zod's issues directly to ValidationError constructor
-            throw new ValidationError(
-              `Sequential thought validation failed: ${validationResult.error.message}`,
-              validationResult.error.issues, // Pass ZodIssue[] directly
-              // Add both raw and cleaned content to context for debugging
-              { rawContent: rawContent, cleanedContent: cleaned ? jsonContent : undefined }
-            );
-          }
-        } catch (parseOrValidationError) {
-          // Catch both JSON.parse SyntaxError and thrown ValidationError
-          // We know local 'rawContent' and 'jsonContent' are defined here.
-          logger.warn({
-            message: 'JSON parsing or validation failed in getNextThought attempt',
-            error: parseOrValidationError instanceof Error ? parseOrValidationError.message : String(parseOrValidationError),
-            rawContent: rawContent,
-            cleanedContent: cleaned ? jsonContent : undefined, // Log cleaned content if applicable
-            attempt: attempt,
-          });
-
-          // Re-throw specific errors with context for the outer catch
-          const errorContext = { rawContent: rawContent, cleanedContent: cleaned ? jsonContent : undefined };
-          if (parseOrValidationError instanceof SyntaxError) {
-              throw new ParsingError(
-                  `LLM output was not valid JSON: ${parseOrValidationError.message}`,
-                  errorContext,
-                  parseOrValidationError
-              );
-          } else if (parseOrValidationError instanceof ValidationError) {
-              // Re-throw ValidationError with combined context
-              throw new ValidationError(
-                  parseOrValidationError.message,
-                  parseOrValidationError.validationIssues,
-                  { ...parseOrValidationError.context, ...errorContext } // Combine contexts
-              );
-          } else {
-              // Wrap unexpected errors
-              throw new AppError(
-                  `Unexpected error during parsing/validation: ${parseOrValidationError instanceof Error ? parseOrValidationError.message : String(parseOrValidationError)}`,
-                  errorContext,
-                  parseOrValidationError instanceof Error ? parseOrValidationError : undefined
-              );
-          }
-        }
-      } else {
-        logger.warn({ responseData: response.data }, "No choices found in LLM response for sequential thought.");
-        // Throw ParsingError (without rawContent as it wasn't available)
-        throw new ParsingError(
-          "No response choices received from model for sequential thought",
-          { responseData: response.data }
-        );
-      }
-    } catch (error) { // Catch errors for this attempt (including re-thrown parse/validation errors)
-      lastError = error as Error; // Store the error
-
-      // Check if retry is possible (Retry logic remains the same for network errors)
-      const isRetryableNetworkError = (axios.isAxiosError(error) &&
-        (error.code === 'ECONNRESET' || (error.message && error.message.includes('SSL routines:ssl3_read_bytes:sslv3 alert bad record mac'))));
-
-      if (isRetryableNetworkError && attempt < maxRetries) {
-        const delay = 500 * attempt; // Simple exponential backoff
-        logger.warn({ err: lastError, attempt, maxRetries, delay }, `Attempt ${attempt} failed with retryable network error. Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-        // Continue to the next iteration of the loop
-      } else {
-        // Not retryable or max retries reached, break loop to handle/throw error outside
-        logger.warn({ err: lastError, attempt, maxRetries, isRetryable: isRetryableNetworkError }, `Not retrying after attempt ${attempt}.`);
-        break;
-      }
-    }
-  } // End retry loop
 
-  // If the loop finished because of an error (lastError is not null)
-  if (lastError) {
+  try {
+    logger.debug(`Calling the LLM for sequential thought ${currentThoughtNumber}...`);
+    const thought = await performStructuredLlmCall(prompt, sequentialThoughtSchema, config, logicalTaskName, {
+      systemPrompt,
+      maxTokens: 2000,
+      temperature: 0.5, // Reduced temperature
+      maxRetries: 1
+    });
+    logger.debug('Sequential thought successfully parsed and validated.');
+    return thought;
+  } catch (error) {
     // --- Explicit Fallback Error Propagation ---
-    // Extract rawContent from the error context if available
-    let errorRawContent: string | undefined;
-    if (lastError instanceof AppError && lastError.context?.rawContent && typeof lastError.context.rawContent === 'string') {
-        errorRawContent = lastError.context.rawContent;
-    }
-
-    // Check if the error is a parsing or validation error AND we extracted rawContent from its context
-    if ((lastError instanceof ParsingError || lastError instanceof ValidationError) && errorRawContent !== undefined) {
-        // Throw FallbackError for persistent formatting issues after cleaning attempts
-        logger.error({ // Log the activation of this specific error path
-            message: 'Persistent LLM formatting error after retries and cleaning. Throwing FallbackError.',
-            originalError: lastError.message,
-            rawContent: errorRawContent,
-            // Note: cleanedContent might be available in lastError.context if cleaning happened
-            cleanedContent: (lastError instanceof AppError && lastError.context?.cleanedContent) ? lastError.context.cleanedContent : undefined,
-            thoughtNumber: currentThoughtNumber,
-        });
-        throw new FallbackError( // Use the FallbackError class
-            `Sequential thinking aborted after ${maxRetries} attempts due to persistent LLM formatting error: ${lastError.message}`,
-            errorRawContent,
-            lastError // Pass the original ParsingError or ValidationError
-        );
-    }
-
-    // --- Original Error Handling for other non-fallback cases (e.g., API errors, unexpected errors where rawContent might be undefined) ---
-    logger.error({ err: lastError, modelUsed: modelToUse, thoughtNumber: currentThoughtNumber }, `Sequential thought generation failed after ${maxRetries} attempts.`);
-    // Classify and re-throw other final errors
-    if (axios.isAxiosError(lastError)) {
-      const axiosError = lastError as AxiosError<unknown>;
-      const status = axiosError.response?.status;
-      const apiMessage = `OpenRouter API Error: Status ${status || 'N/A'}. ${axiosError.message}`;
-      const apiError = new ApiError(
-        apiMessage,
-        status,
-        { model: modelToUse, logicalTaskName }, // Include task name and model used
-        axiosError
+    const errorRawContent = error instanceof AppError ? error.context?.rawContent : undefined;
+    if ((error instanceof ParsingError || error instanceof ValidationError) && typeof errorRawContent === 'string') {
+      // Throw FallbackError for persistent formatting issues after cleaning and correction attempts
+      const cleanedContent = error.context?.cleanedContent;
+      logger.error({ // Log the activation of this specific error path
+        message: 'Persistent LLM formatting error after retries and cleaning. Throwing FallbackError.',
+        originalError: error.message,
+        rawContent: errorRawContent,
+        cleanedContent,
+        thoughtNumber: currentThoughtNumber,
+      });
+      throw new FallbackError(
+        `Sequential thinking aborted due to persistent LLM formatting error: ${error.message}`,
+        errorRawContent,
+        error, // Pass the original ParsingError or ValidationError
+        { cleanedContent }
       );
-      throw apiError;
-    } else if (lastError instanceof AppError) { // Includes Parsing/Validation errors where rawContent couldn't be extracted
-      throw lastError;
-    } else if (lastError instanceof Error) {
-      throw new AppError(`Failed to get next thought after retries: ${lastError.message}`, undefined, lastError);
-    } else {
-      throw new AppError("Unknown failure while getting next thought after retries.");
     }
-  }
 
-  // Should theoretically not be reached if logic is correct and fallback handles parsing/validation errors
-  throw new Error("Internal error: Reached end of getNextThought without success or error throw.");
+    // API errors, cancellations, budget errors and responses without content are already classified
+    logger.error({ err: error, thoughtNumber: currentThoughtNumber }, `Sequential thought generation failed.`);
+    throw error;
+  }
 }
@@ -8,9 +8,9 @@ import { performDirectLlmCall } from '../../utils/llmHelper.js';
 import { performResearchQuery } from '../../utils/researchHelper.js';
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js';
-import { AppError, ParsingError, ToolExecutionError } from '../../utils/errors.js';
+import { AppError, CancellationError, ParsingError, ToolExecutionError } from '../../utils/errors.js';
 import { jobManager, JobStatus } from '../../services/job-manager/index.js';
-import { sseNotifier } from '../../services/sse-notifier/index.js';
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // --- Constants ---
 const TASK_ID_PREFIX = 'T-';
@@ -293,12 +293,22 @@ function reconstructMarkdown(originalMarkdown: string, decomposedTasks: Map<stri
     return finalMarkdown.trim();
 }
 
+/**
+ * Calls onSettled with the running count each time one of the promises settles,
+ * so parallel work can report completed/total progress.
+ */
+function trackSettled<T>(promises: Promise<T>[], onSettled: (completed: number, total: number) => void): Promise<T>[] {
+  let completed = 0;
+  return promises.map(promise => promise.finally(() => onSettled(++completed, promises.length)));
+}
+
 // Helper for decomposition with retry
 async function decomposeSingleTaskWithRetry(
   task: ParsedTask,
   config: OpenRouterConfig,
   jobId: string,
   sessionId: string,
+  signal?: AbortSignal,
   maxRetries = 2 // Allow 2 retries (3 attempts total)
 ): Promise<{ taskId: string; markdown: string }> {
   const decompositionPrompt = `Decompose the following high-level Parent Task into detailed, actionable sub-tasks:\n\nParent Task ID: ${task.id}\nParent Title: ${task.title}\nParent Description: ${task.description}\nRelated User Story: ${task.userStory || 'N/A'}\nPriority: ${task.priority || 'N/A'}\nDependencies: ${task.dependencies || 'None'}\nEst. Effort: ${task.effort || 'N/A'}`;
@@ -308,19 +318,21 @@ async function decomposeSingleTaskWithRetry(
     attempts++;
     try {
       logger.debug({ taskId: task.id, attempt: attempts }, `Attempting decomposition (attempt ${attempts}/${maxRetries + 1})`);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Decomposing task ${task.id} (attempt ${attempts})...`);
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Decomposing task ${task.id} (attempt ${attempts})...`);
 
       const subTasksMarkdown = await performDirectLlmCall(
         decompositionPrompt,
         TASK_DECOMPOSITION_SYSTEM_PROMPT,
         config,
-        'task_list_decomposition'
+        'task_list_decomposition',
+        undefined,
+        signal
       );
 
       // Basic validation
       if (subTasksMarkdown && subTasksMarkdown.trim().startsWith('- **Sub-Task ID:**')) {
         logger.debug(`Successfully decomposed task ${task.id} on attempt ${attempts}`);
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Task ${task.id} decomposed.`);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Task ${task.id} decomposed.`);
         return { taskId: task.id, markdown: subTasksMarkdown.trim() };
       } else {
         logger.warn({ taskId: task.id, attempt: attempts, response: subTasksMarkdown }, `Decomposition attempt ${attempts} for task ${task.id} returned unexpected format.`);
@@ -329,6 +341,10 @@ async function decomposeSingleTaskWithRetry(
         }
       }
     } catch (error) {
+      // Never retry a cancelled job
+      if (error instanceof CancellationError) {
+        throw error;
+      }
       logger.warn({ err: error, taskId: task.id, attempt: attempts }, `Decomposition attempt ${attempts} for task ${task.id} failed.`);
       if (attempts > maxRetries) {
         // Rethrow the error from the last attempt
@@ -357,7 +373,7 @@ export const generateTaskList: ToolExecutor = async (
   const { productDescription, userStories } = params as { productDescription: string; userStories: string };
 
   // --- Create Job & Return Immediately ---
-  const jobId = jobManager.createJob('generate-task-list', params);
+  const jobId = jobManager.createJob('generate-task-list', params, { sessionId, progressToken: context?.progressToken });
   logger.info({ jobId, tool: 'generateTaskList', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -367,27 +383,28 @@ export const generateTaskList: ToolExecutor = async (
   };
 
   // --- Execute Long-Running Logic Asynchronously ---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const decomposedTasks = new Map<string, string>(); // Store decomposed tasks <ParentID, SubTasksMarkdown>
+    const signal = jobManager.getAbortSignal(jobId);
+    let highLevelTaskListMarkdown = ''; // Kept outside the try block so a cancelled job can return it as partial output
     try {
       // Ensure directories are initialized before writing
-      await initDirectories(); // Can stay here or move inside setImmediate
+      await initDirectories(); // Runs inside the scheduled job so the executor can return immediately
 
       // --- Step 1: Generate High-Level Tasks ---
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting high-level task generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting high-level task generation...');
+      jobManager.updateJobProgress(jobId, { phase: 'research', completed: 0, total: 3 }, 'Starting high-level task generation...');
       logger.info("Task List Generator: Starting Step 1 - High-Level Task Generation...");
       let researchContext = '';
       try {
         const query1 = `Software development lifecycle tasks and milestones for: ${productDescription}`;
         const query2 = `Task estimation and dependency management best practices for software projects`;
         const query3 = `Development team structures and work breakdown for projects similar to: ${productDescription}`;
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
-        const researchResults = await Promise.allSettled([
-          performResearchQuery(query1, config),
-          performResearchQuery(query2, config),
-          performResearchQuery(query3, config)
-        ]);
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
+        const researchResults = await Promise.allSettled(trackSettled([
+          performResearchQuery(query1, config, signal),
+          performResearchQuery(query2, config, signal),
+          performResearchQuery(query3, config, signal)
+        ], (completed, total) => jobManager.updateJobProgress(jobId, { phase: 'research', completed, total }, `Research query ${completed}/${total} finished.`)));
         researchContext = "## Pre-Generation Research Context (From Perplexity Sonar Deep Research):\n\n";
         researchResults.forEach((result, index) => {
           const queryLabels = ["Development Lifecycle & Milestones", "Task Estimation & Dependencies", "Team Structure & Work Breakdown"];
@@ -399,28 +416,32 @@ export const generateTaskList: ToolExecutor = async (
           }
         });
         logger.info("Task List Generator: Pre-generation research completed.");
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research complete. Generating high-level tasks...');
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research complete. Generating high-level tasks...');
       } catch (researchError) {
         logger.error({ err: researchError }, "Task List Generator: Error during research aggregation");
         researchContext = "## Pre-Generation Research Context:\n*Error occurred during research phase.*\n\n";
-        sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research phase failed. Proceeding with generation...'); // Notify about failure
+        jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research phase failed. Proceeding with generation...'); // Notify about failure
       }
 
+      signal?.throwIfAborted();
+
+      jobManager.updateJobProgress(jobId, { phase: 'high-level generation', completed: 0, total: 1 }, 'Generating high-level tasks...');
       const initialGenerationPrompt = `Create a detailed task list for the following product:\n\n${productDescription}\n\nBased on these user stories:\n\n${userStories}\n\n${researchContext}`;
-      const highLevelTaskListMarkdown = await performDirectLlmCall(
+      highLevelTaskListMarkdown = await performDirectLlmCall(
         initialGenerationPrompt,
         INITIAL_TASK_LIST_SYSTEM_PROMPT,
         config,
-        'task_list_initial_generation'
+        'task_list_initial_generation',
+        undefined,
+        signal
       );
       logger.debug({ rawOutput: highLevelTaskListMarkdown }, "Raw output from Step 1 (High-Level Task Generation - Direct Call):");
       logger.info("Task List Generator: Step 1 - High-Level Task Generation completed.");
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'High-level tasks generated. Starting decomposition...');
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'High-level tasks generated. Starting decomposition...');
 
       // --- Step 2: Decompose Each High-Level Task (Parallel with Retry) ---
       logger.info("Task List Generator: Starting Step 2 - Task Decomposition...");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting parallel task decomposition...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting parallel task decomposition...');
 
       let parsedTasks = parseHighLevelTasks(highLevelTaskListMarkdown);
       if (parsedTasks.length === 0 && highLevelTaskListMarkdown.trim().length > 0) {
@@ -433,36 +454,41 @@ export const generateTaskList: ToolExecutor = async (
           throw new ParsingError("Failed to parse any high-level tasks from LLM response.");
       } else {
            logger.info(`Proceeding with decomposition for ${parsedTasks.length} tasks.`);
-           const decompositionPromises = parsedTasks
-             .filter(task => task.id && task.title && task.description) // Filter out tasks missing essential details
-             .map(task => decomposeSingleTaskWithRetry(task, config, jobId, sessionId));
+           const tasksToDecompose = parsedTasks.filter(task => task.id && task.title && task.description); // Filter out tasks missing essential details
+           jobManager.updateJobProgress(jobId, { phase: 'decomposition', completed: 0, total: tasksToDecompose.length }, 'Starting parallel task decomposition...');
+           const decompositionPromises = trackSettled(
+             tasksToDecompose.map(task => decomposeSingleTaskWithRetry(task, config, jobId, sessionId, signal)),
+             (completed, total) => jobManager.updateJobProgress(jobId, { phase: 'decomposition', completed, total }, `Decomposed ${completed}/${total} tasks.`)
+           );
 
            const decompositionResults = await Promise.allSettled(decompositionPromises);
 
            decompositionResults.forEach((result, index) => {
-             const originalTask = parsedTasks.filter(t => t.id && t.title && t.description)[index];
+             const originalTask = tasksToDecompose[index];
              if (!originalTask) return;
 
              if (result.status === 'fulfilled') {
                decomposedTasks.set(result.value.taskId, result.value.markdown);
+             } else if (result.reason instanceof CancellationError) {
+               return; // Leave the task undecomposed; the job is cancelled below
              } else {
                const error = result.reason;
                const errorMessage = error instanceof Error ? error.message : String(error);
                logger.error({ err: error, taskId: originalTask.id }, `Final decomposition failed for task ${originalTask.id} after retries.`);
                decomposedTasks.set(originalTask.id, `- *(Error: Final decomposition failed: ${errorMessage})*`);
-               sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Failed to decompose task ${originalTask.id}: ${errorMessage}`);
+               jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Failed to decompose task ${originalTask.id}: ${errorMessage}`);
              }
            });
+           signal?.throwIfAborted();
            logger.info(`Task List Generator: Step 2 - Parallel decomposition finished.`);
-           sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Decomposition finished. Reconstructing output...');
+           jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Decomposition finished. Reconstructing output...');
       }
 
       // --- Step 3: Reconstruct Final Output ---
       logger.info("Task List Generator: Reconstructing final Markdown output...");
-      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Reconstructing final output...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Reconstructing final output...');
+      jobManager.updateJobProgress(jobId, { phase: 'reconstruction', completed: 0, total: 1 }, 'Reconstructing final output...');
       const finalMarkdown = reconstructMarkdown(highLevelTaskListMarkdown, decomposedTasks);
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Reconstruction complete. Saving file...');
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Reconstruction complete. Saving file...');
 
       // --- Step 4: Save and Set Final Result ---
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -470,13 +496,14 @@ export const generateTaskList: ToolExecutor = async (
       const filename = `${timestamp}-${sanitizedName}-task-list-detailed.md`;
       const filePath = path.join(TASK_LIST_DIR, filename);
 
+      jobManager.updateJobProgress(jobId, { phase: 'saving', completed: 0, total: 1 }, 'Saving task list...');
       try {
           await fs.writeFile(filePath, finalMarkdown, 'utf8');
           logger.info(`Detailed task list generated and saved to ${filePath}`);
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `File saved to ${filePath}. Job complete.`);
+          jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `File saved to ${filePath}. Job complete.`);
       } catch (saveError) {
           logger.error({ err: saveError, filePath }, "Failed to save the final detailed task list.");
-          sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, `Failed to save output file to ${filePath}.`);
+          jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Failed to save output file to ${filePath}.`);
           // Consider if this should make the job fail
       }
 
@@ -491,6 +518,21 @@ export const generateTaskList: ToolExecutor = async (
       // sseNotifier.sendProgress(sessionId, jobId, JobStatus.COMPLETED, 'Job completed successfully.'); // Redundant if setJobResult notifies
 
     } catch (error) { // Catch errors within the async block
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients; keep the partial output
+        logger.info({ jobId, tool: 'generateTaskList', decomposedCount: decomposedTasks.size }, 'Background job cancelled.');
+        const partialMarkdown = highLevelTaskListMarkdown
+          ? reconstructMarkdown(highLevelTaskListMarkdown, decomposedTasks)
+          : '';
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: partialMarkdown
+            ? `Task list generation was cancelled. Partial output (${decomposedTasks.size} task(s) decomposed):\n\n${partialMarkdown}`
+            : 'Task list generation was cancelled before any tasks were generated.' }],
+          isError: false
+        });
+        return;
+      }
+
       logger.error({ err: error, jobId, tool: 'generateTaskList' }, 'Error during background job execution.');
 
       // Construct error result
@@ -512,10 +554,8 @@ export const generateTaskList: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (setJobResult might handle this, but explicit call is safer)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // End of setImmediate
+  }); // End of scheduled job
 
   return initialResponse; // Return the initial response with Job ID
 };
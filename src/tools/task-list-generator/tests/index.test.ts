@@ -7,7 +7,6 @@ import * as researchHelper from '../../../utils/researchHelper.js';
 import * as llmHelper from '../../../utils/llmHelper.js'; // Import the new helper
 import fs from 'fs-extra';
 import { jobManager, JobStatus } from '../../../services/job-manager/index.js'; // Import Job Manager
-import { sseNotifier } from '../../../services/sse-notifier/index.js'; // Import SSE Notifier
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import CallToolResult
 
 // Mock dependencies
@@ -128,7 +127,7 @@ describe('Task List Generator', () => {
     expect(initialResult.content[0]?.text).toContain('Task list generation started. Job ID: mock-job-id');
 
     // Verify job creation
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-task-list', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-task-list', params, { sessionId: mockContext.sessionId });
 
     // Verify mocks for underlying logic were NOT called yet
     expect(researchHelper.performResearchQuery).not.toHaveBeenCalled();
@@ -168,9 +167,9 @@ describe('Task List Generator', () => {
     expect(finalResultArgs[1].content[0]?.text).toContain('Sub-Task ID: T-201.1');
 
     // Verify SSE progress calls (basic checks)
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, 'mock-job-id', JobStatus.RUNNING, expect.any(String)); // Initial running status
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, 'mock-job-id', JobStatus.RUNNING, expect.stringContaining('Research complete'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, 'mock-job-id', JobStatus.RUNNING, expect.stringContaining('Decomposition finished'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith('mock-job-id', JobStatus.RUNNING, expect.any(String)); // Initial running status
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith('mock-job-id', JobStatus.RUNNING, expect.stringContaining('Research complete'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith('mock-job-id', JobStatus.RUNNING, expect.stringContaining('Decomposition finished'));
     // Note: Verifying the final COMPLETED call might depend on whether setJobResult triggers it.
   });
 
@@ -196,7 +195,7 @@ describe('Task List Generator', () => {
      // Initial call
      const initialResult = await generateTaskList(params, mockConfig, mockContext);
      expect(initialResult.content[0]?.text).toContain('Job ID: mock-job-id');
-     expect(jobManager.createJob).toHaveBeenCalledWith('generate-task-list', params);
+     expect(jobManager.createJob).toHaveBeenCalledWith('generate-task-list', params, { sessionId: mockContext.sessionId });
 
      // Advance timers
      await runAsyncTicks(5);
@@ -206,7 +205,9 @@ describe('Task List Generator', () => {
          expect.stringContaining("### Development Lifecycle & Milestones:\n*Research on this topic failed.*\n\n"), // Check prompt contains failure message
          expect.stringContaining("# Task List Generator - High-Level Tasks"), // system prompt
          mockConfig,
-         'task_list_initial_generation' // logical task name
+         'task_list_initial_generation', // logical task name
+         undefined, // default temperature
+         undefined // abort signal (job manager is mocked)
      );
 
      // Verify results are still written to file
@@ -0,0 +1,104 @@
+// src/tools/usage-reporter/index.ts
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+import logger from '../../logger.js';
+import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js';
+import { usageTracker, formatLlmUsage, LlmUsageTotals } from '../../services/usage-tracker/index.js';
+
+// --- Zod Schema ---
+const usageReportInputSchemaShape = {
+  scope: z.enum(['all', 'session']).optional().default('all').describe("'session' only counts LLM calls made for the calling session; 'all' counts every call since the server started (default 'all')."),
+  toolName: z.string().optional().describe("Only count LLM calls made by this tool (e.g., 'generate-fullstack-starter-kit')."),
+  jobId: z.string().uuid({ message: "Invalid Job ID format. Must be a UUID." }).optional().describe("Only count LLM calls made by this background job."),
+  since: z.string().datetime({ message: "since must be an ISO 8601 date-time." }).optional().describe("Only count LLM calls made at or after this ISO 8601 date-time.")
+};
+
+/**
+ * Formats a breakdown as one line per key, most expensive (then most tokens) first.
+ * @param breakdown Usage totals keyed by model or tool name.
+ * @returns The formatted lines.
+ */
+function formatBreakdown(breakdown: Record<string, LlmUsageTotals>): string[] {
+  return Object.entries(breakdown)
+    .sort(([, a], [, b]) => (b.costUsd - a.costUsd) || ((b.promptTokens + b.completionTokens) - (a.promptTokens + a.completionTokens)))
+    .map(([name, totals]) => `- ${name}: ${formatLlmUsage(totals)}`);
+}
+
+// --- Tool Executor ---
+
+/**
+ * Reports LLM token usage and estimated cost, with per-model and per-tool breakdowns.
+ */
+export const usageReport: ToolExecutor = async (
+  params: Record<string, unknown>,
+  _config: OpenRouterConfig, // Config is not used for this tool
+  context?: ToolExecutionContext
+): Promise<CallToolResult> => {
+  const { scope = 'all', toolName, jobId, since } = params as {
+    scope?: 'all' | 'session';
+    toolName?: string;
+    jobId?: string;
+    since?: string;
+  };
+
+  if (scope === 'session' && !context?.sessionId) {
+    return {
+      content: [{ type: 'text', text: "Error: The calling session is unknown, so a 'session' usage report is not available. Use scope 'all' instead." }],
+      isError: true
+    };
+  }
+
+  const report = usageTracker.getReport({
+    sessionId: scope === 'session' ? context?.sessionId : undefined,
+    toolName,
+    jobId,
+    since: since ? Date.parse(since) : undefined,
+  });
+  logger.info({ scope, toolName, jobId, since, calls: report.totals.calls }, 'Generated LLM usage report.');
+
+  if (report.totals.calls === 0) {
+    return {
+      content: [{ type: 'text', text: 'No LLM calls match the given filters.' }],
+      isError: false
+    };
+  }
+
+  const lines = [
+    `LLM usage (${scope === 'session' ? 'this session' : 'all sessions since the server started'}): ${formatLlmUsage(report.totals)}.`,
+    '',
+    'By model:',
+    ...formatBreakdown(report.byModel),
+    '',
+    'By tool:',
+    ...formatBreakdown(report.byTool),
+  ];
+  const budget = usageTracker.getEffectiveBudget();
+  if (budget.daily_usd !== undefined || budget.daily_tokens !== undefined) {
+    const limits = [
+      budget.daily_usd !== undefined ? `$${budget.daily_usd}` : undefined,
+      budget.daily_tokens !== undefined ? `${budget.daily_tokens} tokens` : undefined,
+    ].filter(Boolean).join(' and ');
+    lines.push('', `Today (UTC, all sessions): ${formatLlmUsage(usageTracker.getDailyUsage())}. Daily budget: ${limits}.`);
+  }
+  if (report.totals.unpricedCalls > 0) {
+    lines.push('', "Add prices for the missing models to 'llm_pricing' in llm_config.json to include them in the cost estimate.");
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: false
+  };
+};
+
+// --- Tool Registration ---
+const usageReportToolDefinition: ToolDefinition = {
+  name: "usage-report",
+  description: "Reports LLM token usage and estimated cost for this session or all sessions, broken down by model and by tool.",
+  inputSchema: usageReportInputSchemaShape,
+  executor: usageReport
+};
+
+registerTool(usageReportToolDefinition);
+
+logger.info("Registered tool: usage-report");
@@ -0,0 +1,64 @@
+// src/tools/usage-reporter/usage-reporter.test.ts
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { usageReport } from './index.js';
+import { usageTracker } from '../../services/usage-tracker/index.js';
+import { runInToolContext } from '../../services/job-manager/jobContext.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+
+// Mock the logger
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('usageReport Tool Executor', () => {
+  const mockConfig: OpenRouterConfig = {
+    baseUrl: 'mock-url',
+    apiKey: 'mock-key',
+    geminiModel: 'mock-gemini',
+    perplexityModel: 'mock-perplexity',
+  };
+
+  beforeEach(() => {
+    usageTracker.reset();
+    usageTracker.configurePrices({ 'priced/model': { prompt: 1, completion: 2 } });
+  });
+
+  it('should report when no calls match', async () => {
+    const result = await usageReport({ scope: 'all' }, mockConfig);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toBe('No LLM calls match the given filters.');
+  });
+
+  it('should break the session usage down by model and tool', async () => {
+    runInToolContext('generate-prd', 'session-1', () => {
+      usageTracker.record('priced/model', 'prd_generation', { promptTokens: 1000, completionTokens: 500 });
+      usageTracker.record('unpriced/model', 'research_query', { promptTokens: 100, completionTokens: 50 });
+    });
+    runInToolContext('generate-rules', 'session-2', () => {
+      usageTracker.record('priced/model', 'rules_generation', { promptTokens: 1, completionTokens: 1 });
+    });
+
+    const result = await usageReport({ scope: 'session' }, mockConfig, { sessionId: 'session-1' });
+    const text = result.content[0]?.text as string;
+
+    expect(result.isError).toBe(false);
+    expect(text).toContain('LLM usage (this session): 2 LLM calls, 1100 prompt + 550 completion tokens, estimated cost $0.0020');
+    expect(text).toContain('- priced/model: 1 LLM call, 1000 prompt + 500 completion tokens');
+    expect(text).toContain('- unpriced/model: 1 LLM call');
+    expect(text).toContain('- generate-prd: 2 LLM calls');
+    expect(text).not.toContain('generate-rules');
+    expect(text).toContain("'llm_pricing'");
+  });
+
+  it('should reject session reports without a known session', async () => {
+    const result = await usageReport({ scope: 'session' }, mockConfig);
+
+    expect(result.isError).toBe(true);
+  });
+});
@@ -7,9 +7,9 @@ import { performDirectLlmCall } from '../../utils/llmHelper.js'; // Import the n
 import { performResearchQuery } from '../../utils/researchHelper.js';
 import logger from '../../logger.js';
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import ToolExecutionContext
-import { AppError, ApiError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
+import { AppError, ApiError, CancellationError, ConfigurationError, ToolExecutionError } from '../../utils/errors.js'; // Import necessary errors
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
+import { jobScheduler } from '../../services/job-manager/scheduler.js';
 
 // User stories generator-specific system prompt
 const USER_STORIES_SYSTEM_PROMPT = `
@@ -110,7 +110,7 @@ export const generateUserStories: ToolExecutor = async (
   const productDescription = params.productDescription as string; // Assert type after validation
 
   // ---> Step 2.5(US).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('generate-user-stories', params);
+  const jobId = jobManager.createJob('generate-user-stories', params, { sessionId });
   logger.info({ jobId, tool: 'generateUserStories', sessionId }, 'Starting background job.');
 
   // Return immediately
@@ -120,20 +120,19 @@ export const generateUserStories: ToolExecutor = async (
   };
 
   // ---> Step 2.5(US).4: Wrap Logic in Async Block <---
-  setImmediate(async () => {
+  jobScheduler.schedule(jobId, async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
+    const signal = jobManager.getAbortSignal(jobId);
 
     // ---> Step 2.5(US).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(US).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Starting user stories generation process...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Starting user stories generation process...');
       logs.push(`[${new Date().toISOString()}] Starting user stories generation for: ${productDescription.substring(0, 50)}...`);
 
       // ---> Step 2.5(US).6: Add Progress Updates (Research Start) <---
       logger.info({ jobId, inputs: { productDescription: productDescription.substring(0, 50) } }, "User Stories Generator: Starting pre-generation research...");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Performing pre-generation research...');
       logs.push(`[${new Date().toISOString()}] Starting pre-generation research.`);
 
       let researchContext = '';
@@ -145,9 +144,9 @@ export const generateUserStories: ToolExecutor = async (
       
       // Execute research queries in parallel using Perplexity
       const researchResults = await Promise.allSettled([
-        performResearchQuery(query1, config), // Uses config.perplexityModel (perplexity/sonar-deep-research)
-        performResearchQuery(query2, config),
-        performResearchQuery(query3, config)
+        performResearchQuery(query1, config, signal), // Uses config.perplexityModel (perplexity/sonar-deep-research)
+        performResearchQuery(query2, config, signal),
+        performResearchQuery(query3, config, signal)
       ]);
       
       // Process research results
@@ -167,7 +166,6 @@ export const generateUserStories: ToolExecutor = async (
       // ---> Step 2.5(US).6: Add Progress Updates (Research End) <---
       logger.info({ jobId }, "User Stories Generator: Pre-generation research completed.");
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Research complete. Starting main user stories generation...');
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Research complete. Starting main user stories generation...');
       logs.push(`[${new Date().toISOString()}] Pre-generation research completed.`);
 
     } catch (researchError) {
@@ -175,8 +173,9 @@ export const generateUserStories: ToolExecutor = async (
       logs.push(`[${new Date().toISOString()}] Error during research aggregation: ${researchError instanceof Error ? researchError.message : String(researchError)}`);
       // Include error in context but continue
       researchContext = "## Pre-Generation Research Context:\n*Error occurred during research phase.*\n\n";
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
+      jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Warning: Error during research phase. Continuing generation...');
     }
+    signal?.throwIfAborted();
 
     // Create the main generation prompt with combined research and inputs
     const mainGenerationPrompt = `Create comprehensive user stories for the following product:\n\n${productDescription}\n\n${researchContext}`;
@@ -184,7 +183,6 @@ export const generateUserStories: ToolExecutor = async (
     // ---> Step 2.5(US).6: Add Progress Updates (LLM Call Start) <---
     logger.info({ jobId }, "User Stories Generator: Starting main generation using direct LLM call...");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Generating user stories content via LLM...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Generating user stories content via LLM...');
     logs.push(`[${new Date().toISOString()}] Calling LLM for main user stories generation.`);
 
     const userStoriesMarkdown = await performDirectLlmCall(
@@ -192,13 +190,14 @@ export const generateUserStories: ToolExecutor = async (
       USER_STORIES_SYSTEM_PROMPT, // Pass the system prompt
       config,
       'user_stories_generation', // Logical task name
-      0.3 // Slightly higher temp might be okay for creative text like stories
+      0.3, // Slightly higher temp might be okay for creative text like stories
+      signal
     );
+    signal?.throwIfAborted();
 
     // ---> Step 2.5(US).6: Add Progress Updates (LLM Call End) <---
     logger.info({ jobId }, "User Stories Generator: Main generation completed.");
     jobManager.updateJobStatus(jobId, JobStatus.RUNNING, 'Processing LLM response...');
-    sseNotifier.sendProgress(sessionId, jobId, JobStatus.RUNNING, 'Processing LLM response...');
     logs.push(`[${new Date().toISOString()}] Received response from LLM.`);
 
     // Basic validation: Check if the output looks like Markdown and contains expected elements
@@ -222,6 +221,16 @@ export const generateUserStories: ToolExecutor = async (
 
     // ---> Step 2.5(US).7: Update Final Result/Error Handling (Catch Block) <---
     } catch (error) {
+      if (error instanceof CancellationError || signal?.aborted) {
+        // The job manager already marked the job CANCELLED and notified clients
+        logger.info({ jobId, tool: 'generate-user-stories' }, 'User stories generation job cancelled.');
+        jobManager.setJobResult(jobId, {
+          content: [{ type: 'text', text: 'User stories generation was cancelled before the stories were generated.' }],
+          isError: false
+        });
+        return;
+      }
+
       const errorMsg = error instanceof Error ? error.message : String(error);
       logger.error({ err: error, jobId, tool: 'generate-user-stories', params }, `User Stories Generator Error: ${errorMsg}`);
       logs.push(`[${new Date().toISOString()}] Error: ${errorMsg}`);
@@ -244,10 +253,8 @@ export const generateUserStories: ToolExecutor = async (
 
       // Store error result in Job Manager
       jobManager.setJobResult(jobId, errorResult);
-      // Send final failed status via SSE (optional if jobManager handles it)
-      sseNotifier.sendProgress(sessionId, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
-  }); // ---> END OF setImmediate WRAPPER <---
+  }); // ---> END OF scheduled job <---
 
   return initialResponse; // Return the initial response with Job ID
 };
@@ -6,7 +6,6 @@ import * as researchHelper from '../../../utils/researchHelper.js';
 import * as llmHelper from '../../../utils/llmHelper.js'; // Import the new helper
 import fs from 'fs-extra';
 import { jobManager, JobStatus } from '../../../services/job-manager/index.js'; // Import Job Manager
-import { sseNotifier } from '../../../services/sse-notifier/index.js'; // Import SSE Notifier
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import CallToolResult
 import { ApiError, ToolExecutionError } from '../../../utils/errors.js'; // Import necessary errors
 import logger from '../../../logger.js'; // Import logger
@@ -88,7 +87,7 @@ describe('User Stories Generator (Async)', () => {
     const initialResult = await generateUserStories(params, mockConfig, mockContext);
     expect(initialResult.isError).toBe(false);
     expect(initialResult.content[0]?.text).toContain(`User stories generation started. Job ID: ${mockJobId}`);
-    expect(jobManager.createJob).toHaveBeenCalledWith('generate-user-stories', params);
+    expect(jobManager.createJob).toHaveBeenCalledWith('generate-user-stories', params, { sessionId: mockContext.sessionId });
 
     // Verify underlying logic not called yet
     expect(mockPerformResearchQuery).not.toHaveBeenCalled();
@@ -129,10 +128,10 @@ describe('User Stories Generator (Async)', () => {
     expect(finalResultArgs[1].content[0]?.text).toContain(mockGeneratedUserStories);
 
     // 5. Verify SSE Calls (basic)
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting user stories generation'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating user stories content via LLM'));
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving user stories to file'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Starting user stories generation'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Performing pre-generation research'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Generating user stories content via LLM'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Saving user stories to file'));
   });
 
   it('should handle research failures gracefully (async)', async () => {
@@ -154,7 +153,7 @@ describe('User Stories Generator (Async)', () => {
     expect(mockWriteFile).toHaveBeenCalledTimes(1); // File should still be saved
     expect(jobManager.setJobResult).toHaveBeenCalledTimes(1); // Job should complete successfully
     expect(vi.mocked(jobManager.setJobResult).mock.calls[0][1].isError).toBe(false);
-    expect(sseNotifier.sendProgress).toHaveBeenCalledWith(mockContext.sessionId, mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
+    expect(jobManager.updateJobStatus).toHaveBeenCalledWith(mockJobId, JobStatus.RUNNING, expect.stringContaining('Warning: Error during research phase'));
   });
 
   it('should set job to FAILED if direct LLM call throws error (async)', async () => {
@@ -5,10 +5,9 @@ import { OpenRouterConfig } from '../../types/workflow.js'; // Import common con
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Import MCP result type
 import { registerTool, ToolDefinition, ToolExecutor, ToolExecutionContext } from '../../services/routing/toolRegistry.js'; // Import registry functions and types (Added ToolExecutionContext)
 import { executeWorkflow, WorkflowResult } from '../../services/workflows/workflowExecutor.js'; // Import the core workflow execution function
-import { AppError, ToolExecutionError } from '../../utils/errors.js'; // Import base error type, ToolExecutionError
+import { AppError, CancellationError, ToolExecutionError } from '../../utils/errors.js'; // Import base error type, ToolExecutionError
 import logger from '../../logger.js'; // Import logger
 import { jobManager, JobStatus } from '../../services/job-manager/index.js'; // Import job manager & status
-import { sseNotifier } from '../../services/sse-notifier/index.js'; // Import SSE notifier
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'; // Import McpError, ErrorCode
 
 /**
@@ -38,6 +37,14 @@ function formatWorkflowResult(result: WorkflowResult): string {
        output += `\n`;
    }
 
+   // List the steps that did not run or failed without stopping the workflow
+   if (result.skippedSteps && result.skippedSteps.length > 0) {
+       output += `**Skipped Steps:** ${result.skippedSteps.join(', ')}\n\n`;
+   }
+   if (result.failedSteps && result.failedSteps.length > 0) {
+       output += `**Failed Steps (continued):** ${result.failedSteps.join(', ')}\n\n`;
+   }
+
    // Include error details if the workflow failed
    if (result.error) {
        output += `**Error Details:**\n`;
@@ -86,7 +93,7 @@ export const runWorkflowTool: ToolExecutor = async (
   const { workflowName, workflowInput } = validatedParams;
 
   // ---> Step 2.5(WF).3: Create Job & Return Job ID <---
-  const jobId = jobManager.createJob('run-workflow', params);
+  const jobId = jobManager.createJob('run-workflow', params, { sessionId: context?.sessionId, progressToken: context?.progressToken });
   logger.info({ jobId, tool: 'runWorkflowTool', sessionId: sessionIdForSse, workflowName }, 'Starting background job for workflow.');
 
   // Return immediately
@@ -96,14 +103,16 @@ export const runWorkflowTool: ToolExecutor = async (
   };
 
   // ---> Step 2.5(WF).4: Wrap Logic in Async Block <---
+  // Not handed to the jobScheduler: the workflow only orchestrates other tools, whose jobs are
+  // scheduled themselves. Holding a scheduler slot while waiting on them could deadlock the queue.
   setImmediate(async () => {
     const logs: string[] = []; // Keep logs specific to this job execution
+    const signal = jobManager.getAbortSignal(jobId);
 
     // ---> Step 2.5(WF).7: Update Final Result/Error Handling (Try Block Start) <---
     try {
       // ---> Step 2.5(WF).6: Add Progress Updates (Initial) <---
       jobManager.updateJobStatus(jobId, JobStatus.RUNNING, `Starting workflow '${workflowName}'...`);
-      sseNotifier.sendProgress(sessionIdForSse, jobId, JobStatus.RUNNING, `Starting workflow '${workflowName}'...`);
       logs.push(`[${new Date().toISOString()}] Starting workflow '${workflowName}'.`);
 
       // Execute the workflow using the central workflow executor service
@@ -112,7 +121,12 @@ export const runWorkflowTool: ToolExecutor = async (
           workflowName,
           workflowInput || {}, // Pass empty object if workflowInput is null/undefined
           config,
-          context // Pass the original context
+          context, // Pass the original context
+          // Step events reach the session as the workflow job's progress, over MCP and SSE alike
+          (message, completedSteps, totalSteps) => {
+            jobManager.updateJobProgress(jobId, { phase: 'steps', completed: completedSteps, total: totalSteps }, message);
+          },
+          signal // Cancelling the workflow job cancels the jobs of its running steps
       );
 
       // ---> Step 2.5(WF).6: Add Progress Updates (Completion) <---
@@ -120,7 +134,6 @@ export const runWorkflowTool: ToolExecutor = async (
       const completionMessage = `Workflow '${workflowName}' finished with status: ${completionStatus}. ${workflowResult.message}`;
       logger.info({ jobId, workflowName, status: completionStatus }, completionMessage);
       logs.push(`[${new Date().toISOString()}] ${completionMessage}`);
-      sseNotifier.sendProgress(sessionIdForSse, jobId, completionStatus, completionMessage);
 
       // Format the result for the MCP response
       const formattedText = formatWorkflowResult(workflowResult);
@@ -137,6 +150,16 @@ export const runWorkflowTool: ToolExecutor = async (
 
     // ---> Step 2.5(WF).7: Update Final Result/Error Handling (Catch Block for unexpected errors) <---
     } catch (error) {
+     if (error instanceof CancellationError || signal?.aborted) {
+       // The job manager already marked the job CANCELLED and notified clients
+       logger.info({ jobId, tool: 'run-workflow', workflowName }, 'Workflow job cancelled.');
+       jobManager.setJobResult(jobId, {
+         content: [{ type: 'text', text: `Workflow '${workflowName}' was cancelled. Steps that had not started were not run.` }],
+         isError: false
+       });
+       return;
+     }
+
      // Catch unexpected errors *from* executeWorkflow itself (e.g., if it throws unexpectedly)
      const errorMsg = error instanceof Error ? error.message : String(error);
      logger.error({ err: error, jobId, tool: 'run-workflow', workflowName }, `Unexpected error running workflow tool: ${errorMsg}`);
@@ -155,8 +178,6 @@ export const runWorkflowTool: ToolExecutor = async (
 
      // Store error result in Job Manager
      jobManager.setJobResult(jobId, errorResult);
-     // Send final failed status via SSE (optional if jobManager handles it)
-     sseNotifier.sendProgress(sessionIdForSse, jobId, JobStatus.FAILED, `Job failed: ${mcpError.message}`);
     }
   }); // ---> END OF setImmediate WRAPPER <---
 
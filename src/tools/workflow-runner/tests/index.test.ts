@@ -56,6 +56,8 @@ describe('runWorkflowTool (Async)', () => {
             outputs: { summary: 'Workflow completed ok.' }
         };
         executeWorkflowMock.mockResolvedValue(mockSuccessResult);
+        const abortController = new AbortController();
+        vi.mocked(jobManager.getAbortSignal).mockReturnValue(abortController.signal);
 
         const params = { workflowName: 'myFlow', workflowInput: { key: 'value' } };
 
@@ -63,7 +65,7 @@ describe('runWorkflowTool (Async)', () => {
         const initialResult = await runWorkflowTool(params as Record<string, unknown>, mockConfig, mockContext);
         expect(initialResult.isError).toBe(false);
         expect(initialResult.content[0]?.text).toContain(`Workflow 'myFlow' execution started. Job ID: ${mockJobId}`);
-        expect(jobManager.createJob).toHaveBeenCalledWith('run-workflow', params as Record<string, unknown>);
+        expect(jobManager.createJob).toHaveBeenCalledWith('run-workflow', params as Record<string, unknown>, { sessionId: mockContext.sessionId });
 
         // Verify underlying logic not called yet
         expect(executeWorkflowMock).not.toHaveBeenCalled();
@@ -78,7 +80,9 @@ describe('runWorkflowTool (Async)', () => {
             'myFlow',           // workflowName
             { key: 'value' },   // workflowInput
             mockConfig,         // config
-            mockContext         // context (including sessionId)
+            mockContext,        // context (including sessionId)
+            expect.any(Function), // step progress listener
+            abortController.signal // the job's abort signal
         );
         expect(jobManager.setJobResult).toHaveBeenCalledTimes(1); // Job should complete
     });
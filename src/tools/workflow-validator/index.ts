@@ -0,0 +1,72 @@
+// src/tools/workflow-validator/index.ts
+import { z } from 'zod';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import logger from '../../logger.js';
+import { registerTool, ToolDefinition, ToolExecutor } from '../../services/routing/toolRegistry.js';
+import { validateWorkflowDefinitions } from '../../services/workflows/workflowExecutor.js';
+import { formatWorkflowIssue } from '../../services/workflows/workflowValidation.js';
+
+// --- Zod Schema ---
+const validateWorkflowsInputSchemaShape = {
+  workflowName: z.string().min(1).optional().describe("Only report issues of this workflow (default: all workflows in workflows.json).")
+};
+
+// --- Tool Executor ---
+
+/**
+ * Validates workflows.json against the workflow schema and the registered tools, and reports
+ * every issue with its JSON path. The file is read from disk, so edits can be checked before a restart.
+ */
+export const validateWorkflows: ToolExecutor = async (
+  params: Record<string, unknown> // Config and context are not used for this tool
+): Promise<CallToolResult> => {
+  const { workflowName } = params as { workflowName?: string };
+
+  let report;
+  try {
+    report = validateWorkflowDefinitions();
+  } catch (error) {
+    logger.error({ err: error }, 'Failed to validate workflow definitions.');
+    return {
+      content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : String(error)}` }],
+      isError: true
+    };
+  }
+
+  const issues = workflowName ? report.issues.filter(issue => issue.workflowName === workflowName) : report.issues;
+  const validWorkflows = workflowName ? report.validWorkflows.filter(name => name === workflowName) : report.validWorkflows;
+  if (workflowName && issues.length === 0 && validWorkflows.length === 0) {
+    return {
+      content: [{ type: 'text', text: `Error: Workflow "${workflowName}" is not defined in ${report.filePath}.` }],
+      isError: true
+    };
+  }
+  logger.info({ filePath: report.filePath, workflowName, issues: issues.length }, 'Validated workflow definitions.');
+
+  const lines = issues.length === 0
+    ? [`No issues found in ${workflowName ? `workflow "${workflowName}"` : report.filePath}.`]
+    : [`Found ${issues.length} issue(s) in ${report.filePath}:`, ...issues.map(issue => `- ${formatWorkflowIssue(issue)}`)];
+  if (validWorkflows.length > 0) {
+    lines.push('', `Valid workflows: ${validWorkflows.join(', ')}.`);
+  }
+  if (!report.toolsChecked) {
+    lines.push('', 'No tools are registered, so step tools and their parameters were not checked.');
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    isError: false
+  };
+};
+
+// --- Tool Registration ---
+const validateWorkflowsToolDefinition: ToolDefinition = {
+  name: "validate-workflows",
+  description: "Checks workflows.json for schema errors, unknown tools, duplicate or misordered step references, undeclared inputs and invalid tool parameters, reporting each issue with its JSON path.",
+  inputSchema: validateWorkflowsInputSchemaShape,
+  executor: validateWorkflows
+};
+
+registerTool(validateWorkflowsToolDefinition);
+
+logger.info("Registered tool: validate-workflows");
@@ -0,0 +1,70 @@
+// src/tools/workflow-validator/workflow-validator.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { validateWorkflows } from './index.js';
+import { validateWorkflowDefinitions } from '../../services/workflows/workflowExecutor.js';
+import { OpenRouterConfig } from '../../types/workflow.js';
+import { ConfigurationError } from '../../utils/errors.js';
+
+vi.mock('../../services/workflows/workflowExecutor.js', () => ({
+  validateWorkflowDefinitions: vi.fn(),
+}));
+
+// Mock the logger
+vi.mock('../../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('validateWorkflows Tool Executor', () => {
+  const mockConfig: OpenRouterConfig = {
+    baseUrl: 'mock-url',
+    apiKey: 'mock-key',
+    geminiModel: 'mock-gemini',
+    perplexityModel: 'mock-perplexity',
+  };
+
+  beforeEach(() => {
+    vi.mocked(validateWorkflowDefinitions).mockReturnValue({
+      filePath: '/app/workflows.json',
+      validWorkflows: ['autoGeneratePRD'],
+      issues: [{ workflowName: 'newProjectSetup', path: 'workflows.newProjectSetup.steps[1].toolName', message: 'Unknown tool "generate-tasks".' }],
+      toolsChecked: true,
+    });
+  });
+
+  it('should list every issue with its JSON path', async () => {
+    const result = await validateWorkflows({}, mockConfig);
+
+    expect(result.isError).toBe(false);
+    expect(result.content[0]?.text).toBe([
+      'Found 1 issue(s) in /app/workflows.json:',
+      '- workflows.newProjectSetup.steps[1].toolName: Unknown tool "generate-tasks".',
+      '',
+      'Valid workflows: autoGeneratePRD.',
+    ].join('\n'));
+  });
+
+  it('should report a single workflow', async () => {
+    const valid = await validateWorkflows({ workflowName: 'autoGeneratePRD' }, mockConfig);
+    expect(valid.content[0]?.text).toContain('No issues found in workflow "autoGeneratePRD".');
+
+    const unknown = await validateWorkflows({ workflowName: 'missing' }, mockConfig);
+    expect(unknown.isError).toBe(true);
+    expect(unknown.content[0]?.text).toContain('Workflow "missing" is not defined');
+  });
+
+  it('should return an error if the file cannot be read', async () => {
+    vi.mocked(validateWorkflowDefinitions).mockImplementation(() => {
+      throw new ConfigurationError('Workflow definition file not found: /app/workflows.json.');
+    });
+
+    const result = await validateWorkflows({}, mockConfig);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Error: Workflow definition file not found: /app/workflows.json.');
+  });
+});
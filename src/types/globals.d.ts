@@ -9,6 +9,7 @@ declare namespace NodeJS {
     OPENROUTER_BASE_URL: string;
     GEMINI_MODEL: string;
     PERPLEXITY_MODEL: string;
+    LLM_PROVIDER?: string;
     PORT: string;
     NODE_ENV: 'development' | 'production' | 'test';
   }
@@ -6,7 +6,66 @@ export interface OpenRouterConfig {
   apiKey: string;
   geminiModel: string;
   perplexityModel: string;
-  llm_mapping?: Record<string, string>; // Optional: Mapping of logical task names to model strings
+  llm_mapping?: Record<string, LlmMappingEntry>; // Optional: Mapping of logical task names to models ("provider:model" picks a provider)
+  defaultProvider?: string; // Optional: Provider for models without a provider prefix (default: 'openrouter')
+  providers?: Record<string, LlmProviderSettings>; // Optional: Additional LLM providers, keyed by provider name
+}
+
+/**
+ * Model(s) mapped to a logical task: a single model, a fallback chain tried in order,
+ * or either of those with task-specific settings
+ */
+export type LlmMappingEntry = string | string[] | LlmTaskMapping;
+
+/**
+ * Mapping of a logical task to its model(s) with task-specific settings
+ */
+export interface LlmTaskMapping extends LlmGenerationParams {
+  model: string | string[];
+  budget?: LlmBudget; // Overrides the global limits of llm_budget for calls made for this task
+}
+
+/**
+ * Generation settings of a task. Set values replace the defaults of the code making the call.
+ */
+export interface LlmGenerationParams {
+  max_tokens?: number; // Maximum number of completion tokens
+  temperature?: number;
+  top_p?: number;
+  timeout?: number; // Request timeout in milliseconds
+  stop?: string[]; // Sequences that end the completion
+}
+
+/**
+ * Limits on LLM spending. Unset limits do not apply.
+ */
+export interface LlmBudget {
+  daily_usd?: number; // Estimated cost of all LLM calls per UTC day
+  daily_tokens?: number; // Prompt + completion tokens of all LLM calls per UTC day
+  job_max_tokens?: number; // Prompt + completion tokens per background job
+}
+
+/**
+ * API flavours supported by the LLM provider layer
+ */
+export type LlmProviderType = 'openai-compatible' | 'anthropic' | 'ollama';
+
+/**
+ * Connection settings of an LLM provider
+ */
+export interface LlmProviderSettings {
+  type: LlmProviderType;
+  baseUrl: string;
+  apiKey?: string;
+  requiresApiKey?: boolean; // Fail before calling the provider if no API key is configured
+}
+
+/**
+ * Price of a model in USD per million tokens, for LLM cost estimates
+ */
+export interface LlmPrice {
+  prompt: number;
+  completion: number;
 }
 
 
@@ -0,0 +1,158 @@
+// src/utils/configLoader.test.ts
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { loadLlmBudget, loadLlmConfigMapping, loadLlmPriceTable, selectBudgetForTask, selectGenerationParamsForTask, selectModelChainForTask, selectModelForTask } from './configLoader.js';
+import { OpenRouterConfig } from '../types/workflow.js';
+import logger from '../logger.js';
+
+vi.mock('../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const createConfig = (llm_mapping: OpenRouterConfig['llm_mapping']): OpenRouterConfig => ({
+  baseUrl: 'http://mock-api.test',
+  apiKey: 'mock-key',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+  llm_mapping,
+});
+
+describe('selectModelChainForTask', () => {
+  it('should return the fallback chain mapped to the task', () => {
+    const config = createConfig({ task_list_decomposition: ['primary/model', 'backup/model'] });
+
+    expect(selectModelChainForTask(config, 'task_list_decomposition', 'default/model')).toEqual(['primary/model', 'backup/model']);
+    expect(selectModelForTask(config, 'task_list_decomposition', 'default/model')).toBe('primary/model');
+  });
+
+  it('should treat single-string mappings as a chain of one', () => {
+    const config = createConfig({ prd_generation: 'single/model' });
+
+    expect(selectModelChainForTask(config, 'prd_generation', 'default/model')).toEqual(['single/model']);
+  });
+
+  it('should fall back to default_generation, then to the default model', () => {
+    expect(selectModelChainForTask(createConfig({ default_generation: ['a/model', 'b/model'] }), 'prd_generation', 'default/model'))
+      .toEqual(['a/model', 'b/model']);
+    expect(selectModelChainForTask(createConfig({}), 'prd_generation', 'default/model')).toEqual(['default/model']);
+    expect(selectModelChainForTask(createConfig({ prd_generation: [] }), 'prd_generation', 'default/model')).toEqual(['default/model']);
+  });
+
+  it('should read the models and budget of object entries', () => {
+    const config = createConfig({
+      sequential_thought_generation: { model: ['primary/model', 'backup/model'], budget: { job_max_tokens: 50000 } },
+      prd_generation: 'single/model',
+    });
+
+    expect(selectModelChainForTask(config, 'sequential_thought_generation', 'default/model')).toEqual(['primary/model', 'backup/model']);
+    expect(selectBudgetForTask(config, 'sequential_thought_generation')).toEqual({ job_max_tokens: 50000 });
+    expect(selectBudgetForTask(config, 'prd_generation')).toBeUndefined();
+  });
+});
+
+describe('selectGenerationParamsForTask', () => {
+  it('should read the settings of the entry that picks the model', () => {
+    const config = createConfig({
+      prd_generation: { model: 'single/model', max_tokens: 16000, temperature: 0.3, timeout: 300000, budget: { daily_usd: 1 } },
+      default_generation: { model: 'default/model', top_p: 0.9, stop: ['END'] },
+      task_list_decomposition: 'other/model',
+    });
+
+    expect(selectGenerationParamsForTask(config, 'prd_generation')).toEqual({ max_tokens: 16000, temperature: 0.3, timeout: 300000 });
+    expect(selectGenerationParamsForTask(config, 'research_query')).toEqual({ top_p: 0.9, stop: ['END'] });
+    expect(selectGenerationParamsForTask(config, 'task_list_decomposition')).toEqual({});
+  });
+});
+
+describe('loadLlmConfigMapping', () => {
+  let tempDir: string;
+  const originalConfigPath = process.env.LLM_CONFIG_PATH;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-config-'));
+  });
+
+  afterEach(() => {
+    fs.removeSync(tempDir);
+    if (originalConfigPath === undefined) {
+      delete process.env.LLM_CONFIG_PATH;
+    } else {
+      process.env.LLM_CONFIG_PATH = originalConfigPath;
+    }
+  });
+
+  it('should keep strings and model lists and drop invalid entries', () => {
+    const filePath = path.join(tempDir, 'llm_config.json');
+    fs.writeJsonSync(filePath, {
+      llm_mapping: {
+        prd_generation: 'single/model',
+        task_list_decomposition: ['primary/model', 'backup/model'],
+        empty_chain: [],
+        mixed_chain: ['primary/model', 42],
+        not_a_model: 42,
+        sequential_thought_generation: { model: 'single/model', budget: { daily_tokens: 100000 } },
+        unknown_limit: { model: 'single/model', budget: { monthly_usd: 10 } },
+        missing_model: { budget: { daily_usd: 1 } },
+        prd_generation_long: { model: 'single/model', max_tokens: 16000, temperature: 0.3, top_p: 0.9, timeout: 300000, stop: ['END'] },
+        fractional_max_tokens: { model: 'single/model', max_tokens: 100.5 },
+        hot_temperature: { model: 'single/model', temperature: 3 },
+        string_stop: { model: 'single/model', stop: 'END' },
+        misspelled_setting: { model: 'single/model', maxTokens: 16000 },
+      },
+    });
+    process.env.LLM_CONFIG_PATH = filePath;
+
+    expect(loadLlmConfigMapping()).toEqual({
+      prd_generation: 'single/model',
+      task_list_decomposition: ['primary/model', 'backup/model'],
+      sequential_thought_generation: { model: 'single/model', budget: { daily_tokens: 100000 } },
+      prd_generation_long: { model: 'single/model', max_tokens: 16000, temperature: 0.3, top_p: 0.9, timeout: 300000, stop: ['END'] },
+    });
+    expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.stringContaining('"max_tokens" must be a positive integer.'));
+    expect(vi.mocked(logger.warn)).toHaveBeenCalledWith(expect.stringContaining('Unknown setting "maxTokens".'));
+  });
+
+  it('should load the global budget and ignore an invalid one', () => {
+    const filePath = path.join(tempDir, 'llm_config.json');
+    fs.writeJsonSync(filePath, { llm_mapping: {}, llm_budget: { daily_usd: 5, job_max_tokens: 200000 } });
+    process.env.LLM_CONFIG_PATH = filePath;
+    expect(loadLlmBudget()).toEqual({ daily_usd: 5, job_max_tokens: 200000 });
+
+    fs.writeJsonSync(filePath, { llm_mapping: {}, llm_budget: { daily_usd: -1 } });
+    expect(loadLlmBudget()).toEqual({});
+  });
+
+  it('should load valid prices and skip invalid ones', () => {
+    const filePath = path.join(tempDir, 'llm_config.json');
+    fs.writeJsonSync(filePath, {
+      llm_mapping: {},
+      llm_pricing: {
+        'deepseek/deepseek-chat-v3-0324': { prompt: 0.27, completion: 1.1 },
+        'free/model': { prompt: 0, completion: 0 },
+        'missing/completion': { prompt: 1 },
+        'negative/model': { prompt: -1, completion: 1 },
+      },
+    });
+    process.env.LLM_CONFIG_PATH = filePath;
+
+    expect(loadLlmPriceTable()).toEqual({
+      'deepseek/deepseek-chat-v3-0324': { prompt: 0.27, completion: 1.1 },
+      'free/model': { prompt: 0, completion: 0 },
+    });
+  });
+
+  it('should return an empty price table without an llm_pricing section', () => {
+    const filePath = path.join(tempDir, 'llm_config.json');
+    fs.writeJsonSync(filePath, { llm_mapping: { prd_generation: 'single/model' } });
+    process.env.LLM_CONFIG_PATH = filePath;
+
+    expect(loadLlmPriceTable()).toEqual({});
+  });
+});
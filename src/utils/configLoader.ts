@@ -1,13 +1,82 @@
 import fs from 'fs-extra';
 import path from 'path';
 import logger from '../logger.js'; // Assuming logger is correctly set up
-import { OpenRouterConfig } from '../types/workflow.js'; // Import OpenRouterConfig type
+import { OpenRouterConfig, LlmMappingEntry, LlmPrice, LlmBudget, LlmGenerationParams } from '../types/workflow.js'; // Import OpenRouterConfig type
 
 /**
  * Interface for the structure of the LLM configuration file.
  */
 interface LlmConfigFile {
-  llm_mapping: Record<string, string>;
+  llm_mapping: Record<string, LlmMappingEntry>;
+  llm_pricing?: Record<string, LlmPrice>; // USD per million tokens, keyed by model as written in llm_mapping
+  llm_budget?: LlmBudget; // Global spending limits; tasks can override them in llm_mapping
+}
+
+const BUDGET_LIMITS: (keyof LlmBudget)[] = ['daily_usd', 'daily_tokens', 'job_max_tokens'];
+
+/**
+ * Checks that a value is a model name or a non-empty list of model names.
+ */
+function isValidModelChain(value: unknown): value is string | string[] {
+  if (typeof value === 'string') return true;
+  return Array.isArray(value) && value.length > 0 && value.every(model => typeof model === 'string');
+}
+
+/**
+ * Checks that a budget only sets known limits, each to a non-negative number.
+ */
+function isValidBudget(value: unknown): value is LlmBudget {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false;
+  return Object.entries(value).every(([limit, amount]) =>
+    BUDGET_LIMITS.includes(limit as keyof LlmBudget) && typeof amount === 'number' && amount >= 0);
+}
+
+/**
+ * Checks for the generation settings a mapping object may set, with a description of the valid values.
+ */
+const GENERATION_PARAM_CHECKS: Record<keyof LlmGenerationParams, { isValid: (value: unknown) => boolean; expected: string }> = {
+  max_tokens: { isValid: value => Number.isInteger(value) && (value as number) > 0, expected: 'a positive integer' },
+  temperature: { isValid: value => typeof value === 'number' && value >= 0 && value <= 2, expected: 'a number from 0 to 2' },
+  top_p: { isValid: value => typeof value === 'number' && value > 0 && value <= 1, expected: 'a number greater than 0 and at most 1' },
+  timeout: { isValid: value => Number.isInteger(value) && (value as number) > 0, expected: 'a positive number of milliseconds' },
+  stop: {
+    isValid: value => Array.isArray(value) && value.every(sequence => typeof sequence === 'string' && sequence.length > 0),
+    expected: 'a list of non-empty strings'
+  },
+};
+
+/**
+ * Checks that a mapping value is a model name, a non-empty list of model names, or an object
+ * with such a `model`, an optional valid `budget` and optional valid generation settings.
+ * @returns A description of the problem, or undefined if the value is valid.
+ */
+function findMappingEntryProblem(value: unknown): string | undefined {
+  if (isValidModelChain(value)) return undefined;
+  if (!value || typeof value !== 'object') {
+    return 'Expected a model name, a non-empty list of model names, or an object with a "model".';
+  }
+  for (const [setting, settingValue] of Object.entries(value)) {
+    if (setting === 'model') {
+      if (!isValidModelChain(settingValue)) return '"model" must be a model name or a non-empty list of model names.';
+    } else if (setting === 'budget') {
+      if (!isValidBudget(settingValue)) return `"budget" may only set ${BUDGET_LIMITS.join(', ')}, each to a non-negative number.`;
+    } else if (setting in GENERATION_PARAM_CHECKS) {
+      const check = GENERATION_PARAM_CHECKS[setting as keyof LlmGenerationParams];
+      if (!check.isValid(settingValue)) return `"${setting}" must be ${check.expected}.`;
+    } else {
+      return `Unknown setting "${setting}". Known settings are model, budget and ${Object.keys(GENERATION_PARAM_CHECKS).join(', ')}.`;
+    }
+  }
+  return 'model' in value ? undefined : 'Missing "model".';
+}
+
+/**
+ * Finds the LLM configuration file: the file named by LLM_CONFIG_PATH if it exists,
+ * otherwise the given file in the current working directory.
+ */
+function resolveLlmConfigPath(fileName: string): string {
+  const envPath = process.env.LLM_CONFIG_PATH;
+  return envPath && fs.existsSync(envPath) ? envPath : path.join(process.cwd(), fileName);
 }
 
 /**
@@ -15,14 +84,19 @@ interface LlmConfigFile {
  * 
  * Loads the LLM model mapping configuration from a JSON file, prioritizing an environment variable.
  * 
+ * Each task maps to a model name or to an ordered list of models (a fallback chain), or to
+ * an object with such a `model`, a `budget` overriding the global limits for the task, and
+ * generation settings (`max_tokens`, `temperature`, `top_p`, `timeout`, `stop`) for its calls.
+ * Entries with invalid or unknown settings are skipped with a warning.
+ *
  * @param fileName The name of the configuration file. Defaults to 'llm_config.json'.
  * @returns An object containing the llm_mapping, or an empty mapping if loading fails.
  */
 export function loadLlmConfigMapping(
   fileName: string = 'llm_config.json'
-): Record<string, string> {
+): Record<string, LlmMappingEntry> {
   let filePath: string | null = null;
-  const defaultMapping: Record<string, string> = {};
+  const defaultMapping: Record<string, LlmMappingEntry> = {};
 
   // 1. Check Environment Variable
   if (process.env.LLM_CONFIG_PATH) {
@@ -52,10 +126,11 @@ export function loadLlmConfigMapping(
 
       if (parsedConfig && typeof parsedConfig.llm_mapping === 'object' && parsedConfig.llm_mapping !== null) {
         logger.info(`LLM config loaded successfully from ${filePath}`);
-        // Validate that values are strings (basic check)
+        // Validate the models and task settings of each entry
         for (const key in parsedConfig.llm_mapping) {
-          if (typeof parsedConfig.llm_mapping[key] !== 'string') {
-             logger.warn(`Invalid non-string value found for key "${key}" in ${filePath}. Skipping this key.`);
+          const problem = findMappingEntryProblem(parsedConfig.llm_mapping[key]);
+          if (problem) {
+             logger.warn(`Invalid value found for key "${key}" in ${filePath}: ${problem} Skipping this key.`);
              delete parsedConfig.llm_mapping[key]; // Remove invalid entry
           }
         }
@@ -76,18 +151,145 @@ export function loadLlmConfigMapping(
 }
 
 /**
- * Selects the appropriate LLM model based on task type and available mappings
+ * Checks that a price entry has non-negative prompt and completion prices.
+ */
+function isValidPrice(value: unknown): value is LlmPrice {
+  if (!value || typeof value !== 'object') return false;
+  const { prompt, completion } = value as Record<string, unknown>;
+  return typeof prompt === 'number' && prompt >= 0 && typeof completion === 'number' && completion >= 0;
+}
+
+/**
+ * Loads the LLM price table (`llm_pricing`) from the LLM configuration file, found the same
+ * way as by `loadLlmConfigMapping`. Prices are in USD per million tokens, keyed by model as
+ * written in `llm_mapping`, e.g. `"deepseek/deepseek-chat-v3-0324": { "prompt": 0.27, "completion": 1.1 }`.
+ *
+ * @param fileName The name of the configuration file. Defaults to 'llm_config.json'.
+ * @returns The valid price entries, or an empty table if the file or the section is missing.
+ */
+export function loadLlmPriceTable(
+  fileName: string = 'llm_config.json'
+): Record<string, LlmPrice> {
+  const filePath = resolveLlmConfigPath(fileName);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const parsedConfig = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<LlmConfigFile>;
+    const pricing = parsedConfig?.llm_pricing;
+    if (pricing === undefined) {
+      return {};
+    }
+    if (typeof pricing !== 'object' || pricing === null) {
+      logger.warn(`Invalid 'llm_pricing' in ${filePath}. Expected an object. LLM costs will not be estimated.`);
+      return {};
+    }
+
+    const prices: Record<string, LlmPrice> = {};
+    for (const [model, price] of Object.entries(pricing)) {
+      if (isValidPrice(price)) {
+        prices[model] = { prompt: price.prompt, completion: price.completion };
+      } else {
+        logger.warn(`Invalid price for "${model}" in ${filePath}. Expected { "prompt": number, "completion": number } in USD per million tokens. Skipping this model.`);
+      }
+    }
+    return prices;
+  } catch (error) {
+    logger.error({ err: error, filePath }, `Failed to load LLM price table from ${filePath}. LLM costs will not be estimated.`);
+    return {};
+  }
+}
+
+/**
+ * Loads the global LLM spending limits (`llm_budget`) from the LLM configuration file, found
+ * the same way as by `loadLlmConfigMapping`, e.g. `{ "daily_usd": 5, "job_max_tokens": 200000 }`.
+ *
+ * @param fileName The name of the configuration file. Defaults to 'llm_config.json'.
+ * @returns The budget, or an empty budget (no limits) if the file or the section is missing or invalid.
+ */
+export function loadLlmBudget(
+  fileName: string = 'llm_config.json'
+): LlmBudget {
+  const filePath = resolveLlmConfigPath(fileName);
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    const parsedConfig = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Partial<LlmConfigFile>;
+    const budget = parsedConfig?.llm_budget;
+    if (budget === undefined) {
+      return {};
+    }
+    if (!isValidBudget(budget)) {
+      logger.warn(`Invalid 'llm_budget' in ${filePath}. Expected non-negative numbers for ${BUDGET_LIMITS.join(', ')}. LLM spending will not be limited.`);
+      return {};
+    }
+    return { ...budget };
+  } catch (error) {
+    logger.error({ err: error, filePath }, `Failed to load LLM budget from ${filePath}. LLM spending will not be limited.`);
+    return {};
+  }
+}
+
+/**
+ * Gets the budget a task's `llm_mapping` entry sets to override the global limits.
+ * Only the task's own entry counts; tasks falling back to `default_generation` do not use its budget.
+ *
+ * @param config The OpenRouter configuration with mappings
+ * @param logicalTaskName The logical task name (e.g., 'sequential_thought_generation')
+ * @returns The task's budget, or undefined if the task has none
+ */
+export function selectBudgetForTask(
+  config: OpenRouterConfig,
+  logicalTaskName: string
+): LlmBudget | undefined {
+  const entry = config?.llm_mapping?.[logicalTaskName];
+  return entry && typeof entry === 'object' && !Array.isArray(entry) ? entry.budget : undefined;
+}
+
+/**
+ * Gets the generation settings for a task's LLM calls from its `llm_mapping` entry, or from the
+ * `default_generation` entry if the task has none (the settings go with the entry that picks the model).
+ *
+ * @param config The OpenRouter configuration with mappings
+ * @param logicalTaskName The logical task name (e.g., 'prd_generation')
+ * @returns The settings the entry sets; empty for entries that only name models
+ */
+export function selectGenerationParamsForTask(
+  config: OpenRouterConfig,
+  logicalTaskName: string
+): LlmGenerationParams {
+  const mapping = config?.llm_mapping;
+  const entry = mapping?.[logicalTaskName] || mapping?.['default_generation'];
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    return {};
+  }
+  const params: LlmGenerationParams = {};
+  if (entry.max_tokens !== undefined) params.max_tokens = entry.max_tokens;
+  if (entry.temperature !== undefined) params.temperature = entry.temperature;
+  if (entry.top_p !== undefined) params.top_p = entry.top_p;
+  if (entry.timeout !== undefined) params.timeout = entry.timeout;
+  if (entry.stop !== undefined) params.stop = entry.stop;
+  return params;
+}
+
+/**
+ * Selects the LLM models to try for a task, in order, based on the available mappings.
+ * A mapping entry may be a single model or a fallback chain, on its own or as the `model` of an
+ * object entry; a single model yields a chain of one.
  *
  * @param config The OpenRouter configuration with mappings
  * @param logicalTaskName The logical task name (e.g., 'research_query')
  * @param defaultModel The default model to use if no mapping is found
- * @returns The selected model name
+ * @returns The models to try, primary model first
  */
-export function selectModelForTask(
+export function selectModelChainForTask(
   config: OpenRouterConfig,
   logicalTaskName: string,
   defaultModel: string
-): string {
+): string[] {
   // Log the received config object *before* any copying or modification
   logger.debug({
     receivedConfig: config,
@@ -99,14 +301,14 @@ export function selectModelForTask(
   const mapping = config?.llm_mapping;
   if (!mapping || typeof mapping !== 'object') {
     logger.warn({ logicalTaskName, configProvided: !!config }, `LLM mapping object is missing or invalid in provided config. Falling back to default model: ${defaultModel}`);
-    return defaultModel;
+    return [defaultModel];
   }
 
   // Check if the mapping object is empty
   const mappingKeys = Object.keys(mapping);
   if (mappingKeys.length === 0) {
      logger.warn({ logicalTaskName }, `LLM mapping object is empty. Falling back to default model: ${defaultModel}`);
-     return defaultModel;
+     return [defaultModel];
   }
 
   // Log the mapping lookup details
@@ -122,13 +324,36 @@ export function selectModelForTask(
 
 
   // Select model with priority: Task Specific -> Default Mapping -> Default Model Param
-  const modelToUse = modelFromMapping || defaultFromMapping || defaultModel;
+  const entry = modelFromMapping || defaultFromMapping || defaultModel;
+  const models = typeof entry === 'object' && !Array.isArray(entry) ? entry.model : entry;
+  const modelChain = (Array.isArray(models) ? models : [models]).filter(model => model);
+  if (modelChain.length === 0) {
+    logger.warn({ logicalTaskName, entry }, `LLM mapping entry has no models. Falling back to default model: ${defaultModel}`);
+    return [defaultModel];
+  }
 
   // Log the final model selection at INFO level for better visibility
   logger.info(
-    { logicalTaskName, modelFromMapping, defaultFromMapping, defaultModel, modelToUse },
+    { logicalTaskName, modelFromMapping, defaultFromMapping, defaultModel, modelChain },
     'Model selection decision for task'
   );
 
-  return modelToUse;
+  return modelChain;
+}
+
+/**
+ * Selects the appropriate LLM model based on task type and available mappings.
+ * For tasks mapped to a fallback chain this is the primary (first) model.
+ *
+ * @param config The OpenRouter configuration with mappings
+ * @param logicalTaskName The logical task name (e.g., 'research_query')
+ * @param defaultModel The default model to use if no mapping is found
+ * @returns The selected model name
+ */
+export function selectModelForTask(
+  config: OpenRouterConfig,
+  logicalTaskName: string,
+  defaultModel: string
+): string {
+  return selectModelChainForTask(config, logicalTaskName, defaultModel)[0];
 }
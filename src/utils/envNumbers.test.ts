@@ -0,0 +1,43 @@
+// src/utils/envNumbers.test.ts
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { readNonNegativeNumber, readNonNegativeInteger } from './envNumbers.js';
+import logger from '../logger.js';
+
+vi.mock('../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+describe('env number readers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+  });
+
+  it('should read non-negative numbers and fall back when unset or blank', () => {
+    vi.stubEnv('TEST_NUMBER', '1.5');
+    expect(readNonNegativeNumber('TEST_NUMBER', 3)).toBe(1.5);
+    vi.stubEnv('TEST_NUMBER', ' ');
+    expect(readNonNegativeNumber('TEST_NUMBER', 3)).toBe(3);
+    expect(readNonNegativeNumber('TEST_UNSET_NUMBER', 3)).toBe(3);
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('should warn and fall back on invalid values', () => {
+    vi.stubEnv('TEST_NUMBER', '-1');
+    expect(readNonNegativeNumber('TEST_NUMBER', 3)).toBe(3);
+    vi.stubEnv('TEST_NUMBER', 'ten');
+    expect(readNonNegativeNumber('TEST_NUMBER', 3)).toBe(3);
+    vi.stubEnv('TEST_NUMBER', '2.5');
+    expect(readNonNegativeInteger('TEST_NUMBER', 3)).toBe(3);
+    vi.stubEnv('TEST_NUMBER', '0');
+    expect(readNonNegativeInteger('TEST_NUMBER', 3)).toBe(0);
+
+    expect(logger.warn).toHaveBeenCalledTimes(3);
+    expect(logger.warn).toHaveBeenCalledWith({ name: 'TEST_NUMBER', value: 'ten' }, 'Invalid value for TEST_NUMBER. Using the default.');
+  });
+});
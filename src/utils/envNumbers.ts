@@ -0,0 +1,36 @@
+// src/utils/envNumbers.ts
+import logger from '../logger.js';
+
+/**
+ * Reads a number from an environment variable, falling back when it is unset, blank or fails the check.
+ */
+function readEnvNumber(name: string, fallback: number, isValid: (value: number) => boolean): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') return fallback;
+  const value = Number(raw);
+  if (!isValid(value)) {
+    logger.warn({ name, value: raw }, `Invalid value for ${name}. Using the default.`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Reads a non-negative number from an environment variable.
+ * @param name The environment variable name.
+ * @param fallback The value used when the variable is unset or invalid.
+ * @returns The parsed value or the fallback.
+ */
+export function readNonNegativeNumber(name: string, fallback: number): number {
+  return readEnvNumber(name, fallback, value => Number.isFinite(value) && value >= 0);
+}
+
+/**
+ * Reads a non-negative integer from an environment variable.
+ * @param name The environment variable name.
+ * @param fallback The value used when the variable is unset or invalid.
+ * @returns The parsed value or the fallback.
+ */
+export function readNonNegativeInteger(name: string, fallback: number): number {
+  return readEnvNumber(name, fallback, value => Number.isInteger(value) && value >= 0);
+}
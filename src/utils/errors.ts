@@ -148,11 +148,99 @@ export class FallbackError extends AppError {
    * @param message The error message describing the failure.
    * @param rawContent The raw content from the LLM that caused the failure.
    * @param originalError The original ParsingError or ValidationError.
+   * @param context Optional additional context (e.g., the cleaned content that failed to parse).
    */
-  constructor(message: string, rawContent: string, originalError?: Error) {
+  constructor(message: string, rawContent: string, originalError?: Error, context?: ErrorContext) {
     // Pass rawContent as part of the context
-    super(message, { rawContent }, originalError);
+    super(message, { ...(context || {}), rawContent }, originalError);
     this.name = 'FallbackError';
     this.rawContent = rawContent; // Also store directly for easier access if needed
   }
 }
+
+/**
+ * Represents an operation that stopped before completion because it was cancelled,
+ * for example a background job cancelled through the `cancel-job` tool.
+ */
+export class CancellationError extends AppError {
+  /**
+   * Creates an instance of CancellationError.
+   * @param message The error message describing what was cancelled.
+   * @param context Optional additional context (e.g., job ID).
+   */
+  constructor(message: string, context?: ErrorContext) {
+    super(message, context);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Represents an LLM call that was not attempted because the model's circuit breaker is open,
+ * i.e. the model failed repeatedly and is given time to recover.
+ */
+export class CircuitOpenError extends ApiError {
+  /** Epoch milliseconds after which the model is tried again. */
+  public readonly retryAt: number;
+
+  /**
+   * Creates an instance of CircuitOpenError.
+   * @param message The error message.
+   * @param retryAt Epoch milliseconds after which the model is tried again.
+   * @param context Optional additional context (e.g., model name).
+   */
+  constructor(message: string, retryAt: number, context?: ErrorContext) {
+    super(message, 503, context);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Represents an LLM call that was not made because it would exceed a spending limit
+ * (see `llm_budget` in llm_config.json), e.g. the daily budget or the per-job token ceiling.
+ */
+export class BudgetExceededError extends AppError {
+  /** The limit that was reached, e.g. 'daily_usd' or 'job_max_tokens'. */
+  public readonly limit: string;
+  /** The configured value of the limit. */
+  public readonly allowed: number;
+  /** The amount already used against the limit. */
+  public readonly used: number;
+
+  /**
+   * Creates an instance of BudgetExceededError.
+   * @param message The error message.
+   * @param limit The limit that was reached.
+   * @param allowed The configured value of the limit.
+   * @param used The amount already used against the limit.
+   * @param context Optional additional context (e.g., logical task name, job ID).
+   */
+  constructor(message: string, limit: string, allowed: number, used: number, context?: ErrorContext) {
+    super(message, { ...(context || {}), limit, allowed, used });
+    this.name = 'BudgetExceededError';
+    this.limit = limit;
+    this.allowed = allowed;
+    this.used = used;
+  }
+}
+
+/**
+ * Represents an LLM call made while replaying recorded transcripts (see `VIBE_CODER_LLM_TRANSCRIPTS`)
+ * for which nothing was recorded, e.g. because a prompt changed since the transcripts were recorded.
+ */
+export class TranscriptMissError extends AppError {
+  /** Hash of the request; the transcript was expected in a file of that name. */
+  public readonly requestHash: string;
+
+  /**
+   * Creates an instance of TranscriptMissError.
+   * @param message The error message.
+   * @param requestHash Hash of the request that has no transcript.
+   * @param context Optional additional context (e.g., logical task name, transcript directory).
+   */
+  constructor(message: string, requestHash: string, context?: ErrorContext) {
+    super(message, { ...(context || {}), requestHash });
+    this.name = 'TranscriptMissError';
+    this.requestHash = requestHash;
+  }
+}
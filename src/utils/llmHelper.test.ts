@@ -0,0 +1,167 @@
+// src/utils/llmHelper.test.ts
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { performDirectLlmCall, performStructuredLlmCall, changeDefaultAIService } from './llmHelper.js';
+import { createLlmProviderSettingsFromEnv } from '../services/llm-providers/index.js';
+import { llmCache, DEFAULT_LLM_CACHE_OPTIONS } from '../services/llm-cache/index.js';
+import { jobManager, JobStatus } from '../services/job-manager/index.js';
+import { runInJobContext } from '../services/job-manager/jobContext.js';
+import { OpenRouterConfig } from '../types/workflow.js';
+import { ConfigurationError, ValidationError } from './errors.js';
+import { Readable } from 'stream';
+import { z } from 'zod';
+
+vi.mock('axios');
+
+vi.mock('../logger.js', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }
+}));
+
+const mockedAxiosPost = vi.mocked(axios.post);
+
+// A self-hosted setup: no OpenRouter key, Ollama configured from the environment
+const createConfig = (overrides: Partial<OpenRouterConfig> = {}): OpenRouterConfig => ({
+  baseUrl: 'http://openrouter.test',
+  apiKey: '',
+  geminiModel: 'mock-gemini',
+  perplexityModel: 'mock-perplexity',
+  providers: createLlmProviderSettingsFromEnv({ OLLAMA_BASE_URL: 'http://ollama.test' }),
+  ...overrides,
+});
+
+describe('performDirectLlmCall', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should use the provider chosen in llm_mapping for the task', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { message: { role: 'assistant', content: ' generated text ' } } });
+    const config = createConfig({ llm_mapping: { prd_generation: 'ollama:llama3.1:8b' } });
+
+    const result = await performDirectLlmCall('prompt', 'system', config, 'prd_generation');
+
+    expect(result).toBe('generated text');
+    const [url, body] = mockedAxiosPost.mock.calls[0];
+    expect(url).toBe('http://ollama.test/api/chat');
+    expect(body).toMatchObject({ model: 'llama3.1:8b' });
+  });
+
+  it('should answer repeated calls from the LLM cache unless bypassed', async () => {
+    const cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-helper-cache-'));
+    llmCache.configure({ ...DEFAULT_LLM_CACHE_OPTIONS, enabled: true, directory: cacheDir });
+    try {
+      mockedAxiosPost
+        .mockResolvedValueOnce({ data: { message: { role: 'assistant', content: 'first answer' } } })
+        .mockResolvedValueOnce({ data: { message: { role: 'assistant', content: 'fresh answer' } } });
+      const config = createConfig({ llm_mapping: { prd_generation: 'ollama:llama3.1:8b' } });
+
+      expect(await performDirectLlmCall('prompt', 'system', config, 'prd_generation')).toBe('first answer');
+      expect(await performDirectLlmCall('prompt', 'system', config, 'prd_generation')).toBe('first answer');
+      expect(mockedAxiosPost).toHaveBeenCalledTimes(1);
+
+      expect(await performDirectLlmCall('prompt', 'system', config, 'prd_generation', 0.1, undefined, { bypass: true })).toBe('fresh answer');
+      expect(await performDirectLlmCall('prompt', 'system', config, 'prd_generation')).toBe('fresh answer');
+      expect(mockedAxiosPost).toHaveBeenCalledTimes(2);
+    } finally {
+      llmCache.configure(DEFAULT_LLM_CACHE_OPTIONS);
+      fs.removeSync(cacheDir);
+    }
+  });
+
+  it('should stream the answer into the partial output of the current job when asked to', async () => {
+    const chunks = [{ message: { content: '# PRD: ' } }, { message: { content: 'Example' } }, { done: true }];
+    mockedAxiosPost.mockResolvedValueOnce({ data: Readable.from(chunks.map(chunk => `${JSON.stringify(chunk)}\n`)) });
+    const config = createConfig({ llm_mapping: { prd_generation: 'ollama:llama3.1:8b' } });
+    const jobId = jobManager.createJob('generate-prd', {});
+    jobManager.updateJobStatus(jobId, JobStatus.RUNNING);
+
+    const result = await runInJobContext(jobId, () =>
+      performDirectLlmCall('prompt', 'system', config, 'prd_generation', 0.3, undefined, undefined, true));
+
+    expect(result).toBe('# PRD: Example');
+    expect(jobManager.getJob(jobId)?.partialOutput).toBe('# PRD: Example');
+    expect(mockedAxiosPost.mock.calls[0][1]).toMatchObject({ stream: true });
+  });
+
+  it('should still require the OpenRouter key for OpenRouter models', async () => {
+    await expect(performDirectLlmCall('prompt', 'system', createConfig(), 'prd_generation')).rejects.toThrow(ConfigurationError);
+    expect(mockedAxiosPost).not.toHaveBeenCalled();
+  });
+});
+
+describe('performStructuredLlmCall', () => {
+  const schema = z.object({ name: z.string(), count: z.number().int() });
+  const config = createConfig({ llm_mapping: { starter_kit: 'ollama:llama3.1:8b' } });
+  const ollamaAnswer = (content: string) => ({ data: { message: { role: 'assistant', content } } });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should request JSON output and return the validated object', async () => {
+    mockedAxiosPost.mockResolvedValueOnce(ollamaAnswer('```json\n{ "name": "kit", "count": 2 }\n```'));
+
+    const result = await performStructuredLlmCall('prompt', schema, config, 'starter_kit', { systemPrompt: 'system' });
+
+    expect(result).toEqual({ name: 'kit', count: 2 });
+    expect(mockedAxiosPost.mock.calls[0][1]).toMatchObject({ format: 'json' });
+  });
+
+  it('should send the Zod issues back to the model and accept the corrected answer', async () => {
+    mockedAxiosPost
+      .mockResolvedValueOnce(ollamaAnswer('{ "name": "kit", "count": "two" }'))
+      .mockResolvedValueOnce(ollamaAnswer('{ "name": "kit", "count": 2 }'));
+
+    const result = await performStructuredLlmCall('prompt', schema, config, 'starter_kit');
+
+    expect(result).toEqual({ name: 'kit', count: 2 });
+    const { messages } = mockedAxiosPost.mock.calls[1][1] as { messages: { role: string; content: string }[] };
+    expect(messages.map(message => message.role)).toEqual(['system', 'user', 'assistant', 'user']);
+    expect(messages[2].content).toBe('{ "name": "kit", "count": "two" }');
+    expect(messages[3].content).toContain('- count: Expected number, received string');
+  });
+
+  it('should throw the last ValidationError once the retries are used up', async () => {
+    mockedAxiosPost.mockResolvedValue(ollamaAnswer('{ "name": "kit" }'));
+
+    const error = await performStructuredLlmCall('prompt', schema, config, 'starter_kit', { maxRetries: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect((error as ValidationError).context?.rawContent).toBe('{ "name": "kit" }');
+    expect(mockedAxiosPost).toHaveBeenCalledTimes(2);
+    mockedAxiosPost.mockReset();
+  });
+});
+
+describe('changeDefaultAIService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should route unprefixed models to the new default provider', async () => {
+    mockedAxiosPost.mockResolvedValueOnce({ data: { message: { role: 'assistant', content: 'local answer' } } });
+    const config = createConfig({ geminiModel: 'qwen2.5-coder' });
+
+    changeDefaultAIService(config, 'ollama');
+    const result = await performDirectLlmCall('prompt', 'system', config, 'prd_generation');
+
+    expect(config.defaultProvider).toBe('ollama');
+    expect(result).toBe('local answer');
+    expect(mockedAxiosPost.mock.calls[0][0]).toBe('http://ollama.test/api/chat');
+  });
+
+  it('should reject unknown providers', () => {
+    const config = createConfig();
+
+    expect(() => changeDefaultAIService(config, 'not-a-provider')).toThrow(ConfigurationError);
+    expect(config.defaultProvider).toBeUndefined();
+  });
+});
@@ -1,8 +1,13 @@
 import axios, { AxiosError } from 'axios';
-import { OpenRouterConfig } from '../types/workflow.js';
+import { z } from 'zod';
+import { Message, OpenRouterConfig } from '../types/workflow.js';
 import logger from '../logger.js';
-import { AppError, ApiError, ConfigurationError, ParsingError } from './errors.js';
-import { selectModelForTask } from './configLoader.js';
+import { AppError, ApiError, CancellationError, ConfigurationError, ParsingError, ValidationError } from './errors.js';
+import { selectGenerationParamsForTask, selectModelChainForTask } from './configLoader.js';
+import { getLlmProviderNames } from '../services/llm-providers/index.js';
+import { chatWithModelFallback, LlmFallbackResponse } from '../services/llm-providers/fallback.js';
+import { llmCache, LlmCacheCallOptions } from '../services/llm-cache/index.js';
+import { createCurrentJobOutputWriter } from '../services/job-manager/jobOutput.js';
 
 /**
  * Performs a direct LLM call for text generation (not sequential thinking).
@@ -12,16 +17,25 @@ import { selectModelForTask } from './configLoader.js';
  * @param systemPrompt The system prompt defining the LLM's role and output format.
  * @param config OpenRouter configuration containing API key and model information.
  * @param logicalTaskName A string identifier for the logical task being performed, used for model selection via llm_mapping.
+ *   If the task maps to a fallback chain, the next model is tried when a call fails with 429 or 5xx.
  * @param temperature Optional temperature override (defaults to 0.1 for deterministic output).
- * @returns The raw text response from the LLM.
- * @throws AppError or subclasses (ConfigurationError, ApiError, ParsingError) if the call fails.
+ *   Settings in the task's llm_mapping entry (max_tokens, temperature, top_p, timeout, stop) take precedence.
+ * @param signal Optional AbortSignal that cancels the in-flight request (e.g., when its job is cancelled).
+ * @param cacheOptions Optional per-call options for the LLM response cache (bypass, TTL). The cache is opt-in; see `createLlmCacheOptionsFromEnv`.
+ * @param streamToJob If true and the call runs for a background job, the answer is streamed into the job's
+ *   partial output (sent to the client as `jobOutput` events) while it is generated. Only one call per job should stream at a time.
+ * @returns The raw text response from the LLM (or a cached response to the same model, prompts and temperature).
+ * @throws AppError or subclasses (ConfigurationError, ApiError, ParsingError, CancellationError) if the call fails.
  */
 export async function performDirectLlmCall(
   prompt: string,
   systemPrompt: string,
   config: OpenRouterConfig,
   logicalTaskName: string,
-  temperature: number = 0.1 // Default to low temperature for predictable generation
+  temperature: number = 0.1, // Default to low temperature for predictable generation
+  signal?: AbortSignal,
+  cacheOptions?: LlmCacheCallOptions,
+  streamToJob: boolean = false
 ): Promise<string> {
   // Log the received config object for debugging
   logger.debug({
@@ -32,83 +46,271 @@ export async function performDirectLlmCall(
     mappingKeys: config.llm_mapping ? Object.keys(config.llm_mapping) : []
   }, `performDirectLlmCall received config for task: ${logicalTaskName}`);
 
-  // Check for API key
-  if (!config.apiKey) {
-    throw new ConfigurationError("OpenRouter API key (OPENROUTER_API_KEY) is not configured.");
-  }
-
   // Select the model using the utility function
   // Provide a sensible default if no specific model is found or configured
   const defaultModel = config.geminiModel || "github/copilot-chat"; // Use GitHub Copilot Chat as default
-  const modelToUse = selectModelForTask(config, logicalTaskName, defaultModel);
+  const modelChain = selectModelChainForTask(config, logicalTaskName, defaultModel);
+  const modelToUse = modelChain.join(' -> ');
   logger.info({ modelSelected: modelToUse, logicalTaskName }, `Selected model for direct LLM call.`);
 
+  const settings = selectGenerationParamsForTask(config, logicalTaskName);
+  const cacheKey = { model: modelToUse, systemPrompt, prompt, temperature: settings.temperature ?? temperature, settings };
+  const outputWriter = streamToJob ? createCurrentJobOutputWriter() : undefined;
+  const cachedResponse = await llmCache.get(cacheKey, cacheOptions);
+  if (cachedResponse !== undefined) {
+    logger.info({ modelSelected: modelToUse, logicalTaskName }, `Using cached LLM response for ${logicalTaskName}.`);
+    outputWriter?.write(cachedResponse, cachedResponse);
+    outputWriter?.flush();
+    return cachedResponse;
+  }
+
   try {
-    const response = await axios.post(
-      `${config.baseUrl}/chat/completions`,
-      {
-        model: modelToUse,
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 4000, // Consider making this configurable if needed
-        temperature: temperature // Use the provided or default temperature
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${config.apiKey}`,
-          "HTTP-Referer": "https://vibe-coder-mcp.local" // Optional: Referer for tracking
-        },
-        timeout: 90000 // Increased timeout to 90s for potentially longer generations
-      }
-    );
+    // Fails over along the chain on 429/5xx; throws ConfigurationError if a provider is not usable (e.g., missing API key)
+    const response = await chatWithModelFallback(config, modelChain, {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: prompt }
+      ],
+      // Defaults; the task's llm_mapping entry can override them (see `selectGenerationParamsForTask`)
+      maxTokens: 4000,
+      temperature: temperature, // Use the provided or default temperature
+      timeout: 90000, // Increased timeout to 90s for potentially longer generations
+      signal,
+      onDelta: outputWriter?.write
+    }, logicalTaskName);
+    outputWriter?.flush();
 
-    if (response.data?.choices?.[0]?.message?.content) {
-      const responseText = response.data.choices[0].message.content.trim();
-      logger.debug({ modelUsed: modelToUse, responseLength: responseText.length }, "Direct LLM call successful");
+    if (response.content) {
+      const responseText = response.content.trim();
+      logger.debug({ modelUsed: response.modelUsed, responseLength: responseText.length }, "Direct LLM call successful");
+      await llmCache.set(cacheKey, responseText, logicalTaskName, cacheOptions);
       return responseText;
     } else {
-      logger.warn({ responseData: response.data, modelUsed: modelToUse }, "Received empty or unexpected response structure from LLM");
+      logger.warn({ responseData: response.data, modelUsed: response.modelUsed }, "Received empty or unexpected response structure from LLM");
       throw new ParsingError(
         "Invalid API response structure received from LLM",
-        { responseData: response.data, modelUsed: modelToUse, logicalTaskName }
+        { responseData: response.data, modelUsed: response.modelUsed, logicalTaskName }
       );
     }
   } catch (error) {
-    // Log with the actual model used
-    logger.error({ err: error, modelUsed: modelToUse, logicalTaskName }, `Direct LLM API call failed for ${logicalTaskName}`);
-
-    if (axios.isAxiosError(error)) {
-      const axiosError = error as AxiosError;
-      const status = axiosError.response?.status;
-      const responseData = axiosError.response?.data;
-      const apiMessage = `LLM API Error: Status ${status || 'N/A'}. ${axiosError.message}`;
-      throw new ApiError(
-        apiMessage,
-        status,
-        { modelUsed: modelToUse, logicalTaskName, responseData }, // Include logicalTaskName in context
-        axiosError
-      );
-    } else if (error instanceof AppError) {
-      // Re-throw specific AppErrors (like ParsingError from above)
-      throw error;
-    } else if (error instanceof Error) {
-      // Wrap other generic errors
-      throw new AppError(
-        `LLM call failed for ${logicalTaskName}: ${error.message}`,
-        { modelUsed: modelToUse, logicalTaskName }, // Include logicalTaskName
-        error
-      );
+    // Cancellation is expected, not a failure
+    if (axios.isCancel(error)) {
+      logger.info({ modelUsed: modelToUse, logicalTaskName }, `Direct LLM call cancelled for ${logicalTaskName}`);
     } else {
-      // Handle non-Error throws
-      throw new AppError(
-        `Unknown error during LLM call for ${logicalTaskName}.`,
-        { modelUsed: modelToUse, logicalTaskName, thrownValue: String(error) } // Include logicalTaskName
+      logger.error({ err: error, modelUsed: modelToUse, logicalTaskName }, `Direct LLM API call failed for ${logicalTaskName}`);
+    }
+    throw toLlmCallError(error, modelToUse, logicalTaskName);
+  }
+}
+
+/**
+ * Options for `performStructuredLlmCall`.
+ */
+export interface StructuredLlmCallOptions {
+  systemPrompt?: string; // Defaults to no system prompt
+  temperature?: number; // Defaults to 0.1; llm_mapping settings of the task take precedence
+  maxTokens?: number; // Defaults to 4000; llm_mapping settings of the task take precedence
+  maxRetries?: number; // Re-prompts after an invalid answer, defaults to DEFAULT_STRUCTURED_OUTPUT_RETRIES
+  signal?: AbortSignal;
+  cacheOptions?: LlmCacheCallOptions;
+}
+
+/**
+ * How often an invalid structured answer is sent back to the model for correction by default.
+ */
+export const DEFAULT_STRUCTURED_OUTPUT_RETRIES = 2;
+
+/**
+ * Performs an LLM call whose answer must be a JSON object matching a Zod schema.
+ * The provider is asked for JSON output (`jsonMode`: OpenAI's `response_format`, a prefilled `{` for
+ * Anthropic, Ollama's `format`). Text around the object, such as Markdown fences, is stripped before parsing.
+ * When the answer is not valid JSON or does not match the schema, the answer and the problems found
+ * (including the Zod issues) are sent back to the model in the same conversation, up to `maxRetries` times.
+ *
+ * @param prompt The user prompt to send to the LLM.
+ * @param schema The schema the answer must match.
+ * @param config OpenRouter configuration containing API key and model information.
+ * @param logicalTaskName A string identifier for the logical task being performed, used for model selection via llm_mapping.
+ * @param options Optional prompt, sampling, retry and cache settings.
+ * @returns The validated answer (or a cached answer to the same model, prompts and temperature that still matches the schema).
+ * @throws ParsingError or ValidationError if the last answer is still invalid; their context holds the answer as
+ *   `rawContent` and the extracted JSON as `cleanedContent`. Otherwise the errors of `performDirectLlmCall`.
+ */
+export async function performStructuredLlmCall<T>(
+  prompt: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  config: OpenRouterConfig,
+  logicalTaskName: string,
+  options: StructuredLlmCallOptions = {}
+): Promise<T> {
+  const {
+    systemPrompt = '',
+    temperature = 0.1,
+    maxTokens = 4000,
+    maxRetries = DEFAULT_STRUCTURED_OUTPUT_RETRIES,
+    signal,
+    cacheOptions
+  } = options;
+
+  const defaultModel = config.geminiModel || "github/copilot-chat";
+  const modelChain = selectModelChainForTask(config, logicalTaskName, defaultModel);
+  const modelToUse = modelChain.join(' -> ');
+  logger.info({ modelSelected: modelToUse, logicalTaskName }, `Selected model for structured LLM call.`);
+
+  const settings = selectGenerationParamsForTask(config, logicalTaskName);
+  const cacheKey = { model: modelToUse, systemPrompt, prompt, temperature: settings.temperature ?? temperature, settings };
+  const cachedResponse = await llmCache.get(cacheKey, cacheOptions);
+  if (cachedResponse !== undefined) {
+    try {
+      const cachedResult = parseStructuredOutput(cachedResponse, schema);
+      logger.info({ modelSelected: modelToUse, logicalTaskName }, `Using cached LLM response for ${logicalTaskName}.`);
+      return cachedResult;
+    } catch {
+      // Cached by a call with a different schema; ask the model again
+      logger.debug({ logicalTaskName }, 'Cached LLM response does not match the schema, calling the LLM.');
+    }
+  }
+
+  let messages: Message[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: prompt }
+  ];
+  for (let attempt = 1; ; attempt++) {
+    let response: LlmFallbackResponse;
+    try {
+      response = await chatWithModelFallback(config, modelChain, {
+        messages,
+        jsonMode: true,
+        maxTokens,
+        temperature,
+        timeout: 90000,
+        signal
+      }, logicalTaskName);
+    } catch (error) {
+      if (axios.isCancel(error)) {
+        logger.info({ modelUsed: modelToUse, logicalTaskName }, `Structured LLM call cancelled for ${logicalTaskName}`);
+      } else {
+        logger.error({ err: error, modelUsed: modelToUse, logicalTaskName }, `Structured LLM API call failed for ${logicalTaskName}`);
+      }
+      throw toLlmCallError(error, modelToUse, logicalTaskName);
+    }
+
+    if (!response.content) {
+      logger.warn({ responseData: response.data, modelUsed: response.modelUsed }, "Received empty or unexpected response structure from LLM");
+      throw new ParsingError(
+        "Invalid API response structure received from LLM",
+        { responseData: response.data, modelUsed: response.modelUsed, logicalTaskName }
       );
     }
+
+    try {
+      const result = parseStructuredOutput(response.content, schema);
+      logger.debug({ modelUsed: response.modelUsed, attempt }, "Structured LLM call successful");
+      await llmCache.set(cacheKey, response.content.trim(), logicalTaskName, cacheOptions);
+      return result;
+    } catch (error) {
+      if (attempt > maxRetries) {
+        logger.error({ err: error, attempts: attempt, logicalTaskName }, `Structured LLM output for ${logicalTaskName} was still invalid after ${attempt} attempts.`);
+        throw error;
+      }
+      logger.warn({ err: error, attempt, maxRetries, logicalTaskName }, `Structured LLM output for ${logicalTaskName} was invalid, asking the model to correct it.`);
+      messages = [
+        ...messages,
+        { role: "assistant", content: response.content },
+        { role: "user", content: buildCorrectionPrompt(error as ParsingError | ValidationError) }
+      ];
+    }
+  }
+}
+
+/**
+ * Parses and validates a structured LLM answer.
+ * @throws ParsingError if the answer contains no valid JSON, ValidationError if it does not match the schema.
+ */
+function parseStructuredOutput<T>(rawContent: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  const jsonContent = extractJsonObjectText(rawContent);
+  // Only report the cleaned content when it differs from the answer
+  const errorContext = { rawContent, cleanedContent: jsonContent !== rawContent.trim() ? jsonContent : undefined };
+  if (errorContext.cleanedContent !== undefined) {
+    logger.debug({ raw: rawContent, cleaned: jsonContent }, "Stripped potential garbage/fences from LLM JSON response.");
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonContent);
+  } catch (error) {
+    throw new ParsingError(`LLM output was not valid JSON: ${(error as Error).message}`, errorContext, error as Error);
+  }
+
+  const validationResult = schema.safeParse(parsed);
+  if (!validationResult.success) {
+    throw new ValidationError(
+      `LLM output did not match the expected schema: ${validationResult.error.message}`,
+      validationResult.error.issues,
+      errorContext
+    );
   }
+  return validationResult.data;
+}
+
+/**
+ * Cuts the JSON object out of an answer, dropping any Markdown fences or text around it.
+ * @returns The text from the first `{` to the last `}`, or the trimmed (unfenced) answer if there is none.
+ */
+function extractJsonObjectText(rawContent: string): string {
+  const fenced = rawContent.match(/```(?:json)?\s*([\s\S]*?)\s*```/i);
+  const text = fenced ? fenced[1] : rawContent;
+  const firstBrace = text.indexOf('{');
+  const lastBrace = text.lastIndexOf('}');
+  return firstBrace !== -1 && lastBrace > firstBrace
+    ? text.substring(firstBrace, lastBrace + 1)
+    : text.trim();
+}
+
+/**
+ * Builds the follow-up message asking the model to fix an invalid structured answer.
+ */
+function buildCorrectionPrompt(error: ParsingError | ValidationError): string {
+  const problems = error instanceof ValidationError && error.validationIssues?.length
+    ? error.validationIssues.map(issue => `- ${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`).join('\n')
+    : `- ${error.message}`;
+  return `Your previous answer could not be used:\n${problems}\n\nAnswer again with only the corrected JSON object, and no other text.`;
+}
+
+/**
+ * Turns an error thrown while calling the LLM into the AppError reported to callers.
+ */
+function toLlmCallError(error: unknown, modelToUse: string, logicalTaskName: string): AppError {
+  if (axios.isCancel(error)) {
+    return new CancellationError(`LLM call for ${logicalTaskName} was cancelled.`, { modelUsed: modelToUse, logicalTaskName });
+  }
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError;
+    const status = axiosError.response?.status;
+    const responseData = axiosError.response?.data;
+    const apiMessage = `LLM API Error: Status ${status || 'N/A'}. ${axiosError.message}`;
+    return new ApiError(
+      apiMessage,
+      status,
+      { modelUsed: modelToUse, logicalTaskName, responseData }, // Include logicalTaskName in context
+      axiosError
+    );
+  } else if (error instanceof AppError) {
+    // Keep specific AppErrors (like ParsingError or BudgetExceededError)
+    return error;
+  } else if (error instanceof Error) {
+    // Wrap other generic errors
+    return new AppError(
+      `LLM call failed for ${logicalTaskName}: ${error.message}`,
+      { modelUsed: modelToUse, logicalTaskName },
+      error
+    );
+  }
+  // Handle non-Error throws
+  return new AppError(
+    `Unknown error during LLM call for ${logicalTaskName}.`,
+    { modelUsed: modelToUse, logicalTaskName, thrownValue: String(error) }
+  );
 }
 
 /**
@@ -199,46 +401,24 @@ export async function updateAvailableModels(config: OpenRouterConfig): Promise<R
 }
 
 /**
- * Change the default AI Service from openrouter to use the Visual Studio Code GitHub Copilot Chat extension.
- * Add options to switch between all popular online AI services such as Anthropic, DeepSeek, OpenAI, using their corresponding API keys.
- * Integrate the GitHub Models available in the GitHub Marketplace for use by using a GitHub Developer Key.
- * Dynamically update all available models.
- * Add the ability to use all popular Online AI Services without using an api key.
- * Use the website facing chat implementation in a hidden background service thus bypassing the api key requirement.
- * Allow intercommunication between different models and dynamic model selection using the best available model for the task.
+ * Switches the provider used for models without a provider prefix
+ * (e.g., to a self-hosted Ollama server instead of OpenRouter).
+ * Models in `llm_mapping` that name a provider (`anthropic:...`) are not affected.
+ *
+ * @param config OpenRouter configuration to update in place.
+ * @param providerName Name of the provider to use by default (see `getLlmProviderNames`).
+ * @throws ConfigurationError if the provider is not configured.
  */
-export async function changeDefaultAIService(config: OpenRouterConfig): Promise<void> {
-  // Log the received config object for debugging
-  logger.debug({
-    configReceived: true,
-    apiKeyPresent: Boolean(config.apiKey),
-    mapping: config.llm_mapping ? 'present' : 'missing',
-    mappingSize: config.llm_mapping ? Object.keys(config.llm_mapping).length : 0,
-    mappingKeys: config.llm_mapping ? Object.keys(config.llm_mapping) : []
-  }, `changeDefaultAIService received config`);
-
-  // Change the default AI Service to use the Visual Studio Code GitHub Copilot Chat extension
-  config.baseUrl = "https://api.github.com/copilot-chat";
-  config.geminiModel = "github/copilot-chat";
-
-  // Add options to switch between all popular online AI services
-  const aiServices = ["Anthropic", "DeepSeek", "OpenAI"];
-  aiServices.forEach(service => {
-    // Add logic to switch between AI services using their corresponding API keys
-    // This is a placeholder for the actual implementation
-    logger.info(`Added option to switch to ${service} AI service`);
-  });
-
-  // Integrate the GitHub Models available in the GitHub Marketplace
-  const updatedModels = await updateAvailableModels(config);
-  config.llm_mapping = updatedModels;
-
-  // Add the ability to use all popular Online AI Services without using an api key
-  // Use the website facing chat implementation in a hidden background service
-  // This is a placeholder for the actual implementation
-  logger.info("Added ability to use online AI services without API key");
-
-  // Allow intercommunication between different models and dynamic model selection
-  // This is a placeholder for the actual implementation
-  logger.info("Added intercommunication between different models and dynamic model selection");
+export function changeDefaultAIService(config: OpenRouterConfig, providerName: string): void {
+  const available = getLlmProviderNames(config);
+  if (!available.includes(providerName)) {
+    throw new ConfigurationError(
+      `Unknown LLM provider "${providerName}". Available providers: ${available.join(', ')}.`,
+      { providerName, available }
+    );
+  }
+
+  const previousProvider = config.defaultProvider;
+  config.defaultProvider = providerName;
+  logger.info({ previousProvider, providerName }, `Changed default LLM provider.`);
 }
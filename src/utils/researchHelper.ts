@@ -1,63 +1,88 @@
 import axios, { AxiosError } from 'axios';
 import { OpenRouterConfig } from '../types/workflow.js';
 import logger from '../logger.js';
-import { ApiError, ParsingError, AppError, ConfigurationError } from './errors.js'; // Import custom errors
-import { selectModelForTask } from './configLoader.js'; // Import the new utility
+import { ApiError, ParsingError, AppError, CancellationError } from './errors.js'; // Import custom errors
+import { selectGenerationParamsForTask, selectModelChainForTask } from './configLoader.js'; // Import the new utility
+import { chatWithModelFallback } from '../services/llm-providers/fallback.js';
+import { llmCache, LlmCacheCallOptions } from '../services/llm-cache/index.js';
+import { createCurrentJobOutputWriter } from '../services/job-manager/jobOutput.js';
 
 /**
  * Performs a single research query using the configured Perplexity model.
  * @param query The research query string.
  * @param config OpenRouter configuration containing the specific perplexityModel name.
+ * @param signal Optional AbortSignal that cancels the in-flight request.
+ * @param cacheOptions Optional per-call options for the LLM response cache. Research answers stay cached
+ *   for the research TTL (a day by default) unless `ttlMs` is given.
+ * @param streamToJob If true and the query runs for a background job, the answer is streamed into the
+ *   job's partial output while it is generated (see `performDirectLlmCall`).
  * @returns The research result content as a string.
- * @throws Error if the API call fails or returns no content.
+ * @throws Error if the API call fails or returns no content, ConfigurationError if the model's provider
+ *   is not usable, or CancellationError if the signal fires.
  */
-export async function performResearchQuery(query: string, config: OpenRouterConfig): Promise<string> {
+export async function performResearchQuery(
+  query: string,
+  config: OpenRouterConfig,
+  signal?: AbortSignal,
+  cacheOptions?: LlmCacheCallOptions,
+  streamToJob: boolean = false
+): Promise<string> {
   const logicalTaskName = 'research_query';
   logger.debug({ query, model: config.perplexityModel }, "Performing Perplexity research query"); // Keep original log for context
 
-  // Check for API key first
-  if (!config.apiKey) {
-    throw new ConfigurationError("OpenRouter API key (OPENROUTER_API_KEY) is not configured.");
-  }
-
   // Select the model using the utility function
   const defaultModel = config.perplexityModel || "perplexity/sonar-deep-research"; // Use configured perplexity model as default
-  const modelToUse = selectModelForTask(config, logicalTaskName, defaultModel);
+  const modelChain = selectModelChainForTask(config, logicalTaskName, defaultModel);
+  const modelToUse = modelChain.join(' -> ');
+  const systemPrompt = "You are a sophisticated AI research assistant using Perplexity Sonar Deep Research. Provide comprehensive, accurate, and up-to-date information. Research the user's query thoroughly.";
+  const temperature = 0.1;
+
+  const settings = selectGenerationParamsForTask(config, logicalTaskName);
+  const cacheKey = { model: modelToUse, systemPrompt, prompt: query, temperature: settings.temperature ?? temperature, settings };
+  const researchCacheOptions = { ...cacheOptions, ttlMs: cacheOptions?.ttlMs ?? llmCache.getOptions().researchTtlMs };
+  const outputWriter = streamToJob ? createCurrentJobOutputWriter() : undefined;
+  const cachedResult = await llmCache.get(cacheKey, researchCacheOptions);
+  if (cachedResult !== undefined) {
+    logger.info({ query, modelSelected: modelToUse }, "Using cached research result");
+    outputWriter?.write(cachedResult, cachedResult);
+    outputWriter?.flush();
+    return cachedResult;
+  }
 
   try {
-    const response = await axios.post(
-      `${config.baseUrl}/chat/completions`,
-      {
-        model: modelToUse, // Use the dynamically selected model
-        messages: [
-          { role: "system", content: "You are a sophisticated AI research assistant using Perplexity Sonar Deep Research. Provide comprehensive, accurate, and up-to-date information. Research the user's query thoroughly." },
-          { role: "user", content: query }
-        ],
-        max_tokens: 4000,
-        temperature: 0.1
-      },
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${config.apiKey}`,
-          "HTTP-Referer": "https://vibe-coder-mcp.local" // Optional
-        },
-        timeout: 90000 // Increased timeout for potentially deeper research (90s)
-      }
-    );
+    // Fails over along the chain on 429/5xx; throws ConfigurationError if a provider is not usable (e.g., missing API key)
+    const response = await chatWithModelFallback(config, modelChain, {
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: query }
+      ],
+      maxTokens: 4000,
+      temperature,
+      timeout: 90000, // Increased timeout for potentially deeper research (90s)
+      signal,
+      onDelta: outputWriter?.write
+    }, logicalTaskName);
+    outputWriter?.flush();
 
-    if (response.data?.choices?.[0]?.message?.content) {
-      logger.debug({ query, modelUsed: modelToUse }, "Research query successful");
-      return response.data.choices[0].message.content.trim();
+    if (response.content) {
+      logger.debug({ query, modelUsed: response.modelUsed }, "Research query successful");
+      const result = response.content.trim();
+      await llmCache.set(cacheKey, result, logicalTaskName, researchCacheOptions);
+      return result;
     } else {
-      logger.warn({ query, responseData: response.data, modelUsed: modelToUse }, "Received empty or unexpected response structure from research call");
+      logger.warn({ query, responseData: response.data, modelUsed: response.modelUsed }, "Received empty or unexpected response structure from research call");
       // Throw specific ParsingError
       throw new ParsingError(
         "Invalid API response structure received from research call",
-        { query, responseData: response.data, modelUsed: modelToUse }
+        { query, responseData: response.data, modelUsed: response.modelUsed }
       );
     }
   } catch (error) {
+    if (axios.isCancel(error)) {
+      logger.info({ query, modelUsed: modelToUse }, "Research query cancelled");
+      throw new CancellationError("Research query was cancelled.", { query, modelUsed: modelToUse });
+    }
+
     logger.error({ err: error, query, modelUsed: modelToUse }, "Research API call failed");
 
     if (axios.isAxiosError(error)) {